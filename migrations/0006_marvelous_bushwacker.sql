@@ -0,0 +1 @@
+ALTER TABLE `tournaments` ADD `team_size` integer DEFAULT 5 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `tournament_players` ADD `joined_at` text;--> statement-breakpoint
+ALTER TABLE `tournament_players` ADD `benched` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `tournaments` ADD `bench_priority` text;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE `pair_constraints` (
+	`player1_id` text NOT NULL,
+	`player2_id` text NOT NULL,
+	`type` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	PRIMARY KEY(`player1_id`, `player2_id`),
+	FOREIGN KEY (`player1_id`) REFERENCES `players`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`player2_id`) REFERENCES `players`(`id`) ON UPDATE no action ON DELETE no action
+);
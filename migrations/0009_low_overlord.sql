@@ -0,0 +1 @@
+ALTER TABLE `teams` ADD `seed` integer;
\ No newline at end of file
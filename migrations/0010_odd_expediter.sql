@@ -0,0 +1 @@
+ALTER TABLE `tournaments` ADD `objective` text DEFAULT 'total_diff' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `players` ADD `roles` text;--> statement-breakpoint
+ALTER TABLE `tournaments` ADD `role_coverage` text DEFAULT 'off' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `tournaments` ADD `variety_lookback` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `tournaments` ADD `variety_weight` real DEFAULT 10 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `split_options` (
+	`tournament_id` text NOT NULL,
+	`option` integer NOT NULL,
+	`seed` integer NOT NULL,
+	`teams` text NOT NULL,
+	`bench` text NOT NULL,
+	`adr_difference` real NOT NULL,
+	PRIMARY KEY(`tournament_id`, `option`),
+	FOREIGN KEY (`tournament_id`) REFERENCES `tournaments`(`id`) ON UPDATE no action ON DELETE no action
+);
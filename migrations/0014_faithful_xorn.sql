@@ -0,0 +1,3 @@
+ALTER TABLE `players` ADD `rating` real DEFAULT 1500 NOT NULL;--> statement-breakpoint
+ALTER TABLE `players` ADD `rated_matches` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `tournaments` ADD `balance_metric` text DEFAULT 'adr' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE `drafts` (
+	`tournament_id` text PRIMARY KEY NOT NULL,
+	`pick_order` text DEFAULT 'snake' NOT NULL,
+	`captains` text NOT NULL,
+	`picks` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`tournament_id`) REFERENCES `tournaments`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `tournament_players` ADD `premade_group` text;--> statement-breakpoint
+ALTER TABLE `tournaments` ADD `team_mode` text DEFAULT 'balanced' NOT NULL;
\ No newline at end of file
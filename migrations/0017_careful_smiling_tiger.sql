@@ -0,0 +1,11 @@
+CREATE TABLE `team_diagnostics` (
+	`tournament_id` text PRIMARY KEY NOT NULL,
+	`adr_difference` real NOT NULL,
+	`adr_std_dev` real NOT NULL,
+	`team_ranges` text NOT NULL,
+	`fairness` integer NOT NULL,
+	`runs` integer,
+	`elapsed_ms` integer,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`tournament_id`) REFERENCES `tournaments`(`id`) ON UPDATE no action ON DELETE no action
+);
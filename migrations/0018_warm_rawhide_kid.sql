@@ -0,0 +1 @@
+ALTER TABLE `tournament_players` ADD `pinned_team` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `tournaments` ADD `adr_source` text DEFAULT 'raw' NOT NULL;--> statement-breakpoint
+ALTER TABLE `tournaments` ADD `adr_decay` real DEFAULT 0.5 NOT NULL;
\ No newline at end of file
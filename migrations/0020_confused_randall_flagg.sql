@@ -0,0 +1 @@
+ALTER TABLE `teams` ADD `lobby` integer;
\ No newline at end of file
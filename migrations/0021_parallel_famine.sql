@@ -0,0 +1 @@
+ALTER TABLE `tournament_players` ADD `sit_outs` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
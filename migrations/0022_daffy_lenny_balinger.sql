@@ -0,0 +1,12 @@
+CREATE TABLE `mix_rounds` (
+	`tournament_id` text NOT NULL,
+	`round` integer NOT NULL,
+	`teams` text NOT NULL,
+	`bench` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	PRIMARY KEY(`tournament_id`, `round`),
+	FOREIGN KEY (`tournament_id`) REFERENCES `tournaments`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `matches` ADD `round` integer;--> statement-breakpoint
+ALTER TABLE `tournaments` ADD `format` text DEFAULT 'teams' NOT NULL;
\ No newline at end of file
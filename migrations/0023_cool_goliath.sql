@@ -0,0 +1,3 @@
+ALTER TABLE `tournaments` ADD `guild_id` text DEFAULT '' NOT NULL;--> statement-breakpoint
+UPDATE `tournaments` SET `guild_id` = '666909502951522304';--> statement-breakpoint
+ALTER TABLE `tournaments` ADD `channel_id` text;
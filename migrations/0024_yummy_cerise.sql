@@ -0,0 +1,16 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_pair_constraints` (
+	`guild_id` text NOT NULL,
+	`player1_id` text NOT NULL,
+	`player2_id` text NOT NULL,
+	`type` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	PRIMARY KEY(`guild_id`, `player1_id`, `player2_id`),
+	FOREIGN KEY (`player1_id`) REFERENCES `players`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`player2_id`) REFERENCES `players`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_pair_constraints`("guild_id", "player1_id", "player2_id", "type", "created_at") SELECT '666909502951522304', "player1_id", "player2_id", "type", "created_at" FROM `pair_constraints`;--> statement-breakpoint
+DROP TABLE `pair_constraints`;--> statement-breakpoint
+ALTER TABLE `__new_pair_constraints` RENAME TO `pair_constraints`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `player_ratings` (
+	`guild_id` text NOT NULL,
+	`player_id` text NOT NULL,
+	`rating` real DEFAULT 1500 NOT NULL,
+	`rated_matches` integer DEFAULT 0 NOT NULL,
+	PRIMARY KEY(`guild_id`, `player_id`),
+	FOREIGN KEY (`player_id`) REFERENCES `players`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `player_ratings`("guild_id", "player_id", "rating", "rated_matches") SELECT '666909502951522304', "id", "rating", "rated_matches" FROM `players` WHERE "rated_matches" > 0;--> statement-breakpoint
+ALTER TABLE `players` DROP COLUMN `rating`;--> statement-breakpoint
+ALTER TABLE `players` DROP COLUMN `rated_matches`;
\ No newline at end of file
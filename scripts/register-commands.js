@@ -19,12 +19,214 @@ const commands = [
 				name: "open",
 				description: "Open a new tournament (Admin only)",
 				type: 1, // SUB_COMMAND
+				options: [
+					{
+						name: "team_size",
+						description: "Players per team (default: 5)",
+						type: 4, // INTEGER type
+						required: false,
+						choices: [
+							{
+								name: "Wingman (2v2)",
+								value: 2,
+							},
+							{
+								name: "3v3",
+								value: 3,
+							},
+							{
+								name: "4v4",
+								value: 4,
+							},
+							{
+								name: "5v5",
+								value: 5,
+							},
+						],
+					},
+					{
+						name: "bench",
+						description:
+							"Who sits out when players don't divide evenly into teams",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "Latest joiners sit out",
+								value: "latest_joiner",
+							},
+							{
+								name: "Fewest games played sit out",
+								value: "fewest_games",
+							},
+							{
+								name: "Random players sit out",
+								value: "random",
+							},
+						],
+					},
+					{
+						name: "objective",
+						description:
+							"What team generation balances for (default: total ADR difference)",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "Total ADR difference",
+								value: "total_diff",
+							},
+							{
+								name: "Even skill spread within teams",
+								value: "spread_variance",
+							},
+							{
+								name: "One top player per team",
+								value: "star_distribution",
+							},
+							{
+								name: "Weighted mix of all objectives",
+								value: "weighted",
+							},
+						],
+					},
+					{
+						name: "role_coverage",
+						description:
+							"Whether every team should get an AWP and an IGL (default: off)",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "Off",
+								value: "off",
+							},
+							{
+								name: "Soft (prefer coverage, keep balance)",
+								value: "soft",
+							},
+							{
+								name: "Hard (coverage first, wherever possible)",
+								value: "hard",
+							},
+						],
+					},
+					{
+						name: "variety",
+						description:
+							"Avoid repeating teammates from this many past tournaments (0-10, default: 0)",
+						type: 4, // INTEGER type
+						required: false,
+						min_value: 0,
+						max_value: 10,
+					},
+					{
+						name: "variety_weight",
+						description:
+							"ADR difference worth avoiding one repeat pairing (default: 10)",
+						type: 10, // NUMBER type
+						required: false,
+						min_value: 0,
+						max_value: 100,
+					},
+					{
+						name: "metric",
+						description:
+							"Balance teams on submitted ADR or on match rating (default: adr)",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "ADR",
+								value: "adr",
+							},
+							{
+								name: "Match rating",
+								value: "rating",
+							},
+						],
+					},
+					{
+						name: "mode",
+						description: "How teams are formed (default: balanced)",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "Balanced",
+								value: "balanced",
+							},
+							{
+								name: "Random",
+								value: "random",
+							},
+							{
+								name: "Pre-made teams",
+								value: "premade",
+							},
+						],
+					},
+					{
+						name: "adr_source",
+						description:
+							"Generate teams from submitted ADR or ADR blended with match history (default: raw)",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "Submitted ADR",
+								value: "raw",
+							},
+							{
+								name: "Effective ADR",
+								value: "effective",
+							},
+						],
+					},
+					{
+						name: "adr_decay",
+						description:
+							"Weight of the latest match in effective ADR, shrinking per older match (0-1, default: 0.5)",
+						type: 10, // NUMBER type
+						required: false,
+						min_value: 0,
+						max_value: 1,
+					},
+					{
+						name: "format",
+						description:
+							"Score teams, or score players individually with teams reshuffled every round (default: teams)",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "Teams",
+								value: "teams",
+							},
+							{
+								name: "Mix (individual scoring)",
+								value: "mix",
+							},
+						],
+					},
+				],
 			},
 			{
 				name: "close",
 				description: "Close the current tournament (Admin only)",
 				type: 1, // SUB_COMMAND
 			},
+			{
+				name: "lock_registration",
+				description:
+					"Stop players from joining, leaving or changing their ADR (Admin only)",
+				type: 1, // SUB_COMMAND
+			},
+			{
+				name: "unlock_registration",
+				description: "Reopen registration (Admin only)",
+				type: 1, // SUB_COMMAND
+			},
 			{
 				name: "help",
 				description: "Show tournament command help and usage guide",
@@ -101,6 +303,148 @@ const commands = [
 						min_value: 1,
 						max_value: 200,
 					},
+					{
+						name: "bench",
+						description:
+							"Override the tournament's bench priority for this generation",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "Latest joiners sit out",
+								value: "latest_joiner",
+							},
+							{
+								name: "Fewest games played sit out",
+								value: "fewest_games",
+							},
+							{
+								name: "Random players sit out",
+								value: "random",
+							},
+						],
+					},
+					{
+						name: "seed",
+						description: "Random seed to reproduce a previous generation",
+						type: 4, // INTEGER type
+						required: false,
+						min_value: 0,
+						max_value: 4294967295,
+					},
+					{
+						name: "alternatives",
+						description:
+							"Offer this many distinct splits and pick one with buttons",
+						type: 4, // INTEGER type
+						required: false,
+						min_value: 1,
+						max_value: 5,
+					},
+					{
+						name: "time",
+						description:
+							"Seconds to search for the best split, instead of a run count (0.5-20)",
+						type: 10, // NUMBER type
+						required: false,
+						min_value: 0.5,
+						max_value: 20,
+					},
+					{
+						name: "mode",
+						description:
+							"How teams are formed, kept for later generations (default: tournament setting)",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "Balanced",
+								value: "balanced",
+							},
+							{
+								name: "Random",
+								value: "random",
+							},
+							{
+								name: "Pre-made teams",
+								value: "premade",
+							},
+						],
+					},
+					{
+						name: "lobbies",
+						description:
+							"Split players into this many lobbies and balance teams inside each (1-5, default: 1)",
+						type: 4, // INTEGER type
+						required: false,
+						min_value: 1,
+						max_value: 5,
+					},
+					{
+						name: "lobby_split",
+						description:
+							"How players are grouped into lobbies (default: tiered)",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "Tiered (strongest players together)",
+								value: "tiered",
+							},
+							{
+								name: "Mixed (equally strong lobbies)",
+								value: "mixed",
+							},
+						],
+					},
+				],
+			},
+			{
+				name: "draft",
+				description:
+					"Start a captain draft where captains pick teams with buttons (Admin only)",
+				type: 1, // SUB_COMMAND
+				options: [
+					{
+						name: "order",
+						description: "Pick order (default: snake)",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "Snake (1-2-2-1)",
+								value: "snake",
+							},
+							{
+								name: "Linear (1-2-1-2)",
+								value: "linear",
+							},
+						],
+					},
+					{
+						name: "captain1",
+						description: "Captain of TEAM1 (default: highest ADR left)",
+						type: 6, // USER type
+						required: false,
+					},
+					{
+						name: "captain2",
+						description: "Captain of TEAM2 (default: highest ADR left)",
+						type: 6, // USER type
+						required: false,
+					},
+					{
+						name: "captain3",
+						description: "Captain of TEAM3 (default: highest ADR left)",
+						type: 6, // USER type
+						required: false,
+					},
+					{
+						name: "captain4",
+						description: "Captain of TEAM4 (default: highest ADR left)",
+						type: 6, // USER type
+						required: false,
+					},
 				],
 			},
 			{
@@ -153,6 +497,26 @@ const commands = [
 					},
 				],
 			},
+			{
+				name: "rating",
+				description: "View match ratings, or rebuild them from match history",
+				type: 1, // SUB_COMMAND
+				options: [
+					{
+						name: "player",
+						description: "Player to show the rating of (default: leaderboard)",
+						type: 6, // USER type
+						required: false,
+					},
+					{
+						name: "recalculate",
+						description:
+							"Rebuild all ratings from recorded matches (Admin only)",
+						type: 5, // BOOLEAN type
+						required: false,
+					},
+				],
+			},
 			{
 				name: "exchange",
 				description: "Exchange two players between teams (Admin only)",
@@ -172,6 +536,26 @@ const commands = [
 					},
 				],
 			},
+			{
+				name: "rebalance",
+				description:
+					"Suggest the fewest swaps that rebalance the current teams (Admin only)",
+				type: 1, // SUB_COMMAND
+				options: [
+					{
+						name: "keep_locked",
+						description: "Leave players on locked teams where they are",
+						type: 5, // BOOLEAN type
+						required: false,
+					},
+					{
+						name: "keep_pinned",
+						description: "Leave pinned players where they are",
+						type: 5, // BOOLEAN type
+						required: false,
+					},
+				],
+			},
 			{
 				name: "add",
 				description: "Add a player to a specific team (Admin only)",
@@ -193,6 +577,182 @@ const commands = [
 					},
 				],
 			},
+			{
+				name: "pair",
+				description:
+					"Keep two players on the same team or on different teams (Admin only)",
+				type: 1, // SUB_COMMAND
+				options: [
+					{
+						name: "player1",
+						description: "First player",
+						type: 6, // USER type
+						required: true,
+					},
+					{
+						name: "player2",
+						description: "Second player",
+						type: 6, // USER type
+						required: true,
+					},
+					{
+						name: "rule",
+						description: "Pairing rule to apply",
+						type: 3, // STRING type
+						required: true,
+						choices: [
+							{
+								name: "Always together",
+								value: "together",
+							},
+							{
+								name: "Never together",
+								value: "apart",
+							},
+							{
+								name: "Clear rule",
+								value: "clear",
+							},
+						],
+					},
+				],
+			},
+			{
+				name: "show_pairs",
+				description: "Show pairing rules used in team generation",
+				type: 1, // SUB_COMMAND
+			},
+			{
+				name: "standings",
+				description: "Show individual standings of a mix tournament",
+				type: 1, // SUB_COMMAND
+			},
+			{
+				name: "pin",
+				description:
+					"Keep a player on a team when generating teams (Admin only)",
+				type: 1, // SUB_COMMAND
+				options: [
+					{
+						name: "player",
+						description: "Player to pin",
+						type: 6, // USER type
+						required: true,
+					},
+					{
+						name: "team",
+						description: "Team number to keep them on (leave empty to unpin)",
+						type: 4, // INTEGER type
+						required: false,
+						min_value: 1,
+						max_value: 20,
+					},
+				],
+			},
+			{
+				name: "team",
+				description: "Manage pre-made teams",
+				type: 2, // SUB_COMMAND_GROUP
+				options: [
+					{
+						name: "register",
+						description:
+							"Register a pre-made team with you on it, used in pre-made mode",
+						type: 1, // SUB_COMMAND
+						options: [
+							{
+								name: "teammate1",
+								description: "A teammate",
+								type: 6, // USER type
+								required: true,
+							},
+							{
+								name: "teammate2",
+								description: "Another teammate",
+								type: 6, // USER type
+								required: false,
+							},
+							{
+								name: "teammate3",
+								description: "Another teammate",
+								type: 6, // USER type
+								required: false,
+							},
+							{
+								name: "teammate4",
+								description: "Another teammate",
+								type: 6, // USER type
+								required: false,
+							},
+						],
+					},
+				],
+			},
+			{
+				name: "role",
+				description: "Set your preferred roles for team generation",
+				type: 1, // SUB_COMMAND
+				options: [
+					{
+						name: "primary",
+						description: "Your main role, or None to clear your roles",
+						type: 3, // STRING type
+						required: true,
+						choices: [
+							{
+								name: "AWP",
+								value: "awp",
+							},
+							{
+								name: "Entry",
+								value: "entry",
+							},
+							{
+								name: "IGL",
+								value: "igl",
+							},
+							{
+								name: "Support",
+								value: "support",
+							},
+							{
+								name: "None (clear roles)",
+								value: "none",
+							},
+						],
+					},
+					{
+						name: "secondary",
+						description: "A second role you are happy to play",
+						type: 3, // STRING type
+						required: false,
+						choices: [
+							{
+								name: "AWP",
+								value: "awp",
+							},
+							{
+								name: "Entry",
+								value: "entry",
+							},
+							{
+								name: "IGL",
+								value: "igl",
+							},
+							{
+								name: "Support",
+								value: "support",
+							},
+						],
+					},
+					{
+						name: "player",
+						description: "Player to set roles for (Admin only)",
+						type: 6, // USER type
+						required: false,
+					},
+				],
+			},
 		],
 	},
 ];
@@ -13,20 +13,70 @@ import {
 // Tournament management
 export const tournaments = sqliteTable("tournaments", {
 	id: text("id").primaryKey(), // "2025-08-30-1" format
+	guildId: text("guild_id").notNull(), // Discord server the tournament runs in
+	channelId: text("channel_id"), // Channel the tournament runs in, null when it is open to the whole server
 	status: text("status", { enum: ["open", "locked", "closed"] })
 		.notNull()
 		.default("open"),
+	teamSize: integer("team_size").notNull().default(5), // Players per team (2 = wingman, 5 = standard)
+	benchPriority: text("bench_priority", {
+		enum: ["latest_joiner", "fewest_games", "random"],
+	}), // Who sits out when player count isn't a multiple of team size, null disables the bench
+	objective: text("objective", {
+		enum: ["total_diff", "spread_variance", "star_distribution", "weighted"],
+	})
+		.notNull()
+		.default("total_diff"), // What team generation balances for
+	roleCoverage: text("role_coverage", { enum: ["off", "soft", "hard"] })
+		.notNull()
+		.default("off"), // How strictly every team must get the required roles (AWP, IGL)
+	varietyLookback: integer("variety_lookback").notNull().default(0), // Past tournaments whose teammate pairs are penalized, 0 disables variety mode
+	varietyWeight: real("variety_weight").notNull().default(10), // ADR difference worth avoiding one repeat pairing
+	balanceMetric: text("balance_metric", { enum: ["adr", "rating"] })
+		.notNull()
+		.default("adr"), // Player strength teams are balanced on: submitted ADR or match rating
+	teamMode: text("team_mode", { enum: ["balanced", "random", "premade"] })
+		.notNull()
+		.default("balanced"), // How generate_teams forms teams: balanced split, random split or registered pre-made teams
+	adrSource: text("adr_source", { enum: ["raw", "effective"] })
+		.notNull()
+		.default("raw"), // ADR teams are generated from: as submitted, or blended with match history
+	adrDecay: real("adr_decay").notNull().default(0.5), // Weight of the newest match in the effective ADR, halved per older match at 0.5
+	format: text("format", { enum: ["teams", "mix"] })
+		.notNull()
+		.default("teams"), // Teams compete as teams, or players score individually while teams are reshuffled every round
 	createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
+// Roles a player can declare as preferred
+export const playerRoles = ["awp", "entry", "igl", "support"] as const;
+
 // Player registry
 export const players = sqliteTable("players", {
 	id: text("id").primaryKey(), // Discord user ID
 	username: text("username"),
 	displayName: text("display_name"),
 	defaultAdr: real("default_adr"), // Default ADR for future tournaments
+	roles: text("roles", { mode: "json" }).$type<PlayerRole[]>(), // Preferred roles, null until declared
 });
 
+// Match ratings, kept per Discord server so every server rates its own matches.
+// Players without a row in a server have the default rating and no rated matches there.
+export const playerRatings = sqliteTable(
+	"player_ratings",
+	{
+		guildId: text("guild_id").notNull(),
+		playerId: text("player_id")
+			.notNull()
+			.references(() => players.id),
+		rating: real("rating").notNull().default(1500), // Elo-style rating from match results
+		ratedMatches: integer("rated_matches").notNull().default(0), // Matches the rating is based on
+	},
+	(table) => ({
+		pk: primaryKey({ columns: [table.guildId, table.playerId] }),
+	}),
+);
+
 // Tournament participation
 export const tournamentPlayers = sqliteTable(
 	"tournament_players",
@@ -41,6 +91,11 @@ export const tournamentPlayers = sqliteTable(
 		adrLocked: integer("adr_locked", { mode: "boolean" })
 			.notNull()
 			.default(false),
+		joinedAt: text("joined_at").$defaultFn(() => new Date().toISOString()), // Null for rows created before join tracking
+		benched: integer("benched", { mode: "boolean" }).notNull().default(false), // Sitting out the current generated teams
+		premadeGroup: text("premade_group"), // Player ID of whoever registered this player's pre-made team, null when not in one
+		pinnedTeam: text("pinned_team"), // Team the player is pre-assigned to ("TEAM1"), null to let generation place them
+		sitOuts: integer("sit_outs").notNull().default(0), // Generated teams the player sat out of, so the bench rotates
 	},
 	(table) => ({
 		pk: primaryKey({ columns: [table.tournamentId, table.playerId] }),
@@ -56,12 +111,85 @@ export const teams = sqliteTable(
 			.references(() => tournaments.id),
 		id: text("id").notNull(), // "TEAM1", "TEAM2", etc.
 		locked: integer("locked", { mode: "boolean" }).notNull().default(false),
+		seed: integer("seed"), // Random seed the split was generated with, null for manual edits and older rows
+		lobby: integer("lobby"), // 1-based lobby the team plays in when players were split into lobbies, highest tier first; null otherwise
 	},
 	(table) => ({
 		pk: primaryKey({ columns: [table.tournamentId, table.id] }),
 	}),
 );
 
+// Balance statistics of the saved teams, removed once the teams are edited by hand
+export const teamDiagnostics = sqliteTable("team_diagnostics", {
+	tournamentId: text("tournament_id")
+		.primaryKey()
+		.references(() => tournaments.id),
+	adrDifference: real("adr_difference").notNull(), // Highest minus lowest team total ADR
+	adrStdDev: real("adr_std_dev").notNull(), // Standard deviation of the team total ADRs
+	teamRanges: text("team_ranges", { mode: "json" })
+		.$type<{ id: string; minAdr: number; maxAdr: number }[]>()
+		.notNull(), // Weakest and strongest player ADR on each team
+	fairness: integer("fairness").notNull(), // 0-100 score shown with the teams
+	runs: integer("runs"), // Optimization runs made, null when the teams were picked rather than generated
+	elapsedMs: integer("elapsed_ms"),
+	createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Alternative splits from the last generation, waiting for an admin to pick one
+export const splitOptions = sqliteTable(
+	"split_options",
+	{
+		tournamentId: text("tournament_id")
+			.notNull()
+			.references(() => tournaments.id),
+		option: integer("option").notNull(), // 1-based, as numbered in the message
+		seed: integer("seed").notNull(), // Seed of the generation, so buttons from an older generation are rejected
+		teams: text("teams", { mode: "json" })
+			.$type<{ id: string; players: string[] }[]>()
+			.notNull(),
+		bench: text("bench", { mode: "json" }).$type<string[]>().notNull(), // Player IDs sitting out, the same for every option
+		adrDifference: real("adr_difference").notNull(),
+	},
+	(table) => ({
+		pk: primaryKey({ columns: [table.tournamentId, table.option] }),
+	}),
+);
+
+// Teams of every round of a mix tournament, as they were generated
+export const mixRounds = sqliteTable(
+	"mix_rounds",
+	{
+		tournamentId: text("tournament_id")
+			.notNull()
+			.references(() => tournaments.id),
+		round: integer("round").notNull(), // 1-based, in the order the rounds were generated
+		teams: text("teams", { mode: "json" })
+			.$type<{ id: string; players: string[] }[]>()
+			.notNull(),
+		bench: text("bench", { mode: "json" }).$type<string[]>().notNull(), // Player IDs sitting out the round
+		createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+	},
+	(table) => ({
+		pk: primaryKey({ columns: [table.tournamentId, table.round] }),
+	}),
+);
+
+// Captain draft in progress, at most one per tournament
+export const drafts = sqliteTable("drafts", {
+	tournamentId: text("tournament_id")
+		.primaryKey()
+		.references(() => tournaments.id),
+	pickOrder: text("pick_order", { enum: ["snake", "linear"] })
+		.notNull()
+		.default("snake"), // Snake reverses the captain order every round, linear keeps it
+	captains: text("captains", { mode: "json" }).$type<string[]>().notNull(), // Player IDs, the captain of TEAM1 first
+	picks: text("picks", { mode: "json" })
+		.$type<string[]>()
+		.notNull()
+		.$defaultFn(() => []), // Picked player IDs in pick order, the pick number decides the team
+	createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
 // Team composition
 export const teamPlayers = sqliteTable(
 	"team_players",
@@ -89,6 +217,7 @@ export const matches = sqliteTable("matches", {
 	team2Id: text("team2_id").notNull(),
 	score1: integer("score1").notNull(),
 	score2: integer("score2").notNull(),
+	round: integer("round"), // Mix round the match was played in, null outside mix tournaments
 	createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
@@ -110,14 +239,52 @@ export const matchTeamPlayers = sqliteTable(
 	}),
 );
 
+// Admin-managed pairing rules, applied as hard constraints during team generation.
+// Player IDs are stored in sorted order so each pair has a single rule per server.
+export const pairConstraints = sqliteTable(
+	"pair_constraints",
+	{
+		guildId: text("guild_id").notNull(), // Discord server the rule applies in
+		player1Id: text("player1_id")
+			.notNull()
+			.references(() => players.id),
+		player2Id: text("player2_id")
+			.notNull()
+			.references(() => players.id),
+		type: text("type", { enum: ["together", "apart"] }).notNull(),
+		createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+	},
+	(table) => ({
+		pk: primaryKey({
+			columns: [table.guildId, table.player1Id, table.player2Id],
+		}),
+	}),
+);
+
 // Message types removed - were only used for the old ping command
 
 // Type exports for tournament tables
 export type Tournament = typeof tournaments.$inferSelect;
 export type NewTournament = typeof tournaments.$inferInsert;
+export type TournamentSettings = Omit<
+	NewTournament,
+	"id" | "guildId" | "channelId" | "status" | "createdAt"
+>;
+// Where a tournament runs, every lookup of the open tournament is limited to it
+export type TournamentScope = Pick<Tournament, "guildId" | "channelId">;
+export type BenchPriority = NonNullable<Tournament["benchPriority"]>;
+export type BalancingObjective = Tournament["objective"];
+export type RoleCoverage = Tournament["roleCoverage"];
+export type BalanceMetric = Tournament["balanceMetric"];
+export type TeamMode = Tournament["teamMode"];
+export type AdrSource = Tournament["adrSource"];
+export type TournamentFormat = Tournament["format"];
 
 export type Player = typeof players.$inferSelect;
 export type NewPlayer = typeof players.$inferInsert;
+export type PlayerRole = (typeof playerRoles)[number];
+
+export type PlayerRating = typeof playerRatings.$inferSelect;
 
 export type TournamentPlayer = typeof tournamentPlayers.$inferSelect;
 export type NewTournamentPlayer = typeof tournamentPlayers.$inferInsert;
@@ -125,6 +292,19 @@ export type NewTournamentPlayer = typeof tournamentPlayers.$inferInsert;
 export type Team = typeof teams.$inferSelect;
 export type NewTeam = typeof teams.$inferInsert;
 
+export type TeamDiagnostics = typeof teamDiagnostics.$inferSelect;
+export type NewTeamDiagnostics = typeof teamDiagnostics.$inferInsert;
+
+export type SplitOption = typeof splitOptions.$inferSelect;
+export type NewSplitOption = typeof splitOptions.$inferInsert;
+
+export type MixRound = typeof mixRounds.$inferSelect;
+export type NewMixRound = typeof mixRounds.$inferInsert;
+
+export type Draft = typeof drafts.$inferSelect;
+export type NewDraft = typeof drafts.$inferInsert;
+export type DraftOrder = Draft["pickOrder"];
+
 export type TeamPlayer = typeof teamPlayers.$inferSelect;
 export type NewTeamPlayer = typeof teamPlayers.$inferInsert;
 
@@ -134,6 +314,10 @@ export type NewMatch = typeof matches.$inferInsert;
 export type MatchTeamPlayer = typeof matchTeamPlayers.$inferSelect;
 export type NewMatchTeamPlayer = typeof matchTeamPlayers.$inferInsert;
 
+export type PairConstraint = typeof pairConstraints.$inferSelect;
+export type NewPairConstraint = typeof pairConstraints.$inferInsert;
+export type PairConstraintType = PairConstraint["type"];
+
 // Indexes for better query performance
 export const tournamentStatusIndex = index("tournament_status_idx").on(
 	tournaments.status,
@@ -4,7 +4,8 @@ import type { Database } from "./index";
 export interface Env {
 	DB: D1Database;
 	DISCORD_PUBLIC_KEY: string;
-	ALLOWED_GUILD_ID?: string;
+	ALLOWED_GUILD_IDS?: string;
+	ALLOWED_GUILD_ID?: string; // Replaced by ALLOWED_GUILD_IDS, still read when that is unset
 	ENVIRONMENT?: string;
 	TOURNAMENT_ADMIN_ROLES?: string;
 	TOURNAMENT_TIMEZONE?: string;
@@ -1,21 +1,55 @@
-import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import {
+	and,
+	asc,
+	count,
+	countDistinct,
+	desc,
+	eq,
+	gt,
+	inArray,
+	isNotNull,
+	isNull,
+	ne,
+	or,
+	sql,
+} from "drizzle-orm";
 import type { Database } from "./index";
 import {
+	type Draft,
+	type DraftOrder,
+	drafts,
 	type Match,
+	type MixRound,
 	matches,
 	matchTeamPlayers,
+	mixRounds,
 	type NewMatch,
 	type NewMatchTeamPlayer,
 	type NewPlayer,
+	type NewSplitOption,
 	type NewTeam,
+	type NewTeamDiagnostics,
 	type NewTeamPlayer,
 	type NewTournament,
 	type NewTournamentPlayer,
+	type PairConstraint,
+	type PairConstraintType,
 	type Player,
+	type PlayerRating,
+	type PlayerRole,
+	pairConstraints,
+	playerRatings,
 	players,
+	type SplitOption,
+	splitOptions,
 	type Team,
+	type TeamDiagnostics,
+	type TeamMode,
 	type Tournament,
 	type TournamentPlayer,
+	type TournamentScope,
+	type TournamentSettings,
+	teamDiagnostics,
 	teamPlayers,
 	teams,
 	tournamentPlayers,
@@ -34,11 +68,17 @@ export class TournamentRepository {
 	constructor(private db: Database) {}
 
 	/**
-	 * Create a new tournament with the given ID
+	 * Create a new tournament with the given ID and settings where it runs
 	 */
-	async createTournament(id: string): Promise<void> {
+	async createTournament(
+		id: string,
+		scope: TournamentScope,
+		settings: TournamentSettings = {},
+	): Promise<void> {
 		try {
 			const newTournament: NewTournament = {
+				...settings,
+				...scope,
 				id,
 				status: "open",
 			};
@@ -50,14 +90,26 @@ export class TournamentRepository {
 	}
 
 	/**
-	 * Get the currently open tournament
+	 * Get the tournament currently open where the scope runs, whether or not its registration is locked
+	 * A tournament open to the whole server is found from every channel in it.
 	 */
-	async getOpenTournament(): Promise<Tournament | null> {
+	async getOpenTournament(scope: TournamentScope): Promise<Tournament | null> {
 		try {
 			const result = await this.db
 				.select()
 				.from(tournaments)
-				.where(eq(tournaments.status, "open"))
+				.where(
+					and(
+						inArray(tournaments.status, ["open", "locked"]),
+						eq(tournaments.guildId, scope.guildId),
+						scope.channelId === null
+							? isNull(tournaments.channelId)
+							: or(
+									eq(tournaments.channelId, scope.channelId),
+									isNull(tournaments.channelId),
+								),
+					),
+				)
 				.limit(1);
 
 			return result[0] || null;
@@ -97,6 +149,34 @@ export class TournamentRepository {
 		}
 	}
 
+	/**
+	 * Lock or reopen registration of an open tournament
+	 */
+	async setRegistrationLocked(id: string, locked: boolean): Promise<void> {
+		try {
+			await this.db
+				.update(tournaments)
+				.set({ status: locked ? "locked" : "open" })
+				.where(eq(tournaments.id, id));
+		} catch (error) {
+			throw new DatabaseError("Failed to set registration lock", error);
+		}
+	}
+
+	/**
+	 * Set how teams are formed for a tournament
+	 */
+	async setTeamMode(id: string, teamMode: TeamMode): Promise<void> {
+		try {
+			await this.db
+				.update(tournaments)
+				.set({ teamMode })
+				.where(eq(tournaments.id, id));
+		} catch (error) {
+			throw new DatabaseError("Failed to set team mode", error);
+		}
+	}
+
 	/**
 	 * Generate a unique tournament ID for the given date in YYYY-MM-DD-N format
 	 */
@@ -227,11 +307,17 @@ export class PlayerRepository {
 					playerId: tournamentPlayers.playerId,
 					adr: tournamentPlayers.adr,
 					adrLocked: tournamentPlayers.adrLocked,
+					joinedAt: tournamentPlayers.joinedAt,
+					benched: tournamentPlayers.benched,
+					premadeGroup: tournamentPlayers.premadeGroup,
+					pinnedTeam: tournamentPlayers.pinnedTeam,
+					sitOuts: tournamentPlayers.sitOuts,
 					player: {
 						id: players.id,
 						username: players.username,
 						displayName: players.displayName,
 						defaultAdr: players.defaultAdr,
+						roles: players.roles,
 					},
 				})
 				.from(tournamentPlayers)
@@ -243,6 +329,11 @@ export class PlayerRepository {
 				playerId: row.playerId,
 				adr: row.adr,
 				adrLocked: row.adrLocked,
+				joinedAt: row.joinedAt,
+				benched: row.benched,
+				premadeGroup: row.premadeGroup,
+				pinnedTeam: row.pinnedTeam,
+				sitOuts: row.sitOuts,
 				player: row.player || undefined,
 			}));
 		} catch (error) {
@@ -356,11 +447,17 @@ export class PlayerRepository {
 					playerId: tournamentPlayers.playerId,
 					adr: tournamentPlayers.adr,
 					adrLocked: tournamentPlayers.adrLocked,
+					joinedAt: tournamentPlayers.joinedAt,
+					benched: tournamentPlayers.benched,
+					premadeGroup: tournamentPlayers.premadeGroup,
+					pinnedTeam: tournamentPlayers.pinnedTeam,
+					sitOuts: tournamentPlayers.sitOuts,
 					player: {
 						id: players.id,
 						username: players.username,
 						displayName: players.displayName,
 						defaultAdr: players.defaultAdr,
+						roles: players.roles,
 					},
 				})
 				.from(tournamentPlayers)
@@ -377,6 +474,11 @@ export class PlayerRepository {
 				playerId: row.playerId,
 				adr: row.adr,
 				adrLocked: row.adrLocked,
+				joinedAt: row.joinedAt,
+				benched: row.benched,
+				premadeGroup: row.premadeGroup,
+				pinnedTeam: row.pinnedTeam,
+				sitOuts: row.sitOuts,
 				player: row.player || undefined,
 			}));
 		} catch (error) {
@@ -384,6 +486,348 @@ export class PlayerRepository {
 		}
 	}
 
+	/**
+	 * Mark the given players as benched, clearing the bench flag for everyone else
+	 */
+	async setBenchedPlayers(
+		tournamentId: string,
+		playerIds: string[],
+	): Promise<void> {
+		try {
+			await this.db
+				.update(tournamentPlayers)
+				.set({ benched: false })
+				.where(eq(tournamentPlayers.tournamentId, tournamentId));
+
+			if (playerIds.length > 0) {
+				await this.db
+					.update(tournamentPlayers)
+					.set({ benched: true })
+					.where(
+						and(
+							eq(tournamentPlayers.tournamentId, tournamentId),
+							inArray(tournamentPlayers.playerId, playerIds),
+						),
+					);
+			}
+		} catch (error) {
+			throw new DatabaseError("Failed to set benched players", error);
+		}
+	}
+
+	/**
+	 * Count one more sit-out for each of the given players
+	 */
+	async addSitOuts(tournamentId: string, playerIds: string[]): Promise<void> {
+		try {
+			if (playerIds.length === 0) {
+				return;
+			}
+
+			await this.db
+				.update(tournamentPlayers)
+				.set({ sitOuts: sql`${tournamentPlayers.sitOuts} + 1` })
+				.where(
+					and(
+						eq(tournamentPlayers.tournamentId, tournamentId),
+						inArray(tournamentPlayers.playerId, playerIds),
+					),
+				);
+		} catch (error) {
+			throw new DatabaseError("Failed to record sit-outs", error);
+		}
+	}
+
+	/**
+	 * Register the given players as one pre-made team, replacing the team the registering player had before
+	 * @param groupId Player ID of whoever registers the team
+	 */
+	async setPremadeGroup(
+		tournamentId: string,
+		groupId: string,
+		playerIds: string[],
+	): Promise<void> {
+		try {
+			await this.db
+				.update(tournamentPlayers)
+				.set({ premadeGroup: null })
+				.where(
+					and(
+						eq(tournamentPlayers.tournamentId, tournamentId),
+						eq(tournamentPlayers.premadeGroup, groupId),
+					),
+				);
+
+			await this.db
+				.update(tournamentPlayers)
+				.set({ premadeGroup: groupId })
+				.where(
+					and(
+						eq(tournamentPlayers.tournamentId, tournamentId),
+						inArray(tournamentPlayers.playerId, playerIds),
+					),
+				);
+		} catch (error) {
+			throw new DatabaseError("Failed to register pre-made team", error);
+		}
+	}
+
+	/**
+	 * Pre-assign a player to a team for the next generation
+	 * @param teamId Team ID such as "TEAM1", or null to unpin the player
+	 */
+	async setPinnedTeam(
+		tournamentId: string,
+		playerId: string,
+		teamId: string | null,
+	): Promise<void> {
+		try {
+			await this.db
+				.update(tournamentPlayers)
+				.set({ pinnedTeam: teamId })
+				.where(
+					and(
+						eq(tournamentPlayers.tournamentId, tournamentId),
+						eq(tournamentPlayers.playerId, playerId),
+					),
+				);
+		} catch (error) {
+			throw new DatabaseError("Failed to pin player", error);
+		}
+	}
+
+	/**
+	 * Set or clear the bench flag for a single player
+	 */
+	async setPlayerBenched(
+		tournamentId: string,
+		playerId: string,
+		benched: boolean,
+	): Promise<void> {
+		try {
+			await this.db
+				.update(tournamentPlayers)
+				.set({ benched })
+				.where(
+					and(
+						eq(tournamentPlayers.tournamentId, tournamentId),
+						eq(tournamentPlayers.playerId, playerId),
+					),
+				);
+		} catch (error) {
+			throw new DatabaseError("Failed to set player bench status", error);
+		}
+	}
+
+	/**
+	 * Set the pairing rule between two players in a server, replacing any existing rule for the pair there
+	 */
+	async setPairConstraint(
+		guildId: string,
+		playerId1: string,
+		playerId2: string,
+		type: PairConstraintType,
+	): Promise<void> {
+		const [player1Id, player2Id] = [playerId1, playerId2].sort() as [
+			string,
+			string,
+		];
+		try {
+			await this.db
+				.insert(pairConstraints)
+				.values({ guildId, player1Id, player2Id, type })
+				.onConflictDoUpdate({
+					target: [
+						pairConstraints.guildId,
+						pairConstraints.player1Id,
+						pairConstraints.player2Id,
+					],
+					set: { type },
+				});
+		} catch (error) {
+			throw new DatabaseError("Failed to set pair constraint", error);
+		}
+	}
+
+	/**
+	 * Remove the pairing rule between two players in a server
+	 * @returns true if a rule was removed
+	 */
+	async removePairConstraint(
+		guildId: string,
+		playerId1: string,
+		playerId2: string,
+	): Promise<boolean> {
+		const [player1Id, player2Id] = [playerId1, playerId2].sort() as [
+			string,
+			string,
+		];
+		try {
+			const removed = await this.db
+				.delete(pairConstraints)
+				.where(
+					and(
+						eq(pairConstraints.guildId, guildId),
+						eq(pairConstraints.player1Id, player1Id),
+						eq(pairConstraints.player2Id, player2Id),
+					),
+				)
+				.returning({ player1Id: pairConstraints.player1Id });
+
+			return removed.length > 0;
+		} catch (error) {
+			throw new DatabaseError("Failed to remove pair constraint", error);
+		}
+	}
+
+	/**
+	 * Get the pairing rules of a server, oldest first
+	 */
+	async getPairConstraints(guildId: string): Promise<PairConstraint[]> {
+		try {
+			return await this.db
+				.select()
+				.from(pairConstraints)
+				.where(eq(pairConstraints.guildId, guildId))
+				.orderBy(pairConstraints.createdAt);
+		} catch (error) {
+			throw new DatabaseError("Failed to get pair constraints", error);
+		}
+	}
+
+	/**
+	 * Update a player's preferred roles (null clears them)
+	 */
+	async updateRoles(
+		playerId: string,
+		roles: PlayerRole[] | null,
+	): Promise<void> {
+		try {
+			await this.db
+				.update(players)
+				.set({ roles })
+				.where(eq(players.id, playerId));
+		} catch (error) {
+			throw new DatabaseError("Failed to update player roles", error);
+		}
+	}
+
+	/**
+	 * Save new ratings in a server after a rated match (or a recalculation)
+	 */
+	async updateRatings(
+		guildId: string,
+		updates: { id: string; rating: number; ratedMatches: number }[],
+	): Promise<void> {
+		try {
+			for (const update of updates) {
+				await this.db
+					.insert(playerRatings)
+					.values({
+						guildId,
+						playerId: update.id,
+						rating: update.rating,
+						ratedMatches: update.ratedMatches,
+					})
+					.onConflictDoUpdate({
+						target: [playerRatings.guildId, playerRatings.playerId],
+						set: { rating: update.rating, ratedMatches: update.ratedMatches },
+					});
+			}
+		} catch (error) {
+			throw new DatabaseError("Failed to update ratings", error);
+		}
+	}
+
+	/**
+	 * Reset every player in a server to the default rating with no rated matches
+	 */
+	async resetRatings(guildId: string): Promise<void> {
+		try {
+			await this.db
+				.delete(playerRatings)
+				.where(eq(playerRatings.guildId, guildId));
+		} catch (error) {
+			throw new DatabaseError("Failed to reset ratings", error);
+		}
+	}
+
+	/**
+	 * Get the given players' ratings in a server, players who were never rated there are left out
+	 */
+	async getRatings(
+		guildId: string,
+		playerIds: string[],
+	): Promise<Map<string, { rating: number; ratedMatches: number }>> {
+		try {
+			const ratings = new Map<
+				string,
+				{ rating: number; ratedMatches: number }
+			>();
+			if (playerIds.length === 0) {
+				return ratings;
+			}
+
+			const result = await this.db
+				.select({
+					id: playerRatings.playerId,
+					rating: playerRatings.rating,
+					ratedMatches: playerRatings.ratedMatches,
+				})
+				.from(playerRatings)
+				.where(
+					and(
+						eq(playerRatings.guildId, guildId),
+						inArray(playerRatings.playerId, playerIds),
+					),
+				);
+
+			for (const row of result) {
+				ratings.set(row.id, {
+					rating: row.rating,
+					ratedMatches: row.ratedMatches,
+				});
+			}
+
+			return ratings;
+		} catch (error) {
+			throw new DatabaseError("Failed to get ratings", error);
+		}
+	}
+
+	/**
+	 * Get the highest rated players of a server who have played at least one rated match there
+	 */
+	async getTopRatedPlayers(
+		guildId: string,
+		limit: number,
+	): Promise<(Player & Pick<PlayerRating, "rating" | "ratedMatches">)[]> {
+		try {
+			return await this.db
+				.select({
+					id: players.id,
+					username: players.username,
+					displayName: players.displayName,
+					defaultAdr: players.defaultAdr,
+					roles: players.roles,
+					rating: playerRatings.rating,
+					ratedMatches: playerRatings.ratedMatches,
+				})
+				.from(playerRatings)
+				.innerJoin(players, eq(playerRatings.playerId, players.id))
+				.where(
+					and(
+						eq(playerRatings.guildId, guildId),
+						gt(playerRatings.ratedMatches, 0),
+					),
+				)
+				.orderBy(desc(playerRatings.rating))
+				.limit(limit);
+		} catch (error) {
+			throw new DatabaseError("Failed to get top rated players", error);
+		}
+	}
+
 	/**
 	 * Update a player's default ADR
 	 */
@@ -494,7 +938,8 @@ export class TeamRepository {
 	 */
 	async createTeams(
 		tournamentId: string,
-		teamData: { id: string; players: string[] }[],
+		teamData: { id: string; players: string[]; lobby?: number | null }[],
+		seed?: number,
 	): Promise<void> {
 		try {
 			console.log(
@@ -510,6 +955,8 @@ export class TeamRepository {
 				tournamentId,
 				id: team.id,
 				locked: false,
+				seed,
+				lobby: team.lobby ?? null,
 			}));
 
 			console.log("Inserting teams:", JSON.stringify(teamInserts, null, 2));
@@ -574,12 +1021,18 @@ export class TeamRepository {
 						playerId: tournamentPlayers.playerId,
 						adr: tournamentPlayers.adr,
 						adrLocked: tournamentPlayers.adrLocked,
+						joinedAt: tournamentPlayers.joinedAt,
+						benched: tournamentPlayers.benched,
+						premadeGroup: tournamentPlayers.premadeGroup,
+						pinnedTeam: tournamentPlayers.pinnedTeam,
+						sitOuts: tournamentPlayers.sitOuts,
 					},
 					player: {
 						id: players.id,
 						username: players.username,
 						displayName: players.displayName,
 						defaultAdr: players.defaultAdr,
+						roles: players.roles,
 					},
 				})
 				.from(teamPlayers)
@@ -603,6 +1056,11 @@ export class TeamRepository {
 						playerId: tp.playerId,
 						adr: tp.tournamentPlayer?.adr || null,
 						adrLocked: tp.tournamentPlayer?.adrLocked || false,
+						joinedAt: tp.tournamentPlayer?.joinedAt || null,
+						benched: tp.tournamentPlayer?.benched || false,
+						premadeGroup: tp.tournamentPlayer?.premadeGroup || null,
+						pinnedTeam: tp.tournamentPlayer?.pinnedTeam || null,
+						sitOuts: tp.tournamentPlayer?.sitOuts || 0,
 						player: tp.player || undefined,
 					})),
 			}));
@@ -668,11 +1126,63 @@ export class TeamRepository {
 
 			// Delete teams
 			await this.db.delete(teams).where(eq(teams.tournamentId, tournamentId));
+
+			// Their balance statistics go with them
+			await this.clearTeamDiagnostics(tournamentId);
 		} catch (error) {
 			throw new DatabaseError("Failed to clear teams", error);
 		}
 	}
 
+	/**
+	 * Save the balance statistics of the saved teams, replacing earlier ones
+	 */
+	async saveTeamDiagnostics(
+		tournamentId: string,
+		diagnostics: Omit<NewTeamDiagnostics, "tournamentId" | "createdAt">,
+	): Promise<void> {
+		try {
+			await this.clearTeamDiagnostics(tournamentId);
+			await this.db
+				.insert(teamDiagnostics)
+				.values({ tournamentId, ...diagnostics });
+		} catch (error) {
+			throw new DatabaseError("Failed to save team diagnostics", error);
+		}
+	}
+
+	/**
+	 * Get the balance statistics of the saved teams, null when they were edited by hand since
+	 */
+	async getTeamDiagnostics(
+		tournamentId: string,
+	): Promise<TeamDiagnostics | null> {
+		try {
+			const result = await this.db
+				.select()
+				.from(teamDiagnostics)
+				.where(eq(teamDiagnostics.tournamentId, tournamentId))
+				.limit(1);
+
+			return result[0] || null;
+		} catch (error) {
+			throw new DatabaseError("Failed to get team diagnostics", error);
+		}
+	}
+
+	/**
+	 * Remove the balance statistics of the saved teams, which no longer describe them after a manual edit
+	 */
+	async clearTeamDiagnostics(tournamentId: string): Promise<void> {
+		try {
+			await this.db
+				.delete(teamDiagnostics)
+				.where(eq(teamDiagnostics.tournamentId, tournamentId));
+		} catch (error) {
+			throw new DatabaseError("Failed to clear team diagnostics", error);
+		}
+	}
+
 	/**
 	 * Remove a specific player from all teams in a tournament
 	 */
@@ -689,11 +1199,261 @@ export class TeamRepository {
 						eq(teamPlayers.playerId, playerId),
 					),
 				);
+			await this.clearTeamDiagnostics(tournamentId);
 		} catch (error) {
 			throw new DatabaseError("Failed to remove player from teams", error);
 		}
 	}
 
+	/**
+	 * Get pairs of players who were teammates in the most recent tournaments before this one in the same server
+	 * @returns Each pair once (sorted IDs) with the number of those tournaments they shared a team in
+	 */
+	async getRecentTeammates(
+		tournamentId: string,
+		lookback: number,
+	): Promise<{ player1Id: string; player2Id: string; count: number }[]> {
+		try {
+			// Only tournaments run in the same server are history
+			const current = await this.db
+				.select({ guildId: tournaments.guildId })
+				.from(tournaments)
+				.where(eq(tournaments.id, tournamentId))
+				.limit(1);
+			if (!current[0]) {
+				return [];
+			}
+
+			const recent = await this.db
+				.select({ id: tournaments.id })
+				.from(tournaments)
+				.where(
+					and(
+						ne(tournaments.id, tournamentId),
+						eq(tournaments.guildId, current[0].guildId),
+					),
+				)
+				.orderBy(desc(tournaments.createdAt), desc(tournaments.id))
+				.limit(lookback);
+			if (recent.length === 0) {
+				return [];
+			}
+
+			const rows = await this.db
+				.select({
+					tournamentId: teamPlayers.tournamentId,
+					teamId: teamPlayers.teamId,
+					playerId: teamPlayers.playerId,
+				})
+				.from(teamPlayers)
+				.where(
+					inArray(
+						teamPlayers.tournamentId,
+						recent.map((t) => t.id),
+					),
+				);
+
+			const rosters = new Map<string, string[]>();
+			for (const row of rows) {
+				const key = `${row.tournamentId}:${row.teamId}`;
+				rosters.set(key, [...(rosters.get(key) ?? []), row.playerId]);
+			}
+
+			const counts = new Map<string, number>();
+			for (const roster of rosters.values()) {
+				const sorted = [...roster].sort();
+				for (let i = 0; i < sorted.length; i++) {
+					for (let j = i + 1; j < sorted.length; j++) {
+						const key = `${sorted[i]}:${sorted[j]}`;
+						counts.set(key, (counts.get(key) ?? 0) + 1);
+					}
+				}
+			}
+
+			return Array.from(counts, ([key, count]) => {
+				const [player1Id = "", player2Id = ""] = key.split(":");
+				return { player1Id, player2Id, count };
+			});
+		} catch (error) {
+			throw new DatabaseError("Failed to get recent teammates", error);
+		}
+	}
+
+	/**
+	 * Replace the alternative splits waiting to be picked for a tournament
+	 */
+	async saveSplitOptions(
+		tournamentId: string,
+		options: Omit<NewSplitOption, "tournamentId">[],
+	): Promise<void> {
+		try {
+			await this.clearSplitOptions(tournamentId);
+			if (options.length > 0) {
+				await this.db
+					.insert(splitOptions)
+					.values(options.map((option) => ({ ...option, tournamentId })));
+			}
+		} catch (error) {
+			throw new DatabaseError("Failed to save split options", error);
+		}
+	}
+
+	/**
+	 * Get one of the alternative splits waiting to be picked
+	 */
+	async getSplitOption(
+		tournamentId: string,
+		option: number,
+	): Promise<SplitOption | null> {
+		try {
+			const result = await this.db
+				.select()
+				.from(splitOptions)
+				.where(
+					and(
+						eq(splitOptions.tournamentId, tournamentId),
+						eq(splitOptions.option, option),
+					),
+				)
+				.limit(1);
+
+			return result[0] || null;
+		} catch (error) {
+			throw new DatabaseError("Failed to get split option", error);
+		}
+	}
+
+	/**
+	 * Discard the alternative splits waiting to be picked for a tournament
+	 */
+	async clearSplitOptions(tournamentId: string): Promise<void> {
+		try {
+			await this.db
+				.delete(splitOptions)
+				.where(eq(splitOptions.tournamentId, tournamentId));
+		} catch (error) {
+			throw new DatabaseError("Failed to clear split options", error);
+		}
+	}
+
+	/**
+	 * Save the teams of a mix round, replacing the round if it was generated before
+	 */
+	async saveMixRound(
+		tournamentId: string,
+		round: number,
+		roundTeams: MixRound["teams"],
+		bench: string[],
+	): Promise<void> {
+		try {
+			await this.db
+				.delete(mixRounds)
+				.where(
+					and(
+						eq(mixRounds.tournamentId, tournamentId),
+						eq(mixRounds.round, round),
+					),
+				);
+			await this.db
+				.insert(mixRounds)
+				.values({ tournamentId, round, teams: roundTeams, bench });
+		} catch (error) {
+			throw new DatabaseError("Failed to save mix round", error);
+		}
+	}
+
+	/**
+	 * Get the most recently generated round of a mix tournament
+	 */
+	async getLatestMixRound(tournamentId: string): Promise<MixRound | null> {
+		try {
+			const result = await this.db
+				.select()
+				.from(mixRounds)
+				.where(eq(mixRounds.tournamentId, tournamentId))
+				.orderBy(desc(mixRounds.round))
+				.limit(1);
+
+			return result[0] || null;
+		} catch (error) {
+			throw new DatabaseError("Failed to get mix round", error);
+		}
+	}
+
+	/**
+	 * Start a captain draft, replacing any draft already in progress
+	 */
+	async saveDraft(
+		tournamentId: string,
+		captains: string[],
+		pickOrder: DraftOrder,
+	): Promise<void> {
+		try {
+			await this.deleteDraft(tournamentId);
+			await this.db
+				.insert(drafts)
+				.values({ tournamentId, captains, pickOrder, picks: [] });
+		} catch (error) {
+			throw new DatabaseError("Failed to save draft", error);
+		}
+	}
+
+	/**
+	 * Get the captain draft in progress for a tournament
+	 */
+	async getDraft(tournamentId: string): Promise<Draft | null> {
+		try {
+			const result = await this.db
+				.select()
+				.from(drafts)
+				.where(eq(drafts.tournamentId, tournamentId))
+				.limit(1);
+
+			return result[0] || null;
+		} catch (error) {
+			throw new DatabaseError("Failed to get draft", error);
+		}
+	}
+
+	/**
+	 * Record the next draft pick, only if nobody picked since the draft was read
+	 * @param previousPicks Pick count the caller saw, a different count means the pick is stale
+	 * @returns boolean False when another pick got in first
+	 */
+	async addDraftPick(
+		tournamentId: string,
+		picks: string[],
+		previousPicks: number,
+	): Promise<boolean> {
+		try {
+			const updated = await this.db
+				.update(drafts)
+				.set({ picks })
+				.where(
+					and(
+						eq(drafts.tournamentId, tournamentId),
+						sql`json_array_length(${drafts.picks}) = ${previousPicks}`,
+					),
+				)
+				.returning({ tournamentId: drafts.tournamentId });
+
+			return updated.length > 0;
+		} catch (error) {
+			throw new DatabaseError("Failed to save draft pick", error);
+		}
+	}
+
+	/**
+	 * Discard the captain draft for a tournament
+	 */
+	async deleteDraft(tournamentId: string): Promise<void> {
+		try {
+			await this.db.delete(drafts).where(eq(drafts.tournamentId, tournamentId));
+		} catch (error) {
+			throw new DatabaseError("Failed to delete draft", error);
+		}
+	}
+
 	/**
 	 * Check if teams exist for a tournament
 	 */
@@ -728,6 +1488,24 @@ export class TeamRepository {
 		}
 	}
 
+	/**
+	 * Get the lobby of every team in a tournament, null for teams outside lobbies
+	 */
+	async getTeamLobbies(
+		tournamentId: string,
+	): Promise<Map<string, number | null>> {
+		try {
+			const result = await this.db
+				.select({ id: teams.id, lobby: teams.lobby })
+				.from(teams)
+				.where(eq(teams.tournamentId, tournamentId));
+
+			return new Map(result.map((team) => [team.id, team.lobby]));
+		} catch (error) {
+			throw new DatabaseError("Failed to get team lobbies", error);
+		}
+	}
+
 	/**
 	 * Validate that team IDs exist for a tournament
 	 */
@@ -829,6 +1607,7 @@ export class TeamRepository {
 						eq(teamPlayers.playerId, player2Id),
 					),
 				);
+			await this.clearTeamDiagnostics(tournamentId);
 		} catch (error) {
 			throw new DatabaseError("Failed to exchange players", error);
 		}
@@ -891,6 +1670,7 @@ export class TeamRepository {
 		tournamentId: string,
 		playerId: string,
 		teamId: string,
+		maxTeamSize = 5,
 	): Promise<void> {
 		try {
 			// First check if the team exists
@@ -907,7 +1687,7 @@ export class TeamRepository {
 				);
 			}
 
-			// Check current team size (max 5 players per team)
+			// Check current team size against the tournament's roster limit
 			const currentPlayers = await this.db
 				.select({ playerId: teamPlayers.playerId })
 				.from(teamPlayers)
@@ -918,9 +1698,9 @@ export class TeamRepository {
 					),
 				);
 
-			if (currentPlayers.length >= 5) {
+			if (currentPlayers.length >= maxTeamSize) {
 				throw new DatabaseError(
-					`Team ${teamId} is already full (5 players maximum)`,
+					`Team ${teamId} is already full (${maxTeamSize} players maximum)`,
 					null,
 				);
 			}
@@ -950,6 +1730,7 @@ export class TeamRepository {
 				teamId,
 				playerId,
 			});
+			await this.clearTeamDiagnostics(tournamentId);
 		} catch (error) {
 			if (error instanceof DatabaseError) {
 				throw error;
@@ -996,6 +1777,174 @@ export class MatchRepository {
 		}
 	}
 
+	/**
+	 * Get every match of a server's tournaments in the order it was played, with the lineups captured for it
+	 */
+	async getMatchHistory(
+		guildId: string,
+	): Promise<(Match & { team1Players: string[]; team2Players: string[] })[]> {
+		try {
+			const allMatches = (
+				await this.db
+					.select({ match: matches })
+					.from(matches)
+					.innerJoin(tournaments, eq(matches.tournamentId, tournaments.id))
+					.where(eq(tournaments.guildId, guildId))
+					.orderBy(asc(matches.createdAt), asc(matches.id))
+			).map((row) => row.match);
+			const lineups = await this.db
+				.select({
+					matchId: matchTeamPlayers.matchId,
+					teamId: matchTeamPlayers.teamId,
+					playerId: matchTeamPlayers.playerId,
+				})
+				.from(matchTeamPlayers)
+				.innerJoin(matches, eq(matchTeamPlayers.matchId, matches.id))
+				.innerJoin(tournaments, eq(matches.tournamentId, tournaments.id))
+				.where(eq(tournaments.guildId, guildId));
+
+			return allMatches.map((match) => {
+				const lineup = (teamId: string) =>
+					lineups
+						.filter((row) => row.matchId === match.id && row.teamId === teamId)
+						.map((row) => row.playerId);
+				return {
+					...match,
+					team1Players: lineup(match.team1Id),
+					team2Players: lineup(match.team2Id),
+				};
+			});
+		} catch (error) {
+			throw new DatabaseError("Failed to get match history", error);
+		}
+	}
+
+	/**
+	 * Count the matches each player has played across a server's tournaments
+	 */
+	async getGamesPlayed(
+		guildId: string,
+		playerIds: string[],
+	): Promise<Map<string, number>> {
+		try {
+			const gamesPlayed = new Map<string, number>();
+			if (playerIds.length === 0) {
+				return gamesPlayed;
+			}
+
+			const result = await this.db
+				.select({
+					playerId: matchTeamPlayers.playerId,
+					games: count(),
+				})
+				.from(matchTeamPlayers)
+				.innerJoin(matches, eq(matchTeamPlayers.matchId, matches.id))
+				.innerJoin(tournaments, eq(matches.tournamentId, tournaments.id))
+				.where(
+					and(
+						inArray(matchTeamPlayers.playerId, playerIds),
+						eq(tournaments.guildId, guildId),
+					),
+				)
+				.groupBy(matchTeamPlayers.playerId);
+
+			for (const row of result) {
+				gamesPlayed.set(row.playerId, row.games);
+			}
+
+			return gamesPlayed;
+		} catch (error) {
+			throw new DatabaseError("Failed to get games played", error);
+		}
+	}
+
+	/**
+	 * Count the tournaments of a server each player has played a match in
+	 */
+	async getTournamentsPlayed(
+		guildId: string,
+		playerIds: string[],
+	): Promise<Map<string, number>> {
+		try {
+			const tournamentsPlayed = new Map<string, number>();
+			if (playerIds.length === 0) {
+				return tournamentsPlayed;
+			}
+
+			const result = await this.db
+				.select({
+					playerId: matchTeamPlayers.playerId,
+					tournaments: countDistinct(matches.tournamentId),
+				})
+				.from(matchTeamPlayers)
+				.innerJoin(matches, eq(matchTeamPlayers.matchId, matches.id))
+				.innerJoin(tournaments, eq(matches.tournamentId, tournaments.id))
+				.where(
+					and(
+						inArray(matchTeamPlayers.playerId, playerIds),
+						eq(tournaments.guildId, guildId),
+					),
+				)
+				.groupBy(matchTeamPlayers.playerId);
+
+			for (const row of result) {
+				tournamentsPlayed.set(row.playerId, row.tournaments);
+			}
+
+			return tournamentsPlayed;
+		} catch (error) {
+			throw new DatabaseError("Failed to get tournaments played", error);
+		}
+	}
+
+	/**
+	 * Get the ADRs each player played their matches in a server's tournaments at, newest first
+	 * @param excludeTournamentId Tournament whose matches are left out, so the current ADR is not counted twice
+	 */
+	async getAdrHistory(
+		guildId: string,
+		playerIds: string[],
+		excludeTournamentId: string,
+	): Promise<Map<string, number[]>> {
+		try {
+			const history = new Map<string, number[]>();
+			if (playerIds.length === 0) {
+				return history;
+			}
+
+			const result = await this.db
+				.select({
+					playerId: matchTeamPlayers.playerId,
+					adr: matchTeamPlayers.adrAtTime,
+				})
+				.from(matchTeamPlayers)
+				.innerJoin(matches, eq(matchTeamPlayers.matchId, matches.id))
+				.innerJoin(tournaments, eq(matches.tournamentId, tournaments.id))
+				.where(
+					and(
+						inArray(matchTeamPlayers.playerId, playerIds),
+						eq(tournaments.guildId, guildId),
+						ne(matches.tournamentId, excludeTournamentId),
+						isNotNull(matchTeamPlayers.adrAtTime),
+					),
+				)
+				.orderBy(desc(matches.createdAt), desc(matches.id));
+
+			for (const row of result) {
+				if (row.adr === null) {
+					continue;
+				}
+				const adrs = history.get(row.playerId) ?? [];
+				adrs.push(row.adr);
+				history.set(row.playerId, adrs);
+			}
+
+			return history;
+		} catch (error) {
+			throw new DatabaseError("Failed to get ADR history", error);
+		}
+	}
+
 	/**
 	 * Get a specific match by ID
 	 */
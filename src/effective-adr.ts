@@ -0,0 +1,36 @@
+// Effective ADR: a player's submitted ADR blended with the ADRs they played matches at.
+// The submitted value has weight 1 and each older match counts `decay` times less than the one after it.
+
+// Default weight of the most recent match relative to the submitted ADR
+export const DEFAULT_ADR_DECAY = 0.5;
+
+// Matches older than this no longer count towards the effective ADR
+export const ADR_HISTORY_LIMIT = 20;
+
+/**
+ * Blend a submitted ADR with match history
+ * @param submitted ADR the player submitted for the current tournament
+ * @param history ADRs at the time of past matches, newest first
+ * @param decay Weight of the newest match, squared for the next one and so on; 0 keeps the submitted ADR
+ * @returns Effective ADR rounded to 2 decimals
+ */
+export function effectiveAdr(
+	submitted: number,
+	history: number[],
+	decay: number,
+): number {
+	let weightedSum = submitted;
+	let totalWeight = 1;
+	let weight = 1;
+
+	for (const adr of history.slice(0, ADR_HISTORY_LIMIT)) {
+		weight *= decay;
+		if (weight === 0) {
+			break;
+		}
+		weightedSum += adr * weight;
+		totalWeight += weight;
+	}
+
+	return Math.round((weightedSum / totalWeight) * 100) / 100;
+}
@@ -0,0 +1,89 @@
+// Balance statistics of a set of teams, measured on ADR from the tournament's ADR source (submitted or effective),
+// also when the teams were balanced on rating.
+
+// Fairness drops this many points for every percent the team totals deviate from their mean
+const POINTS_PER_PERCENT = 10;
+
+export type TeamAdrRange = {
+	team_id: string;
+	min_adr: number; // Weakest player on the team
+	max_adr: number; // Strongest player on the team
+};
+
+export type BalanceDiagnostics = {
+	adr_difference: number; // Highest minus lowest team total ADR
+	adr_std_dev: number; // Standard deviation of the team total ADRs
+	teams: TeamAdrRange[];
+	fairness: number; // 0-100, 100 when every team has the same total ADR
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Fairness score of a split from the spread of its team totals
+ * @param stdDev Standard deviation of the team total ADRs
+ * @param meanTotal Mean team total ADR
+ * @returns Score from 0 to 100
+ */
+export function fairnessScore(stdDev: number, meanTotal: number): number {
+	if (meanTotal <= 0) {
+		return 100;
+	}
+	const percent = (stdDev / meanTotal) * 100;
+	return Math.max(
+		0,
+		Math.min(100, Math.round(100 - percent * POINTS_PER_PERCENT)),
+	);
+}
+
+/**
+ * Diagnose how balanced a set of teams is
+ * @param teams ADR of every player on each team; players without an ADR are left out
+ */
+export function diagnoseBalance(
+	teams: { team_id: string; adrs: number[] }[],
+): BalanceDiagnostics {
+	const totals = teams.map((team) =>
+		team.adrs.reduce((sum, adr) => sum + adr, 0),
+	);
+	if (totals.length === 0) {
+		return { adr_difference: 0, adr_std_dev: 0, teams: [], fairness: 100 };
+	}
+
+	const mean = totals.reduce((sum, total) => sum + total, 0) / totals.length;
+	const variance =
+		totals.reduce((sum, total) => sum + (total - mean) ** 2, 0) / totals.length;
+	const stdDev = Math.sqrt(variance);
+
+	return {
+		adr_difference: round(Math.max(...totals) - Math.min(...totals)),
+		adr_std_dev: round(stdDev),
+		teams: teams.map((team) => ({
+			team_id: team.team_id,
+			min_adr: team.adrs.length > 0 ? Math.min(...team.adrs) : 0,
+			max_adr: team.adrs.length > 0 ? Math.max(...team.adrs) : 0,
+		})),
+		fairness: fairnessScore(stdDev, mean),
+	};
+}
+
+/**
+ * Diagnose teams split into lobbies, where only teams in the same lobby play each other
+ * @param lobbies Teams of each lobby
+ * @returns Statistics of the least fair lobby, with the ranges of every team
+ */
+export function diagnoseLobbies(
+	lobbies: { team_id: string; adrs: number[] }[][],
+): BalanceDiagnostics {
+	const diagnosed = lobbies.map(diagnoseBalance);
+	const worst = diagnosed.reduce<BalanceDiagnostics | undefined>(
+		(least, lobby) =>
+			least === undefined || lobby.fairness < least.fairness ? lobby : least,
+		undefined,
+	);
+	if (!worst) {
+		return diagnoseBalance([]);
+	}
+
+	return { ...worst, teams: diagnosed.flatMap((lobby) => lobby.teams) };
+}
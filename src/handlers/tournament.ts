@@ -1,6 +1,15 @@
 import type { Context } from "hono";
 import { z } from "zod";
 import { createDatabase } from "../db";
+import type {
+	AdrSource,
+	BalanceMetric,
+	BalancingObjective,
+	BenchPriority,
+	PlayerRole,
+	RoleCoverage,
+	TeamMode,
+} from "../db/schema";
 import { DatabaseError, type Env, ValidationError } from "../db/types";
 import {
 	MatchRepository,
@@ -8,41 +17,80 @@ import {
 	TeamRepository,
 	TournamentRepository,
 } from "../db/utils";
+import { ROUND_WIN_POINTS } from "../mix-scoring";
 import { PermissionError, PermissionService } from "../services/permission";
 import {
 	TeamGenerationError,
 	TeamGenerationService,
 } from "../services/team-generation";
-import { TournamentError, TournamentService } from "../services/tournament";
+import {
+	type DraftBoard,
+	type IndividualStandingDisplay,
+	type PlayerAdrDisplay,
+	type PlayerRatingDisplay,
+	type RebalancePlan,
+	type SplitChoice,
+	type TeamDiagnosticsDisplay,
+	TournamentError,
+	TournamentService,
+} from "../services/tournament";
+import type { ObjectiveScores } from "../teamgen";
 import { getDiscordBody } from "../utils/discord-middleware";
 import {
+	createButtonRow,
 	createDiscordHttpResponse,
 	createErrorResponse,
 	createInternalErrorResponse,
 	createPongResponse,
 	createSuccessResponse,
+	createUpdateMessageResponse,
 	createValidationErrorResponse,
+	DISCORD_BUTTON_STYLES,
+	type DiscordActionRow,
 	type DiscordInteractionResponse,
 } from "../utils/discord-responses";
 import {
 	DISCORD_INTERACTION_TYPES,
+	type DiscordComponentInteraction,
+	DiscordComponentInteractionSchema,
 	type DiscordInteraction,
 	DiscordInteractionSchema,
 } from "../validation/discord";
 import {
+	type DraftParams,
 	extractAddPlayerToTeamParams,
+	extractDraftPageParams,
+	extractDraftParams,
+	extractDraftPickParams,
 	extractExchangePlayersParams,
 	extractGenerateTeamsParams,
 	extractJoinTournamentParams,
 	extractLeaveTournamentParams,
+	extractPairConstraintParams,
+	extractPinPlayerParams,
+	extractRatingParams,
+	extractRebalanceConfirmParams,
+	extractRebalanceParams,
 	extractResultMatchParams,
 	extractSetAdrParams,
+	extractSetRoleParams,
+	extractSplitChoiceParams,
+	extractTeamRegisterParams,
+	extractTournamentComponentAction,
+	extractTournamentOpenParams,
 	extractTournamentSubcommand,
 	type GenerateTeams,
+	type PairConstraintParams,
+	type PinPlayerParams,
 	parseMatchString,
+	type RatingParams,
+	type RebalanceParams,
 	type ResultMatch,
 	type SetAdr,
+	type SetRoleParams,
+	type TeamRegisterParams,
 	TournamentInteractionSchema,
+	type TournamentOpen,
 	validateTournamentCommandParams,
 } from "../validation/tournament";
 
@@ -59,6 +107,27 @@ export async function handleTournamentCommand(
 	try {
 		// Get the validated Discord interaction from middleware
 		const body = getDiscordBody(c);
+
+		// Handle button clicks on tournament messages (type 3)
+		if (body?.type === DISCORD_INTERACTION_TYPES.MESSAGE_COMPONENT) {
+			const componentInteraction =
+				DiscordComponentInteractionSchema.parse(body);
+			const { tournamentService, permissionService } = createTournamentServices(
+				c.env,
+				componentInteraction,
+			);
+			const response = await handleTournamentComponent(
+				tournamentService,
+				permissionService,
+				componentInteraction,
+			);
+
+			return new Response(JSON.stringify(response), {
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
 		const interaction = DiscordInteractionSchema.parse(body);
 
 		// Handle Discord ping (type 1)
@@ -88,24 +157,9 @@ export async function handleTournamentCommand(
 				);
 			}
 
-			// Set up database connection and repositories
-			const db = createDatabase(c.env.DB);
-			const tournamentRepo = new TournamentRepository(db);
-			const playerRepo = new PlayerRepository(db);
-			const teamRepo = new TeamRepository(db);
-			const matchRepo = new MatchRepository(db);
-
-			// Set up services
-			const teamGenService = new TeamGenerationService();
-			const permissionService = PermissionService.fromEnvironment(c.env);
-			const tournamentService = new TournamentService(
-				tournamentRepo,
-				playerRepo,
-				teamRepo,
-				matchRepo,
-				teamGenService,
-				permissionService,
-				c.env.TOURNAMENT_TIMEZONE || "UTC",
+			const { tournamentService, permissionService } = createTournamentServices(
+				c.env,
+				interaction,
 			);
 
 			// Route to appropriate subcommand handler
@@ -137,6 +191,20 @@ export async function handleTournamentCommand(
 				case "show_adr":
 					response = await handleShowAdr(tournamentService, interaction);
 					break;
+				case "lock_registration":
+					response = await handleLockRegistration(
+						tournamentService,
+						permissionService,
+						interaction,
+					);
+					break;
+				case "unlock_registration":
+					response = await handleUnlockRegistration(
+						tournamentService,
+						permissionService,
+						interaction,
+					);
+					break;
 				case "generate_teams":
 					response = await handleGenerateTeams(
 						tournamentService,
@@ -190,6 +258,48 @@ export async function handleTournamentCommand(
 						user,
 					);
 					break;
+				case "pair":
+					response = await handlePairConstraint(
+						tournamentService,
+						permissionService,
+						interaction,
+					);
+					break;
+				case "show_pairs":
+					response = await handleShowPairs(tournamentService);
+					break;
+				case "standings":
+					response = await handleStandings(tournamentService);
+					break;
+				case "pin":
+					response = await handlePinPlayer(
+						tournamentService,
+						permissionService,
+						interaction,
+					);
+					break;
+				case "rebalance":
+					response = await handleRebalance(
+						tournamentService,
+						permissionService,
+						interaction,
+					);
+					break;
+				case "role":
+					response = await handleSetRole(
+						tournamentService,
+						permissionService,
+						interaction,
+						user,
+					);
+					break;
+				case "team":
+					response = await handleRegisterPremadeTeam(
+						tournamentService,
+						interaction,
+						user,
+					);
+					break;
 				case "result":
 					response = await handleResultMatch(
 						tournamentService,
@@ -197,6 +307,20 @@ export async function handleTournamentCommand(
 						interaction,
 					);
 					break;
+				case "rating":
+					response = await handleRating(
+						tournamentService,
+						permissionService,
+						interaction,
+					);
+					break;
+				case "draft":
+					response = await handleStartDraft(
+						tournamentService,
+						permissionService,
+						interaction,
+					);
+					break;
 				default:
 					return new Response(
 						JSON.stringify(
@@ -292,6 +416,99 @@ export async function handleTournamentCommand(
 	}
 }
 
+/**
+ * Set up the database repositories and the services built on them, scoped to the interaction's server and channel
+ */
+function createTournamentServices(
+	env: Env,
+	interaction: Pick<DiscordInteraction, "guild_id" | "channel_id">,
+): {
+	tournamentService: TournamentService;
+	permissionService: PermissionService;
+} {
+	if (!interaction.guild_id) {
+		throw new TournamentError(
+			"Tournaments can only be run in a server channel.",
+			"GUILD_REQUIRED",
+		);
+	}
+
+	// Set up database connection and repositories
+	const db = createDatabase(env.DB);
+	const tournamentRepo = new TournamentRepository(db);
+	const playerRepo = new PlayerRepository(db);
+	const teamRepo = new TeamRepository(db);
+	const matchRepo = new MatchRepository(db);
+
+	// Set up services
+	const teamGenService = new TeamGenerationService();
+	const permissionService = PermissionService.fromEnvironment(env);
+	const tournamentService = new TournamentService(
+		tournamentRepo,
+		playerRepo,
+		teamRepo,
+		matchRepo,
+		teamGenService,
+		permissionService,
+		env.TOURNAMENT_TIMEZONE || "UTC",
+		{
+			guildId: interaction.guild_id,
+			channelId: interaction.channel_id ?? null,
+		},
+	);
+
+	return { tournamentService, permissionService };
+}
+
+/**
+ * Route a button click to the handler for its action
+ */
+async function handleTournamentComponent(
+	tournamentService: TournamentService,
+	permissionService: PermissionService,
+	interaction: DiscordComponentInteraction,
+): Promise<DiscordInteractionResponse> {
+	const { action, args } = extractTournamentComponentAction(
+		interaction.data.custom_id,
+	);
+
+	switch (action) {
+		case "split":
+			return handleChooseSplit(
+				tournamentService,
+				permissionService,
+				interaction,
+				args,
+			);
+		case "draft":
+			return handleDraftPick(
+				tournamentService,
+				permissionService,
+				interaction,
+				args,
+			);
+		case "draft_page":
+			return handleDraftPage(tournamentService, args);
+		case "rebalance":
+			return handleConfirmRebalance(
+				tournamentService,
+				permissionService,
+				interaction,
+				args,
+			);
+		case "rebalance_cancel":
+			await permissionService.requireAdminPermission(interaction);
+			return createUpdateMessageResponse(
+				"🚫 **Rebalance cancelled.** The teams were left as they are.",
+			);
+		default:
+			throw new ValidationError(
+				`Unknown button action: ${action}`,
+				"custom_id",
+			);
+	}
+}
+
 // Tournament Lifecycle Command Handlers
 
 /**
@@ -305,11 +522,60 @@ async function handleTournamentOpen(
 	// Check admin permissions
 	await permissionService.requireAdminPermission(interaction);
 
+	// Extract and validate parameters
+	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction type is complex, cast needed for parameter extraction
+	const params = extractTournamentOpenParams(interaction as any);
+	const validatedParams = validateTournamentCommandParams(
+		"open",
+		params,
+	) as TournamentOpen;
+
 	// Open the tournament
-	const tournament = await tournamentService.openTournament();
+	const tournament = await tournamentService.openTournament({
+		teamSize: validatedParams.team_size,
+		benchPriority: validatedParams.bench,
+		objective: validatedParams.objective,
+		roleCoverage: validatedParams.role_coverage,
+		varietyLookback: validatedParams.variety,
+		varietyWeight: validatedParams.variety_weight,
+		balanceMetric: validatedParams.metric,
+		teamMode: validatedParams.mode,
+		adrSource: validatedParams.adr_source,
+		adrDecay: validatedParams.adr_decay,
+		format: validatedParams.format,
+	});
+
+	const benchLine = tournament.benchPriority
+		? `**Bench:** ${formatBenchPriority(tournament.benchPriority)}\n`
+		: "";
+	const roleLine =
+		tournament.roleCoverage !== "off"
+			? `**Role coverage:** ${formatRoleCoverage(tournament.roleCoverage)}\n`
+			: "";
+	const varietyLine =
+		tournament.varietyLookback > 0
+			? `**Variety:** avoid teammates from the last ${tournament.varietyLookback} tournament(s) (weight \`${tournament.varietyWeight}\`)\n`
+			: "";
+	const modeLine =
+		tournament.teamMode !== "balanced"
+			? `**Teams:** ${formatTeamMode(tournament.teamMode)}\n`
+			: "";
+
+	const adrLine =
+		tournament.adrSource !== "raw"
+			? `**ADR:** ${formatAdrSource(tournament.adrSource)} (decay \`${tournament.adrDecay}\`)\n`
+			: "";
+	const scoringLine =
+		tournament.format === "mix"
+			? "**Scoring:** individual, teams are reshuffled every round and each player scores on their own (see `/t standings`)\n"
+			: "";
 
 	return createSuccessResponse(
 		`🏆 **Tournament ${tournament.id} is now open!**\n\n` +
+			`**Format:** ${formatTeamSize(tournament.teamSize)}\n` +
+			`**Balancing:** ${formatObjective(tournament.objective)}\n` +
+			`**Player strength:** ${formatBalanceMetric(tournament.balanceMetric)}\n` +
+			`**Registration:** open\n${scoringLine}${adrLine}${modeLine}${benchLine}${roleLine}${varietyLine}\n` +
 			`Players can now join using \`/t join\` and submit their ADR using \`/t set_adr <adr>\`\n` +
 			`Use \`/t show_adr\` to see current submissions.\n` +
 			`Use \`/t help\` to see all available commands.`,
@@ -338,6 +604,47 @@ async function handleTournamentClose(
 	);
 }
 
+/**
+ * Handle lock registration command
+ */
+async function handleLockRegistration(
+	tournamentService: TournamentService,
+	permissionService: PermissionService,
+	interaction: DiscordInteraction,
+): Promise<DiscordInteractionResponse> {
+	// Check admin permissions
+	await permissionService.requireAdminPermission(interaction);
+
+	await tournamentService.lockRegistration();
+
+	return createSuccessResponse(
+		`🔒 **Registration has been locked.**\n\n` +
+			`Players can no longer join, leave or change their ADR. Teams and results carry on as usual.\n` +
+			`Use \`/t unlock_registration\` to reopen it.`,
+		{ ephemeral: false },
+	);
+}
+
+/**
+ * Handle unlock registration command
+ */
+async function handleUnlockRegistration(
+	tournamentService: TournamentService,
+	permissionService: PermissionService,
+	interaction: DiscordInteraction,
+): Promise<DiscordInteractionResponse> {
+	// Check admin permissions
+	await permissionService.requireAdminPermission(interaction);
+
+	await tournamentService.unlockRegistration();
+
+	return createSuccessResponse(
+		`🔓 **Registration is open again.**\n\n` +
+			`Players can join, leave and submit their ADR using \`/t join\` and \`/t set_adr <adr>\`.`,
+		{ ephemeral: false },
+	);
+}
+
 // ADR Management Command Handlers
 
 /**
@@ -464,10 +771,16 @@ async function handleShowAdr(
 ): Promise<DiscordInteractionResponse> {
 	// Get all player ADRs
 	const playerAdrs = await tournamentService.getPlayerAdrs();
+	const tournament = await tournamentService.getOpenTournament();
+	const registrationLine =
+		tournament?.status === "locked"
+			? `🔒 **Registration:** locked\n\n`
+			: `📝 **Registration:** open\n\n`;
 
 	if (playerAdrs.length === 0) {
 		return createSuccessResponse(
 			`📊 **No players have joined the tournament yet.**\n\n` +
+				registrationLine +
 				`Players can submit their ADR using \`/tournament set_adr <adr>\``,
 			{ ephemeral: false },
 		);
@@ -482,7 +795,7 @@ async function handleShowAdr(
 	});
 
 	// Build the response message
-	let message = `📊 **Tournament ADR Status** (${playerAdrs.length} players)\n\n`;
+	let message = `📊 **Tournament ADR Status** (${playerAdrs.length} players)\n\n${registrationLine}`;
 
 	const submittedPlayers = sortedPlayers.filter(
 		(p) => p.status === "submitted",
@@ -494,7 +807,14 @@ async function handleShowAdr(
 		for (const player of submittedPlayers) {
 			const displayName = player.display_name || player.username;
 			const lockIcon = player.adr_locked ? "🔒" : "";
-			message += `• ${displayName}: \`${player.adr}\` ${lockIcon}\n`;
+			const pin = player.pinned_team ? ` 📌 ${player.pinned_team}` : "";
+			// Effective ADR only adds something once match history moves it
+			const effective =
+				player.effective_adr !== undefined &&
+				player.effective_adr !== player.adr
+					? ` (effective \`${player.effective_adr}\`)`
+					: "";
+			message += `• ${displayName}: \`${player.adr}\`${effective} ${lockIcon}${pin}${formatSitOuts(player)}\n`;
 		}
 		message += "\n";
 	}
@@ -503,7 +823,8 @@ async function handleShowAdr(
 		message += `**⏳ Pending (${pendingPlayers.length}):**\n`;
 		for (const player of pendingPlayers) {
 			const displayName = player.display_name || player.username;
-			message += `• ${displayName}: *(pending)*\n`;
+			const pin = player.pinned_team ? ` 📌 ${player.pinned_team}` : "";
+			message += `• ${displayName}: *(pending)*${pin}${formatSitOuts(player)}\n`;
 		}
 	}
 
@@ -553,51 +874,151 @@ async function handleGenerateTeams(
 		"generate_teams",
 		params,
 	);
-	const runs = (validatedParams as GenerateTeams).runs || 500;
+	const time = (validatedParams as GenerateTeams).time;
+	// A time limit alone means "best within N seconds", so the default run count doesn't cut it short
+	const runs =
+		time !== undefined && params.runs === undefined
+			? undefined
+			: (validatedParams as GenerateTeams).runs || 500;
+
+	const tournament = await tournamentService.requireOpenTournament();
+	const {
+		mode,
+		teams,
+		adr_difference,
+		proven_optimal,
+		runs_completed,
+		iterations,
+		elapsed_ms,
+		timed_out,
+		seed,
+		metric,
+		objective,
+		objective_scores,
+		role_gaps,
+		repeat_pairings,
+		options,
+		diagnostics,
+		round,
+	} = await tournamentService.generateTeams(
+		runs,
+		(validatedParams as GenerateTeams).bench,
+		(validatedParams as GenerateTeams).seed,
+		(validatedParams as GenerateTeams).alternatives,
+		time === undefined ? undefined : time * 1000,
+		(validatedParams as GenerateTeams).mode,
+		(validatedParams as GenerateTeams).lobbies,
+		(validatedParams as GenerateTeams).lobby_split,
+	);
+
+	// Several splits: nothing is saved until an admin picks one
+	if (options.length > 0) {
+		return createSuccessResponse(
+			formatSplitOptions(
+				options,
+				tournament.teamSize,
+				formatSearchEffort(runs_completed, elapsed_ms),
+				seed,
+			),
+			{
+				ephemeral: false,
+				components: [
+					createButtonRow(
+						options.map((choice) => ({
+							label: `Option ${choice.option}`,
+							customId: `t:split:${seed}:${choice.option}`,
+						})),
+					),
+				],
+			},
+		);
+	}
 
-	const teams = await tournamentService.generateTeams(runs);
+	const bench = await tournamentService.getBench();
 
 	// Build response message
-	let message = `🎯 **Teams Generated!** (${runs} optimization runs)\n\n`;
+	let message =
+		mode === "balanced"
+			? `🎯 **Teams Generated!** (${formatTeamSize(tournament.teamSize)}, ${formatSearchEffort(runs_completed, elapsed_ms)})\n\n`
+			: `${mode === "random" ? "🎲 **Random Teams!**" : "🤝 **Pre-made Teams!**"} (${formatTeamSize(tournament.teamSize)})\n\n`;
+	if (round !== null) {
+		message += `🔀 **Round ${round}** - matches recorded now count towards each player's individual score\n\n`;
+	}
 
-	for (const team of teams) {
-		message += `**${team.id}** (Avg ADR: \`${team.average_adr.toFixed(2)}\`):\n`;
+	for (const [index, team] of teams.entries()) {
+		message += formatLobbyHeading(teams, index);
+		const averageRating =
+			metric === "rating" && team.average_rating !== undefined
+				? `, Avg rating: \`${Math.round(team.average_rating)}\``
+				: "";
+		message += `**${team.id}** (Avg ADR: \`${team.average_adr.toFixed(2)}\`${averageRating}):\n`;
 		for (const player of team.players) {
 			const displayName = player.display_name || player.username;
-			message += `• ${displayName} (\`${player.adr}\`)\n`;
+			message +=
+				metric === "rating" && player.rating !== undefined
+					? `• ${displayName} (\`${player.adr}\`, rating \`${Math.round(player.rating)}\`)\n`
+					: `• ${displayName} (\`${player.adr}\`)\n`;
 		}
 		message += "\n";
 	}
 
+	if (tournament.adrSource === "effective") {
+		message += `📈 ADRs shown are ${formatAdrSource(tournament.adrSource)}\n\n`;
+	}
+
+	const difference =
+		metric === "rating" ? "Rating difference" : "ADR difference";
+	message += formatBench(bench);
+	if (diagnostics) {
+		message += formatDiagnostics(diagnostics);
+	}
+
+	// Random and pre-made teams aren't searched for, so there is no search to report on
+	if (mode !== "balanced") {
+		message += `${difference}: \`${adr_difference.toFixed(2)}\`\n\n`;
+		if (mode === "random") {
+			message += `🎲 Seed: \`${seed}\` (use \`/tournament generate_teams mode:random seed:${seed}\` to reproduce these teams)\n\n`;
+		}
+		message += `Use \`/tournament generate_teams lock\` to lock teams and prevent regeneration.`;
+		return createSuccessResponse(message, { ephemeral: false });
+	}
+
+	message += proven_optimal
+		? `✅ Proven optimal split (${difference}: \`${adr_difference.toFixed(2)}\`)\n\n`
+		: `${difference}: \`${adr_difference.toFixed(2)}\` (best found)\n\n`;
+	if (timed_out) {
+		message += `⏱️ Search stopped at the time limit after ${runs_completed} run(s) and ${iterations} swap attempts, these are the best teams found.\n\n`;
+	}
+	message += `📐 **Balanced for ${formatObjective(objective)}:**\n${formatObjectiveScores(objective_scores)}\n`;
+	if (tournament.roleCoverage !== "off") {
+		message += formatRoleGaps(role_gaps);
+	}
+	if (tournament.varietyLookback > 0) {
+		message += `🔁 Repeat pairings from the last ${tournament.varietyLookback} tournament(s): \`${repeat_pairings}\`\n\n`;
+	}
+	message += `🎲 Seed: \`${seed}\` (use \`/tournament generate_teams seed:${seed}\` to reproduce this split)\n\n`;
 	message += `Use \`/tournament generate_teams lock\` to lock teams and prevent regeneration.`;
 
 	return createSuccessResponse(message, { ephemeral: false });
 }
 
 /**
- * Handle show teams command
+ * Handle a click on one of the split option buttons from generate_teams
  */
-async function handleShowTeams(
+async function handleChooseSplit(
 	tournamentService: TournamentService,
-	_interaction: DiscordInteraction,
+	permissionService: PermissionService,
+	interaction: DiscordComponentInteraction,
+	args: string[],
 ): Promise<DiscordInteractionResponse> {
-	// Check if teams exist
-	const teamsExist = await tournamentService.teamsExist();
-
-	if (!teamsExist) {
-		return createSuccessResponse(
-			`🎯 **No teams have been generated yet.**\n\n` +
-				`Admins can generate teams using \`/tournament generate_teams\` once all players have submitted their ADRs.`,
-			{ ephemeral: false },
-		);
-	}
+	// Check admin permissions
+	await permissionService.requireAdminPermission(interaction);
 
-	// Get teams
-	const teams = await tournamentService.getTeams();
-	const teamsLocked = await tournamentService.areTeamsLocked();
+	const { seed, option } = extractSplitChoiceParams(args);
+	const teams = await tournamentService.chooseSplit(seed, option);
+	const bench = await tournamentService.getBench();
 
-	// Build response message
-	let message = `🎯 **Current Teams** ${teamsLocked ? "🔒" : "🔓"}\n\n`;
+	let message = `✅ **Option ${option} picked!**\n\n`;
 
 	for (const team of teams) {
 		message += `**${team.team_id}** (Avg ADR: \`${team.average_adr.toFixed(2)}\`):\n`;
@@ -608,21 +1029,18 @@ async function handleShowTeams(
 		message += "\n";
 	}
 
-	if (teamsLocked) {
-		message += `🔒 Teams are **locked** and cannot be regenerated.`;
-	} else {
-		message += `🔓 Teams can be regenerated using \`/tournament generate_teams\`.`;
-	}
+	message += formatBench(bench);
+	message += `🎲 Seed: \`${seed}\`\n\n`;
+	message += `Use \`/tournament generate_teams lock\` to lock teams and prevent regeneration.`;
 
-	return createSuccessResponse(message, { ephemeral: false });
+	// Replace the options message so its buttons can't be clicked again
+	return createUpdateMessageResponse(message);
 }
 
-// Match Management Command Handlers
-
 /**
- * Handle result match command
+ * Handle draft command
  */
-async function handleResultMatch(
+async function handleStartDraft(
 	tournamentService: TournamentService,
 	permissionService: PermissionService,
 	interaction: DiscordInteraction,
@@ -630,92 +1048,339 @@ async function handleResultMatch(
 	// Check admin permissions
 	await permissionService.requireAdminPermission(interaction);
 
-	// Extract and validate match string
+	// Extract and validate parameters
 	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction type is complex, cast needed for parameter extraction
-	const params = extractResultMatchParams(interaction as any);
-	const validatedParams = validateTournamentCommandParams("result", params);
-	const matchString = (validatedParams as ResultMatch).match_string;
-
-	// Parse match string to validate format
-	const matchData = parseMatchString(matchString);
-
-	// Record the match
-	const matchResult = await tournamentService.recordMatch(matchString);
+	const params = extractDraftParams(interaction as any);
+	const validatedParams = validateTournamentCommandParams(
+		"draft",
+		params,
+	) as DraftParams;
 
-	// Determine winner
-	let resultText: string;
-	if (matchResult.score1 > matchResult.score2) {
-		resultText = `🏆 **${matchData.team1Id}** defeats **${matchData.team2Id}**`;
-	} else if (matchResult.score2 > matchResult.score1) {
-		resultText = `🏆 **${matchData.team2Id}** defeats **${matchData.team1Id}**`;
-	} else {
-		resultText = `🤝 **${matchData.team1Id}** ties with **${matchData.team2Id}**`;
-	}
+	const board = await tournamentService.startDraft(
+		validatedParams.captains,
+		validatedParams.order,
+	);
 
 	return createSuccessResponse(
-		`⚽ **Match Result Recorded**\n\n` +
-			`${resultText}\n` +
-			`**Score:** ${matchData.team1Id} ${matchResult.score1} - ${matchResult.score2} ${matchData.team2Id}\n\n` +
-			`Match ID: \`${matchResult.match_id}\``,
-		{ ephemeral: false },
+		`📝 **Captain draft started!** (${board.order} order)\n\n${formatDraftBoard(board)}`,
+		{ ephemeral: false, components: createDraftButtons(board, 0) },
 	);
 }
 
-// Join/Leave Tournament Command Handlers
-
 /**
- * Handle join tournament command
+ * Handle a click on one of the player buttons of a draft.
+ * The captain on the clock picks; admins can pick for them.
  */
-async function handleJoinTournament(
+async function handleDraftPick(
 	tournamentService: TournamentService,
 	permissionService: PermissionService,
-	interaction: DiscordInteraction,
-	user: { id: string; username: string; global_name?: string | null },
+	interaction: DiscordComponentInteraction,
+	args: string[],
 ): Promise<DiscordInteractionResponse> {
-	// Extract parameters from interaction
-	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction type is complex, cast needed for parameter extraction
-	const params = extractJoinTournamentParams(interaction as any);
+	const { pick, player } = extractDraftPickParams(args);
 
-	// Debug logging for admin join actions
-	if (params.player) {
-		console.log("Admin join debug - interaction data:", {
-			hasData: !!interaction.data,
-			hasOptions: !!interaction.data?.options,
-			subcommand: interaction.data?.options?.[0]?.name,
-			hasSubcommandOptions: !!interaction.data?.options?.[0]?.options,
-			subcommandOptions: JSON.stringify(
-				interaction.data?.options?.[0]?.options || [],
-				null,
-				2,
-			),
-			// biome-ignore lint/suspicious/noExplicitAny: Discord resolved data structure
-			hasResolved: !!(interaction.data as any)?.resolved,
-			resolvedUsers: Object.keys(
-				// biome-ignore lint/suspicious/noExplicitAny: Discord interaction data structure requires casting for resolved users
-				(interaction.data as any)?.resolved?.users || {},
-			),
-			playerParam: params.player,
+	const current = await tournamentService.getDraft();
+	const user = interaction.member?.user || interaction.user;
+	if (current?.on_the_clock?.captain.player_id !== user?.id) {
+		await permissionService.requireAdminPermission(interaction);
+	}
+
+	const board = await tournamentService.pickDraftPlayer(pick, player);
+
+	if (!board.complete) {
+		return createUpdateMessageResponse(formatDraftBoard(board), {
+			components: createDraftButtons(board, 0),
 		});
 	}
 
-	// Check if this is an admin action (joining another player)
-	const isAdminAction = !!params.player;
-	let targetPlayerId: string;
-	let targetUsername: string;
-	let targetDisplayName: string | undefined;
+	let message = "✅ **Draft complete!**\n\n";
+	for (const team of board.teams) {
+		message += `**${team.team_id}**:\n`;
+		for (const p of [team.captain, ...team.players]) {
+			message += `• ${p.display_name || p.username} (\`${p.adr ?? "N/A"}\`)\n`;
+		}
+		message += "\n";
+	}
+	message += formatBench(board.available);
+	message += `Use \`/tournament generate_teams lock\` to lock teams and prevent regeneration.`;
 
-	if (isAdminAction) {
-		// Admin joining another player - check permissions
-		await permissionService.requireAdminPermission(interaction);
+	// Replace the draft message so its buttons can't be clicked again
+	return createUpdateMessageResponse(message);
+}
 
-		// Extract target user info from the interaction options
-		const subcommandOptions = interaction.data?.options?.[0]?.options || [];
-		const playerOption = subcommandOptions.find((opt) => opt.name === "player");
-		// biome-ignore lint/suspicious/noExplicitAny: Discord option structure requires casting for user access
-		let targetUser = (playerOption as any)?.user;
+/**
+ * Handle a click on the page buttons of a draft with more players than fit on one message
+ */
+async function handleDraftPage(
+	tournamentService: TournamentService,
+	args: string[],
+): Promise<DiscordInteractionResponse> {
+	const { page } = extractDraftPageParams(args);
 
-		// If user is not in the option, check resolved users
-		if (
+	const board = await tournamentService.getDraft();
+	if (!board) {
+		return createUpdateMessageResponse(
+			"This draft is no longer in progress. Start a new one with `/t draft`.",
+		);
+	}
+
+	return createUpdateMessageResponse(formatDraftBoard(board), {
+		components: createDraftButtons(board, page),
+	});
+}
+
+/**
+ * Handle rebalance command: suggest swaps and wait for an admin to confirm them
+ */
+async function handleRebalance(
+	tournamentService: TournamentService,
+	permissionService: PermissionService,
+	interaction: DiscordInteraction,
+): Promise<DiscordInteractionResponse> {
+	// Check admin permissions
+	await permissionService.requireAdminPermission(interaction);
+
+	// Extract and validate parameters
+	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction type is complex, cast needed for parameter extraction
+	const params = extractRebalanceParams(interaction as any);
+	const validatedParams = validateTournamentCommandParams(
+		"rebalance",
+		params,
+	) as RebalanceParams;
+	const keepLocked = validatedParams.keep_locked ?? false;
+	const keepPinned = validatedParams.keep_pinned ?? false;
+
+	const plan = await tournamentService.suggestRebalance(keepLocked, keepPinned);
+
+	if (plan.swaps.length === 0) {
+		return createSuccessResponse(
+			`⚖️ **No swaps needed.** No swap of movable players improves the teams (${formatRebalanceDifference(plan)}: \`${plan.adr_difference_before.toFixed(2)}\`).`,
+			{ ephemeral: false },
+		);
+	}
+
+	const options = `${keepLocked ? "l" : ""}${keepPinned ? "p" : ""}` || "-";
+	return createSuccessResponse(
+		`⚖️ **Suggested Rebalance** (${plan.swaps.length} swap(s))\n\n${formatRebalance(plan)}\n` +
+			"Nothing changes until you apply it.",
+		{
+			ephemeral: false,
+			components: [
+				createButtonRow([
+					{
+						label: "Apply swaps",
+						customId: `t:rebalance:${options}:${plan.fingerprint}`,
+					},
+					{
+						label: "Cancel",
+						customId: "t:rebalance_cancel",
+						style: DISCORD_BUTTON_STYLES.SECONDARY,
+					},
+				]),
+			],
+		},
+	);
+}
+
+/**
+ * Handle a click on the apply button of a suggested rebalance
+ */
+async function handleConfirmRebalance(
+	tournamentService: TournamentService,
+	permissionService: PermissionService,
+	interaction: DiscordComponentInteraction,
+	args: string[],
+): Promise<DiscordInteractionResponse> {
+	// Check admin permissions
+	await permissionService.requireAdminPermission(interaction);
+
+	const { keep_locked, keep_pinned, fingerprint } =
+		extractRebalanceConfirmParams(args);
+	const plan = await tournamentService.applyRebalance(
+		keep_locked,
+		keep_pinned,
+		fingerprint,
+	);
+
+	// Replace the suggestion so its buttons can't be clicked again
+	return createUpdateMessageResponse(
+		`✅ **Teams rebalanced!**\n\n${formatRebalance(plan)}\n` +
+			"Use `/tournament show_teams` to see the new teams.",
+	);
+}
+
+/**
+ * Handle show teams command
+ */
+async function handleShowTeams(
+	tournamentService: TournamentService,
+	_interaction: DiscordInteraction,
+): Promise<DiscordInteractionResponse> {
+	// Check if teams exist
+	const teamsExist = await tournamentService.teamsExist();
+
+	if (!teamsExist) {
+		return createSuccessResponse(
+			`🎯 **No teams have been generated yet.**\n\n` +
+				`Admins can generate teams using \`/tournament generate_teams\` once all players have submitted their ADRs.`,
+			{ ephemeral: false },
+		);
+	}
+
+	// Get teams
+	const tournament = await tournamentService.requireOpenTournament();
+	const teams = await tournamentService.getTeams();
+	const teamsLocked = await tournamentService.areTeamsLocked();
+	const bench = await tournamentService.getBench();
+	const diagnostics = await tournamentService.getTeamDiagnostics();
+
+	// Build response message
+	const modeLabel =
+		tournament.teamMode !== "balanced"
+			? `, ${formatTeamMode(tournament.teamMode)}`
+			: "";
+	let message = `🎯 **Current Teams** (${formatTeamSize(tournament.teamSize)}${modeLabel}) ${teamsLocked ? "🔒" : "🔓"}\n\n`;
+
+	for (const [index, team] of teams.entries()) {
+		message += formatLobbyHeading(teams, index);
+		message += `**${team.team_id}** (Avg ADR: \`${team.average_adr.toFixed(2)}\`):\n`;
+		for (const player of team.players) {
+			const displayName = player.display_name || player.username;
+			const roles = player.roles?.length
+				? ` · ${formatRoles(player.roles)}`
+				: "";
+			message += `• ${displayName} (\`${player.adr || "N/A"}\`)${roles}\n`;
+		}
+		message += "\n";
+	}
+
+	message += formatBench(bench);
+
+	if (diagnostics) {
+		message += formatDiagnostics(diagnostics);
+		if (diagnostics.runs !== null && diagnostics.elapsed_ms !== null) {
+			message += `🔍 Generated with ${formatSearchEffort(diagnostics.runs, diagnostics.elapsed_ms)}\n\n`;
+		}
+	}
+
+	const seed = teams[0]?.seed;
+	if (seed !== null && seed !== undefined) {
+		message += `🎲 Seed: \`${seed}\`\n\n`;
+	}
+
+	if (teamsLocked) {
+		message += `🔒 Teams are **locked** and cannot be regenerated.`;
+	} else {
+		message += `🔓 Teams can be regenerated using \`/tournament generate_teams\`.`;
+	}
+
+	return createSuccessResponse(message, { ephemeral: false });
+}
+
+// Match Management Command Handlers
+
+/**
+ * Handle result match command
+ */
+async function handleResultMatch(
+	tournamentService: TournamentService,
+	permissionService: PermissionService,
+	interaction: DiscordInteraction,
+): Promise<DiscordInteractionResponse> {
+	// Check admin permissions
+	await permissionService.requireAdminPermission(interaction);
+
+	// Extract and validate match string
+	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction type is complex, cast needed for parameter extraction
+	const params = extractResultMatchParams(interaction as any);
+	const validatedParams = validateTournamentCommandParams("result", params);
+	const matchString = (validatedParams as ResultMatch).match_string;
+
+	// Parse match string to validate format
+	const matchData = parseMatchString(matchString);
+
+	// Record the match
+	const matchResult = await tournamentService.recordMatch(matchString);
+
+	// Determine winner
+	let resultText: string;
+	if (matchResult.score1 > matchResult.score2) {
+		resultText = `🏆 **${matchData.team1Id}** defeats **${matchData.team2Id}**`;
+	} else if (matchResult.score2 > matchResult.score1) {
+		resultText = `🏆 **${matchData.team2Id}** defeats **${matchData.team1Id}**`;
+	} else {
+		resultText = `🤝 **${matchData.team1Id}** ties with **${matchData.team2Id}**`;
+	}
+
+	const lobbyLine =
+		matchResult.lobby !== undefined ? `**Lobby:** ${matchResult.lobby}\n` : "";
+	const roundLine =
+		matchResult.round !== undefined ? `**Round:** ${matchResult.round}\n` : "";
+
+	return createSuccessResponse(
+		`⚽ **Match Result Recorded**\n\n` +
+			`${resultText}\n${lobbyLine}${roundLine}` +
+			`**Score:** ${matchData.team1Id} ${matchResult.score1} - ${matchResult.score2} ${matchData.team2Id}\n\n` +
+			`Match ID: \`${matchResult.match_id}\``,
+		{ ephemeral: false },
+	);
+}
+
+// Join/Leave Tournament Command Handlers
+
+/**
+ * Handle join tournament command
+ */
+async function handleJoinTournament(
+	tournamentService: TournamentService,
+	permissionService: PermissionService,
+	interaction: DiscordInteraction,
+	user: { id: string; username: string; global_name?: string | null },
+): Promise<DiscordInteractionResponse> {
+	// Extract parameters from interaction
+	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction type is complex, cast needed for parameter extraction
+	const params = extractJoinTournamentParams(interaction as any);
+
+	// Debug logging for admin join actions
+	if (params.player) {
+		console.log("Admin join debug - interaction data:", {
+			hasData: !!interaction.data,
+			hasOptions: !!interaction.data?.options,
+			subcommand: interaction.data?.options?.[0]?.name,
+			hasSubcommandOptions: !!interaction.data?.options?.[0]?.options,
+			subcommandOptions: JSON.stringify(
+				interaction.data?.options?.[0]?.options || [],
+				null,
+				2,
+			),
+			// biome-ignore lint/suspicious/noExplicitAny: Discord resolved data structure
+			hasResolved: !!(interaction.data as any)?.resolved,
+			resolvedUsers: Object.keys(
+				// biome-ignore lint/suspicious/noExplicitAny: Discord interaction data structure requires casting for resolved users
+				(interaction.data as any)?.resolved?.users || {},
+			),
+			playerParam: params.player,
+		});
+	}
+
+	// Check if this is an admin action (joining another player)
+	const isAdminAction = !!params.player;
+	let targetPlayerId: string;
+	let targetUsername: string;
+	let targetDisplayName: string | undefined;
+
+	if (isAdminAction) {
+		// Admin joining another player - check permissions
+		await permissionService.requireAdminPermission(interaction);
+
+		// Extract target user info from the interaction options
+		const subcommandOptions = interaction.data?.options?.[0]?.options || [];
+		const playerOption = subcommandOptions.find((opt) => opt.name === "player");
+		// biome-ignore lint/suspicious/noExplicitAny: Discord option structure requires casting for user access
+		let targetUser = (playerOption as any)?.user;
+
+		// If user is not in the option, check resolved users
+		if (
 			!targetUser &&
 			params.player &&
 			// biome-ignore lint/suspicious/noExplicitAny: Discord interaction data structure requires casting for resolved users
@@ -1051,6 +1716,624 @@ async function handleAddPlayerToTeam(
 	}
 }
 
+// Pair Constraint Command Handlers
+
+/**
+ * Handle pairing rule command (admin only)
+ */
+async function handlePairConstraint(
+	tournamentService: TournamentService,
+	permissionService: PermissionService,
+	interaction: DiscordInteraction,
+): Promise<DiscordInteractionResponse> {
+	// Check admin permissions
+	await permissionService.requireAdminPermission(interaction);
+
+	// Extract and validate parameters
+	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction type is complex, cast needed for parameter extraction
+	const params = extractPairConstraintParams(interaction as any);
+	const validatedParams = validateTournamentCommandParams(
+		"pair",
+		params,
+	) as PairConstraintParams;
+	const { player1, player2, rule } = validatedParams;
+
+	if (rule === "clear") {
+		const removed = await tournamentService.clearPairConstraint(
+			player1,
+			player2,
+		);
+
+		return createSuccessResponse(
+			removed
+				? `🧹 **Pairing rule removed** for <@${player1}> and <@${player2}>.`
+				: `ℹ️ **No pairing rule exists** for <@${player1}> and <@${player2}>.`,
+			{ ephemeral: false },
+		);
+	}
+
+	// Resolve user info so both players exist in the player registry
+	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction data structure requires casting for resolved users
+	const resolvedUsers = (interaction.data as any)?.resolved?.users ?? {};
+	const toPlayer = (id: string) => {
+		const resolved = resolvedUsers[id];
+		return {
+			id,
+			username: resolved?.username ?? id,
+			displayName: resolved?.global_name || resolved?.username || undefined,
+		};
+	};
+
+	await tournamentService.setPairConstraint(
+		toPlayer(player1),
+		toPlayer(player2),
+		rule,
+	);
+
+	return createSuccessResponse(
+		rule === "together"
+			? `🤝 <@${player1}> and <@${player2}> will always be on the **same team**.`
+			: `↔️ <@${player1}> and <@${player2}> will never be on the **same team**.`,
+		{ ephemeral: false },
+	);
+}
+
+/**
+ * Handle preferred role command
+ */
+async function handleSetRole(
+	tournamentService: TournamentService,
+	permissionService: PermissionService,
+	interaction: DiscordInteraction,
+	user: { id: string; username: string; global_name?: string | null },
+): Promise<DiscordInteractionResponse> {
+	// Extract and validate parameters
+	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction type is complex, cast needed for parameter extraction
+	const params = extractSetRoleParams(interaction as any);
+	const validatedParams = validateTournamentCommandParams(
+		"role",
+		params,
+	) as SetRoleParams;
+	const { primary, secondary } = validatedParams;
+
+	// Setting roles for someone else is an admin action
+	let target = {
+		id: user.id,
+		username: user.username,
+		displayName: user.global_name || undefined,
+	};
+	if (validatedParams.player && validatedParams.player !== user.id) {
+		await permissionService.requireAdminPermission(interaction);
+
+		// biome-ignore lint/suspicious/noExplicitAny: Discord interaction data structure requires casting for resolved users
+		const resolved = (interaction.data as any)?.resolved?.users?.[
+			validatedParams.player
+		];
+		target = {
+			id: validatedParams.player,
+			username: resolved?.username ?? validatedParams.player,
+			displayName: resolved?.global_name || resolved?.username || undefined,
+		};
+	}
+
+	const roles: PlayerRole[] =
+		primary === "none" ? [] : [primary, ...(secondary ? [secondary] : [])];
+	await tournamentService.setPlayerRoles(target, roles);
+
+	return createSuccessResponse(
+		roles.length > 0
+			? `🎭 **Roles updated** for <@${target.id}>: ${formatRoles(roles)}`
+			: `🧹 **Roles cleared** for <@${target.id}>.`,
+		{ ephemeral: false },
+	);
+}
+
+/**
+ * Handle pre-made team registration (the "team register" subcommand)
+ */
+async function handleRegisterPremadeTeam(
+	tournamentService: TournamentService,
+	interaction: DiscordInteraction,
+	user: { id: string; username: string; global_name?: string | null },
+): Promise<DiscordInteractionResponse> {
+	// Extract and validate parameters
+	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction type is complex, cast needed for parameter extraction
+	const params = extractTeamRegisterParams(interaction as any);
+	const validatedParams = validateTournamentCommandParams(
+		"team_register",
+		params,
+	) as TeamRegisterParams;
+
+	const playerIds = await tournamentService.registerPremadeTeam(
+		user.id,
+		validatedParams.teammates,
+	);
+
+	return createSuccessResponse(
+		`🤝 **Pre-made team registered!**\n\n` +
+			playerIds.map((id) => `• <@${id}>`).join("\n") +
+			`\n\nThis team plays together when teams are generated in pre-made mode (\`/t generate_teams mode:premade\`).`,
+		{ ephemeral: false },
+	);
+}
+
+/**
+ * Handle rating command
+ */
+async function handleRating(
+	tournamentService: TournamentService,
+	permissionService: PermissionService,
+	interaction: DiscordInteraction,
+): Promise<DiscordInteractionResponse> {
+	// Extract and validate parameters
+	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction type is complex, cast needed for parameter extraction
+	const params = extractRatingParams(interaction as any);
+	const validatedParams = validateTournamentCommandParams(
+		"rating",
+		params,
+	) as RatingParams;
+
+	if (validatedParams.recalculate) {
+		await permissionService.requireAdminPermission(interaction);
+
+		const { matches, players } = await tournamentService.recalculateRatings();
+		return createSuccessResponse(
+			`🔄 **Ratings recalculated** from ${matches} match(es) for ${players} player(s).`,
+			{ ephemeral: false },
+		);
+	}
+
+	if (validatedParams.player) {
+		const rating = await tournamentService.getPlayerRating(
+			validatedParams.player,
+		);
+		if (!rating || rating.rated_matches === 0) {
+			return createSuccessResponse(
+				`<@${validatedParams.player}> has no rated matches yet.`,
+				{ ephemeral: false },
+			);
+		}
+
+		return createSuccessResponse(
+			`📈 **Rating for <@${rating.player_id}>:** ${formatRating(rating)}`,
+			{ ephemeral: false },
+		);
+	}
+
+	const leaderboard = await tournamentService.getRatingLeaderboard();
+	if (leaderboard.length === 0) {
+		return createSuccessResponse(
+			"📈 **No rated players yet.**\n\nRatings update every time a match result is recorded.",
+			{ ephemeral: false },
+		);
+	}
+
+	let message = "📈 **Rating Leaderboard**\n\n";
+	leaderboard.forEach((rating, index) => {
+		const displayName = rating.display_name || rating.username;
+		message += `${index + 1}. ${displayName}: ${formatRating(rating)}\n`;
+	});
+
+	return createSuccessResponse(message, { ephemeral: false });
+}
+
+/**
+ * Handle show pairing rules command
+ */
+async function handleShowPairs(
+	tournamentService: TournamentService,
+): Promise<DiscordInteractionResponse> {
+	const constraints = await tournamentService.getPairConstraints();
+
+	if (constraints.length === 0) {
+		return createSuccessResponse(
+			`📋 **No pairing rules set.**\n\n` +
+				`Admins can add one using \`/t pair @player1 @player2 together|apart\`.`,
+			{ ephemeral: false },
+		);
+	}
+
+	let message = `📋 **Pairing Rules** (${constraints.length}):\n\n`;
+	for (const constraint of constraints) {
+		const icon = constraint.type === "together" ? "🤝" : "↔️";
+		message += `${icon} <@${constraint.player1Id}> & <@${constraint.player2Id}> - **${constraint.type}**\n`;
+	}
+
+	return createSuccessResponse(message, { ephemeral: false });
+}
+
+/**
+ * Handle individual standings command
+ */
+async function handleStandings(
+	tournamentService: TournamentService,
+): Promise<DiscordInteractionResponse> {
+	const standings = await tournamentService.getIndividualStandings();
+
+	if (standings.length === 0) {
+		return createSuccessResponse(
+			`🏅 **No standings yet.**\n\n` +
+				`Players score once an admin records a match with \`/t result\`.`,
+			{ ephemeral: false },
+		);
+	}
+
+	let message = "🏅 **Individual Standings**\n\n";
+	standings.forEach((standing, index) => {
+		message += `${index + 1}. ${formatStanding(standing)}\n`;
+	});
+
+	return createSuccessResponse(message, { ephemeral: false });
+}
+
+/**
+ * Handle pin player command
+ */
+async function handlePinPlayer(
+	tournamentService: TournamentService,
+	permissionService: PermissionService,
+	interaction: DiscordInteraction,
+): Promise<DiscordInteractionResponse> {
+	// Check admin permissions
+	await permissionService.requireAdminPermission(interaction);
+
+	// Extract and validate parameters
+	// biome-ignore lint/suspicious/noExplicitAny: Discord interaction type is complex, cast needed for parameter extraction
+	const params = extractPinPlayerParams(interaction as any);
+	const validatedParams = validateTournamentCommandParams(
+		"pin",
+		params,
+	) as PinPlayerParams;
+	const { player, team } = validatedParams;
+
+	const teamId = await tournamentService.pinPlayer(player, team ?? null);
+
+	return createSuccessResponse(
+		teamId
+			? `📌 <@${player}> is pinned to **${teamId}**. \`/t generate_teams\` will keep them there and balance everyone else around them.`
+			: `🧹 <@${player}> is no longer pinned to a team.`,
+		{ ephemeral: false },
+	);
+}
+
+/**
+ * Format a team size as a match format label (e.g. "5v5", "Wingman (2v2)")
+ */
+function formatTeamSize(teamSize: number): string {
+	const format = `${teamSize}v${teamSize}`;
+	return teamSize === 2 ? `Wingman (${format})` : format;
+}
+
+/**
+ * Format a balancing objective as a human-readable label
+ */
+function formatObjective(objective: BalancingObjective): string {
+	switch (objective) {
+		case "total_diff":
+			return "total ADR difference";
+		case "spread_variance":
+			return "even skill spread within teams";
+		case "star_distribution":
+			return "one top player per team";
+		case "weighted":
+			return "weighted mix of all objectives";
+	}
+}
+
+/**
+ * Format per-component objective scores for a generated split
+ */
+function formatObjectiveScores(scores: ObjectiveScores): string {
+	return (
+		`• Total ADR difference: \`${scores.total_diff.toFixed(2)}\`\n` +
+		`• Spread variance: \`${scores.spread_variance.toFixed(2)}\`\n` +
+		`• Teams without a top player: \`${scores.star_distribution}\`\n`
+	);
+}
+
+/**
+ * Format a role coverage mode as a human-readable label
+ */
+function formatRoleCoverage(coverage: RoleCoverage): string {
+	switch (coverage) {
+		case "off":
+			return "off";
+		case "soft":
+			return "preferred (AWP and IGL on every team when it costs little balance)";
+		case "hard":
+			return "required (AWP and IGL on every team wherever possible)";
+	}
+}
+
+/**
+ * Format a list of roles (e.g. "AWP / IGL")
+ */
+function formatRoles(roles: PlayerRole[]): string {
+	const labels: Record<PlayerRole, string> = {
+		awp: "AWP",
+		entry: "Entry",
+		igl: "IGL",
+		support: "Support",
+	};
+	return roles.map((role) => labels[role]).join(" / ");
+}
+
+/**
+ * Format the teams missing a required role after generation
+ */
+function formatRoleGaps(
+	gaps: { team_id: string; missing: PlayerRole[] }[],
+): string {
+	if (gaps.length === 0) {
+		return "🎭 Every team has all required roles.\n\n";
+	}
+
+	let section = "⚠️ **Missing roles:**\n";
+	for (const gap of gaps) {
+		section += `• ${gap.team_id}: ${formatRoles(gap.missing)}\n`;
+	}
+	return `${section}\n`;
+}
+
+/**
+ * Format a bench priority as a human-readable label
+ */
+// Numbered split options with each team's roster on one line.
+// Large lobbies fall back to the ADR differences alone to stay within Discord's message limit.
+function formatSplitOptions(
+	options: SplitChoice[],
+	teamSize: number,
+	effort: string,
+	seed: number,
+): string {
+	const header =
+		`🎯 **${options.length} Splits Generated!** (${formatTeamSize(teamSize)}, ${effort})\n\n` +
+		"Pick one with the buttons below. The current teams stay as they are until then.\n\n";
+	const footer = `🎲 Seed: \`${seed}\``;
+
+	const detailed = options
+		.map((choice) => {
+			const rosters = choice.teams
+				.map((team) => {
+					const names = team.players
+						.map((p) => p.display_name || p.username)
+						.join(", ");
+					return `• ${team.id} (\`${team.average_adr.toFixed(2)}\`): ${names}`;
+				})
+				.join("\n");
+			return `**Option ${choice.option}** (ADR difference: \`${choice.adr_difference.toFixed(2)}\`)\n${rosters}\n\n`;
+		})
+		.join("");
+	if (header.length + detailed.length + footer.length <= 2000) {
+		return header + detailed + footer;
+	}
+
+	const summary = options
+		.map(
+			(choice) =>
+				`**Option ${choice.option}**: ADR difference \`${choice.adr_difference.toFixed(2)}\`\n`,
+		)
+		.join("");
+	return `${header}${summary}\nRosters are too long to list here, \`/tournament show_teams\` shows the picked split.\n\n${footer}`;
+}
+
+function formatBenchPriority(priority: BenchPriority): string {
+	switch (priority) {
+		case "latest_joiner":
+			return "latest joiners sit out";
+		case "fewest_games":
+			return "fewest games played sit out";
+		case "random":
+			return "random players sit out";
+	}
+}
+
+/**
+ * Format the heading shown above the first team of each lobby (empty for teams outside lobbies)
+ */
+function formatLobbyHeading(
+	teams: { lobby?: number | null; average_adr: number }[],
+	index: number,
+): string {
+	const lobby = teams[index]?.lobby ?? null;
+	if (lobby === null || teams[index - 1]?.lobby === lobby) {
+		return "";
+	}
+
+	const lobbyTeams = teams.filter((team) => team.lobby === lobby);
+	const averageAdr =
+		lobbyTeams.reduce((sum, team) => sum + team.average_adr, 0) /
+		lobbyTeams.length;
+	return `🏟️ **Lobby ${lobby}** (Avg ADR: \`${averageAdr.toFixed(2)}\`)\n`;
+}
+
+// How often a player sat out this tournament, empty until they have
+function formatSitOuts(player: PlayerAdrDisplay): string {
+	if (!player.sit_outs) {
+		return "";
+	}
+	return ` 🪑 sat out ${player.sit_outs} ${player.sit_outs === 1 ? "time" : "times"}`;
+}
+
+/**
+ * Format the substitutes section of a team listing (empty when nobody is benched)
+ */
+function formatBench(bench: PlayerAdrDisplay[]): string {
+	if (bench.length === 0) {
+		return "";
+	}
+
+	let section = `🪑 **Substitutes** (${bench.length}):\n`;
+	for (const player of bench) {
+		const displayName = player.display_name || player.username;
+		section += `• ${displayName} (\`${player.adr ?? "N/A"}\`)\n`;
+	}
+	return `${section}\n`;
+}
+
+/**
+ * Format the fairness section of a team listing: the score, the spread of team totals and each team's ADR range
+ */
+function formatDiagnostics(diagnostics: TeamDiagnosticsDisplay): string {
+	let section =
+		`⚖️ **Fairness: ${diagnostics.fairness}/100** ` +
+		`(ADR difference \`${diagnostics.adr_difference.toFixed(2)}\`, std dev \`${diagnostics.adr_std_dev.toFixed(2)}\`)\n`;
+	for (const team of diagnostics.teams) {
+		section += `• ${team.team_id}: ADR \`${team.min_adr.toFixed(2)}\` – \`${team.max_adr.toFixed(2)}\`\n`;
+	}
+	return `${section}\n`;
+}
+
+/**
+ * Name the difference a rebalance plan is measured in
+ */
+function formatRebalanceDifference(plan: RebalancePlan): string {
+	return plan.metric === "rating" ? "Rating difference" : "ADR difference";
+}
+
+/**
+ * Format the swaps of a rebalance with the difference before and after them
+ */
+function formatRebalance(plan: RebalancePlan): string {
+	let message = "";
+	plan.swaps.forEach((swap, index) => {
+		const name1 = swap.player1.display_name || swap.player1.username;
+		const name2 = swap.player2.display_name || swap.player2.username;
+		message += `${index + 1}. ${name1} (\`${swap.player1.adr ?? "N/A"}\`) ${swap.team1} → ${swap.team2}, ${name2} (\`${swap.player2.adr ?? "N/A"}\`) ${swap.team2} → ${swap.team1}\n`;
+	});
+	message += `\n${formatRebalanceDifference(plan)}: \`${plan.adr_difference_before.toFixed(2)}\` → \`${plan.adr_difference_after.toFixed(2)}\`\n`;
+	return message;
+}
+
+/**
+ * Format a draft in progress: every team's picks so far and whose pick it is
+ */
+function formatDraftBoard(board: DraftBoard): string {
+	let message = "";
+	for (const team of board.teams) {
+		const picked = team.players
+			.map((p) => p.display_name || p.username)
+			.join(", ");
+		const captain = team.captain.display_name || team.captain.username;
+		message += `**${team.team_id}** (captain ${captain}): ${picked || "no picks yet"}\n`;
+	}
+
+	if (board.on_the_clock) {
+		message += `\n⏳ **Pick ${board.pick_number} of ${board.total_picks}:** <@${board.on_the_clock.captain.player_id}> picks for ${board.on_the_clock.team_id}.`;
+	}
+	return message;
+}
+
+// Discord allows 5 rows of 5 buttons: 4 rows of players and a row to page through the rest
+const DRAFT_PLAYERS_PER_PAGE = 20;
+
+/**
+ * Create the player buttons for a draft, strongest players first
+ */
+function createDraftButtons(
+	board: DraftBoard,
+	page: number,
+): DiscordActionRow[] {
+	if (board.complete) {
+		return [];
+	}
+
+	const pages = Math.ceil(board.available.length / DRAFT_PLAYERS_PER_PAGE);
+	const current = Math.min(page, pages - 1);
+	const players = board.available.slice(
+		current * DRAFT_PLAYERS_PER_PAGE,
+		(current + 1) * DRAFT_PLAYERS_PER_PAGE,
+	);
+
+	const rows: DiscordActionRow[] = [];
+	for (let i = 0; i < players.length; i += 5) {
+		rows.push(
+			createButtonRow(
+				players.slice(i, i + 5).map((p) => ({
+					label: `${p.display_name || p.username} (${p.adr ?? "N/A"})`.slice(
+						0,
+						80,
+					),
+					customId: `t:draft:${board.pick_number}:${p.player_id}`,
+				})),
+			),
+		);
+	}
+
+	if (pages > 1) {
+		rows.push(
+			createButtonRow([
+				...(current > 0
+					? [
+							{
+								label: "◀ Previous",
+								customId: `t:draft_page:${current - 1}`,
+								style: DISCORD_BUTTON_STYLES.SECONDARY,
+							},
+						]
+					: []),
+				...(current < pages - 1
+					? [
+							{
+								label: "Next ▶",
+								customId: `t:draft_page:${current + 1}`,
+								style: DISCORD_BUTTON_STYLES.SECONDARY,
+							},
+						]
+					: []),
+			]),
+		);
+	}
+	return rows;
+}
+
+// Runs are 0 when the exact solver settled the split without the heuristic
+function formatSearchEffort(runs: number, elapsedMs: number): string {
+	const searched = runs > 0 ? `${runs} optimization runs` : "exact search";
+	return `${searched} in ${(elapsedMs / 1000).toFixed(1)}s`;
+}
+
+function formatBalanceMetric(metric: BalanceMetric): string {
+	switch (metric) {
+		case "adr":
+			return "submitted ADR";
+		case "rating":
+			return "match rating";
+	}
+}
+
+function formatAdrSource(source: AdrSource): string {
+	switch (source) {
+		case "raw":
+			return "submitted ADR";
+		case "effective":
+			return "effective ADR (submitted ADR blended with match history)";
+	}
+}
+
+function formatStanding(standing: IndividualStandingDisplay): string {
+	const displayName = standing.display_name || standing.username;
+	const roundPoints = standing.rounds_won * ROUND_WIN_POINTS;
+	const mapPoints = standing.points - roundPoints;
+	return `${displayName}: **${standing.points}** pts (${mapPoints} from ${standing.maps_won}/${standing.maps_played} maps won, ${roundPoints} from ${standing.rounds_won} rounds won)`;
+}
+
+function formatTeamMode(mode: TeamMode): string {
+	switch (mode) {
+		case "balanced":
+			return "balanced";
+		case "random":
+			return "random teams";
+		case "premade":
+			return "pre-made teams";
+	}
+}
+
+function formatRating(rating: PlayerRatingDisplay): string {
+	const provisional = rating.provisional ? ", provisional" : "";
+	return `\`${Math.round(rating.rating)}\` (${rating.rated_matches} match(es)${provisional})`;
+}
+
 /**
  * Handle help command - show available tournament commands
  */
@@ -1059,27 +2342,38 @@ async function handleHelp(): Promise<DiscordInteractionResponse> {
 ## 🏆 **CS2 Tournament Commands**
 
 ### **Tournament Management**
-• \`/t open\` - Open a new tournament *(Admin)*
+• \`/t open [team_size] [bench] [objective] [role_coverage] [variety] [variety_weight] [metric] [mode] [adr_source] [adr_decay] [format]\` - Open a new tournament, 2v2 to 5v5 (default 5v5), optionally benching extra players, choosing what to balance for, avoiding recent teammates, balancing on ADR or match rating, using balanced, random or pre-made teams, generating from submitted or effective ADR and scoring teams or, with the mix format, individual players *(Admin)*
 • \`/t close\` - Close current tournament *(Admin)*
+• \`/t lock_registration\` - Stop players from joining, leaving or changing their ADR while teams and results carry on *(Admin)*
+• \`/t unlock_registration\` - Reopen registration *(Admin)*
 • \`/t help\` - Show this help message
 
 ### **Player Management**
 • \`/t join\` - Join the current tournament
 • \`/t leave\` - Leave the current tournament
 • \`/t remove @player\` - Remove a player *(Admin)*
+• \`/t team register @teammate1 [@teammate2] [@teammate3] [@teammate4]\` - Register a pre-made team with you on it, for pre-made mode
+• \`/t role awp [igl]\` - Set your preferred roles (AWP, Entry, IGL, Support), or \`none\` to clear them
 
 ### **ADR & Team Setup**
 • \`/t set_adr 85.5\` - Submit your ADR
 • \`/t show_adr\` - View all player ADRs
-• \`/t generate_teams\` - Create balanced teams *(Admin)*
+• \`/t rating [@player] [recalculate]\` - View this server's rating leaderboard or a player's rating; \`recalculate\` rebuilds them from this server's match history *(Admin)*
+• \`/t generate_teams [bench] [seed] [alternatives] [time] [mode] [lobbies] [lobby_split]\` - Create balanced teams, extra players become substitutes; with alternatives, pick one of several splits; with time, use the best split found within that many seconds; with mode, make random teams or use the registered pre-made teams from now on; with lobbies, first split players into tiered or mixed lobbies and balance teams inside each *(Admin)*
+• \`/t draft [order] [captain1] [captain2] [captain3] [captain4]\` - Start a captain draft instead of generating teams; named captains come first, the highest ADRs captain the rest, and captains pick with buttons in snake or linear order *(Admin)*
 • \`/t show_teams\` - View current teams
+• \`/t standings\` - View individual standings of a mix tournament, where teams are regenerated each round and every player scores for the maps and rounds their team wins
 
 ### **Team Management** *(Admin)*
 • \`/t add @player TEAM1\` - Add player to specific team
 • \`/t exchange @player1 @player2\` - Swap players between teams
+• \`/t rebalance [keep_locked] [keep_pinned]\` - Suggest the fewest swaps that rebalance the teams, applied once you confirm
+• \`/t pair @player1 @player2 together|apart|clear\` - Keep two players on the same team or on different teams
+• \`/t show_pairs\` - View pairing rules
+• \`/t pin @player [team]\` - Keep a player on a team number when generating teams, or unpin them without a team
 
 ### **Match Recording** *(Admin)*
-• \`/t result TEAM1-16-14-TEAM2\` - Record match result
+• \`/t result TEAM1-16-14-TEAM2\` - Record match result, which also updates player ratings
 
 ### **Finding your ADR**
 One way to find your ADR is to log into popflash.site, click on your username in the top right corner and select My Profile. You can view your lifetime ADR or select a recent period. This only works if you have played matches on Popflash.
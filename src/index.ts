@@ -14,6 +14,10 @@ import {
 	createErrorResponse,
 	createPongResponse,
 } from "./utils/discord-responses";
+import {
+	guildAllowlistFromEnv,
+	guildAllowlistMiddleware,
+} from "./utils/guild-allowlist";
 import { DISCORD_INTERACTION_TYPES } from "./validation/discord";
 
 // Create Hono app with proper typing for Cloudflare Worker environment
@@ -211,6 +215,13 @@ const validateDiscordRequest = async (
 
 // Apply security middleware to Discord webhook
 app.use("/discord/webhook", validateDiscordRequest);
+
+// Only answer in the servers the bot was set up for, before anything touches the database
+app.use("/discord/webhook", async (c, next) => {
+	const middleware = guildAllowlistMiddleware(guildAllowlistFromEnv(c.env));
+	return middleware(c, next);
+});
+
 app.use("/discord/webhook", privateServerRateLimit);
 
 // Main Discord webhook endpoint
@@ -271,6 +282,24 @@ app.post("/discord/webhook", async (c) => {
 					return createDiscordHttpResponse(errorResponse, 400);
 				}
 
+			case DISCORD_INTERACTION_TYPES.MESSAGE_COMPONENT: {
+				// Handle button clicks on tournament messages
+				const customId = (
+					interaction.data as { custom_id?: string } | undefined
+				)?.custom_id;
+				if (customId?.startsWith("t:")) {
+					console.log("Handling tournament component");
+					return handleTournamentCommand(c);
+				}
+
+				console.warn(`Unknown component received: ${customId}`);
+				const errorResponse = createErrorResponse(
+					"This button is no longer supported",
+					{ title: "Unknown Component" },
+				);
+				return createDiscordHttpResponse(errorResponse, 400);
+			}
+
 			default: {
 				// Unknown interaction type
 				console.warn(`Unhandled interaction type: ${interaction.type}`);
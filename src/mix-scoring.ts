@@ -0,0 +1,70 @@
+// Individual scoring for mix tournaments: teams change every round, so every player keeps their own points.
+// Players are ranked on their points, which add up the rounds they won and their map results.
+// Map wins, then rounds won, only separate players with the same points.
+
+// Points for every round the player's team won on a map
+export const ROUND_WIN_POINTS = 1;
+
+// Points for winning a map, a tied map gives both sides half
+export const MAP_WIN_POINTS = 10;
+
+// One recorded map, with the players on each side
+export type MixMatch = {
+	team1: string[];
+	team2: string[];
+	score1: number;
+	score2: number;
+};
+
+export type IndividualStanding = {
+	player_id: string;
+	points: number;
+	maps_played: number;
+	maps_won: number;
+	rounds_won: number;
+};
+
+// Map points of a side that won `rounds` against `opponentRounds`
+function mapPoints(rounds: number, opponentRounds: number): number {
+	if (rounds === opponentRounds) {
+		return MAP_WIN_POINTS / 2;
+	}
+	return rounds > opponentRounds ? MAP_WIN_POINTS : 0;
+}
+
+/**
+ * Score every player over the recorded maps
+ * @returns Standings sorted by points, then map wins, then round wins
+ */
+export function scoreIndividuals(mixMatches: MixMatch[]): IndividualStanding[] {
+	const standings = new Map<string, IndividualStanding>();
+	const credit = (players: string[], rounds: number, mapPoints: number) => {
+		for (const playerId of players) {
+			const standing = standings.get(playerId) ?? {
+				player_id: playerId,
+				points: 0,
+				maps_played: 0,
+				maps_won: 0,
+				rounds_won: 0,
+			};
+			standing.maps_played += 1;
+			standing.maps_won += mapPoints === MAP_WIN_POINTS ? 1 : 0;
+			standing.rounds_won += rounds;
+			standing.points += rounds * ROUND_WIN_POINTS + mapPoints;
+			standings.set(playerId, standing);
+		}
+	};
+
+	for (const match of mixMatches) {
+		credit(match.team1, match.score1, mapPoints(match.score1, match.score2));
+		credit(match.team2, match.score2, mapPoints(match.score2, match.score1));
+	}
+
+	return [...standings.values()].sort(
+		(a, b) =>
+			b.points - a.points ||
+			b.maps_won - a.maps_won ||
+			b.rounds_won - a.rounds_won ||
+			a.player_id.localeCompare(b.player_id),
+	);
+}
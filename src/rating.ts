@@ -0,0 +1,83 @@
+// Team Elo rating: each match moves every player by how much their team beat (or fell short of) the expected result.
+// New players use a larger K-factor so their rating settles quickly, in the spirit of Glicko's rating deviation.
+
+// Rating of a player with no rated matches
+export const DEFAULT_RATING = 1500;
+
+// Matches after which a rating stops being provisional
+export const PROVISIONAL_MATCHES = 10;
+
+const PROVISIONAL_K_FACTOR = 40;
+const ESTABLISHED_K_FACTOR = 20;
+
+export type RatedPlayer = {
+	id: string;
+	rating: number;
+	ratedMatches: number; // Matches the rating is based on
+};
+
+// New rating of a player after one match
+export type RatingUpdate = {
+	id: string;
+	rating: number;
+	ratedMatches: number;
+	change: number;
+};
+
+// How far a single match can move a player's rating
+export function kFactor(ratedMatches: number): number {
+	return ratedMatches < PROVISIONAL_MATCHES
+		? PROVISIONAL_K_FACTOR
+		: ESTABLISHED_K_FACTOR;
+}
+
+// Probability that a side rated `rating` beats a side rated `opponent`, with draws counting half
+export function expectedScore(rating: number, opponent: number): number {
+	return 1 / (1 + 10 ** ((opponent - rating) / 400));
+}
+
+// A team plays at its players' average rating
+function teamRating(team: RatedPlayer[]): number {
+	return team.reduce((sum, p) => sum + p.rating, 0) / team.length;
+}
+
+/**
+ * Rate a match between two lineups
+ * @param team1 Players of the first team with their ratings before the match
+ * @param team2 Players of the second team with their ratings before the match
+ * @returns New rating of every player, team 1 first; empty when a lineup is missing
+ */
+export function rateMatch(
+	team1: RatedPlayer[],
+	team2: RatedPlayer[],
+	score1: number,
+	score2: number,
+): RatingUpdate[] {
+	if (team1.length === 0 || team2.length === 0) {
+		return [];
+	}
+
+	const rating1 = teamRating(team1);
+	const rating2 = teamRating(team2);
+	const actual1 = score1 > score2 ? 1 : score1 < score2 ? 0 : 0.5;
+
+	const update = (
+		team: RatedPlayer[],
+		actual: number,
+		expected: number,
+	): RatingUpdate[] =>
+		team.map((player) => {
+			const change = kFactor(player.ratedMatches) * (actual - expected);
+			return {
+				id: player.id,
+				rating: player.rating + change,
+				ratedMatches: player.ratedMatches + 1,
+				change,
+			};
+		});
+
+	return [
+		...update(team1, actual1, expectedScore(rating1, rating2)),
+		...update(team2, 1 - actual1, expectedScore(rating2, rating1)),
+	];
+}
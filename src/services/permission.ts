@@ -37,7 +37,7 @@ export class PermissionService {
 	 * @returns Promise<boolean> true if user has admin permissions
 	 */
 	async checkAdminPermission(
-		interaction: DiscordInteraction,
+		interaction: Pick<DiscordInteraction, "member">,
 	): Promise<boolean> {
 		// If no admin roles configured, deny access
 		if (this.adminRoleIds.length === 0) {
@@ -55,7 +55,9 @@ export class PermissionService {
 	 * @param interaction Discord interaction
 	 * @returns Promise<string[]> array of role IDs
 	 */
-	async extractUserRoles(interaction: DiscordInteraction): Promise<string[]> {
+	async extractUserRoles(
+		interaction: Pick<DiscordInteraction, "member">,
+	): Promise<string[]> {
 		// In guild context, roles come from member object
 		if (interaction.member?.roles) {
 			return interaction.member.roles;
@@ -70,7 +72,9 @@ export class PermissionService {
 	 * @param interaction Discord interaction
 	 * @throws PermissionError if user lacks admin permissions
 	 */
-	async requireAdminPermission(interaction: DiscordInteraction): Promise<void> {
+	async requireAdminPermission(
+		interaction: Pick<DiscordInteraction, "member">,
+	): Promise<void> {
 		const hasPermission = await this.checkAdminPermission(interaction);
 
 		if (!hasPermission) {
@@ -1,15 +1,57 @@
+import type {
+	BalanceMetric,
+	BalancingObjective,
+	BenchPriority,
+	PairConstraintType,
+	PlayerRole,
+	RoleCoverage,
+} from "../db/schema.js";
+import { DEFAULT_RATING } from "../rating.js";
 import {
+	countRepeatPairings,
+	createObjective,
+	createRandom,
+	DEFAULT_OBJECTIVE_WEIGHTS,
+	findConstraintConflict,
+	missingRoles,
+	type Objective,
+	type ObjectiveScores,
 	optimizeTeams,
+	playerConfidence,
+	type Random,
+	type RecentPairing,
+	randomTeams,
+	type SearchEffort,
+	type Split,
+	scoreObjectives,
+	shuffle,
+	solveTeamsExact,
+	splitKey,
+	type PairConstraint as TeamgenPairConstraint,
 	type Player as TeamgenPlayer,
 	type Team as TeamgenTeam,
+	uncertaintySpread,
+	withConfidenceSpread,
+	withRepeatPairPenalty,
+	withRoleCoverage,
 } from "../teamgen.js";
 
+// Penalty per missing role under hard coverage, large enough that no ADR gain can outweigh it
+const HARD_ROLE_COVERAGE_WEIGHT = 1_000_000;
+
 // Tournament-specific types
 export interface TournamentPlayer {
 	id: string; // Discord user ID
 	username: string;
 	display_name?: string;
 	adr: number;
+	joined_at?: string | null; // Used by the latest_joiner bench priority
+	games_played?: number; // Used by the fewest_games bench priority
+	sit_outs?: number; // Times the player already sat out this tournament, fewest sit out first whatever the bench priority
+	roles?: PlayerRole[]; // Preferred roles, used for role coverage
+	rating?: number; // Match rating, used when balancing by rating
+	tournaments_played?: number; // Decides how much the ADR is trusted, low-confidence players are spread across teams; unknown counts as trusted
+	pinned_team?: string | null; // Team the player must end up on ("TEAM1"), never benched; ignored for pre-made teams
 }
 
 export interface GeneratedTeam {
@@ -17,12 +59,61 @@ export interface GeneratedTeam {
 	players: TournamentPlayer[];
 	average_adr: number;
 	total_adr: number;
+	average_rating?: number; // Only set when balancing by rating
+	lobby?: number; // 1-based lobby the team plays in, only set when players were split into lobbies
 }
 
 export interface TeamGenerationResult {
+	teams: GeneratedTeam[];
+	bench: TournamentPlayer[];
+	adr_difference: number;
+	optimization_runs: number; // Runs requested, or the runs completed when only a time limit was given
+	runs_completed: number; // Heuristic runs actually started, 0 when the exact solver settled it
+	iterations: number; // Heuristic swap attempts actually made
+	elapsed_ms: number;
+	timed_out: boolean; // True when the time limit stopped the search early, the best split found so far is used
+	solver: "exact" | "heuristic" | "none"; // None for random and pre-made teams, which aren't balanced
+	proven_optimal: boolean; // True only when the exact solver finished its search
+	seed: number; // Random seed used, pass it back in to reproduce the same split
+	metric: BalanceMetric; // What adr_difference and the objective scores are measured in
+	objective: BalancingObjective;
+	objective_scores: ObjectiveScores; // Unweighted score of the final split on every component
+	role_gaps: { team_id: string; missing: PlayerRole[] }[]; // Teams missing a required role, empty when coverage is off
+	repeat_pairings: number; // Recent teammate pairs placed together again, 0 without history
+	alternatives: AlternativeSplit[]; // Distinct splits best first, starting with the chosen one
+}
+
+export interface AlternativeSplit {
 	teams: GeneratedTeam[];
 	adr_difference: number;
-	optimization_runs: number;
+}
+
+export interface PlayerPairConstraint {
+	player1_id: string;
+	player2_id: string;
+	type: PairConstraintType;
+}
+
+export interface RecentTeammates {
+	player1_id: string;
+	player2_id: string;
+	count: number; // Number of recent tournaments they shared a team in
+}
+
+// How players are grouped into lobbies: by strength, highest tier first, or into equally strong lobbies
+export type LobbySplit = "tiered" | "mixed";
+
+export interface TeamGenerationOptions {
+	benchPriority?: BenchPriority; // Bench leftover players instead of requiring an exact multiple of team size
+	pairConstraints?: PlayerPairConstraint[]; // Hard together/apart rules, ignored for players not in the lineup
+	seed?: number; // Seed for the random number generator, a fresh one is picked when omitted
+	objective?: BalancingObjective; // What "balanced" means, defaults to total ADR difference
+	roleCoverage?: RoleCoverage; // Whether every team must get the required roles, defaults to off
+	recentTeammates?: RecentTeammates[]; // Variety mode: pairs to keep apart where balance allows
+	varietyWeight?: number; // ADR difference worth avoiding one repeat pairing, defaults to 10
+	alternatives?: number; // How many distinct splits to return for an admin to choose from, defaults to 1
+	metric?: BalanceMetric; // Player strength to balance on, defaults to ADR
+	timeLimit?: number; // Milliseconds to search for; without runs, search until it runs out
 }
 
 export class TeamGenerationError extends Error {
@@ -36,82 +127,197 @@ export class TeamGenerationService {
 	private defaultRuns: number;
 	private maxRuns: number;
 	private teamSize: number;
+	private exactSolverMaxPlayers: number;
+	private maxExecutionTime: number;
+	private objectiveWeights: ObjectiveScores;
+	private requiredRoles: PlayerRole[];
+	private roleCoverageWeight: number;
+	private confidenceWeight: number;
 
 	constructor(
 		options: {
 			defaultRuns?: number;
 			maxRuns?: number;
 			teamSize?: number;
+			exactSolverMaxPlayers?: number;
+			maxExecutionTime?: number;
+			objectiveWeights?: Partial<ObjectiveScores>;
+			requiredRoles?: PlayerRole[];
+			roleCoverageWeight?: number;
+			confidenceWeight?: number;
 		} = {},
 	) {
 		// Optimized defaults for Cloudflare Workers execution limits
 		this.defaultRuns = options.defaultRuns ?? 200; // Optimized default
 		this.maxRuns = options.maxRuns ?? 200; // Maximum safe limit
 		this.teamSize = options.teamSize ?? 5;
+		this.exactSolverMaxPlayers = options.exactSolverMaxPlayers ?? 20; // Larger pools only use the heuristic
+		this.maxExecutionTime = options.maxExecutionTime ?? 25000; // 25 seconds (Cloudflare Workers limit is 30s)
+		this.objectiveWeights = {
+			...DEFAULT_OBJECTIVE_WEIGHTS,
+			...options.objectiveWeights,
+		}; // Used by the weighted objective
+		this.requiredRoles = options.requiredRoles ?? ["awp", "igl"];
+		this.roleCoverageWeight = options.roleCoverageWeight ?? 25; // ADR difference worth one missing role under soft coverage
+		this.confidenceWeight = options.confidenceWeight ?? 20; // ADR difference worth one more newcomer on a team than on another
 	}
 
 	/**
 	 * Generate balanced teams using the existing optimization algorithm
 	 * @param players Array of tournament players with ADRs
-	 * @param runs Number of optimization runs (optional, uses default if not provided)
+	 * @param runs Number of optimization runs (optional, uses default if not provided, unlimited with only a time limit)
+	 * @param teamSize Players per team (optional, uses the configured team size if not provided)
+	 * @param options Additional generation options such as the bench priority
 	 * @returns Promise<TeamGenerationResult> Generated teams with statistics
 	 */
 	async generateBalancedTeams(
 		players: TournamentPlayer[],
 		runs?: number,
+		teamSize?: number,
+		options: TeamGenerationOptions = {},
 	): Promise<TeamGenerationResult> {
+		const size = this.validateTeamSize(teamSize);
+		const objective = options.objective ?? "total_diff";
+		const roleCoverage = options.roleCoverage ?? "off";
+		const metric = options.metric ?? "adr";
+
+		// Every random choice below draws from this generator so a seed reproduces the split
+		const seed = options.seed ?? randomSeed();
+		const random = createRandom(seed);
+
+		// Pick substitutes first so the remaining players form full teams
+		const { active, bench } = options.benchPriority
+			? this.selectBench(players, size, options.benchPriority, random)
+			: { active: players, bench: [] };
+
 		// Validate inputs
-		this.validatePlayers(players);
+		this.validatePlayers(active, size);
 
-		const optimizationRuns = this.validateRuns(runs);
+		const timeLimit = this.validateTimeLimit(options.timeLimit);
+		// With only a time limit, keep starting runs until it runs out
+		const optimizationRuns =
+			runs === undefined && options.timeLimit !== undefined
+				? Number.POSITIVE_INFINITY
+				: this.validateRuns(runs);
+		const keep = this.validateAlternatives(options.alternatives);
+
+		const constraints = this.resolveConstraints(
+			active,
+			size,
+			options.pairConstraints ?? [],
+		);
 
 		// Convert to teamgen format
-		const teamgenPlayers = this.convertToTeamgenFormat(players);
+		const teamgenPlayers = this.convertToTeamgenFormat(active, metric);
+		const sources = new Map(teamgenPlayers.map((p, i) => [p, active[i]]));
+		const pinned = this.pinnedSlots(active, teamgenPlayers);
+		const pairings = this.resolvePairings(
+			active,
+			options.recentTeammates ?? [],
+		);
+		const balance = this.buildObjective(
+			objective,
+			roleCoverage,
+			teamgenPlayers,
+			pairings,
+			options.varietyWeight ?? 10,
+		);
 
-		// Run optimization algorithm with timeout protection
+		// Everything after this point shares the time limit, the search stops at the deadline
 		const startTime = Date.now();
-		const maxExecutionTime = 25000; // 25 seconds (Cloudflare Workers limit is 30s)
+		const deadline = startTime + timeLimit;
 
 		try {
 			// Run optimization algorithm with reduced iterations for Workers
-			const maxIterations = Math.min(500, Math.floor(10000 / optimizationRuns)); // Dynamic based on runs
+			const maxIterations = Math.min(
+				500,
+				Math.floor(
+					10000 /
+						(Number.isFinite(optimizationRuns)
+							? optimizationRuns
+							: this.defaultRuns),
+				),
+			); // Dynamic based on runs
 
 			console.log(
-				`Starting team generation: ${optimizationRuns} runs, ${maxIterations} max iterations per run`,
+				`Starting team generation: ${optimizationRuns} runs, ${maxIterations} max iterations per run, ${timeLimit}ms limit`,
 			);
 
-			const result = optimizeTeams(
+			const solved = this.solve(
 				teamgenPlayers,
-				this.teamSize,
+				size,
 				maxIterations,
 				optimizationRuns,
+				constraints,
+				random,
+				balance,
+				keep,
+				deadline,
 			);
+			// Teams come out in any order, so the ones holding pinned players are moved to their slots
+			const result = {
+				...solved,
+				teams: placePinnedTeams(solved.teams, pinned),
+				alternatives: solved.alternatives.map((split) => ({
+					...split,
+					teams: placePinnedTeams(split.teams, pinned),
+				})),
+			};
 
 			const executionTime = Date.now() - startTime;
-			console.log(`Team generation completed in ${executionTime}ms`);
+			console.log(
+				`Team generation completed in ${executionTime}ms: ${result.runs} runs, ${result.iterations} iterations`,
+			);
 
-			if (executionTime > maxExecutionTime) {
+			if (result.timedOut) {
 				console.warn(
-					`Team generation took ${executionTime}ms, approaching timeout limit`,
+					`Team generation stopped at the ${timeLimit}ms limit, using the best split found`,
 				);
 			}
 
 			// Convert back to tournament format
-			const tournamentTeams = this.convertFromTeamgenFormat(result.teams);
+			const tournamentTeams = this.convertFromTeamgenFormat(
+				result.teams,
+				sources,
+				metric,
+			);
 
 			return {
 				teams: tournamentTeams,
+				bench,
 				adr_difference: result.adrDiff,
-				optimization_runs: optimizationRuns,
+				optimization_runs: Number.isFinite(optimizationRuns)
+					? optimizationRuns
+					: result.runs,
+				runs_completed: result.runs,
+				iterations: result.iterations,
+				elapsed_ms: executionTime,
+				timed_out: result.timedOut,
+				solver: result.solver,
+				proven_optimal: result.optimal,
+				seed,
+				metric,
+				objective,
+				objective_scores: scoreObjectives(result.teams),
+				role_gaps:
+					roleCoverage === "off" ? [] : this.findRoleGaps(result.teams),
+				repeat_pairings: countRepeatPairings(
+					result.teams,
+					teamgenPlayers,
+					pairings,
+				),
+				alternatives: result.alternatives.map((split) => ({
+					teams: this.convertFromTeamgenFormat(split.teams, sources, metric),
+					adr_difference: split.adrDiff,
+				})),
 			};
 		} catch (error) {
 			const executionTime = Date.now() - startTime;
 			console.error(`Team generation failed after ${executionTime}ms:`, error);
 
-			if (executionTime > maxExecutionTime * 0.8) {
+			if (executionTime > timeLimit * 0.8) {
 				throw new TeamGenerationError(
-					`Team generation timed out. Try reducing the number of optimization runs (current: ${optimizationRuns}). ` +
-						`Recommended: ${Math.max(10, Math.floor(optimizationRuns / 4))} runs or fewer.`,
+					`Team generation failed after ${executionTime}ms of its ${timeLimit}ms limit.`,
 				);
 			}
 
@@ -119,19 +325,562 @@ export class TeamGenerationService {
 		}
 	}
 
+	/**
+	 * Group players into lobbies first, then generate balanced teams inside each lobby.
+	 * Teams are numbered across lobbies (TEAM1 and TEAM2 in lobby 1, TEAM3 and TEAM4 in lobby 2, and so on).
+	 * Players linked by "together" rules are kept in the same lobby.
+	 * @param players Array of tournament players with ADRs
+	 * @param lobbies Number of lobbies, each gets the same number of players
+	 * @param split Whether lobbies are tiered by strength or equally strong
+	 * @param runs Optimization runs per lobby (optional, uses default if not provided)
+	 * @param teamSize Players per team (optional, uses the configured team size if not provided)
+	 * @param options Additional generation options; the time limit is shared between the lobbies
+	 * @returns Promise<TeamGenerationResult> Teams of every lobby, with the statistics of the least balanced one
+	 * @throws TeamGenerationError if the players can't fill the lobbies, a together rule can't fit in one lobby, players are pinned or alternatives are requested
+	 */
+	async generateLobbyTeams(
+		players: TournamentPlayer[],
+		lobbies: number,
+		split: LobbySplit,
+		runs?: number,
+		teamSize?: number,
+		options: TeamGenerationOptions = {},
+	): Promise<TeamGenerationResult> {
+		const size = this.validateTeamSize(teamSize);
+		const metric = options.metric ?? "adr";
+		const startTime = Date.now();
+
+		if (!Number.isInteger(lobbies) || lobbies < 1) {
+			throw new TeamGenerationError(
+				"Number of lobbies must be a positive integer",
+			);
+		}
+		if (this.validateAlternatives(options.alternatives) > 1) {
+			throw new TeamGenerationError(
+				"Alternative splits can't be offered when splitting into lobbies",
+			);
+		}
+		// Pins name a team across the whole tournament, which lobbies renumber
+		const pinned = players.filter((p) => p.pinned_team);
+		if (pinned.length > 0) {
+			throw new TeamGenerationError(
+				`Unpin ${pinned.map((p) => p.username).join(", ")} before splitting into lobbies`,
+			);
+		}
+
+		const seed = options.seed ?? randomSeed();
+		const random = createRandom(seed);
+
+		if (players.length < size * 2 * lobbies) {
+			throw new TeamGenerationError(
+				`Not enough players (${players.length}) for ${lobbies} lobbies of at least two teams`,
+			);
+		}
+
+		// Every lobby needs the same number of full teams
+		const { active, bench } = options.benchPriority
+			? this.selectBench(players, size * lobbies, options.benchPriority, random)
+			: { active: players, bench: [] };
+		if (active.length % (size * lobbies) !== 0) {
+			throw new TeamGenerationError(
+				`Player count (${active.length}) must be divisible by ${size * lobbies} to fill ${lobbies} lobbies`,
+			);
+		}
+
+		// Without runs, each lobby would search until its share of the time runs out
+		const lobbyRuns =
+			runs ?? (options.timeLimit === undefined ? this.defaultRuns : undefined);
+		const timeLimit = Math.floor(
+			this.validateTimeLimit(options.timeLimit) / lobbies,
+		);
+
+		const results: TeamGenerationResult[] = [];
+		const lobbyGroups = groupLobbies(
+			active,
+			lobbies,
+			split,
+			metric,
+			options.pairConstraints ?? [],
+		);
+		for (const lobbyPlayers of lobbyGroups) {
+			results.push(
+				await this.generateBalancedTeams(lobbyPlayers, lobbyRuns, size, {
+					...options,
+					benchPriority: undefined,
+					seed: Math.floor(random() * 2 ** 32),
+					alternatives: undefined,
+					timeLimit,
+				}),
+			);
+		}
+
+		// Renumber the teams of each lobby after the teams of the lobbies before it
+		const teamIds = new Map<string, string>();
+		let offset = 0;
+		const teams = results.flatMap((result, index) => {
+			const lobbyTeams = result.teams.map((team, t) => {
+				const id = this.generateTeamId(offset + t + 1);
+				teamIds.set(`${index}:${team.id}`, id);
+				return { ...team, id, lobby: index + 1 };
+			});
+			offset += lobbyTeams.length;
+			return lobbyTeams;
+		});
+		const adrDifference = Math.max(...results.map((r) => r.adr_difference));
+		const worst = (component: keyof ObjectiveScores) =>
+			Math.max(...results.map((r) => r.objective_scores[component]));
+
+		return {
+			teams,
+			bench,
+			adr_difference: adrDifference,
+			optimization_runs: results.reduce(
+				(sum, r) => sum + r.optimization_runs,
+				0,
+			),
+			runs_completed: results.reduce((sum, r) => sum + r.runs_completed, 0),
+			iterations: results.reduce((sum, r) => sum + r.iterations, 0),
+			elapsed_ms: Date.now() - startTime,
+			timed_out: results.some((r) => r.timed_out),
+			solver: results.every((r) => r.solver === "exact")
+				? "exact"
+				: "heuristic",
+			proven_optimal: results.every((r) => r.proven_optimal),
+			seed,
+			metric,
+			objective: options.objective ?? "total_diff",
+			objective_scores: {
+				total_diff: worst("total_diff"),
+				spread_variance: worst("spread_variance"),
+				star_distribution: worst("star_distribution"),
+			},
+			role_gaps: results.flatMap((result, index) =>
+				result.role_gaps.map((gap) => ({
+					...gap,
+					team_id: teamIds.get(`${index}:${gap.team_id}`) ?? gap.team_id,
+				})),
+			),
+			repeat_pairings: results.reduce((sum, r) => sum + r.repeat_pairings, 0),
+			alternatives: [{ teams, adr_difference: adrDifference }],
+		};
+	}
+
+	/**
+	 * Split players into random teams, for lobbies that would rather not balance.
+	 * Bench priority, pair constraints and pinned players still apply, and the split is scored like a balanced one.
+	 * @param players Array of tournament players with ADRs
+	 * @param teamSize Players per team (optional, uses the configured team size if not provided)
+	 * @param options Bench priority, pair constraints and seed; balancing options only affect the reported scores
+	 * @returns Promise<TeamGenerationResult> Generated teams with statistics
+	 */
+	async generateRandomTeams(
+		players: TournamentPlayer[],
+		teamSize?: number,
+		options: TeamGenerationOptions = {},
+	): Promise<TeamGenerationResult> {
+		const size = this.validateTeamSize(teamSize);
+		const startTime = Date.now();
+
+		const seed = options.seed ?? randomSeed();
+		const random = createRandom(seed);
+
+		const { active, bench } = options.benchPriority
+			? this.selectBench(players, size, options.benchPriority, random)
+			: { active: players, bench: [] };
+		this.validatePlayers(active, size);
+
+		const constraints = this.resolveConstraints(
+			active,
+			size,
+			options.pairConstraints ?? [],
+		);
+		const teamgenPlayers = this.convertToTeamgenFormat(active, options.metric);
+		const teams = randomTeams(teamgenPlayers, size, constraints, random);
+		if (!teams) {
+			throw new TeamGenerationError(
+				"Pair constraints leave no valid split of these players",
+			);
+		}
+
+		return this.describeSplit(
+			placePinnedTeams(teams, this.pinnedSlots(active, teamgenPlayers)),
+			active,
+			teamgenPlayers,
+			bench,
+			seed,
+			options,
+			startTime,
+		);
+	}
+
+	/**
+	 * Turn registered pre-made teams into the generated teams.
+	 * Only complete teams whose players are all in the lineup play, in registration order; everyone else sits out.
+	 * @param players Array of tournament players with ADRs
+	 * @param groups Player IDs of each registered team
+	 * @param teamSize Players per team (optional, uses the configured team size if not provided)
+	 * @param options Balancing options, only used for the reported scores
+	 * @returns Promise<TeamGenerationResult> Generated teams with statistics
+	 * @throws TeamGenerationError if fewer than two complete teams are registered
+	 */
+	async generatePremadeTeams(
+		players: TournamentPlayer[],
+		groups: string[][],
+		teamSize?: number,
+		options: TeamGenerationOptions = {},
+	): Promise<TeamGenerationResult> {
+		const size = this.validateTeamSize(teamSize);
+		const startTime = Date.now();
+
+		const byId = new Map(players.map((p) => [p.id, p]));
+		const complete = groups.filter(
+			(group) => group.length === size && group.every((id) => byId.has(id)),
+		);
+		if (complete.length < 2) {
+			throw new TeamGenerationError(
+				`Pre-made mode needs at least 2 registered teams of ${size} (currently ${complete.length})`,
+			);
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: Complete groups only contain players in the lineup
+		const active = complete.flat().map((id) => byId.get(id)!);
+		const playing = new Set(complete.flat());
+		const bench = players.filter((p) => !playing.has(p.id));
+		this.validatePlayers(active, size);
+
+		const teamgenPlayers = this.convertToTeamgenFormat(active, options.metric);
+		const teams: TeamgenTeam[] = complete.map((_, t) => {
+			const members = teamgenPlayers.slice(t * size, (t + 1) * size);
+			return {
+				players: members,
+				totalAdr: members.reduce((sum, p) => sum + p.adr, 0),
+			};
+		});
+
+		return this.describeSplit(
+			teams,
+			active,
+			teamgenPlayers,
+			bench,
+			options.seed ?? randomSeed(),
+			options,
+			startTime,
+		);
+	}
+
+	/**
+	 * Describe a split that was formed without the optimizer, with the same statistics as a balanced one
+	 * @param teams Teams made of references into teamgenPlayers
+	 * @param active Players on the teams, in the same order as teamgenPlayers
+	 */
+	private describeSplit(
+		teams: TeamgenTeam[],
+		active: TournamentPlayer[],
+		teamgenPlayers: TeamgenPlayer[],
+		bench: TournamentPlayer[],
+		seed: number,
+		options: TeamGenerationOptions,
+		startTime: number,
+	): TeamGenerationResult {
+		const metric = options.metric ?? "adr";
+		const roleCoverage = options.roleCoverage ?? "off";
+		const sources = new Map(teamgenPlayers.map((p, i) => [p, active[i]]));
+		const totals = teams.map((team) => team.totalAdr);
+		const adrDifference = Math.max(...totals) - Math.min(...totals);
+		const generated = this.convertFromTeamgenFormat(teams, sources, metric);
+
+		return {
+			teams: generated,
+			bench,
+			adr_difference: adrDifference,
+			optimization_runs: 0,
+			runs_completed: 0,
+			iterations: 0,
+			elapsed_ms: Date.now() - startTime,
+			timed_out: false,
+			solver: "none",
+			proven_optimal: false,
+			seed,
+			metric,
+			objective: options.objective ?? "total_diff",
+			objective_scores: scoreObjectives(teams),
+			role_gaps: roleCoverage === "off" ? [] : this.findRoleGaps(teams),
+			repeat_pairings: countRepeatPairings(
+				teams,
+				teamgenPlayers,
+				this.resolvePairings(active, options.recentTeammates ?? []),
+			),
+			alternatives: [{ teams: generated, adr_difference: adrDifference }],
+		};
+	}
+
+	/**
+	 * Run the exact solver for small lobbies, falling back to the local search heuristic
+	 * for large pools or when the exact search runs out of budget before finishing.
+	 * Alternatives beyond the best split always come from the heuristic.
+	 * @param balance Objective for the heuristic, whether the exact solver's total ADR difference matches it apart from the confidence spread, and whether that spread is scored
+	 * @param keep How many distinct splits to return
+	 * @param deadline Timestamp in milliseconds at which both searches stop and keep the best splits so far
+	 * @returns The better split found, tagged with the solver that produced it, up to `keep` distinct splits best first, and the heuristic's effort
+	 */
+	private solve(
+		players: TeamgenPlayer[],
+		teamSize: number,
+		maxIterations: number,
+		runs: number,
+		constraints: TeamgenPairConstraint[],
+		random: Random,
+		balance: { objective: Objective; exact: boolean; confidence: boolean },
+		keep: number,
+		deadline: number,
+	): SearchEffort & {
+		teams: TeamgenTeam[];
+		adrDiff: number;
+		optimal: boolean;
+		solver: TeamGenerationResult["solver"];
+		alternatives: Split[];
+	} {
+		let exact: (Split & { optimal: boolean }) | null = null;
+		if (balance.exact && players.length <= this.exactSolverMaxPlayers) {
+			const solved = solveTeamsExact(
+				players,
+				teamSize,
+				constraints,
+				undefined,
+				deadline,
+			);
+			// The least ADR difference is only best under the confidence spread too when no split spreads newcomers more evenly
+			exact = solved && {
+				...solved,
+				optimal:
+					solved.optimal &&
+					(!balance.confidence ||
+						uncertaintySpread(solved.teams) <=
+							confidenceSpreadFloor(players, players.length / teamSize)),
+				score: balance.confidence
+					? balance.objective(solved.teams)
+					: solved.adrDiff,
+			};
+			if (exact?.optimal && keep === 1) {
+				return {
+					...exact,
+					solver: "exact",
+					alternatives: [exact],
+					runs: 0,
+					iterations: 0,
+					timedOut: false,
+				};
+			}
+		}
+
+		const heuristic = optimizeTeams(
+			players,
+			teamSize,
+			maxIterations,
+			runs,
+			constraints,
+			random,
+			balance.objective,
+			keep,
+			deadline,
+		);
+		const effort = {
+			runs: heuristic.runs,
+			iterations: heuristic.iterations,
+			timedOut: heuristic.timedOut,
+		};
+		const heuristicScore = balance.confidence
+			? heuristic.score
+			: heuristic.adrDiff;
+		if (exact && exact.score <= heuristicScore) {
+			const best = exact;
+			const key = splitKey(best.teams, players);
+			const others = heuristic.alternatives.filter(
+				(split) => splitKey(split.teams, players) !== key,
+			);
+			return {
+				...exact,
+				solver: "exact",
+				alternatives: [best, ...others].slice(0, keep),
+				...effort,
+			};
+		}
+		return { ...heuristic, optimal: false, solver: "heuristic" };
+	}
+
+	/**
+	 * Build the objective the heuristic minimizes, with role coverage, variety and confidence penalties when enabled.
+	 * The exact solver only minimizes total ADR difference, so it only applies when nothing else is scored but the confidence spread;
+	 * its split is then re-scored with the spread and only proven optimal when newcomers are already spread as evenly as possible.
+	 */
+	private buildObjective(
+		objective: BalancingObjective,
+		roleCoverage: RoleCoverage,
+		players: TeamgenPlayer[],
+		pairings: RecentPairing[],
+		varietyWeight: number,
+	): { objective: Objective; exact: boolean; confidence: boolean } {
+		let balance = createObjective(objective, this.objectiveWeights);
+		let exact = objective === "total_diff";
+		let confidence = false;
+
+		if (roleCoverage !== "off") {
+			balance = withRoleCoverage(
+				balance,
+				this.requiredRoles,
+				roleCoverage === "hard"
+					? HARD_ROLE_COVERAGE_WEIGHT
+					: this.roleCoverageWeight,
+			);
+			exact = false;
+		}
+
+		if (pairings.length > 0 && varietyWeight > 0) {
+			balance = withRepeatPairPenalty(
+				balance,
+				players,
+				pairings,
+				varietyWeight,
+			);
+			exact = false;
+		}
+
+		// Newcomers' ADRs are a guess, so stacking them on one team risks a lopsided game
+		if (
+			this.confidenceWeight > 0 &&
+			players.some((p) => p.confidence !== undefined && p.confidence < 1)
+		) {
+			balance = withConfidenceSpread(balance, this.confidenceWeight);
+			confidence = true;
+		}
+
+		return { objective: balance, exact, confidence };
+	}
+
+	/**
+	 * Map recent teammate pairs onto player indices, dropping pairs with a player outside the lineup
+	 * @param players Active players, in the order passed to teamgen
+	 * @param recentTeammates Recent teammate pairs by Discord user ID
+	 */
+	private resolvePairings(
+		players: TournamentPlayer[],
+		recentTeammates: RecentTeammates[],
+	): RecentPairing[] {
+		const indexById = new Map(players.map((p, i) => [p.id, i]));
+		const pairings: RecentPairing[] = [];
+		for (const pair of recentTeammates) {
+			const a = indexById.get(pair.player1_id);
+			const b = indexById.get(pair.player2_id);
+			if (a !== undefined && b !== undefined) {
+				pairings.push({ a, b, count: pair.count });
+			}
+		}
+		return pairings;
+	}
+
+	/**
+	 * List the required roles each generated team is missing
+	 * @param teams Teams from teamgen algorithm, in team ID order
+	 * @returns Only the teams missing at least one role
+	 */
+	private findRoleGaps(
+		teams: TeamgenTeam[],
+	): TeamGenerationResult["role_gaps"] {
+		return teams
+			.map((team, index) => ({
+				team_id: this.generateTeamId(index + 1),
+				missing: missingRoles(team, this.requiredRoles) as PlayerRole[],
+			}))
+			.filter((gap) => gap.missing.length > 0);
+	}
+
+	/**
+	 * Split players into those who play and those who sit out so the active count is a multiple of team size
+	 * @param players Array of tournament players
+	 * @param teamSize Players per team
+	 * @param priority Which players sit out first among those who sat out least often
+	 * @param random Random number generator used by the random priority
+	 * @returns Active players (in original order) and benched players; pinned players always play
+	 * @throws TeamGenerationError if there are not enough players for a single team
+	 */
+	selectBench(
+		players: TournamentPlayer[],
+		teamSize: number,
+		priority: BenchPriority,
+		random: Random = Math.random,
+	): { active: TournamentPlayer[]; bench: TournamentPlayer[] } {
+		const benchCount = players.length % teamSize;
+		if (benchCount === 0) {
+			return { active: players, bench: [] };
+		}
+
+		if (players.length < teamSize) {
+			throw new TeamGenerationError(
+				`Not enough players (${players.length}) to form a team of ${teamSize}`,
+			);
+		}
+
+		// Order players so the first ones are the first to sit out
+		const sitOutOrder = [...players];
+		switch (priority) {
+			case "latest_joiner":
+				sitOutOrder.sort(compareLatestJoinerFirst);
+				break;
+			case "fewest_games":
+				sitOutOrder.sort(
+					(a, b) =>
+						(a.games_played ?? 0) - (b.games_played ?? 0) ||
+						compareLatestJoinerFirst(a, b),
+				);
+				break;
+			case "random":
+				shuffle(sitOutOrder, random);
+				break;
+		}
+		// Rotate the bench: whoever sat out least goes first, the priority only breaks ties (sort is stable)
+		sitOutOrder.sort((a, b) => (a.sit_outs ?? 0) - (b.sit_outs ?? 0));
+
+		const bench = [
+			...sitOutOrder.filter((p) => !p.pinned_team),
+			...sitOutOrder.filter((p) => p.pinned_team),
+		].slice(0, benchCount);
+		const benchIds = new Set(bench.map((p) => p.id));
+		const active = players.filter((p) => !benchIds.has(p.id));
+
+		return { active, bench };
+	}
+
+	/**
+	 * Validate and normalize team size parameter
+	 * @param teamSize Optional players per team
+	 * @returns number Validated team size
+	 */
+	private validateTeamSize(teamSize?: number): number {
+		if (teamSize === undefined) {
+			return this.teamSize;
+		}
+
+		if (!Number.isInteger(teamSize) || teamSize < 1) {
+			throw new TeamGenerationError("Team size must be a positive integer");
+		}
+
+		return teamSize;
+	}
+
 	/**
 	 * Validate player data for team generation
 	 * @param players Array of tournament players
+	 * @param teamSize Players per team
 	 * @throws TeamGenerationError if validation fails
 	 */
-	private validatePlayers(players: TournamentPlayer[]): void {
+	private validatePlayers(players: TournamentPlayer[], teamSize: number): void {
 		if (players.length === 0) {
 			throw new TeamGenerationError("No players provided for team generation");
 		}
 
-		if (players.length % this.teamSize !== 0) {
+		if (players.length % teamSize !== 0) {
 			throw new TeamGenerationError(
-				`Player count (${players.length}) must be divisible by team size (${this.teamSize})`,
+				`Player count (${players.length}) must be divisible by team size (${teamSize})`,
 			);
 		}
 
@@ -156,6 +905,127 @@ export class TeamGenerationService {
 		}
 	}
 
+	/**
+	 * Map pair constraints and pinned players onto player indices and check that a valid split exists.
+	 * Teams are interchangeable to teamgen, so a pin only needs players pinned to the same team kept
+	 * together and players pinned to different teams kept apart; placePinnedTeams restores the labels.
+	 * @param players Players taking part in generation
+	 * @param teamSize Players per team
+	 * @param pairConstraints Together/apart rules by player ID
+	 * @returns TeamgenPairConstraint[] Constraints between players in the lineup
+	 * @throws TeamGenerationError naming the pin or constraint that makes generation impossible
+	 */
+	private resolveConstraints(
+		players: TournamentPlayer[],
+		teamSize: number,
+		pairConstraints: PlayerPairConstraint[],
+	): TeamgenPairConstraint[] {
+		const indexById = new Map(players.map((p, i) => [p.id, i]));
+		const constraints: TeamgenPairConstraint[] = [];
+		for (const rule of pairConstraints) {
+			const a = indexById.get(rule.player1_id);
+			const b = indexById.get(rule.player2_id);
+			if (a !== undefined && b !== undefined) {
+				constraints.push({ a, b, type: rule.type });
+			}
+		}
+
+		// Pins go last, so a conflict with a pair rule is blamed on the pin
+		const pins = this.resolvePins(players, teamSize);
+		const firstPin = constraints.length;
+		constraints.push(...pins);
+
+		if (constraints.length === 0) {
+			return constraints;
+		}
+
+		const conflict = findConstraintConflict(
+			players.length,
+			teamSize,
+			constraints,
+		);
+		if (conflict) {
+			// biome-ignore lint/style/noNonNullAssertion: Constraint indices come from the players array
+			const player1 = players[conflict.constraint.a]!;
+			// biome-ignore lint/style/noNonNullAssertion: Constraint indices come from the players array
+			const player2 = players[conflict.constraint.b]!;
+			const names = `${player1.display_name || player1.username} and ${player2.display_name || player2.username}`;
+			throw new TeamGenerationError(
+				constraints.indexOf(conflict.constraint) >= firstPin
+					? `Cannot pin ${names} to their teams: ${conflict.reason}`
+					: `Cannot keep ${names} ${conflict.constraint.type}: ${conflict.reason}`,
+			);
+		}
+
+		return constraints;
+	}
+
+	/**
+	 * Turn pinned players into together/apart constraints between player indices
+	 * @param players Players taking part in generation
+	 * @param teamSize Players per team
+	 * @returns TeamgenPairConstraint[] Together within each pinned team, apart between pinned teams
+	 * @throws TeamGenerationError if a pin names a team that isn't being formed or a team has too many pins
+	 */
+	private resolvePins(
+		players: TournamentPlayer[],
+		teamSize: number,
+	): TeamgenPairConstraint[] {
+		const numTeams = players.length / teamSize;
+		const pinnedTo = new Map<number, number[]>();
+		players.forEach((player, i) => {
+			if (!player.pinned_team) {
+				return;
+			}
+			const slot = teamSlot(player.pinned_team);
+			if (slot === null || slot >= numTeams) {
+				throw new TeamGenerationError(
+					`${player.display_name || player.username} is pinned to ${player.pinned_team}, but only ${numTeams} team(s) are being formed`,
+				);
+			}
+			pinnedTo.set(slot, [...(pinnedTo.get(slot) ?? []), i]);
+		});
+
+		const constraints: TeamgenPairConstraint[] = [];
+		const anchors: number[] = [];
+		for (const [slot, members] of pinnedTo) {
+			if (members.length > teamSize) {
+				throw new TeamGenerationError(
+					`${members.length} players are pinned to ${this.generateTeamId(slot + 1)}, which only has room for ${teamSize}`,
+				);
+			}
+			// biome-ignore lint/style/noNonNullAssertion: Pinned teams have at least one member
+			const anchor = members[0]!;
+			for (const other of members.slice(1)) {
+				constraints.push({ a: anchor, b: other, type: "together" });
+			}
+			for (const earlier of anchors) {
+				constraints.push({ a: earlier, b: anchor, type: "apart" });
+			}
+			anchors.push(anchor);
+		}
+		return constraints;
+	}
+
+	/**
+	 * Map each pinned teamgen player to the 0-based index of the team they are pinned to
+	 * @param active Players on the teams, in the same order as teamgenPlayers
+	 */
+	private pinnedSlots(
+		active: TournamentPlayer[],
+		teamgenPlayers: TeamgenPlayer[],
+	): Map<TeamgenPlayer, number> {
+		const slots = new Map<TeamgenPlayer, number>();
+		active.forEach((player, i) => {
+			const slot = player.pinned_team ? teamSlot(player.pinned_team) : null;
+			if (slot !== null) {
+				// biome-ignore lint/style/noNonNullAssertion: teamgenPlayers has one entry per active player
+				slots.set(teamgenPlayers[i]!, slot);
+			}
+		});
+		return slots;
+	}
+
 	/**
 	 * Validate and normalize optimization runs parameter
 	 * @param runs Optional number of runs
@@ -181,39 +1051,110 @@ export class TeamGenerationService {
 		return runs;
 	}
 
+	/**
+	 * Validate and normalize the number of alternative splits
+	 * @param alternatives Optional number of distinct splits to return
+	 * @returns number Validated count, at least 1
+	 */
+	private validateAlternatives(alternatives?: number): number {
+		if (alternatives === undefined) {
+			return 1;
+		}
+
+		if (!Number.isInteger(alternatives) || alternatives < 1) {
+			throw new TeamGenerationError(
+				"Number of alternative splits must be a positive integer",
+			);
+		}
+
+		return alternatives;
+	}
+
+	/**
+	 * Validate the search time limit
+	 * @param timeLimit Milliseconds to search for
+	 * @returns number Validated limit, the maximum execution time when not provided
+	 * @throws TeamGenerationError if the limit is not positive or exceeds the maximum execution time
+	 */
+	private validateTimeLimit(timeLimit?: number): number {
+		if (timeLimit === undefined) {
+			return this.maxExecutionTime;
+		}
+
+		if (typeof timeLimit !== "number" || !(timeLimit > 0)) {
+			throw new TeamGenerationError("Time limit must be a positive number");
+		}
+
+		if (timeLimit > this.maxExecutionTime) {
+			throw new TeamGenerationError(
+				`Time limit cannot exceed ${this.maxExecutionTime}ms`,
+			);
+		}
+
+		return timeLimit;
+	}
+
 	/**
 	 * Convert tournament player format to teamgen algorithm format
 	 * @param players Tournament players
+	 * @param metric Player strength teamgen balances on, passed as its ADR
 	 * @returns TeamgenPlayer[] Players in teamgen format
 	 */
-	private convertToTeamgenFormat(players: TournamentPlayer[]): TeamgenPlayer[] {
+	private convertToTeamgenFormat(
+		players: TournamentPlayer[],
+		metric: BalanceMetric = "adr",
+	): TeamgenPlayer[] {
 		return players.map((player) => ({
 			name: player.display_name || player.username,
-			adr: player.adr,
+			adr: metric === "rating" ? (player.rating ?? DEFAULT_RATING) : player.adr,
+			...(player.roles && { roles: player.roles }),
+			...(player.tournaments_played !== undefined && {
+				confidence: playerConfidence(player.tournaments_played),
+			}),
 		}));
 	}
 
 	/**
 	 * Convert teamgen result format back to tournament format with team IDs
 	 * @param teams Teams from teamgen algorithm
+	 * @param sources Tournament player behind each teamgen player, to restore the real ADR when balancing by rating
+	 * @param metric Player strength teamgen balanced on
 	 * @returns GeneratedTeam[] Teams in tournament format
 	 */
-	private convertFromTeamgenFormat(teams: TeamgenTeam[]): GeneratedTeam[] {
+	private convertFromTeamgenFormat(
+		teams: TeamgenTeam[],
+		sources = new Map<TeamgenPlayer, TournamentPlayer | undefined>(),
+		metric: BalanceMetric = "adr",
+	): GeneratedTeam[] {
+		const round = (value: number) => Math.round(value * 100) / 100; // Round to 2 decimal places
+
 		return teams.map((team, index) => {
 			const teamId = this.generateTeamId(index + 1);
-			const averageAdr =
-				team.players.length > 0 ? team.totalAdr / team.players.length : 0;
+			const adrs = team.players.map(
+				(player) => sources.get(player)?.adr ?? player.adr,
+			);
+			const totalAdr =
+				metric === "rating"
+					? adrs.reduce((sum, adr) => sum + adr, 0)
+					: team.totalAdr;
+			const averageOf = (total: number) =>
+				team.players.length > 0 ? total / team.players.length : 0;
 
 			return {
 				id: teamId,
-				players: team.players.map((player) => ({
+				players: team.players.map((player, i) => ({
 					id: "", // Will be populated by the service layer
 					username: player.name,
 					display_name: player.name,
-					adr: player.adr,
+					// biome-ignore lint/style/noNonNullAssertion: adrs has one entry per player
+					adr: adrs[i]!,
+					...(metric === "rating" && { rating: player.adr }),
 				})),
-				average_adr: Math.round(averageAdr * 100) / 100, // Round to 2 decimal places
-				total_adr: team.totalAdr,
+				average_adr: round(averageOf(totalAdr)),
+				total_adr: totalAdr,
+				...(metric === "rating" && {
+					average_rating: round(averageOf(team.totalAdr)),
+				}),
 			};
 		});
 	}
@@ -235,11 +1176,151 @@ export class TeamGenerationService {
 		defaultRuns: number;
 		maxRuns: number;
 		teamSize: number;
+		exactSolverMaxPlayers: number;
+		maxExecutionTime: number;
+		objectiveWeights: ObjectiveScores;
+		requiredRoles: PlayerRole[];
+		roleCoverageWeight: number;
 	} {
 		return {
 			defaultRuns: this.defaultRuns,
 			maxRuns: this.maxRuns,
 			teamSize: this.teamSize,
+			exactSolverMaxPlayers: this.exactSolverMaxPlayers,
+			maxExecutionTime: this.maxExecutionTime,
+			objectiveWeights: this.objectiveWeights,
+			requiredRoles: this.requiredRoles,
+			roleCoverageWeight: this.roleCoverageWeight,
 		};
 	}
 }
+
+// Players without a join timestamp predate join tracking and count as the earliest joiners
+function compareLatestJoinerFirst(
+	a: TournamentPlayer,
+	b: TournamentPlayer,
+): number {
+	return (b.joined_at ?? "").localeCompare(a.joined_at ?? "");
+}
+
+/**
+ * Group players into equally sized lobbies by strength
+ * Players linked by "together" rules move as one group, dealt where their strongest player would go or into the first lobby with room.
+ * @param split Tiered fills lobby 1 with the strongest players, mixed deals players out in snake order
+ * @throws TeamGenerationError naming the players of a together group that no lobby has room for
+ */
+function groupLobbies(
+	players: TournamentPlayer[],
+	lobbies: number,
+	split: LobbySplit,
+	metric: BalanceMetric,
+	pairConstraints: PlayerPairConstraint[],
+): TournamentPlayer[][] {
+	const strength = (p: TournamentPlayer) =>
+		metric === "rating" ? (p.rating ?? DEFAULT_RATING) : p.adr;
+	const ranked = [...players].sort(
+		(a, b) => strength(b) - strength(a) || a.id.localeCompare(b.id),
+	);
+	const perLobby = ranked.length / lobbies;
+
+	const groups: TournamentPlayer[][] = Array.from(
+		{ length: lobbies },
+		() => [],
+	);
+	const fits = (unit: TournamentPlayer[]) => (group: TournamentPlayer[]) =>
+		group.length + unit.length <= perLobby;
+	let dealt = 0;
+	for (const unit of togetherGroups(ranked, pairConstraints)) {
+		const round = Math.floor(dealt / lobbies);
+		const position = dealt % lobbies;
+		const snake = groups[round % 2 === 0 ? position : lobbies - 1 - position];
+		const lobby =
+			split === "mixed" && snake && fits(unit)(snake)
+				? snake
+				: groups.find(fits(unit));
+		if (!lobby) {
+			const names = unit.map((p) => p.display_name || p.username);
+			throw new TeamGenerationError(
+				`Cannot keep ${names.slice(0, -1).join(", ")} and ${names[names.length - 1]} together: no lobby has room for ${unit.length} more players`,
+			);
+		}
+		lobby.push(...unit);
+		dealt += unit.length;
+	}
+	return groups;
+}
+
+// Players linked by "together" rules, each group in ranked order and the groups ordered by their strongest player
+function togetherGroups(
+	ranked: TournamentPlayer[],
+	pairConstraints: PlayerPairConstraint[],
+): TournamentPlayer[][] {
+	const groupOf = new Map(ranked.map((p) => [p.id, [p.id]]));
+	for (const rule of pairConstraints) {
+		const a = groupOf.get(rule.player1_id);
+		const b = groupOf.get(rule.player2_id);
+		if (rule.type !== "together" || !a || !b || a === b) {
+			continue;
+		}
+		const merged = [...a, ...b];
+		for (const id of merged) {
+			groupOf.set(id, merged);
+		}
+	}
+
+	const units = new Map<string[], TournamentPlayer[]>();
+	for (const player of ranked) {
+		// biome-ignore lint/style/noNonNullAssertion: Every ranked player has a group
+		const key = groupOf.get(player.id)!;
+		units.set(key, [...(units.get(key) ?? []), player]);
+	}
+	return [...units.values()];
+}
+
+// Least confidence spread any split can reach: with fewer uncertain players than teams some team has none of them,
+// so the spread is at least the most uncertain player's missing confidence
+function confidenceSpreadFloor(
+	players: TeamgenPlayer[],
+	teamCount: number,
+): number {
+	const uncertain = players
+		.map((p) => 1 - (p.confidence ?? 1))
+		.filter((u) => u > 0);
+	return uncertain.length < teamCount ? Math.max(0, ...uncertain) : 0;
+}
+
+// Fresh 32-bit seed for generations that don't request a specific one
+function randomSeed(): number {
+	return Math.floor(Math.random() * 2 ** 32);
+}
+
+// 0-based index of a team ID such as "TEAM2", null when it isn't one
+function teamSlot(teamId: string): number | null {
+	const match = /^TEAM(\d+)$/.exec(teamId);
+	return match ? Number(match[1]) - 1 : null;
+}
+
+// Reorder teams so each one holding pinned players sits at its pinned index, the rest keep their order
+function placePinnedTeams(
+	teams: TeamgenTeam[],
+	pinned: Map<TeamgenPlayer, number>,
+): TeamgenTeam[] {
+	if (pinned.size === 0) {
+		return teams;
+	}
+
+	const placed: (TeamgenTeam | undefined)[] = new Array(teams.length);
+	const free: TeamgenTeam[] = [];
+	for (const team of teams) {
+		const slot = team.players
+			.map((p) => pinned.get(p))
+			.find((s) => s !== undefined);
+		if (slot === undefined) {
+			free.push(team);
+		} else {
+			placed[slot] = team;
+		}
+	}
+	// biome-ignore lint/style/noNonNullAssertion: There are exactly as many free teams as empty slots
+	return Array.from(placed, (team) => team ?? free.shift()!);
+}
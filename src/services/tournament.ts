@@ -1,10 +1,45 @@
-import type { Tournament } from "../db/schema.js";
+import type {
+	BalanceMetric,
+	BalancingObjective,
+	BenchPriority,
+	Draft,
+	DraftOrder,
+	NewPlayer,
+	PairConstraint,
+	PairConstraintType,
+	Player,
+	PlayerRating,
+	PlayerRole,
+	TeamMode,
+	Tournament,
+	TournamentScope,
+	TournamentSettings,
+} from "../db/schema.js";
 import type {
 	MatchRepository,
 	PlayerRepository,
 	TeamRepository,
 	TournamentRepository,
 } from "../db/utils.js";
+import { effectiveAdr } from "../effective-adr.js";
+import {
+	type BalanceDiagnostics,
+	diagnoseBalance,
+	diagnoseLobbies,
+} from "../fairness.js";
+import { type IndividualStanding, scoreIndividuals } from "../mix-scoring.js";
+import {
+	DEFAULT_RATING,
+	PROVISIONAL_MATCHES,
+	type RatedPlayer,
+	type RatingUpdate,
+	rateMatch,
+} from "../rating.js";
+import {
+	type ObjectiveScores,
+	planSwaps,
+	type Player as TeamgenPlayer,
+} from "../teamgen.js";
 import {
 	getCurrentDateInTimezone,
 	isValidTimezone,
@@ -12,7 +47,9 @@ import {
 import type { PermissionService } from "./permission.js";
 import {
 	type GeneratedTeam,
+	type LobbySplit,
 	TeamGenerationError,
+	type TeamGenerationResult,
 	type TeamGenerationService,
 	type TournamentPlayer as TeamGenTournamentPlayer,
 } from "./team-generation.js";
@@ -32,6 +69,9 @@ export class TournamentError extends Error {
 export interface TournamentStatus {
 	tournament_id: string;
 	status: string;
+	team_size: number;
+	bench_priority: BenchPriority | null;
+	objective: BalancingObjective;
 	player_count: number;
 	players_with_adr: number;
 	teams_generated: boolean;
@@ -43,8 +83,12 @@ export interface PlayerAdrDisplay {
 	username: string;
 	display_name?: string;
 	adr?: number;
+	effective_adr?: number; // Submitted ADR blended with match history, set once an ADR is submitted
 	adr_locked: boolean;
 	status: "submitted" | "pending";
+	roles?: PlayerRole[];
+	pinned_team?: string; // Team the player is pre-assigned to for the next generation
+	sit_outs?: number; // Generated teams the player sat out of in this tournament
 }
 
 export interface TeamDisplay {
@@ -52,6 +96,79 @@ export interface TeamDisplay {
 	players: PlayerAdrDisplay[];
 	average_adr: number;
 	locked: boolean;
+	seed: number | null; // Seed of the generation that produced the team
+	lobby: number | null; // Lobby the team plays in, null when players weren't split into lobbies
+}
+
+export interface GeneratedTeamsSummary {
+	mode: TeamMode; // How the teams were formed
+	teams: GeneratedTeam[];
+	adr_difference: number;
+	proven_optimal: boolean; // The exact solver proved no better split exists
+	runs_completed: number; // Optimization runs actually made before finishing or hitting the time limit
+	iterations: number;
+	elapsed_ms: number;
+	timed_out: boolean; // The time limit ended the search, the best split found so far is used
+	seed: number; // Pass back to generateTeams to reproduce this split
+	metric: BalanceMetric; // What adr_difference is measured in
+	objective: BalancingObjective;
+	objective_scores: ObjectiveScores;
+	role_gaps: TeamGenerationResult["role_gaps"];
+	repeat_pairings: number; // Recent teammate pairs together again, 0 when variety mode is off
+	options: SplitChoice[]; // Alternatives waiting for an admin to pick one, empty when the teams were saved
+	diagnostics: TeamDiagnosticsDisplay | null; // Balance statistics saved with the teams, null while options wait
+	round: number | null; // Mix round the teams were saved as, null outside mix tournaments and while options wait
+}
+
+export interface TeamDiagnosticsDisplay extends BalanceDiagnostics {
+	runs: number | null; // Optimization runs made, null when the teams were picked rather than generated
+	elapsed_ms: number | null;
+}
+
+export interface SplitChoice {
+	option: number; // 1-based, pass to chooseSplit together with the seed
+	teams: GeneratedTeam[];
+	adr_difference: number;
+}
+
+export interface RebalanceSwap {
+	player1: PlayerAdrDisplay; // Moves from team1 to team2
+	team1: string;
+	player2: PlayerAdrDisplay; // Moves from team2 to team1
+	team2: string;
+}
+
+export interface RebalancePlan {
+	swaps: RebalanceSwap[]; // In the order they are made, empty when no swap helps
+	adr_difference_before: number;
+	adr_difference_after: number;
+	metric: BalanceMetric; // What the differences are measured in, the tournament's balance metric
+	fingerprint: string; // Identifies the lineup the plan was made for, pass back to applyRebalance
+}
+
+export interface DraftTeam {
+	team_id: string;
+	captain: PlayerAdrDisplay;
+	players: PlayerAdrDisplay[]; // Picked players in pick order, without the captain
+}
+
+export interface DraftBoard {
+	order: DraftOrder;
+	teams: DraftTeam[];
+	available: PlayerAdrDisplay[]; // Players still to be picked, strongest first
+	pick_number: number; // 1-based number of the next pick, pass it back to pickDraftPlayer
+	total_picks: number;
+	on_the_clock: DraftTeam | null; // Team whose captain picks next, null once the draft is complete
+	complete: boolean;
+}
+
+export interface PlayerRatingDisplay {
+	player_id: string;
+	username: string;
+	display_name?: string;
+	rating: number;
+	rated_matches: number;
+	provisional: boolean; // Too few matches for the rating to be reliable yet
 }
 
 export interface MatchResult {
@@ -61,6 +178,13 @@ export interface MatchResult {
 	score1: number;
 	score2: number;
 	created_at: string;
+	lobby?: number; // Lobby both teams play in, only set for matches recorded between lobby teams
+	round?: number; // Mix round the match was played in, only set in mix tournaments
+}
+
+export interface IndividualStandingDisplay extends IndividualStanding {
+	username: string;
+	display_name?: string;
 }
 
 /**
@@ -76,6 +200,7 @@ export class TournamentService {
 		private teamGenService: TeamGenerationService,
 		_permissionService: PermissionService,
 		private timezone: string,
+		private scope: TournamentScope, // Server and channel the service acts in, only their tournament is ever open to it
 	) {
 		// Validate timezone on construction
 		if (!isValidTimezone(this.timezone)) {
@@ -87,14 +212,17 @@ export class TournamentService {
 	}
 
 	/**
-	 * Open a new tournament with unique ID generation
+	 * Open a new tournament with unique ID generation, running in the service's channel
+	 * @param settings Tournament settings such as team size and bench priority (database defaults apply when omitted)
 	 * @returns Promise<Tournament> The created tournament
-	 * @throws TournamentError if a tournament is already open or creation fails
+	 * @throws TournamentError if a tournament is already open in this channel or for the whole server, or creation fails
 	 */
-	async openTournament(): Promise<Tournament> {
+	async openTournament(settings: TournamentSettings = {}): Promise<Tournament> {
 		try {
 			// Check if there's already an open tournament
-			const existingTournament = await this.tournamentRepo.getOpenTournament();
+			const existingTournament = await this.tournamentRepo.getOpenTournament(
+				this.scope,
+			);
 			if (existingTournament) {
 				throw new TournamentError(
 					`Tournament ${existingTournament.id} is already open. Close it before opening a new one.`,
@@ -111,7 +239,11 @@ export class TournamentService {
 				await this.tournamentRepo.generateTournamentId(today);
 
 			// Create the tournament
-			await this.tournamentRepo.createTournament(tournamentId);
+			await this.tournamentRepo.createTournament(
+				tournamentId,
+				this.scope,
+				settings,
+			);
 
 			// Retrieve and return the created tournament
 			const tournament =
@@ -143,7 +275,9 @@ export class TournamentService {
 	async closeTournament(): Promise<Tournament> {
 		try {
 			// Get the open tournament
-			const openTournament = await this.tournamentRepo.getOpenTournament();
+			const openTournament = await this.tournamentRepo.getOpenTournament(
+				this.scope,
+			);
 			if (!openTournament) {
 				throw new TournamentError(
 					"No tournament is currently open",
@@ -183,7 +317,9 @@ export class TournamentService {
 	 */
 	async getTournamentStatus(): Promise<TournamentStatus | null> {
 		try {
-			const tournament = await this.tournamentRepo.getOpenTournament();
+			const tournament = await this.tournamentRepo.getOpenTournament(
+				this.scope,
+			);
 			if (!tournament) {
 				return null;
 			}
@@ -203,6 +339,9 @@ export class TournamentService {
 			return {
 				tournament_id: tournament.id,
 				status: tournament.status,
+				team_size: tournament.teamSize,
+				bench_priority: tournament.benchPriority,
+				objective: tournament.objective,
 				player_count: players.length,
 				players_with_adr: playersWithAdr.length,
 				teams_generated: teamsExist,
@@ -222,7 +361,9 @@ export class TournamentService {
 	 */
 	async isTournamentOpen(): Promise<boolean> {
 		try {
-			const tournament = await this.tournamentRepo.getOpenTournament();
+			const tournament = await this.tournamentRepo.getOpenTournament(
+				this.scope,
+			);
 			return tournament !== null;
 		} catch (_error) {
 			throw new TournamentError(
@@ -238,7 +379,7 @@ export class TournamentService {
 	 */
 	async getOpenTournament(): Promise<Tournament | null> {
 		try {
-			return await this.tournamentRepo.getOpenTournament();
+			return await this.tournamentRepo.getOpenTournament(this.scope);
 		} catch (_error) {
 			throw new TournamentError(
 				"Failed to get open tournament",
@@ -263,6 +404,72 @@ export class TournamentService {
 		return tournament;
 	}
 
+	/**
+	 * Lock registration: players can no longer join, leave or change their ADR, teams and results carry on
+	 * @returns Promise<void>
+	 * @throws TournamentError if no tournament is open, registration is already locked, or locking fails
+	 */
+	async lockRegistration(): Promise<void> {
+		try {
+			const tournament = await this.requireOpenTournament();
+			if (tournament.status === "locked") {
+				throw new TournamentError(
+					"Registration is already locked.",
+					"REGISTRATION_ALREADY_LOCKED",
+				);
+			}
+
+			await this.tournamentRepo.setRegistrationLocked(tournament.id, true);
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				"Failed to lock registration",
+				"REGISTRATION_LOCK_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Reopen registration so players can join, leave and change their ADR again
+	 * @returns Promise<void>
+	 * @throws TournamentError if no tournament is open, registration isn't locked, or unlocking fails
+	 */
+	async unlockRegistration(): Promise<void> {
+		try {
+			const tournament = await this.requireOpenTournament();
+			if (tournament.status !== "locked") {
+				throw new TournamentError(
+					"Registration is not locked.",
+					"REGISTRATION_NOT_LOCKED",
+				);
+			}
+
+			await this.tournamentRepo.setRegistrationLocked(tournament.id, false);
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				"Failed to unlock registration",
+				"REGISTRATION_UNLOCK_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Throw if players can no longer change their registration
+	 */
+	private requireOpenRegistration(tournament: Tournament): void {
+		if (tournament.status === "locked") {
+			throw new TournamentError(
+				"Registration is locked. Ask an admin if you need to join, leave or change your ADR.",
+				"REGISTRATION_LOCKED",
+			);
+		}
+	}
+
 	// ADR Management Methods
 
 	/**
@@ -272,7 +479,7 @@ export class TournamentService {
 	 * @param displayName Player's display name (optional)
 	 * @param adr ADR value to submit
 	 * @returns Promise<void>
-	 * @throws TournamentError if no tournament is open, ADR is locked, or submission fails
+	 * @throws TournamentError if no tournament is open, registration or the ADR is locked, or submission fails
 	 */
 	async submitPlayerAdr(
 		playerId: string,
@@ -282,6 +489,7 @@ export class TournamentService {
 	): Promise<void> {
 		try {
 			const tournament = await this.requireOpenTournament();
+			this.requireOpenRegistration(tournament);
 
 			// Check if player's ADR is locked
 			const isLocked = await this.playerRepo.isPlayerAdrLocked(
@@ -466,14 +674,22 @@ export class TournamentService {
 				tournament.id,
 			);
 
+			const effectiveAdrs = await this.getEffectiveAdrs(
+				tournament,
+				tournamentPlayers,
+			);
+
 			return tournamentPlayers.map((tp) => ({
 				player_id: tp.playerId,
 				username: tp.player?.username || "Unknown",
 				display_name: tp.player?.displayName || undefined,
 				adr: tp.adr || undefined,
+				effective_adr: effectiveAdrs.get(tp.playerId),
 				adr_locked: tp.adrLocked,
 				status:
 					tp.adr !== null && tp.adr !== undefined ? "submitted" : "pending",
+				pinned_team: tp.pinnedTeam || undefined,
+				sit_outs: tp.sitOuts,
 			}));
 		} catch (error) {
 			if (error instanceof TournamentError) {
@@ -542,14 +758,49 @@ export class TournamentService {
 	// Team Generation Orchestration Methods
 
 	/**
-	 * Generate balanced teams using the team generation algorithm
+	 * Generate teams: balanced by the team generation algorithm, random, or from registered pre-made teams
 	 * @param runs Number of optimization runs (optional, uses service default)
-	 * @returns Promise<GeneratedTeam[]> Generated teams with statistics
+	 * @param benchPriority Bench priority override (optional, uses the tournament setting)
+	 * @param seed Random seed (optional, reuse a previous seed to reproduce its split)
+	 * @param alternatives Number of distinct splits to offer (optional); above 1 nothing is saved until chooseSplit
+	 * @param timeLimit Milliseconds to search for (optional); without runs, keep searching until it runs out
+	 * @param mode Team mode override (optional, uses the tournament setting); saved as the tournament's mode once teams are saved
+	 * @param lobbies Number of lobbies to split players into before balancing (optional, one lobby by default)
+	 * @param lobbySplit Whether lobbies are tiered by strength or equally strong (optional, tiered by default)
+	 * @returns Promise<GeneratedTeamsSummary> Generated teams with balance statistics
 	 * @throws TournamentError if no tournament is open, teams are locked, players missing ADRs, or generation fails
 	 */
-	async generateTeams(runs?: number): Promise<GeneratedTeam[]> {
+	async generateTeams(
+		runs?: number,
+		benchPriority?: BenchPriority,
+		seed?: number,
+		alternatives?: number,
+		timeLimit?: number,
+		mode?: TeamMode,
+		lobbies = 1,
+		lobbySplit: LobbySplit = "tiered",
+	): Promise<GeneratedTeamsSummary> {
 		try {
 			const tournament = await this.requireOpenTournament();
+			const teamMode = mode ?? tournament.teamMode;
+
+			if (teamMode !== "balanced" && lobbies > 1) {
+				throw new TournamentError(
+					"Lobbies are only supported for balanced teams.",
+					"LOBBIES_NOT_SUPPORTED",
+				);
+			}
+
+			if (
+				teamMode !== "balanced" &&
+				alternatives !== undefined &&
+				alternatives > 1
+			) {
+				throw new TournamentError(
+					"Alternative splits are only offered for balanced teams.",
+					"ALTERNATIVES_NOT_SUPPORTED",
+				);
+			}
 
 			// Check if teams are already locked
 			const teamsExist = await this.teamRepo.teamsExist(tournament.id);
@@ -582,31 +833,143 @@ export class TournamentService {
 				);
 			}
 
-			// Validate player count is divisible by team size (5)
-			if (tournamentPlayers.length % 5 !== 0) {
+			// Without a bench, player count must be divisible by the tournament's team size, in every lobby.
+			// Pre-made teams are fixed, so players outside them always sit out.
+			const teamSize = tournament.teamSize;
+			const groupSize = teamSize * lobbies;
+			const priority = benchPriority ?? tournament.benchPriority ?? undefined;
+			if (
+				teamMode !== "premade" &&
+				!priority &&
+				tournamentPlayers.length % groupSize !== 0
+			) {
 				throw new TournamentError(
-					`Player count (${tournamentPlayers.length}) must be divisible by 5 for team generation`,
+					`Player count (${tournamentPlayers.length}) must be divisible by ${groupSize} for team generation. ` +
+						"Choose a bench priority to let extra players sit out.",
 					"INVALID_PLAYER_COUNT",
 				);
 			}
 
-			// Convert to team generation format
-			const teamGenPlayers: TeamGenTournamentPlayer[] = tournamentPlayers.map(
-				(tp) => ({
+			// Games played is only needed when it decides who sits out
+			const gamesPlayed =
+				priority === "fewest_games"
+					? await this.matchRepo.getGamesPlayed(
+							tournament.guildId,
+							tournamentPlayers.map((tp) => tp.playerId),
+						)
+					: new Map<string, number>();
+
+			// Players with few tournaments behind them are spread across teams
+			const tournamentsPlayed = await this.matchRepo.getTournamentsPlayed(
+				tournament.guildId,
+				tournamentPlayers.map((tp) => tp.playerId),
+			);
+
+			// Effective tournaments generate from the submitted ADR blended with match history
+			const effectiveAdrs =
+				tournament.adrSource === "effective"
+					? await this.getEffectiveAdrs(tournament, tournamentPlayers)
+					: new Map<string, number>();
+
+			// Ratings are only needed when teams are balanced on them
+			const ratings =
+				tournament.balanceMetric === "rating"
+					? await this.playerRepo.getRatings(
+							tournament.guildId,
+							tournamentPlayers.map((tp) => tp.playerId),
+						)
+					: new Map<string, { rating: number }>();
+
+			// Convert to team generation format, in a fixed order so a seed reproduces the same split
+			const teamGenPlayers: TeamGenTournamentPlayer[] = [...tournamentPlayers]
+				.sort((a, b) => a.playerId.localeCompare(b.playerId))
+				.map((tp) => ({
 					id: tp.playerId,
 					username: tp.player?.username || "Unknown",
 					display_name:
 						tp.player?.displayName || tp.player?.username || "Unknown",
 					// biome-ignore lint/style/noNonNullAssertion: ADR is required for team generation, null check occurs earlier
-					adr: tp.adr!,
-				}),
+					adr: effectiveAdrs.get(tp.playerId) ?? tp.adr!,
+					joined_at: tp.joinedAt,
+					games_played: gamesPlayed.get(tp.playerId) ?? 0,
+					sit_outs: tp.sitOuts,
+					tournaments_played: tournamentsPlayed.get(tp.playerId) ?? 0,
+					roles: tp.player?.roles ?? undefined,
+					rating: ratings.get(tp.playerId)?.rating,
+					pinned_team: tp.pinnedTeam,
+				}));
+
+			const pairConstraints = await this.playerRepo.getPairConstraints(
+				tournament.guildId,
 			);
 
+			// Variety mode penalizes pairs who were teammates in recent tournaments
+			const recentTeammates =
+				tournament.varietyLookback > 0
+					? await this.teamRepo.getRecentTeammates(
+							tournament.id,
+							tournament.varietyLookback,
+						)
+					: [];
+
+			const options = {
+				benchPriority: priority,
+				pairConstraints: pairConstraints.map((c) => ({
+					player1_id: c.player1Id,
+					player2_id: c.player2Id,
+					type: c.type,
+				})),
+				seed,
+				objective: tournament.objective,
+				roleCoverage: tournament.roleCoverage,
+				recentTeammates: recentTeammates.map((p) => ({
+					player1_id: p.player1Id,
+					player2_id: p.player2Id,
+					count: p.count,
+				})),
+				varietyWeight: tournament.varietyWeight,
+				alternatives,
+				metric: tournament.balanceMetric,
+				timeLimit,
+			};
+
 			// Generate teams using the team generation service
-			const result = await this.teamGenService.generateBalancedTeams(
-				teamGenPlayers,
-				runs,
-			);
+			let result: TeamGenerationResult;
+			switch (teamMode) {
+				case "random":
+					result = await this.teamGenService.generateRandomTeams(
+						teamGenPlayers,
+						teamSize,
+						options,
+					);
+					break;
+				case "premade":
+					result = await this.teamGenService.generatePremadeTeams(
+						teamGenPlayers,
+						premadeGroups(tournamentPlayers),
+						teamSize,
+						options,
+					);
+					break;
+				case "balanced":
+					result =
+						lobbies > 1
+							? await this.teamGenService.generateLobbyTeams(
+									teamGenPlayers,
+									lobbies,
+									lobbySplit,
+									runs,
+									teamSize,
+									options,
+								)
+							: await this.teamGenService.generateBalancedTeams(
+									teamGenPlayers,
+									runs,
+									teamSize,
+									options,
+								);
+					break;
+			}
 
 			// Map player IDs back to the generated teams
 			// Create a mapping from the name used in team generation to the original player
@@ -617,44 +980,47 @@ export class TournamentService {
 				nameToPlayerMap.set(nameUsedInTeamGen, tp);
 			}
 
-			const teamsWithPlayerIds = result.teams.map((team) => ({
-				...team,
-				players: team.players.map((player) => {
-					const tournamentPlayer = nameToPlayerMap.get(player.username);
-
-					if (!tournamentPlayer) {
-						console.error(`Failed to map player: ${player.username}`);
-						console.error(
-							"Available mappings:",
-							Array.from(nameToPlayerMap.keys()),
-						);
-						console.error(
-							"Tournament players:",
-							tournamentPlayers.map((tp) => ({
-								id: tp.playerId,
-								username: tp.player?.username,
-								displayName: tp.player?.displayName,
-								nameUsedInTeamGen:
-									tp.player?.displayName || tp.player?.username || "Unknown",
-							})),
-						);
-						throw new TournamentError(
-							`Failed to map generated team player: ${player.username}`,
-							"PLAYER_MAPPING_FAILED",
-						);
-					}
-
-					return {
-						...player,
-						id: tournamentPlayer.playerId,
-					};
-				}),
-			}));
+			const withPlayerIds = (generated: GeneratedTeam[]) =>
+				generated.map((team) => ({
+					...team,
+					players: team.players.map((player) => {
+						const tournamentPlayer = nameToPlayerMap.get(player.username);
+
+						if (!tournamentPlayer) {
+							console.error(`Failed to map player: ${player.username}`);
+							console.error(
+								"Available mappings:",
+								Array.from(nameToPlayerMap.keys()),
+							);
+							console.error(
+								"Tournament players:",
+								tournamentPlayers.map((tp) => ({
+									id: tp.playerId,
+									username: tp.player?.username,
+									displayName: tp.player?.displayName,
+									nameUsedInTeamGen:
+										tp.player?.displayName || tp.player?.username || "Unknown",
+								})),
+							);
+							throw new TournamentError(
+								`Failed to map generated team player: ${player.username}`,
+								"PLAYER_MAPPING_FAILED",
+							);
+						}
+
+						return {
+							...player,
+							id: tournamentPlayer.playerId,
+						};
+					}),
+				}));
+			const teamsWithPlayerIds = withPlayerIds(result.teams);
 
 			// Store teams in database
 			const teamData = teamsWithPlayerIds.map((team) => ({
 				id: team.id,
 				players: team.players.map((p) => p.id),
+				lobby: team.lobby,
 			}));
 
 			console.log("Team data to be saved:", JSON.stringify(teamData, null, 2));
@@ -671,9 +1037,84 @@ export class TournamentService {
 				}
 			}
 
-			await this.teamRepo.createTeams(tournament.id, teamData);
+			const summary = {
+				mode: teamMode,
+				teams: teamsWithPlayerIds,
+				adr_difference: result.adr_difference,
+				proven_optimal: result.proven_optimal,
+				runs_completed: result.runs_completed,
+				iterations: result.iterations,
+				elapsed_ms: result.elapsed_ms,
+				timed_out: result.timed_out,
+				seed: result.seed,
+				metric: result.metric,
+				objective: result.objective,
+				objective_scores: result.objective_scores,
+				role_gaps: result.role_gaps,
+				repeat_pairings: result.repeat_pairings,
+			};
+
+			// Several distinct splits wait for an admin to pick one instead of being saved
+			if (result.alternatives.length > 1) {
+				const options = result.alternatives.map((split, index) => ({
+					option: index + 1,
+					teams: withPlayerIds(split.teams),
+					adr_difference: split.adr_difference,
+				}));
+				await this.teamRepo.saveSplitOptions(
+					tournament.id,
+					options.map((choice) => ({
+						option: choice.option,
+						seed: result.seed,
+						teams: choice.teams.map((team) => ({
+							id: team.id,
+							players: team.players.map((p) => p.id),
+						})),
+						bench: result.bench.map((p) => p.id),
+						adrDifference: choice.adr_difference,
+					})),
+				);
+				return { ...summary, options, diagnostics: null, round: null };
+			}
+
+			// Pre-made teams don't depend on a seed, so there is nothing to reproduce
+			await this.teamRepo.createTeams(
+				tournament.id,
+				teamData,
+				teamMode === "premade" ? undefined : result.seed,
+			);
+			await this.playerRepo.setBenchedPlayers(
+				tournament.id,
+				result.bench.map((p) => p.id),
+			);
+			await this.playerRepo.addSitOuts(
+				tournament.id,
+				result.bench.map((p) => p.id),
+			);
+			// Options from an earlier generation no longer apply
+			await this.teamRepo.clearSplitOptions(tournament.id);
+			const round = await this.saveMixRound(
+				tournament,
+				teamData,
+				result.bench.map((p) => p.id),
+			);
+			if (teamMode !== tournament.teamMode) {
+				await this.tournamentRepo.setTeamMode(tournament.id, teamMode);
+			}
+			// The generator was given ADRs from the tournament's ADR source, the same ones diagnosticAdrs reads
+			const diagnostics = await this.saveTeamDiagnostics(
+				tournament.id,
+				teamsWithPlayerIds.map((team) => ({
+					team_id: team.id,
+					adrs: team.players.map((p) => p.adr),
+					lobby: team.lobby,
+				})),
+				// Random and pre-made teams aren't searched for
+				teamMode === "balanced" ? result.runs_completed : null,
+				teamMode === "balanced" ? result.elapsed_ms : null,
+			);
 
-			return teamsWithPlayerIds;
+			return { ...summary, options: [], diagnostics, round };
 		} catch (error) {
 			console.error("Team generation error details:", error);
 			console.error("Error type:", error?.constructor?.name);
@@ -695,6 +1136,55 @@ export class TournamentService {
 		}
 	}
 
+	/**
+	 * Save one of the alternative splits offered by generateTeams as the tournament's teams
+	 * @param seed Seed of the generation that offered the split, rejects buttons from an older generation
+	 * @param option 1-based option number
+	 * @returns Promise<TeamDisplay[]> The saved teams
+	 * @throws TournamentError if no tournament is open, teams are locked, or the option is no longer available
+	 */
+	async chooseSplit(seed: number, option: number): Promise<TeamDisplay[]> {
+		try {
+			const tournament = await this.requireOpenTournament();
+
+			if (await this.teamRepo.areTeamsLocked(tournament.id)) {
+				throw new TournamentError(
+					"Teams are currently locked. Unlock them before picking another split.",
+					"TEAMS_LOCKED",
+				);
+			}
+
+			const split = await this.teamRepo.getSplitOption(tournament.id, option);
+			if (!split || split.seed !== seed) {
+				throw new TournamentError(
+					"This split is no longer available. Generate teams again to get new options.",
+					"SPLIT_OPTION_EXPIRED",
+				);
+			}
+
+			await this.teamRepo.createTeams(tournament.id, split.teams, split.seed);
+			await this.playerRepo.setBenchedPlayers(tournament.id, split.bench);
+			await this.playerRepo.addSitOuts(tournament.id, split.bench);
+			await this.teamRepo.clearSplitOptions(tournament.id);
+			await this.saveMixRound(tournament, split.teams, split.bench);
+
+			const teams = await this.getTeams();
+			await this.saveTeamDiagnostics(
+				tournament.id,
+				await this.diagnosticAdrs(tournament, teams),
+			);
+			return teams;
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				`Failed to save split: ${error instanceof Error ? error.message : String(error)}`,
+				"SPLIT_CHOICE_FAILED",
+			);
+		}
+	}
+
 	/**
 	 * Lock all teams to prevent regeneration
 	 * @returns Promise<void>
@@ -772,6 +1262,7 @@ export class TournamentService {
 					adr_locked: tp.adrLocked,
 					status:
 						tp.adr !== null && tp.adr !== undefined ? "submitted" : "pending",
+					roles: tp.player?.roles || undefined,
 				}));
 
 				// Calculate average ADR
@@ -787,6 +1278,8 @@ export class TournamentService {
 					players,
 					average_adr: Math.round(averageAdr * 100) / 100, // Round to 2 decimal places
 					locked: team.locked,
+					seed: team.seed,
+					lobby: team.lobby,
 				};
 			});
 		} catch (error) {
@@ -797,6 +1290,201 @@ export class TournamentService {
 		}
 	}
 
+	/**
+	 * Get the balance statistics saved with the current teams
+	 * @returns Promise<TeamDiagnosticsDisplay | null> Statistics, null when there are none or the teams were edited by hand since
+	 * @throws TournamentError if no tournament is open or retrieval fails
+	 */
+	async getTeamDiagnostics(): Promise<TeamDiagnosticsDisplay | null> {
+		try {
+			const tournament = await this.requireOpenTournament();
+
+			const diagnostics = await this.teamRepo.getTeamDiagnostics(tournament.id);
+			if (!diagnostics) {
+				return null;
+			}
+
+			return {
+				adr_difference: diagnostics.adrDifference,
+				adr_std_dev: diagnostics.adrStdDev,
+				teams: diagnostics.teamRanges.map((range) => ({
+					team_id: range.id,
+					min_adr: range.minAdr,
+					max_adr: range.maxAdr,
+				})),
+				fairness: diagnostics.fairness,
+				runs: diagnostics.runs,
+				elapsed_ms: diagnostics.elapsedMs,
+			};
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				"Failed to get team diagnostics",
+				"TEAM_RETRIEVAL_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Measure how balanced the saved teams are and store it with them
+	 * @param runs Optimization runs made, null when the teams were picked rather than generated
+	 */
+	private async saveTeamDiagnostics(
+		tournamentId: string,
+		teams: { team_id: string; adrs: number[]; lobby?: number | null }[],
+		runs: number | null = null,
+		elapsedMs: number | null = null,
+	): Promise<TeamDiagnosticsDisplay> {
+		// Teams in different lobbies never play each other, so each lobby is judged on its own
+		const lobbies = [...new Set(teams.map((team) => team.lobby ?? null))].map(
+			(lobby) => teams.filter((team) => (team.lobby ?? null) === lobby),
+		);
+		const diagnostics =
+			lobbies.length > 1 ? diagnoseLobbies(lobbies) : diagnoseBalance(teams);
+		await this.teamRepo.saveTeamDiagnostics(tournamentId, {
+			adrDifference: diagnostics.adr_difference,
+			adrStdDev: diagnostics.adr_std_dev,
+			teamRanges: diagnostics.teams.map((range) => ({
+				id: range.team_id,
+				minAdr: range.min_adr,
+				maxAdr: range.max_adr,
+			})),
+			fairness: diagnostics.fairness,
+			runs,
+			elapsedMs,
+		});
+		return { ...diagnostics, runs, elapsed_ms: elapsedMs };
+	}
+
+	/**
+	 * ADRs of each team's players for balance diagnostics, from the tournament's ADR source like generateTeams uses,
+	 * so the same teams get the same diagnostics whichever command saved them
+	 */
+	private async diagnosticAdrs(
+		tournament: Tournament,
+		teams: {
+			team_id: string;
+			lobby?: number | null;
+			players: { player_id: string; adr?: number }[];
+		}[],
+	): Promise<{ team_id: string; adrs: number[]; lobby?: number | null }[]> {
+		const submitted = teams.flatMap((team) =>
+			team.players.flatMap((p) =>
+				p.adr === undefined ? [] : [{ playerId: p.player_id, adr: p.adr }],
+			),
+		);
+		const effectiveAdrs =
+			tournament.adrSource === "effective"
+				? await this.getEffectiveAdrs(tournament, submitted)
+				: new Map<string, number>();
+
+		return teams.map((team) => ({
+			team_id: team.team_id,
+			lobby: team.lobby,
+			adrs: team.players.flatMap((p) =>
+				p.adr === undefined ? [] : [effectiveAdrs.get(p.player_id) ?? p.adr],
+			),
+		}));
+	}
+
+	/**
+	 * Snapshot newly saved teams as the current round of a mix tournament
+	 * Regenerating before any match of the latest round is recorded replaces that round instead of starting a new one.
+	 * @returns The round number, null outside mix tournaments
+	 */
+	private async saveMixRound(
+		tournament: Tournament,
+		teams: { id: string; players: string[] }[],
+		bench: string[],
+	): Promise<number | null> {
+		if (tournament.format !== "mix") {
+			return null;
+		}
+
+		const latest = await this.teamRepo.getLatestMixRound(tournament.id);
+		let round = 1;
+		if (latest) {
+			const matches = await this.matchRepo.getMatches(tournament.id);
+			round = matches.some((match) => match.round === latest.round)
+				? latest.round + 1
+				: latest.round;
+		}
+
+		await this.teamRepo.saveMixRound(
+			tournament.id,
+			round,
+			teams.map((team) => ({ id: team.id, players: team.players })),
+			bench,
+		);
+		return round;
+	}
+
+	/**
+	 * Blend each submitted ADR with the ADRs the player played past matches at
+	 * @returns Effective ADR by player ID, players without an ADR are left out
+	 */
+	private async getEffectiveAdrs(
+		tournament: Tournament,
+		tournamentPlayers: { playerId: string; adr: number | null }[],
+	): Promise<Map<string, number>> {
+		const submitted = tournamentPlayers.filter(
+			(tp): tp is { playerId: string; adr: number } => tp.adr !== null,
+		);
+		const history = await this.matchRepo.getAdrHistory(
+			tournament.guildId,
+			submitted.map((tp) => tp.playerId),
+			tournament.id,
+		);
+
+		return new Map(
+			submitted.map((tp) => [
+				tp.playerId,
+				effectiveAdr(
+					tp.adr,
+					history.get(tp.playerId) ?? [],
+					tournament.adrDecay,
+				),
+			]),
+		);
+	}
+
+	/**
+	 * Get players sitting out the current teams
+	 * @returns Promise<PlayerAdrDisplay[]> Array of benched players
+	 * @throws TournamentError if no tournament is open or retrieval fails
+	 */
+	async getBench(): Promise<PlayerAdrDisplay[]> {
+		try {
+			const tournament = await this.requireOpenTournament();
+
+			const tournamentPlayers = await this.playerRepo.getTournamentPlayers(
+				tournament.id,
+			);
+
+			return tournamentPlayers
+				.filter((tp) => tp.benched)
+				.map((tp) => ({
+					player_id: tp.playerId,
+					username: tp.player?.username || "Unknown",
+					display_name: tp.player?.displayName || undefined,
+					adr: tp.adr || undefined,
+					adr_locked: tp.adrLocked,
+					status:
+						tp.adr !== null && tp.adr !== undefined ? "submitted" : "pending",
+				}));
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				"Failed to get bench",
+				"BENCH_RETRIEVAL_FAILED",
+			);
+		}
+	}
+
 	/**
 	 * Check if teams exist for the current tournament
 	 * @returns Promise<boolean> true if teams have been generated
@@ -843,29 +1531,595 @@ export class TournamentService {
 		}
 	}
 
-	// Match Management Methods
+	// Draft Methods
 
 	/**
-	 * Parse and validate a match string in format TEAM1-score1-score2-TEAM2
-	 * @param matchString Match string to parse
-	 * @returns Parsed match components
-	 * @throws TournamentError if match string format is invalid
+	 * Start a captain draft, replacing any draft in progress (admin action).
+	 * There is one team per full team's worth of players; named captains come first
+	 * and the strongest remaining players captain the rest.
+	 * @param captainIds Players to captain TEAM1, TEAM2, ... in that order
+	 * @param order Snake reverses the pick order every round, linear keeps it
+	 * @returns Promise<DraftBoard> The draft with the first pick on the clock
+	 * @throws TournamentError if no tournament is open, teams are locked, there are too few players, or a captain can't be used
 	 */
-	private parseMatchString(matchString: string): {
-		team1Id: string;
-		score1: number;
-		score2: number;
-		team2Id: string;
-	} {
-		const match = matchString.match(/^([A-Z0-9]+)-(\d+)-(\d+)-([A-Z0-9]+)$/);
-		if (!match) {
-			throw new TournamentError(
-				"Invalid match string format. Expected format: TEAM1-score1-score2-TEAM2",
-				"INVALID_MATCH_FORMAT",
+	async startDraft(
+		captainIds: string[] = [],
+		order: DraftOrder = "snake",
+	): Promise<DraftBoard> {
+		try {
+			const tournament = await this.requireOpenTournament();
+			await this.requireUnlockedTeams(tournament.id);
+
+			const tournamentPlayers = await this.playerRepo.getTournamentPlayers(
+				tournament.id,
 			);
-		}
+			const teamCount = Math.floor(
+				tournamentPlayers.length / tournament.teamSize,
+			);
+			if (teamCount < 2) {
+				throw new TournamentError(
+					`A draft needs at least ${tournament.teamSize * 2} players for two full teams (currently ${tournamentPlayers.length}).`,
+					"NOT_ENOUGH_PLAYERS",
+				);
+			}
 
-		const [, team1Id, score1Str, score2Str, team2Id] = match;
+			const named = [...new Set(captainIds)];
+			if (named.length > teamCount) {
+				throw new TournamentError(
+					`Only ${teamCount} teams can be drafted, but ${named.length} captains were named.`,
+					"TOO_MANY_CAPTAINS",
+				);
+			}
+			const playerIds = new Set(tournamentPlayers.map((tp) => tp.playerId));
+			const outsider = named.find((id) => !playerIds.has(id));
+			if (outsider) {
+				throw new TournamentError(
+					`<@${outsider}> has not joined the tournament and can't be a captain.`,
+					"PLAYER_NOT_IN_TOURNAMENT",
+				);
+			}
+
+			// The strongest players left captain the remaining teams
+			const autoCaptains = tournamentPlayers
+				.filter((tp) => !named.includes(tp.playerId))
+				.sort((a, b) => (b.adr ?? -1) - (a.adr ?? -1))
+				.slice(0, teamCount - named.length)
+				.map((tp) => tp.playerId);
+			const captains = [...named, ...autoCaptains];
+
+			await this.teamRepo.saveDraft(tournament.id, captains, order);
+
+			return buildDraftBoard(
+				{ captains, picks: [], pickOrder: order },
+				tournamentPlayers,
+				tournament.teamSize,
+			);
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				`Failed to start draft: ${error instanceof Error ? error.message : String(error)}`,
+				"DRAFT_START_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Get the captain draft in progress
+	 * @returns Promise<DraftBoard | null> The draft, or null when no draft is in progress
+	 * @throws TournamentError if no tournament is open or retrieval fails
+	 */
+	async getDraft(): Promise<DraftBoard | null> {
+		try {
+			const tournament = await this.requireOpenTournament();
+
+			const draft = await this.teamRepo.getDraft(tournament.id);
+			if (!draft) {
+				return null;
+			}
+
+			const tournamentPlayers = await this.playerRepo.getTournamentPlayers(
+				tournament.id,
+			);
+			return buildDraftBoard(draft, tournamentPlayers, tournament.teamSize);
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				"Failed to get draft",
+				"DRAFT_RETRIEVAL_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Make the next pick of the draft for the team on the clock.
+	 * The last pick saves the rosters as the tournament's teams, undrafted players sit out.
+	 * @param pickNumber Pick the caller is making, so a click on an outdated draft message is rejected
+	 * @param playerId Player to pick
+	 * @returns Promise<DraftBoard> The draft after the pick, complete once the teams are saved
+	 * @throws TournamentError if no draft is in progress, the pick was already made, or the player can't be picked
+	 */
+	async pickDraftPlayer(
+		pickNumber: number,
+		playerId: string,
+	): Promise<DraftBoard> {
+		try {
+			const tournament = await this.requireOpenTournament();
+			await this.requireUnlockedTeams(tournament.id);
+
+			const draft = await this.teamRepo.getDraft(tournament.id);
+			if (!draft) {
+				throw new TournamentError(
+					"No draft is in progress. Start one with `/t draft`.",
+					"NO_DRAFT",
+				);
+			}
+
+			const stale = new TournamentError(
+				`Pick ${pickNumber} has already been made. Pick from the latest draft message.`,
+				"DRAFT_PICK_STALE",
+			);
+			if (pickNumber !== draft.picks.length + 1) {
+				throw stale;
+			}
+
+			const tournamentPlayers = await this.playerRepo.getTournamentPlayers(
+				tournament.id,
+			);
+			const board = buildDraftBoard(
+				draft,
+				tournamentPlayers,
+				tournament.teamSize,
+			);
+			if (!board.available.some((p) => p.player_id === playerId)) {
+				throw new TournamentError(
+					`<@${playerId}> is not available to pick.`,
+					"PLAYER_NOT_AVAILABLE",
+				);
+			}
+
+			const picks = [...draft.picks, playerId];
+			const saved = await this.teamRepo.addDraftPick(
+				tournament.id,
+				picks,
+				draft.picks.length,
+			);
+			if (!saved) {
+				throw stale;
+			}
+
+			const next = buildDraftBoard(
+				{ ...draft, picks },
+				tournamentPlayers,
+				tournament.teamSize,
+			);
+			if (next.complete) {
+				const rosters = next.teams.map((team) => ({
+					id: team.team_id,
+					players: [team.captain, ...team.players].map((p) => p.player_id),
+				}));
+				const undrafted = next.available.map((p) => p.player_id);
+				await this.teamRepo.createTeams(tournament.id, rosters);
+				await this.playerRepo.setBenchedPlayers(tournament.id, undrafted);
+				await this.playerRepo.addSitOuts(tournament.id, undrafted);
+				await this.teamRepo.clearSplitOptions(tournament.id);
+				await this.saveMixRound(tournament, rosters, undrafted);
+				await this.teamRepo.deleteDraft(tournament.id);
+				await this.saveTeamDiagnostics(
+					tournament.id,
+					await this.diagnosticAdrs(
+						tournament,
+						next.teams.map((team) => ({
+							team_id: team.team_id,
+							players: [team.captain, ...team.players],
+						})),
+					),
+				);
+			}
+
+			return next;
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				`Failed to record draft pick: ${error instanceof Error ? error.message : String(error)}`,
+				"DRAFT_PICK_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Throw if the tournament's teams are locked
+	 */
+	private async requireUnlockedTeams(tournamentId: string): Promise<void> {
+		if (await this.teamRepo.areTeamsLocked(tournamentId)) {
+			throw new TournamentError(
+				"Teams are currently locked. Unlock them before drafting.",
+				"TEAMS_LOCKED",
+			);
+		}
+	}
+
+	// Pre-made Team Methods
+
+	/**
+	 * Register a pre-made team for the pre-made team mode, replacing the registering player's previous team
+	 * @param registrantId Player registering the team, who is always on it
+	 * @param teammateIds The rest of the team
+	 * @returns Promise<string[]> Player IDs of the registered team, registrant first
+	 * @throws TournamentError if no tournament is open, the team isn't one full team, or a player hasn't joined or is on another pre-made team
+	 */
+	async registerPremadeTeam(
+		registrantId: string,
+		teammateIds: string[],
+	): Promise<string[]> {
+		try {
+			const tournament = await this.requireOpenTournament();
+
+			const playerIds = [...new Set([registrantId, ...teammateIds])];
+			if (playerIds.length !== tournament.teamSize) {
+				throw new TournamentError(
+					`A pre-made team needs exactly ${tournament.teamSize} different players including you (got ${playerIds.length}).`,
+					"INVALID_TEAM_SIZE",
+				);
+			}
+
+			const tournamentPlayers = await this.playerRepo.getTournamentPlayers(
+				tournament.id,
+			);
+			const byId = new Map(tournamentPlayers.map((tp) => [tp.playerId, tp]));
+			for (const playerId of playerIds) {
+				const tp = byId.get(playerId);
+				if (!tp) {
+					throw new TournamentError(
+						`<@${playerId}> has not joined the tournament.`,
+						"PLAYER_NOT_IN_TOURNAMENT",
+					);
+				}
+				if (tp.premadeGroup && tp.premadeGroup !== registrantId) {
+					throw new TournamentError(
+						`<@${playerId}> is already on another pre-made team.`,
+						"PLAYER_ALREADY_ON_TEAM",
+					);
+				}
+			}
+
+			await this.playerRepo.setPremadeGroup(
+				tournament.id,
+				registrantId,
+				playerIds,
+			);
+			return playerIds;
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				`Failed to register pre-made team: ${error instanceof Error ? error.message : String(error)}`,
+				"PREMADE_REGISTRATION_FAILED",
+			);
+		}
+	}
+
+	// Pinned Player Methods
+
+	/**
+	 * Pre-assign a player to a team, so generation keeps them there and balances everyone else around them (admin action)
+	 * @param playerId Player to pin
+	 * @param team 1-based team number, or null to unpin the player
+	 * @returns Promise<string | null> Team ID the player is pinned to, null when unpinned
+	 * @throws TournamentError if no tournament is open, the player hasn't joined, or the team is already full of pinned players
+	 */
+	async pinPlayer(
+		playerId: string,
+		team: number | null,
+	): Promise<string | null> {
+		try {
+			const tournament = await this.requireOpenTournament();
+
+			const tournamentPlayers = await this.playerRepo.getTournamentPlayers(
+				tournament.id,
+			);
+			if (!tournamentPlayers.some((tp) => tp.playerId === playerId)) {
+				throw new TournamentError(
+					`<@${playerId}> has not joined the tournament.`,
+					"PLAYER_NOT_IN_TOURNAMENT",
+				);
+			}
+
+			const teamId = team === null ? null : `TEAM${team}`;
+			const alreadyPinned = tournamentPlayers.filter(
+				(tp) => tp.pinnedTeam === teamId && tp.playerId !== playerId,
+			);
+			if (teamId && alreadyPinned.length >= tournament.teamSize) {
+				throw new TournamentError(
+					`${teamId} already has ${tournament.teamSize} pinned players.`,
+					"TEAM_FULL",
+				);
+			}
+
+			await this.playerRepo.setPinnedTeam(tournament.id, playerId, teamId);
+			return teamId;
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				`Failed to pin player: ${error instanceof Error ? error.message : String(error)}`,
+				"PIN_FAILED",
+			);
+		}
+	}
+
+	// Pair Constraint Methods
+
+	/**
+	 * Require two players to always or never share a team in this server (admin action)
+	 * @param player1 First player (upserted so the rule can reference them)
+	 * @param player2 Second player (upserted so the rule can reference them)
+	 * @param type "together" or "apart"
+	 * @returns Promise<void>
+	 * @throws TournamentError if both players are the same or saving fails
+	 */
+	async setPairConstraint(
+		player1: NewPlayer,
+		player2: NewPlayer,
+		type: PairConstraintType,
+	): Promise<void> {
+		try {
+			if (player1.id === player2.id) {
+				throw new TournamentError(
+					"A pairing rule needs two different players",
+					"INVALID_PAIR_CONSTRAINT",
+				);
+			}
+
+			await this.playerRepo.upsertPlayer(player1);
+			await this.playerRepo.upsertPlayer(player2);
+			await this.playerRepo.setPairConstraint(
+				this.scope.guildId,
+				player1.id,
+				player2.id,
+				type,
+			);
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				"Failed to set pairing rule",
+				"PAIR_CONSTRAINT_SET_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Remove the pairing rule between two players in this server (admin action)
+	 * @param player1Id Discord user ID of the first player
+	 * @param player2Id Discord user ID of the second player
+	 * @returns Promise<boolean> true if a rule was removed
+	 * @throws TournamentError if removal fails
+	 */
+	async clearPairConstraint(
+		player1Id: string,
+		player2Id: string,
+	): Promise<boolean> {
+		try {
+			return await this.playerRepo.removePairConstraint(
+				this.scope.guildId,
+				player1Id,
+				player2Id,
+			);
+		} catch (_error) {
+			throw new TournamentError(
+				"Failed to remove pairing rule",
+				"PAIR_CONSTRAINT_REMOVE_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Get the pairing rules of this server
+	 * @returns Promise<PairConstraint[]> Together/apart rules, oldest first
+	 * @throws TournamentError if retrieval fails
+	 */
+	async getPairConstraints(): Promise<PairConstraint[]> {
+		try {
+			return await this.playerRepo.getPairConstraints(this.scope.guildId);
+		} catch (_error) {
+			throw new TournamentError(
+				"Failed to get pairing rules",
+				"PAIR_CONSTRAINT_RETRIEVAL_FAILED",
+			);
+		}
+	}
+
+	// Player Role Methods
+
+	/**
+	 * Set a player's preferred roles, used for role coverage during team generation
+	 * @param player Player to update (upserted so new players can declare roles before joining)
+	 * @param roles Preferred roles, an empty list clears them
+	 * @returns Promise<void>
+	 * @throws TournamentError if saving fails
+	 */
+	async setPlayerRoles(player: NewPlayer, roles: PlayerRole[]): Promise<void> {
+		try {
+			await this.playerRepo.upsertPlayer(player);
+			await this.playerRepo.updateRoles(
+				player.id,
+				roles.length > 0 ? [...new Set(roles)] : null,
+			);
+		} catch (_error) {
+			throw new TournamentError(
+				"Failed to set player roles",
+				"PLAYER_ROLES_SET_FAILED",
+			);
+		}
+	}
+
+	// Rating Methods
+
+	/**
+	 * Update the ratings of everyone who played a match, in the server it was played in
+	 * @param team1 Player IDs of the first team's lineup
+	 * @param team2 Player IDs of the second team's lineup
+	 * @returns Promise<RatingUpdate[]> New rating of every player
+	 */
+	private async applyMatchRatings(
+		guildId: string,
+		team1: string[],
+		team2: string[],
+		score1: number,
+		score2: number,
+	): Promise<RatingUpdate[]> {
+		const ratings = await this.playerRepo.getRatings(guildId, [
+			...team1,
+			...team2,
+		]);
+		const rated = (ids: string[]): RatedPlayer[] =>
+			ids.map((id) => ({
+				id,
+				rating: ratings.get(id)?.rating ?? DEFAULT_RATING,
+				ratedMatches: ratings.get(id)?.ratedMatches ?? 0,
+			}));
+
+		const updates = rateMatch(rated(team1), rated(team2), score1, score2);
+		await this.playerRepo.updateRatings(guildId, updates);
+		return updates;
+	}
+
+	/**
+	 * Get a player's match rating in this server
+	 * @param playerId Discord user ID
+	 * @returns Promise<PlayerRatingDisplay | null> The rating, or null if the player is unknown
+	 * @throws TournamentError if retrieval fails
+	 */
+	async getPlayerRating(playerId: string): Promise<PlayerRatingDisplay | null> {
+		try {
+			const player = await this.playerRepo.getPlayer(playerId);
+			if (!player) {
+				return null;
+			}
+
+			const ratings = await this.playerRepo.getRatings(this.scope.guildId, [
+				playerId,
+			]);
+			return toRatingDisplay({
+				...player,
+				...(ratings.get(playerId) ?? {
+					rating: DEFAULT_RATING,
+					ratedMatches: 0,
+				}),
+			});
+		} catch (_error) {
+			throw new TournamentError(
+				"Failed to get player rating",
+				"RATING_RETRIEVAL_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Get the highest rated players of this server who have played at least one match in it
+	 * @param limit Maximum number of players
+	 * @returns Promise<PlayerRatingDisplay[]> Players by rating, highest first
+	 * @throws TournamentError if retrieval fails
+	 */
+	async getRatingLeaderboard(limit = 10): Promise<PlayerRatingDisplay[]> {
+		try {
+			const players = await this.playerRepo.getTopRatedPlayers(
+				this.scope.guildId,
+				limit,
+			);
+			return players.map(toRatingDisplay);
+		} catch (_error) {
+			throw new TournamentError(
+				"Failed to get rating leaderboard",
+				"RATING_RETRIEVAL_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Rebuild this server's ratings by replaying its recorded matches in order, starting from the default rating.
+	 * Used to backfill ratings from match history recorded before ratings existed.
+	 * @returns Promise<{ matches: number; players: number }> Matches replayed and players rated
+	 * @throws TournamentError if the recalculation fails
+	 */
+	async recalculateRatings(): Promise<{ matches: number; players: number }> {
+		try {
+			const history = await this.matchRepo.getMatchHistory(this.scope.guildId);
+
+			const ratings = new Map<string, RatedPlayer>();
+			const rated = (ids: string[]): RatedPlayer[] =>
+				ids.map(
+					(id) =>
+						ratings.get(id) ?? { id, rating: DEFAULT_RATING, ratedMatches: 0 },
+				);
+
+			let replayed = 0;
+			for (const match of history) {
+				const updates = rateMatch(
+					rated(match.team1Players),
+					rated(match.team2Players),
+					match.score1,
+					match.score2,
+				);
+				for (const update of updates) {
+					ratings.set(update.id, update);
+				}
+				if (updates.length > 0) {
+					replayed++;
+				}
+			}
+
+			await this.playerRepo.resetRatings(this.scope.guildId);
+			await this.playerRepo.updateRatings(
+				this.scope.guildId,
+				Array.from(ratings.values(), ({ id, rating, ratedMatches }) => ({
+					id,
+					rating,
+					ratedMatches,
+				})),
+			);
+
+			return { matches: replayed, players: ratings.size };
+		} catch (_error) {
+			throw new TournamentError(
+				"Failed to recalculate ratings",
+				"RATING_RECALCULATION_FAILED",
+			);
+		}
+	}
+
+	// Match Management Methods
+
+	/**
+	 * Parse and validate a match string in format TEAM1-score1-score2-TEAM2
+	 * @param matchString Match string to parse
+	 * @returns Parsed match components
+	 * @throws TournamentError if match string format is invalid
+	 */
+	private parseMatchString(matchString: string): {
+		team1Id: string;
+		score1: number;
+		score2: number;
+		team2Id: string;
+	} {
+		const match = matchString.match(/^([A-Z0-9]+)-(\d+)-(\d+)-([A-Z0-9]+)$/);
+		if (!match) {
+			throw new TournamentError(
+				"Invalid match string format. Expected format: TEAM1-score1-score2-TEAM2",
+				"INVALID_MATCH_FORMAT",
+			);
+		}
+
+		const [, team1Id, score1Str, score2Str, team2Id] = match;
 		const score1 = parseInt(score1Str, 10);
 		const score2 = parseInt(score2Str, 10);
 
@@ -918,6 +2172,30 @@ export class TournamentService {
 				);
 			}
 
+			// Teams only play opponents from their own lobby
+			const lobbies = await this.teamRepo.getTeamLobbies(tournament.id);
+			const lobby1 = lobbies.get(team1Id) ?? null;
+			const lobby2 = lobbies.get(team2Id) ?? null;
+			if (lobby1 !== lobby2) {
+				throw new TournamentError(
+					`${team1Id} (${lobby1 === null ? "no lobby" : `lobby ${lobby1}`}) and ${team2Id} (${lobby2 === null ? "no lobby" : `lobby ${lobby2}`}) are in different lobbies`,
+					"TEAMS_IN_DIFFERENT_LOBBIES",
+				);
+			}
+
+			// Mix matches count towards the round the current teams were generated for
+			let round: number | null = null;
+			if (tournament.format === "mix") {
+				const latest = await this.teamRepo.getLatestMixRound(tournament.id);
+				if (!latest) {
+					throw new TournamentError(
+						"No mix round has been generated yet. Generate teams before recording matches.",
+						"MIX_ROUND_NOT_FOUND",
+					);
+				}
+				round = latest.round;
+			}
+
 			// Create the match record
 			const matchId = await this.matchRepo.createMatch({
 				tournamentId: tournament.id,
@@ -925,9 +2203,11 @@ export class TournamentService {
 				team2Id,
 				score1,
 				score2,
+				...(round !== null && { round }),
 			});
 
 			// Capture team compositions at the time of the match
+			let lineups: { team1: string[]; team2: string[] } | null = null;
 			try {
 				const { team1Players, team2Players } =
 					await this.teamRepo.getTeamCompositionsForMatch(
@@ -943,6 +2223,10 @@ export class TournamentService {
 					team1Players,
 					team2Players,
 				);
+				lineups = {
+					team1: team1Players.map((p) => p.playerId),
+					team2: team2Players.map((p) => p.playerId),
+				};
 			} catch (compositionError) {
 				// Log error but don't fail the match recording
 				console.warn(
@@ -952,6 +2236,25 @@ export class TournamentService {
 				);
 			}
 
+			// Rate the lineups that played, a failure here doesn't fail the match recording either
+			if (lineups) {
+				try {
+					await this.applyMatchRatings(
+						tournament.guildId,
+						lineups.team1,
+						lineups.team2,
+						score1,
+						score2,
+					);
+				} catch (ratingError) {
+					console.warn(
+						"Failed to update ratings for match",
+						matchId,
+						ratingError,
+					);
+				}
+			}
+
 			// Retrieve the created match
 			const match = await this.matchRepo.getMatch(matchId);
 			if (!match) {
@@ -968,6 +2271,8 @@ export class TournamentService {
 				score1: match.score1,
 				score2: match.score2,
 				created_at: match.createdAt,
+				...(lobby1 !== null && { lobby: lobby1 }),
+				...(round !== null && { round }),
 			};
 		} catch (error) {
 			if (error instanceof TournamentError) {
@@ -1010,6 +2315,62 @@ export class TournamentService {
 		}
 	}
 
+	/**
+	 * Rank every player of a mix tournament by the points they scored across its rounds
+	 * @returns Promise<IndividualStandingDisplay[]> Players who played a recorded match, leader first
+	 * @throws TournamentError if no tournament is open, it isn't a mix tournament, or retrieval fails
+	 */
+	async getIndividualStandings(): Promise<IndividualStandingDisplay[]> {
+		try {
+			const tournament = await this.requireOpenTournament();
+			if (tournament.format !== "mix") {
+				throw new TournamentError(
+					"Individual standings are only kept for mix tournaments.",
+					"NOT_MIX_TOURNAMENT",
+				);
+			}
+
+			// Teams change every round, so each match is scored on the lineups captured for it
+			const matches = await this.matchRepo.getMatches(tournament.id);
+			const names = new Map<
+				string,
+				{ username: string; displayName?: string }
+			>();
+			const mixMatches = await Promise.all(
+				matches.map(async (match) => {
+					const compositions = await this.matchRepo.getMatchTeamComposition(
+						match.id,
+					);
+					const lineup = (teamId: string) =>
+						(compositions[teamId] ?? []).map((player) => {
+							names.set(player.playerId, player);
+							return player.playerId;
+						});
+					return {
+						team1: lineup(match.team1Id),
+						team2: lineup(match.team2Id),
+						score1: match.score1,
+						score2: match.score2,
+					};
+				}),
+			);
+
+			return scoreIndividuals(mixMatches).map((standing) => ({
+				...standing,
+				username: names.get(standing.player_id)?.username || "Unknown",
+				display_name: names.get(standing.player_id)?.displayName || undefined,
+			}));
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				"Failed to get individual standings",
+				"STANDINGS_RETRIEVAL_FAILED",
+			);
+		}
+	}
+
 	/**
 	 * Get matches between two specific teams
 	 * @param team1Id First team ID
@@ -1147,7 +2508,7 @@ export class TournamentService {
 	 * @param isAdmin Whether this is an admin action
 	 * @param targetPlayerId Target player ID (for admin actions)
 	 * @returns Promise<void>
-	 * @throws TournamentError if no tournament is open or join fails
+	 * @throws TournamentError if no tournament is open, a player joins themselves while registration is locked, or join fails
 	 */
 	async joinTournament(
 		playerId: string,
@@ -1162,6 +2523,10 @@ export class TournamentService {
 			// Determine actual player to join (admin can join others)
 			const actualPlayerId =
 				isAdmin && targetPlayerId ? targetPlayerId : playerId;
+			// Admins can still add players once registration is locked
+			if (actualPlayerId === playerId) {
+				this.requireOpenRegistration(tournament);
+			}
 			const actualUsername = username; // For admin actions, this should be the target's username
 			const actualDisplayName = displayName; // For admin actions, this should be the target's display name
 
@@ -1198,7 +2563,7 @@ export class TournamentService {
 	 * @param isAdmin Whether this is an admin action
 	 * @param targetPlayerId Target player ID (for admin remove)
 	 * @returns Promise<boolean> true if player was removed, false if not in tournament
-	 * @throws TournamentError if no tournament is open or removal fails
+	 * @throws TournamentError if no tournament is open, a player leaves while registration is locked, or removal fails
 	 */
 	async leaveTournament(
 		playerId: string,
@@ -1211,6 +2576,10 @@ export class TournamentService {
 			// Determine actual player to remove (admin can remove others)
 			const actualPlayerId =
 				isAdmin && targetPlayerId ? targetPlayerId : playerId;
+			// Admins can still remove players once registration is locked
+			if (actualPlayerId === playerId) {
+				this.requireOpenRegistration(tournament);
+			}
 
 			// Check if player is in tournament
 			const isInTournament = await this.playerRepo.isPlayerInTournament(
@@ -1402,6 +2771,14 @@ export class TournamentService {
 				tournament.id,
 				targetPlayerId,
 				teamId,
+				tournament.teamSize,
+			);
+
+			// A substitute who joins a team is no longer on the bench
+			await this.playerRepo.setPlayerBenched(
+				tournament.id,
+				targetPlayerId,
+				false,
 			);
 		} catch (error) {
 			if (error instanceof TournamentError) {
@@ -1473,6 +2850,189 @@ export class TournamentService {
 		}
 	}
 
+	/**
+	 * Suggest the fewest swaps that rebalance the current teams, without changing anything
+	 * @param keepLocked Leave players on locked teams where they are
+	 * @param keepPinned Leave pinned players where they are
+	 * @returns Promise<RebalancePlan> Swaps with the ADR difference before and after them
+	 * @throws TournamentError if no tournament is open, no teams exist, or a player on a team has no ADR
+	 */
+	async suggestRebalance(
+		keepLocked = false,
+		keepPinned = false,
+	): Promise<RebalancePlan> {
+		try {
+			const tournament = await this.requireOpenTournament();
+			return await this.planRebalance(tournament, keepLocked, keepPinned);
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				`Failed to plan rebalance: ${error instanceof Error ? error.message : String(error)}`,
+				"REBALANCE_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Make the swaps suggested by suggestRebalance, once an admin has confirmed them
+	 * @param fingerprint Fingerprint of the suggested plan, rejects the confirmation if the teams changed since
+	 * @returns Promise<RebalancePlan> The swaps made
+	 * @throws TournamentError if no tournament is open, the teams changed since the suggestion, or saving fails
+	 */
+	async applyRebalance(
+		keepLocked: boolean,
+		keepPinned: boolean,
+		fingerprint: string,
+	): Promise<RebalancePlan> {
+		try {
+			const tournament = await this.requireOpenTournament();
+
+			// The search is deterministic, so the same lineup gets the same plan it was shown
+			const plan = await this.planRebalance(tournament, keepLocked, keepPinned);
+			if (plan.fingerprint !== fingerprint) {
+				throw new TournamentError(
+					"Teams changed since this rebalance was suggested. Run `/t rebalance` again.",
+					"REBALANCE_EXPIRED",
+				);
+			}
+
+			for (const swap of plan.swaps) {
+				await this.teamRepo.exchangePlayers(
+					tournament.id,
+					swap.player1.player_id,
+					swap.player2.player_id,
+				);
+			}
+			if (plan.swaps.length > 0) {
+				await this.saveTeamDiagnostics(
+					tournament.id,
+					await this.diagnosticAdrs(tournament, await this.getTeams()),
+				);
+			}
+
+			return plan;
+		} catch (error) {
+			if (error instanceof TournamentError) {
+				throw error;
+			}
+			throw new TournamentError(
+				`Failed to rebalance teams: ${error instanceof Error ? error.message : String(error)}`,
+				"REBALANCE_FAILED",
+			);
+		}
+	}
+
+	/**
+	 * Plan the swaps that rebalance a tournament's current teams, in a fixed team and player order.
+	 * Swaps are scored on the same player strength generateTeams balances on.
+	 */
+	private async planRebalance(
+		tournament: Tournament,
+		keepLocked: boolean,
+		keepPinned: boolean,
+	): Promise<RebalancePlan> {
+		const teams = (await this.teamRepo.getTeams(tournament.id))
+			.map((team) => ({
+				...team,
+				players: [...(team.players ?? [])].sort((a, b) =>
+					a.playerId.localeCompare(b.playerId),
+				),
+			}))
+			.sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+		if (teams.length === 0) {
+			throw new TournamentError(
+				"No teams have been generated yet",
+				"NO_TEAMS_GENERATED",
+			);
+		}
+		// A swap between lobbies would undo the lobby split
+		if (new Set(teams.map((team) => team.lobby)).size > 1) {
+			throw new TournamentError(
+				"Teams are split into lobbies. Regenerate the teams to rebalance them.",
+				"LOBBIES_NOT_SUPPORTED",
+			);
+		}
+
+		const rows = teams.flatMap((team) => team.players);
+		const missing = rows.filter((tp) => tp.adr === null);
+		if (missing.length > 0) {
+			throw new TournamentError(
+				`Players missing ADR: ${missing.map((tp) => tp.player?.username || tp.playerId).join(", ")}`,
+				"PLAYERS_MISSING_ADR",
+			);
+		}
+
+		const effectiveAdrs =
+			tournament.adrSource === "effective"
+				? await this.getEffectiveAdrs(tournament, rows)
+				: new Map<string, number>();
+		const ratings =
+			tournament.balanceMetric === "rating"
+				? await this.playerRepo.getRatings(
+						tournament.guildId,
+						rows.map((tp) => tp.playerId),
+					)
+				: new Map<string, { rating: number }>();
+		const players: TeamgenPlayer[] = rows.map((tp) => ({
+			name: tp.playerId,
+			adr:
+				tournament.balanceMetric === "rating"
+					? (ratings.get(tp.playerId)?.rating ?? DEFAULT_RATING)
+					: (effectiveAdrs.get(tp.playerId) ?? tp.adr ?? 0),
+		}));
+		// Players are numbered in team order; some stay put depending on the options
+		const teamOf: string[] = [];
+		const fixed = new Set<number>();
+		const indices: number[][] = teams.map((team) =>
+			team.players.map((tp) => {
+				const index = teamOf.push(team.id) - 1;
+				if ((keepLocked && team.locked) || (keepPinned && tp.pinnedTeam)) {
+					fixed.add(index);
+				}
+				return index;
+			}),
+		);
+
+		const totals = indices.map((team) =>
+			// biome-ignore lint/style/noNonNullAssertion: Indices come from the players array
+			team.reduce((sum, i) => sum + players[i]!.adr, 0),
+		);
+		const { swaps, adrDiff } = planSwaps(players, indices, fixed);
+
+		// Teams change as swaps are made, so track where each player is
+		const current = [...teamOf];
+		const round = (value: number) => Math.round(value * 100) / 100;
+		return {
+			swaps: swaps.map(({ a, b }) => {
+				// biome-ignore lint/style/noNonNullAssertion: Swap indices come from the players array
+				const team1 = current[a]!;
+				// biome-ignore lint/style/noNonNullAssertion: Swap indices come from the players array
+				const team2 = current[b]!;
+				current[a] = team2;
+				current[b] = team1;
+				return {
+					// biome-ignore lint/style/noNonNullAssertion: Swap indices come from the players array
+					player1: toDraftPlayer(rows[a]!),
+					team1,
+					// biome-ignore lint/style/noNonNullAssertion: Swap indices come from the players array
+					player2: toDraftPlayer(rows[b]!),
+					team2,
+				};
+			}),
+			adr_difference_before: round(Math.max(...totals) - Math.min(...totals)),
+			adr_difference_after: round(adrDiff),
+			metric: tournament.balanceMetric,
+			fingerprint: lineupFingerprint(
+				teams.map((team) => ({
+					id: team.id,
+					players: team.players.map((tp) => tp.playerId),
+				})),
+			),
+		};
+	}
+
 	/**
 	 * Get all matches with their historical team compositions
 	 * @returns Promise<Array> Array of matches with team compositions
@@ -1530,3 +3090,125 @@ export class TournamentService {
 		}
 	}
 }
+
+function toRatingDisplay(
+	player: Player & Pick<PlayerRating, "rating" | "ratedMatches">,
+): PlayerRatingDisplay {
+	return {
+		player_id: player.id,
+		username: player.username || "Unknown",
+		display_name: player.displayName || undefined,
+		rating: player.rating,
+		rated_matches: player.ratedMatches,
+		provisional: player.ratedMatches < PROVISIONAL_MATCHES,
+	};
+}
+
+// Player IDs of every registered pre-made team, in a fixed order so generation is repeatable
+function premadeGroups(
+	tournamentPlayers: { playerId: string; premadeGroup: string | null }[],
+): string[][] {
+	const groups = new Map<string, string[]>();
+	for (const tp of tournamentPlayers) {
+		if (tp.premadeGroup) {
+			groups.set(tp.premadeGroup, [
+				...(groups.get(tp.premadeGroup) ?? []),
+				tp.playerId,
+			]);
+		}
+	}
+	return [...groups.entries()]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([, playerIds]) => playerIds);
+}
+
+type DraftPlayerRow = Awaited<
+	ReturnType<PlayerRepository["getTournamentPlayers"]>
+>[number];
+
+function toDraftPlayer(tp: DraftPlayerRow): PlayerAdrDisplay {
+	return {
+		player_id: tp.playerId,
+		username: tp.player?.username || "Unknown",
+		display_name: tp.player?.displayName || undefined,
+		adr: tp.adr ?? undefined,
+		adr_locked: tp.adrLocked,
+		status: tp.adr !== null && tp.adr !== undefined ? "submitted" : "pending",
+	};
+}
+
+/**
+ * Lay out a draft from its captains and picks. Pick k goes to the team at position k within its round,
+ * with every other round reversed in snake order. Players who left the tournament are skipped.
+ */
+function buildDraftBoard(
+	draft: Pick<Draft, "captains" | "picks" | "pickOrder">,
+	tournamentPlayers: DraftPlayerRow[],
+	teamSize: number,
+): DraftBoard {
+	const byId = new Map(tournamentPlayers.map((tp) => [tp.playerId, tp]));
+	const teamCount = draft.captains.length;
+	const teamOfPick = (pick: number) => {
+		const position = pick % teamCount;
+		const reversed =
+			draft.pickOrder === "snake" && Math.floor(pick / teamCount) % 2 === 1;
+		return reversed ? teamCount - 1 - position : position;
+	};
+
+	const teams: DraftTeam[] = draft.captains.map((captainId, index) => {
+		const captain = byId.get(captainId);
+		return {
+			team_id: `TEAM${index + 1}`,
+			captain: captain
+				? toDraftPlayer(captain)
+				: {
+						player_id: captainId,
+						username: "Unknown",
+						adr_locked: false,
+						status: "pending",
+					},
+			players: [],
+		};
+	});
+	draft.picks.forEach((playerId, pick) => {
+		const tp = byId.get(playerId);
+		if (tp) {
+			teams[teamOfPick(pick)]?.players.push(toDraftPlayer(tp));
+		}
+	});
+
+	const taken = new Set([...draft.captains, ...draft.picks]);
+	const available = tournamentPlayers
+		.filter((tp) => !taken.has(tp.playerId))
+		.sort((a, b) => (b.adr ?? -1) - (a.adr ?? -1))
+		.map(toDraftPlayer);
+
+	const slots = teamCount * (teamSize - 1);
+	const totalPicks = Math.min(slots, draft.picks.length + available.length);
+	const complete = draft.picks.length >= totalPicks;
+
+	return {
+		order: draft.pickOrder,
+		teams,
+		available,
+		pick_number: draft.picks.length + 1,
+		total_picks: totalPicks,
+		on_the_clock: complete
+			? null
+			: (teams[teamOfPick(draft.picks.length)] ?? null),
+		complete,
+	};
+}
+
+// Short hash of which players are on which team, to notice a lineup changing between two requests (FNV-1a)
+function lineupFingerprint(teams: { id: string; players: string[] }[]): string {
+	const lineup = teams
+		.map((team) => `${team.id}:${[...team.players].sort().join(",")}`)
+		.sort()
+		.join("|");
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < lineup.length; i++) {
+		hash = Math.imul(hash ^ lineup.charCodeAt(i), 0x01000193) >>> 0;
+	}
+	return hash.toString(36);
+}
@@ -1,6 +1,8 @@
 export type Player = {
 	name: string;
 	adr: number;
+	roles?: string[]; // Preferred roles, used for role coverage
+	confidence?: number; // 0-1, how much the ADR can be trusted; unknown counts as fully trusted
 };
 
 export type Team = {
@@ -8,10 +10,45 @@ export type Team = {
 	totalAdr: number;
 };
 
+// Hard pairing rule between two players, referenced by index into the players array
+export type PairConstraint = {
+	a: number;
+	b: number;
+	type: "together" | "apart";
+};
+
+// The first constraint that makes a valid split impossible, with the reason why
+export type ConstraintConflict = {
+	constraint: PairConstraint;
+	reason: string;
+};
+
+// Two players (by index into the players array) who were recently teammates, and how often
+export type RecentPairing = {
+	a: number;
+	b: number;
+	count: number;
+};
+
+// Source of floats in [0, 1), interchangeable with Math.random
+export type Random = () => number;
+
+// Seedable PRNG (mulberry32): the same seed always produces the same sequence
+export function createRandom(seed: number): Random {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
 // Utility: shuffle array in place
-function shuffle<T>(array: T[]): void {
+export function shuffle<T>(array: T[], random: Random = Math.random): void {
 	for (let i = array.length - 1; i > 0; i--) {
-		const j = Math.floor(Math.random() * (i + 1));
+		const j = Math.floor(random() * (i + 1));
 		// biome-ignore lint/style/noNonNullAssertion: Array bounds are controlled by loop
 		const temp = array[i]!;
 		// biome-ignore lint/style/noNonNullAssertion: Array bounds are controlled by loop
@@ -20,6 +57,210 @@ function shuffle<T>(array: T[]): void {
 	}
 }
 
+// Individual balance measures a split can be scored on, lower is better for all of them
+export type ObjectiveComponent =
+	| "total_diff"
+	| "spread_variance"
+	| "star_distribution";
+
+// Objectives a tournament can balance for: a single component or a weighted sum of all of them
+export type ObjectiveName = ObjectiveComponent | "weighted";
+
+export type ObjectiveScores = Record<ObjectiveComponent, number>;
+
+// Scores a complete split, lower is better
+export type Objective = (teams: Team[]) => number;
+
+// One star-distribution point is worth 10 ADR of total difference; spread variance is in ADR squared
+export const DEFAULT_OBJECTIVE_WEIGHTS: ObjectiveScores = {
+	total_diff: 1,
+	spread_variance: 0.05,
+	star_distribution: 10,
+};
+
+// Max minus min team total ADR
+function totalDiff(teams: Team[]): number {
+	const totals = teams.map((t) => t.totalAdr);
+	return Math.max(...totals) - Math.min(...totals);
+}
+
+// Variance across teams of each team's internal ADR spread (best minus worst player),
+// so every team mixes strong and weak players to a similar degree
+function spreadVariance(teams: Team[]): number {
+	const spreads = teams.map((t) => {
+		const adrs = t.players.map((p) => p.adr);
+		return Math.max(...adrs) - Math.min(...adrs);
+	});
+	const mean = spreads.reduce((sum, s) => sum + s, 0) / spreads.length;
+	return spreads.reduce((sum, s) => sum + (s - mean) ** 2, 0) / spreads.length;
+}
+
+// Number of teams without one of the top-N players, where N is the team count
+function starDistribution(teams: Team[]): number {
+	const ranked = teams
+		.flatMap((t, team) => t.players.map((p) => ({ adr: p.adr, team })))
+		.sort((a, b) => b.adr - a.adr);
+	const teamsWithStar = new Set(
+		ranked.slice(0, teams.length).map((p) => p.team),
+	);
+	return teams.length - teamsWithStar.size;
+}
+
+const objectiveComponents: Record<ObjectiveComponent, Objective> = {
+	total_diff: totalDiff,
+	spread_variance: spreadVariance,
+	star_distribution: starDistribution,
+};
+
+/**
+ * Score a split on every objective component
+ * @returns Raw (unweighted) score per component
+ */
+export function scoreObjectives(teams: Team[]): ObjectiveScores {
+	return {
+		total_diff: totalDiff(teams),
+		spread_variance: spreadVariance(teams),
+		star_distribution: starDistribution(teams),
+	};
+}
+
+/**
+ * Build the objective function for a named balancing objective
+ * @param name A single component, or "weighted" to sum all components
+ * @param weights Component weights used by the weighted objective
+ */
+export function createObjective(
+	name: ObjectiveName,
+	weights: ObjectiveScores = DEFAULT_OBJECTIVE_WEIGHTS,
+): Objective {
+	if (name !== "weighted") {
+		return objectiveComponents[name];
+	}
+
+	return (teams) => {
+		const scores = scoreObjectives(teams);
+		return (Object.keys(scores) as ObjectiveComponent[]).reduce(
+			(sum, component) => sum + weights[component] * scores[component],
+			0,
+		);
+	};
+}
+
+/**
+ * List the required roles that no member of a team plays
+ */
+export function missingRoles(team: Team, roles: string[]): string[] {
+	return roles.filter(
+		(role) => !team.players.some((p) => p.roles?.includes(role)),
+	);
+}
+
+/**
+ * Add a penalty for every team missing a required role on top of another objective
+ * @param weight Penalty per missing role, in the units of the wrapped objective
+ */
+export function withRoleCoverage(
+	objective: Objective,
+	roles: string[],
+	weight: number,
+): Objective {
+	return (teams) =>
+		objective(teams) +
+		weight *
+			teams.reduce((sum, team) => sum + missingRoles(team, roles).length, 0);
+}
+
+// Recent pairings that ended up on the same team again, weighted by how often they were teammates
+function repeatPairings(
+	teams: Team[],
+	players: Player[],
+	pairings: RecentPairing[],
+): { pairs: number; weight: number } {
+	// Teams hold the same player objects that were passed in, so look indices up by reference
+	const indexOf = new Map(players.map((p, i) => [p, i]));
+	const teamOf = new Array<number>(players.length).fill(-1);
+	teams.forEach((team, t) => {
+		for (const p of team.players) {
+			const i = indexOf.get(p);
+			if (i !== undefined) teamOf[i] = t;
+		}
+	});
+
+	let pairs = 0;
+	let weight = 0;
+	for (const pairing of pairings) {
+		if (teamOf[pairing.a] !== -1 && teamOf[pairing.a] === teamOf[pairing.b]) {
+			pairs++;
+			weight += pairing.count;
+		}
+	}
+	return { pairs, weight };
+}
+
+/**
+ * Count recent teammate pairs that share a team again
+ * @param players The players array the teams were generated from
+ */
+export function countRepeatPairings(
+	teams: Team[],
+	players: Player[],
+	pairings: RecentPairing[],
+): number {
+	return repeatPairings(teams, players, pairings).pairs;
+}
+
+/**
+ * Add a penalty for every recent teammate pair that shares a team again on top of another objective
+ * @param players The players array passed to the optimizer
+ * @param weight Penalty per shared past tournament, in the units of the wrapped objective
+ */
+export function withRepeatPairPenalty(
+	objective: Objective,
+	players: Player[],
+	pairings: RecentPairing[],
+	weight: number,
+): Objective {
+	return (teams) =>
+		objective(teams) + weight * repeatPairings(teams, players, pairings).weight;
+}
+
+// Tournaments a player needs behind them before their ADR is fully trusted
+export const CONFIDENT_AFTER_TOURNAMENTS = 3;
+
+/**
+ * How much a player's ADR can be trusted, growing with every tournament played
+ * @returns 0 for a newcomer up to 1 once they played CONFIDENT_AFTER_TOURNAMENTS tournaments
+ */
+export function playerConfidence(tournamentsPlayed: number): number {
+	return Math.min(
+		1,
+		Math.max(0, tournamentsPlayed) / CONFIDENT_AFTER_TOURNAMENTS,
+	);
+}
+
+/**
+ * Difference between the most and least uncertain team, where a team's uncertainty
+ * is the sum of its players' missing confidence. 0 when uncertain players are spread evenly.
+ */
+export function uncertaintySpread(teams: Team[]): number {
+	if (teams.length === 0) return 0;
+	const uncertainty = teams.map((team) =>
+		team.players.reduce((sum, p) => sum + (1 - (p.confidence ?? 1)), 0),
+	);
+	return Math.max(...uncertainty) - Math.min(...uncertainty);
+}
+
+/**
+ * Add a penalty for stacking low-confidence players on the same team on top of another objective
+ * @param weight Penalty per newcomer of difference between teams, in the units of the wrapped objective
+ */
+export function withConfidenceSpread(
+	objective: Objective,
+	weight: number,
+): Objective {
+	return (teams) => objective(teams) + weight * uncertaintySpread(teams);
+}
+
 // Compute initial teams and ADR difference
 export function computeTeams(
 	players: Player[],
@@ -46,88 +287,899 @@ export function computeTeams(
 	return { teams, adrDiff };
 }
 
-// Local search optimizer
+// Merge players linked by "together" constraints into groups that must share a team
+function groupPlayers(
+	playerCount: number,
+	constraints: PairConstraint[],
+): { groups: number[][]; groupOf: number[] } {
+	const parent = Array.from({ length: playerCount }, (_, i) => i);
+	const find = (i: number): number => {
+		while (parent[i] !== i) {
+			// biome-ignore lint/style/noNonNullAssertion: Parent indices are always valid player indices
+			parent[i] = parent[parent[i]!]!;
+			// biome-ignore lint/style/noNonNullAssertion: Parent indices are always valid player indices
+			i = parent[i]!;
+		}
+		return i;
+	};
+
+	for (const c of constraints) {
+		if (c.type === "together") {
+			parent[find(c.a)] = find(c.b);
+		}
+	}
+
+	const groupIndexByRoot = new Map<number, number>();
+	const groups: number[][] = [];
+	const groupOf: number[] = [];
+	for (let i = 0; i < playerCount; i++) {
+		const root = find(i);
+		let groupIndex = groupIndexByRoot.get(root);
+		if (groupIndex === undefined) {
+			groupIndex = groups.length;
+			groupIndexByRoot.set(root, groupIndex);
+			groups.push([]);
+		}
+		// biome-ignore lint/style/noNonNullAssertion: Group was created above
+		groups[groupIndex]!.push(i);
+		groupOf.push(groupIndex);
+	}
+
+	return { groups, groupOf };
+}
+
+// Group pairs that may never share a team, derived from "apart" constraints
+function groupConflicts(
+	groupCount: number,
+	groupOf: number[],
+	constraints: PairConstraint[],
+): Set<number>[] {
+	const conflicts = Array.from({ length: groupCount }, () => new Set<number>());
+	for (const c of constraints) {
+		if (c.type === "apart") {
+			// biome-ignore lint/style/noNonNullAssertion: Constraint indices are validated player indices
+			const ga = groupOf[c.a]!;
+			// biome-ignore lint/style/noNonNullAssertion: Constraint indices are validated player indices
+			const gb = groupOf[c.b]!;
+			conflicts[ga]?.add(gb);
+			conflicts[gb]?.add(ga);
+		}
+	}
+	return conflicts;
+}
+
+// Backtracking placement of groups into teams, respecting team size and conflicts.
+// Returns the team index for each group in `order`, or null when no placement exists.
+function placeGroups(
+	order: number[],
+	groups: number[][],
+	conflicts: Set<number>[],
+	numTeams: number,
+	teamSize: number,
+): number[] | null {
+	const teamOf = new Array<number>(groups.length).fill(-1);
+	const members: number[][] = Array.from({ length: numTeams }, () => []);
+	const space = new Array<number>(numTeams).fill(teamSize);
+
+	// A group whose members must be kept apart can never be placed
+	if (order.some((g) => conflicts[g]?.has(g))) {
+		return null;
+	}
+
+	const place = (k: number): boolean => {
+		if (k === order.length) {
+			return true;
+		}
+		// biome-ignore lint/style/noNonNullAssertion: k is bounded by order.length
+		const g = order[k]!;
+		// biome-ignore lint/style/noNonNullAssertion: Group indices come from groupPlayers
+		const size = groups[g]!.length;
+		let triedEmptyTeam = false;
+
+		for (let t = 0; t < numTeams; t++) {
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			const teamMembers = members[t]!;
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			if (space[t]! < size) continue;
+			// Empty teams are interchangeable, so only try the first one
+			if (teamMembers.length === 0) {
+				if (triedEmptyTeam) continue;
+				triedEmptyTeam = true;
+			}
+			if (teamMembers.some((other) => conflicts[g]?.has(other))) continue;
+
+			teamMembers.push(g);
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			space[t]! -= size;
+			teamOf[g] = t;
+			if (place(k + 1)) {
+				return true;
+			}
+			teamMembers.pop();
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			space[t]! += size;
+		}
+		return false;
+	};
+
+	return place(0) ? teamOf : null;
+}
+
+// Largest groups first keeps backtracking shallow
+function largestFirst(groups: number[][], order: number[]): number[] {
+	return order.sort(
+		// biome-ignore lint/style/noNonNullAssertion: Group indices come from groupPlayers
+		(x, y) => groups[y]!.length - groups[x]!.length,
+	);
+}
+
+function isSatisfiable(
+	playerCount: number,
+	teamSize: number,
+	constraints: PairConstraint[],
+): boolean {
+	const { groups, groupOf } = groupPlayers(playerCount, constraints);
+	const conflicts = groupConflicts(groups.length, groupOf, constraints);
+	const order = largestFirst(
+		groups,
+		groups.map((_, i) => i),
+	);
+	return (
+		placeGroups(order, groups, conflicts, playerCount / teamSize, teamSize) !==
+		null
+	);
+}
+
+/**
+ * Find the first constraint (in the given order) that makes a valid split impossible
+ * @returns The offending constraint and the reason, or null when all constraints can be met
+ */
+export function findConstraintConflict(
+	playerCount: number,
+	teamSize: number,
+	constraints: PairConstraint[],
+): ConstraintConflict | null {
+	if (isSatisfiable(playerCount, teamSize, constraints)) {
+		return null;
+	}
+
+	for (let k = 0; k < constraints.length; k++) {
+		const prefix = constraints.slice(0, k + 1);
+		if (isSatisfiable(playerCount, teamSize, prefix)) continue;
+
+		// biome-ignore lint/style/noNonNullAssertion: k is bounded by constraints.length
+		const constraint = constraints[k]!;
+		const { groups, groupOf } = groupPlayers(playerCount, prefix);
+		// biome-ignore lint/style/noNonNullAssertion: Constraint indices are validated player indices
+		const group = groups[groupOf[constraint.a]!]!;
+
+		let reason =
+			"no valid split satisfies it together with the other constraints";
+		if (group.length > teamSize) {
+			reason = `it would put ${group.length} players on one team of ${teamSize}`;
+		} else if (
+			constraint.type === "apart" &&
+			groupOf[constraint.a] === groupOf[constraint.b]
+		) {
+			reason = "the players are already linked by together constraints";
+		} else if (
+			constraint.type === "together" &&
+			prefix.some((c) => c.type === "apart" && groupOf[c.a] === groupOf[c.b])
+		) {
+			reason = "it links players who must be kept apart";
+		}
+		return { constraint, reason };
+	}
+
+	return null;
+}
+
+/**
+ * Split players into teams at random, ignoring ADR but keeping every pair constraint
+ * @returns Teams in placement order, or null when the constraints leave no valid split
+ */
+export function randomTeams(
+	players: Player[],
+	teamSize: number,
+	constraints: PairConstraint[],
+	random: Random,
+): Team[] | null {
+	const numTeams = players.length / teamSize;
+	const { groups, groupOf } = groupPlayers(players.length, constraints);
+	const conflicts = groupConflicts(groups.length, groupOf, constraints);
+
+	// Filling teams in a shuffled order is a uniformly random split when there are no constraints
+	const order = groups.map((_, i) => i);
+	shuffle(order, random);
+	const teamOf = placeGroups(order, groups, conflicts, numTeams, teamSize);
+	if (!teamOf) {
+		return null;
+	}
+
+	const teamGroups: number[][] = Array.from({ length: numTeams }, () => []);
+	for (const g of order) {
+		// biome-ignore lint/style/noNonNullAssertion: placeGroups assigns every group a valid team
+		teamGroups[teamOf[g]!]!.push(g);
+	}
+	return toTeams(players, groups, teamGroups);
+}
+
+// A complete split with its total ADR difference and objective score
+export type Split = { teams: Team[]; adrDiff: number; score: number };
+
+/**
+ * Identify a split independently of team order, so relabeled copies of the same split compare equal
+ * @param teams Teams made of references into the players array
+ * @param players All players in the split
+ */
+export function splitKey(teams: Team[], players: Player[]): string {
+	const indexOf = new Map(players.map((p, i) => [p, i]));
+	return teams
+		.map((t) =>
+			t.players
+				.map((p) => indexOf.get(p) ?? -1)
+				.sort((a, b) => a - b)
+				.join(","),
+		)
+		.sort()
+		.join("|");
+}
+
+// How much work an optimizer call actually did
+export type SearchEffort = {
+	runs: number; // Runs started, including one cut short by the deadline
+	iterations: number; // Swap attempts across all runs
+	timedOut: boolean; // True when the deadline stopped the search before all runs finished
+};
+
+// Anytime local search optimizer.
+// Every run ends in a local optimum; the best `keep` distinct ones are returned as alternatives, best first.
+// The search stops at `deadline` (a timestamp in milliseconds from `now`) and returns the best splits so far;
+// a run cut short still counts with its current split, so at least one split is always returned.
+// Runs stopped by the deadline depend on machine speed, so a seed only reproduces a split when no deadline is hit.
 export function optimizeTeams(
 	players: Player[],
 	teamSize = 5,
 	maxNoImprovement = 1000,
 	runs = 500,
-): { teams: Team[]; adrDiff: number } {
+	constraints: PairConstraint[] = [],
+	random: Random = Math.random,
+	objective: Objective = totalDiff,
+	keep = 1,
+	deadline = Number.POSITIVE_INFINITY,
+	now: () => number = Date.now,
+): Split & { alternatives: Split[] } & SearchEffort {
 	if (players.length % teamSize !== 0) {
 		throw new Error(`Player count must be a multiple of ${teamSize}`);
 	}
 
-	let bestTeams: Team[] = [];
-	let bestDiff = Infinity;
+	const numTeams = players.length / teamSize;
+
+	// Players that must stay together move between teams as one group
+	const { groups, groupOf } = groupPlayers(players.length, constraints);
+	const conflicts = groupConflicts(groups.length, groupOf, constraints);
+	const hasConflicts = conflicts.some((c) => c.size > 0);
+	// biome-ignore lint/style/noNonNullAssertion: Group indices come from groupPlayers
+	const groupSize = (g: number) => groups[g]!.length;
+	const groupAdr = groups.map((g) =>
+		// biome-ignore lint/style/noNonNullAssertion: Group members are valid player indices
+		g.reduce((sum, i) => sum + players[i]!.adr, 0),
+	);
+	// biome-ignore lint/style/noNonNullAssertion: Group indices come from groupPlayers
+	const adrOf = (g: number) => groupAdr[g]!;
+	const canJoin = (g: number, team: number[]) =>
+		!team.some((other) => conflicts[g]?.has(other));
+	const buildTeam = (team: number[], totalAdr: number): Team => ({
+		// biome-ignore lint/style/noNonNullAssertion: Group members are valid player indices
+		players: team.flatMap((g) => groups[g]!).map((i) => players[i]!),
+		totalAdr,
+	});
+
+	// The default objective only depends on team totals, so it is scored from them without building teams
+	const totalsOnly = objective === totalDiff;
+
+	const kept: (Split & { key: string })[] = [];
+	const outOfTime = () => now() >= deadline;
+	let started = 0;
+	let iterations = 0;
+	let timedOut = false;
 
 	for (let run = 0; run < runs; run++) {
-		const shuffled = [...players];
-		shuffle(shuffled);
+		// The first run always starts, so there is a split to return
+		if (run > 0 && outOfTime()) {
+			timedOut = true;
+			break;
+		}
+		started++;
+
+		const teams = seedSplit(
+			run,
+			groups,
+			groupAdr,
+			conflicts,
+			numTeams,
+			teamSize,
+			random,
+		);
+		if (!teams) {
+			throw new Error("No team split satisfies the pairing constraints");
+		}
 
-		let { teams, adrDiff } = computeTeams(shuffled, teamSize);
+		const totals = teams.map((team) =>
+			team.reduce((sum, g) => sum + adrOf(g), 0),
+		);
+		let current = totalsOnly ? [] : toTeams(players, groups, teams);
+		let score = totalsOnly ? spreadOf(totals) : objective(current);
+		let { highest, lowest } = extremes(totals);
 
-		let noImprovement = 0;
+		// A single team has nothing to swap with
+		let noImprovement = numTeams < 2 ? maxNoImprovement : 0;
 
 		while (noImprovement < maxNoImprovement) {
-			// Pick two random teams
-			const indices = Array.from({ length: teams.length }, (_, i) => i);
-			shuffle(indices);
-			const [i, j] = indices.slice(0, 2) as [number, number];
+			if (outOfTime()) {
+				timedOut = true;
+				break;
+			}
+			iterations++;
 
-			// biome-ignore lint/style/noNonNullAssertion: Indices are controlled by shuffle of valid team indices
+			// Pick two different teams; only a swap involving the highest or lowest total can shrink the spread
+			let i: number;
+			if (totalsOnly) {
+				i = random() < 0.5 ? highest : lowest;
+			} else {
+				i = Math.floor(random() * numTeams);
+			}
+			let j = Math.floor(random() * (numTeams - 1));
+			if (j >= i) j++;
+
+			// biome-ignore lint/style/noNonNullAssertion: Indices are valid team indices
 			const teamA = teams[i]!;
-			// biome-ignore lint/style/noNonNullAssertion: Indices are controlled by shuffle of valid team indices
+			// biome-ignore lint/style/noNonNullAssertion: Indices are valid team indices
 			const teamB = teams[j]!;
 
-			// Pick random players from each team
-			const aIndex = Math.floor(Math.random() * teamA.players.length);
-			const bIndex = Math.floor(Math.random() * teamB.players.length);
-
-			// biome-ignore lint/style/noNonNullAssertion: Index is controlled by team.players.length
-			const playerA = teamA.players[aIndex]!;
-			// biome-ignore lint/style/noNonNullAssertion: Index is controlled by team.players.length
-			const playerB = teamB.players[bIndex]!;
-
-			// Swap
-			[teamA.players[aIndex], teamB.players[bIndex]] = [playerB, playerA];
-
-			// Update totals
-			teamA.totalAdr = teamA.players.reduce(
-				(sum: number, p: Player) => sum + p.adr,
-				0,
-			);
-			teamB.totalAdr = teamB.players.reduce(
-				(sum: number, p: Player) => sum + p.adr,
-				0,
-			);
-
-			const totals = teams.map((t) => t.totalAdr);
-			const newDiff = Math.max(...totals) - Math.min(...totals);
-
-			if (newDiff < adrDiff) {
-				adrDiff = newDiff;
-				noImprovement = 0;
-			} else {
-				// Revert swap
-				[teamA.players[aIndex], teamB.players[bIndex]] = [playerA, playerB];
-				teamA.totalAdr = teamA.players.reduce(
-					(sum: number, p: Player) => sum + p.adr,
-					0,
-				);
-				teamB.totalAdr = teamB.players.reduce(
-					(sum: number, p: Player) => sum + p.adr,
-					0,
-				);
+			// Pick a random group from team A, and groups from team B filling the same number of slots
+			// biome-ignore lint/style/noNonNullAssertion: Index is controlled by teamA.length
+			const outOfA = teamA[Math.floor(random() * teamA.length)]!;
+			const slots = groupSize(outOfA);
+
+			const outOfB: number[] = [];
+			let filled = 0;
+			let adrOutOfB = 0;
+			const offset = Math.floor(random() * teamB.length);
+			for (let k = 0; k < teamB.length && filled < slots; k++) {
+				// biome-ignore lint/style/noNonNullAssertion: Index wraps within teamB.length
+				const g = teamB[(offset + k) % teamB.length]!;
+				if (filled + groupSize(g) <= slots) {
+					outOfB.push(g);
+					filled += groupSize(g);
+					adrOutOfB += adrOf(g);
+				}
+			}
+			if (filled !== slots) {
 				noImprovement++;
+				continue;
+			}
+
+			const remainingA = teamA.filter((g) => g !== outOfA);
+			const remainingB = teamB.filter((g) => !outOfB.includes(g));
+			if (
+				hasConflicts &&
+				!(
+					canJoin(outOfA, remainingB) &&
+					outOfB.every((g) => canJoin(g, remainingA))
+				)
+			) {
+				noImprovement++;
+				continue;
+			}
+
+			// Only the two swapped teams change, so their totals are updated rather than summed again
+			// biome-ignore lint/style/noNonNullAssertion: Indices are valid team indices
+			const totalA = totals[i]! - adrOf(outOfA) + adrOutOfB;
+			// biome-ignore lint/style/noNonNullAssertion: Indices are valid team indices
+			const totalB = totals[j]! + adrOf(outOfA) - adrOutOfB;
+			const newA = [...remainingA, ...outOfB];
+			const newB = [...remainingB, outOfA];
+
+			let swapped = current;
+			let newScore: number;
+			if (totalsOnly) {
+				newScore = spreadWith(totals, i, totalA, j, totalB);
+			} else {
+				swapped = [...current];
+				swapped[i] = buildTeam(newA, totalA);
+				swapped[j] = buildTeam(newB, totalB);
+				newScore = objective(swapped);
+			}
+
+			if (newScore < score) {
+				// Swap
+				teams[i] = newA;
+				teams[j] = newB;
+				totals[i] = totalA;
+				totals[j] = totalB;
+				current = swapped;
+				score = newScore;
+				({ highest, lowest } = extremes(totals));
+				noImprovement = 0;
+				continue;
+			}
+
+			noImprovement++;
+		}
+
+		// Keep the best distinct runs
+		const worstKept = kept[keep - 1]?.score ?? Infinity;
+		if (kept.length < keep || score < worstKept) {
+			const split = toTeams(players, groups, teams);
+			const key = splitKey(split, players);
+			if (!kept.some((k) => k.key === key)) {
+				kept.push({ teams: split, adrDiff: totalDiff(split), score, key });
+				kept.sort((a, b) => a.score - b.score);
+				kept.length = Math.min(kept.length, keep);
+			}
+		}
+
+		if (timedOut) {
+			break;
+		}
+	}
+
+	const alternatives = kept.map(({ key: _key, ...split }) => split);
+	return {
+		// biome-ignore lint/style/noNonNullAssertion: Every run keeps at least the first split
+		...alternatives[0]!,
+		alternatives,
+		runs: started,
+		iterations,
+		timedOut,
+	};
+}
+
+// Max minus min of the team totals
+function spreadOf(totals: number[]): number {
+	const { highest, lowest } = extremes(totals);
+	// biome-ignore lint/style/noNonNullAssertion: extremes returns valid indices
+	return totals[highest]! - totals[lowest]!;
+}
+
+// Spread of the team totals if teams i and j had the given totals, in one pass without copying
+function spreadWith(
+	totals: number[],
+	i: number,
+	totalI: number,
+	j: number,
+	totalJ: number,
+): number {
+	let max = Number.NEGATIVE_INFINITY;
+	let min = Number.POSITIVE_INFINITY;
+	for (let t = 0; t < totals.length; t++) {
+		// biome-ignore lint/style/noNonNullAssertion: t is bounded by totals.length
+		const total = t === i ? totalI : t === j ? totalJ : totals[t]!;
+		if (total > max) max = total;
+		if (total < min) min = total;
+	}
+	return max - min;
+}
+
+// Indices of the teams with the highest and lowest totals
+function extremes(totals: number[]): { highest: number; lowest: number } {
+	let highest = 0;
+	let lowest = 0;
+	for (let t = 1; t < totals.length; t++) {
+		// biome-ignore lint/style/noNonNullAssertion: t and the tracked indices are bounded by totals.length
+		if (totals[t]! > totals[highest]!) highest = t;
+		// biome-ignore lint/style/noNonNullAssertion: t and the tracked indices are bounded by totals.length
+		if (totals[t]! < totals[lowest]!) lowest = t;
+	}
+	return { highest, lowest };
+}
+
+// Starting split for a local search run, as group indices per team.
+// The first run starts from the differencing split (or plain LPT when groups or conflicts rule it out),
+// later runs from randomized LPT splits so they explore different local optima.
+// Falls back to a random placement when greedy placement gets stuck on the constraints.
+function seedSplit(
+	run: number,
+	groups: number[][],
+	groupAdr: number[],
+	conflicts: Set<number>[],
+	numTeams: number,
+	teamSize: number,
+	random: Random,
+): number[][] | null {
+	const unconstrained =
+		groups.every((g) => g.length === 1) && conflicts.every((c) => c.size === 0);
+	if (run === 0 && unconstrained) {
+		return differencingSplit(groupAdr, numTeams);
+	}
+
+	const greedy = lptSplit(
+		groups,
+		groupAdr,
+		conflicts,
+		numTeams,
+		teamSize,
+		run === 0 ? null : random,
+	);
+	if (greedy) {
+		return greedy;
+	}
+
+	const order = groups.map((_, i) => i);
+	shuffle(order, random);
+	const teamOf = placeGroups(
+		largestFirst(groups, order),
+		groups,
+		conflicts,
+		numTeams,
+		teamSize,
+	);
+	if (!teamOf) {
+		return null;
+	}
+	const teams: number[][] = Array.from({ length: numTeams }, () => []);
+	for (let g = 0; g < groups.length; g++) {
+		// biome-ignore lint/style/noNonNullAssertion: placeGroups assigns every group a valid team
+		teams[teamOf[g]!]?.push(g);
+	}
+	return teams;
+}
+
+// Balanced Karmarkar-Karp (largest differencing) for teams of equal size.
+// Players are dealt in rounds of one per team; the two rounds with the widest spread are repeatedly merged
+// by pairing the highest team of one with the lowest team of the other, so every team ends up the same size.
+function differencingSplit(adrs: number[], numTeams: number): number[][] {
+	const ranked = adrs
+		.map((adr, i) => ({ adr, i }))
+		.sort((a, b) => b.adr - a.adr)
+		.map((p) => p.i);
+	let partitions: { members: number[]; total: number }[][] = [];
+	for (let k = 0; k < ranked.length; k += numTeams) {
+		partitions.push(
+			ranked
+				.slice(k, k + numTeams)
+				// biome-ignore lint/style/noNonNullAssertion: Indices come from adrs
+				.map((i) => ({ members: [i], total: adrs[i]! })),
+		);
+	}
+
+	const spread = (p: { total: number }[]) =>
+		Math.max(...p.map((t) => t.total)) - Math.min(...p.map((t) => t.total));
+	while (partitions.length > 1) {
+		partitions.sort((a, b) => spread(b) - spread(a));
+		const [first, second, ...rest] = partitions as [
+			{ members: number[]; total: number }[],
+			{ members: number[]; total: number }[],
+		];
+		const high = [...first].sort((a, b) => b.total - a.total);
+		const low = [...second].sort((a, b) => a.total - b.total);
+		const merged = high.map((team, t) => ({
+			// biome-ignore lint/style/noNonNullAssertion: Both rounds have one entry per team
+			members: [...team.members, ...low[t]!.members],
+			// biome-ignore lint/style/noNonNullAssertion: Both rounds have one entry per team
+			total: team.total + low[t]!.total,
+		}));
+		partitions = [merged, ...rest];
+	}
+
+	return partitions[0]?.map((t) => t.members) ?? [];
+}
+
+// Longest-processing-time greedy: biggest groups first, strongest first within a size,
+// each going to the open team with the lowest total. With a random source the order is jittered
+// and a quarter of the groups go to a random open team instead, so each run starts somewhere new.
+// Returns null when a group has no team left that can take it.
+function lptSplit(
+	groups: number[][],
+	groupAdr: number[],
+	conflicts: Set<number>[],
+	numTeams: number,
+	teamSize: number,
+	random: Random | null,
+): number[][] | null {
+	const strength = groupAdr.map((adr) =>
+		random ? adr * (0.75 + 0.5 * random()) : adr,
+	);
+	const order = groups
+		.map((_, g) => g)
+		.sort(
+			(x, y) =>
+				// biome-ignore lint/style/noNonNullAssertion: Group indices come from groupPlayers
+				groups[y]!.length - groups[x]!.length || strength[y]! - strength[x]!,
+		);
+
+	const teams: number[][] = Array.from({ length: numTeams }, () => []);
+	const totals = new Array<number>(numTeams).fill(0);
+	const space = new Array<number>(numTeams).fill(teamSize);
+	for (const g of order) {
+		// biome-ignore lint/style/noNonNullAssertion: Group indices come from groupPlayers
+		const size = groups[g]!.length;
+		const open: number[] = [];
+		for (let t = 0; t < numTeams; t++) {
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			if (space[t]! >= size && !teams[t]!.some((o) => conflicts[g]?.has(o))) {
+				open.push(t);
 			}
 		}
+		if (open.length === 0) {
+			return null;
+		}
 
-		// Keep best run
-		if (adrDiff < bestDiff) {
-			bestDiff = adrDiff;
-			bestTeams = teams.map((t) => ({ ...t, players: [...t.players] }));
+		let team = open.reduce((best, t) =>
+			// biome-ignore lint/style/noNonNullAssertion: Open teams are valid team indices
+			totals[t]! < totals[best]! ? t : best,
+		);
+		if (random && random() < 0.25) {
+			// biome-ignore lint/style/noNonNullAssertion: Index is controlled by open.length
+			team = open[Math.floor(random() * open.length)]!;
 		}
+
+		// biome-ignore lint/style/noNonNullAssertion: Team is a valid team index
+		teams[team]!.push(g);
+		// biome-ignore lint/style/noNonNullAssertion: Team is a valid team index
+		totals[team]! += groupAdr[g];
+		// biome-ignore lint/style/noNonNullAssertion: Team is a valid team index
+		space[team]! -= size;
+	}
+	return teams;
+}
+
+// Exact branch-and-bound search over group placements.
+// Gives up after maxNodes search nodes or at `deadline` (a timestamp in milliseconds from `now`),
+// returning the best split found so far with optimal=false.
+// Returns null when no split was found (unsatisfiable constraints, or the budget ran out first).
+export function solveTeamsExact(
+	players: Player[],
+	teamSize = 5,
+	constraints: PairConstraint[] = [],
+	maxNodes = 1_000_000,
+	deadline = Number.POSITIVE_INFINITY,
+	now: () => number = Date.now,
+): { teams: Team[]; adrDiff: number; optimal: boolean } | null {
+	if (players.length % teamSize !== 0) {
+		throw new Error(`Player count must be a multiple of ${teamSize}`);
+	}
+
+	const numTeams = players.length / teamSize;
+	const { groups, groupOf } = groupPlayers(players.length, constraints);
+	const conflicts = groupConflicts(groups.length, groupOf, constraints);
+	if (groups.some((_, g) => conflicts[g]?.has(g))) {
+		return null;
 	}
 
-	return { teams: bestTeams, adrDiff: bestDiff };
+	const groupAdr = groups.map((g) =>
+		// biome-ignore lint/style/noNonNullAssertion: Group members are valid player indices
+		g.reduce((sum, i) => sum + players[i]!.adr, 0),
+	);
+	// biome-ignore lint/style/noNonNullAssertion: Group indices come from groupPlayers
+	const adrOf = (g: number) => groupAdr[g]!;
+
+	// Big groups and strong players first, so good splits are found early and bounds prune sooner
+	const order = largestFirst(
+		groups,
+		groups.map((_, i) => i).sort((x, y) => adrOf(y) - adrOf(x)),
+	);
+	const remainingAdr = new Array<number>(order.length + 1).fill(0);
+	for (let k = order.length - 1; k >= 0; k--) {
+		// biome-ignore lint/style/noNonNullAssertion: k is bounded by order.length
+		remainingAdr[k] = remainingAdr[k + 1]! + adrOf(order[k]!);
+	}
+	// biome-ignore lint/style/noNonNullAssertion: remainingAdr always has a first entry
+	const average = remainingAdr[0]! / numTeams;
+
+	const teams: number[][] = Array.from({ length: numTeams }, () => []);
+	const totals = new Array<number>(numTeams).fill(0);
+	const space = new Array<number>(numTeams).fill(teamSize);
+	let bestTeams: number[][] | null = null;
+	let bestDiff = Infinity;
+	let nodes = 0;
+	let exhausted = false;
+
+	const search = (k: number): void => {
+		// The clock is only read every 1024 nodes, it costs more than a node
+		if (nodes++ >= maxNodes || (nodes % 1024 === 0 && now() >= deadline)) {
+			exhausted = true;
+			return;
+		}
+
+		if (k === order.length) {
+			const diff = Math.max(...totals) - Math.min(...totals);
+			if (diff < bestDiff) {
+				bestDiff = diff;
+				bestTeams = teams.map((t) => [...t]);
+			}
+			return;
+		}
+
+		// Lower bound: the final max is at least the current max and the average, and the
+		// final min is at most the average, any full team, and the weakest team plus everyone left
+		let currentMax = -Infinity;
+		let currentMin = Infinity;
+		let fullMin = Infinity;
+		for (let t = 0; t < numTeams; t++) {
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			const total = totals[t]!;
+			currentMax = Math.max(currentMax, total);
+			currentMin = Math.min(currentMin, total);
+			if (space[t] === 0) {
+				fullMin = Math.min(fullMin, total);
+			}
+		}
+		const lowerBound =
+			Math.max(currentMax, average) -
+			// biome-ignore lint/style/noNonNullAssertion: k is bounded by order.length
+			Math.min(average, fullMin, currentMin + remainingAdr[k]!);
+		if (lowerBound >= bestDiff - 1e-9) {
+			return;
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: k is bounded by order.length
+		const g = order[k]!;
+		// biome-ignore lint/style/noNonNullAssertion: Group indices come from groupPlayers
+		const size = groups[g]!.length;
+
+		// Weakest teams first
+		const candidates = Array.from({ length: numTeams }, (_, t) => t).sort(
+			// biome-ignore lint/style/noNonNullAssertion: Team indices are bounded by numTeams
+			(a, b) => totals[a]! - totals[b]!,
+		);
+		let triedEmptyTeam = false;
+
+		for (const t of candidates) {
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			const teamMembers = teams[t]!;
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			if (space[t]! < size) continue;
+			// Empty teams are interchangeable, so only try the first one
+			if (teamMembers.length === 0) {
+				if (triedEmptyTeam) continue;
+				triedEmptyTeam = true;
+			}
+			if (teamMembers.some((other) => conflicts[g]?.has(other))) continue;
+
+			teamMembers.push(g);
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			space[t]! -= size;
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			totals[t]! += adrOf(g);
+
+			search(k + 1);
+
+			teamMembers.pop();
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			space[t]! += size;
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			totals[t]! -= adrOf(g);
+
+			if (exhausted) return;
+		}
+	};
+
+	search(0);
+
+	if (!bestTeams) {
+		return null;
+	}
+
+	return {
+		teams: toTeams(players, groups, bestTeams),
+		adrDiff: bestDiff,
+		optimal: !exhausted,
+	};
+}
+
+// Two players (by index into the players array) trading teams
+export type Swap = { a: number; b: number };
+
+/**
+ * Find the fewest swaps that rebalance existing teams, for lineups edited after generation.
+ * A beam search tries every swap of movable players between two teams, keeping the `beamWidth` best lineups
+ * after each number of swaps; the plan is the shortest one within `tolerance` of the best spread found.
+ * Deterministic, so the same teams always get the same plan.
+ * @param teams Player indices of each team, teams may differ in size
+ * @param fixed Player indices that must stay on their team
+ * @returns Swaps to make in order, and the total ADR difference after them
+ */
+export function planSwaps(
+	players: Player[],
+	teams: number[][],
+	fixed: Set<number> = new Set(),
+	maxSwaps = 3,
+	tolerance = 1,
+	beamWidth = 50,
+): { swaps: Swap[]; adrDiff: number } {
+	type Lineup = { teams: number[][]; totals: number[]; swaps: Swap[] };
+	// biome-ignore lint/style/noNonNullAssertion: Team members are valid player indices
+	const adrOf = (i: number) => players[i]!.adr;
+	const keyOf = (lineup: Lineup) =>
+		lineup.teams
+			.map((team) => [...team].sort((x, y) => x - y).join(","))
+			.join("|");
+
+	const start: Lineup = {
+		teams,
+		totals: teams.map((team) => team.reduce((sum, i) => sum + adrOf(i), 0)),
+		swaps: [],
+	};
+	const bestByCount = [{ lineup: start, spread: spreadOf(start.totals) }];
+
+	let beam = [start];
+	for (let count = 1; count <= maxSwaps; count++) {
+		const candidates: { lineup: Lineup; spread: number }[] = [];
+		for (const lineup of beam) {
+			for (let i = 0; i < lineup.teams.length; i++) {
+				for (let j = i + 1; j < lineup.teams.length; j++) {
+					// biome-ignore lint/style/noNonNullAssertion: Indices are valid team indices
+					const teamA = lineup.teams[i]!;
+					// biome-ignore lint/style/noNonNullAssertion: Indices are valid team indices
+					const teamB = lineup.teams[j]!;
+					for (const a of teamA) {
+						if (fixed.has(a)) continue;
+						for (const b of teamB) {
+							if (fixed.has(b)) continue;
+							// biome-ignore lint/style/noNonNullAssertion: Indices are valid team indices
+							const totalA = lineup.totals[i]! - adrOf(a) + adrOf(b);
+							// biome-ignore lint/style/noNonNullAssertion: Indices are valid team indices
+							const totalB = lineup.totals[j]! + adrOf(a) - adrOf(b);
+							candidates.push({
+								spread: spreadWith(lineup.totals, i, totalA, j, totalB),
+								lineup: {
+									teams: lineup.teams.map((team, t) =>
+										t === i
+											? team.map((p) => (p === a ? b : p))
+											: t === j
+												? team.map((p) => (p === b ? a : p))
+												: team,
+									),
+									totals: lineup.totals.map((total, t) =>
+										t === i ? totalA : t === j ? totalB : total,
+									),
+									swaps: [...lineup.swaps, { a, b }],
+								},
+							});
+						}
+					}
+				}
+			}
+		}
+		if (candidates.length === 0) {
+			break;
+		}
+
+		// Sorting is stable, so ties keep the order they were found in
+		candidates.sort((x, y) => x.spread - y.spread);
+		const seen = new Set<string>();
+		beam = [];
+		for (const candidate of candidates) {
+			const key = keyOf(candidate.lineup);
+			if (seen.has(key)) continue;
+			seen.add(key);
+			beam.push(candidate.lineup);
+			if (beam.length === beamWidth) break;
+		}
+		// biome-ignore lint/style/noNonNullAssertion: There was at least one candidate
+		bestByCount.push(candidates[0]!);
+	}
+
+	const bestSpread = Math.min(...bestByCount.map((b) => b.spread));
+	// biome-ignore lint/style/noNonNullAssertion: The best spread is always within tolerance of itself
+	const plan = bestByCount.find((b) => b.spread <= bestSpread + tolerance)!;
+	return { swaps: plan.lineup.swaps, adrDiff: plan.spread };
+}
+
+// Expand group placements back into teams of players
+function toTeams(
+	players: Player[],
+	groups: number[][],
+	teamGroups: number[][],
+): Team[] {
+	return teamGroups.map((team) => {
+		// biome-ignore lint/style/noNonNullAssertion: Group members are valid player indices
+		const members = team.flatMap((g) => groups[g]!).map((i) => players[i]!);
+		return {
+			players: members,
+			totalAdr: members.reduce((sum, p) => sum + p.adr, 0),
+		};
+	});
 }
@@ -33,6 +33,26 @@ export const DISCORD_MESSAGE_FLAGS = {
 	IS_VOICE_MESSAGE: 1 << 13,
 } as const;
 
+/**
+ * Discord Message Component Types
+ * https://discord.com/developers/docs/interactions/message-components#component-object-component-types
+ */
+export const DISCORD_COMPONENT_TYPES = {
+	ACTION_ROW: 1,
+	BUTTON: 2,
+} as const;
+
+/**
+ * Discord Button Styles
+ * https://discord.com/developers/docs/interactions/message-components#button-object-button-styles
+ */
+export const DISCORD_BUTTON_STYLES = {
+	PRIMARY: 1,
+	SECONDARY: 2,
+	SUCCESS: 3,
+	DANGER: 4,
+} as const;
+
 /**
  * Discord Embed Schema
  */
@@ -130,6 +150,17 @@ export const DiscordInteractionResponseSchema = z.object({
 
 // Type exports
 export type DiscordEmbed = z.infer<typeof DiscordEmbedSchema>;
+export type DiscordButton = {
+	type: typeof DISCORD_COMPONENT_TYPES.BUTTON;
+	style: number;
+	label: string;
+	custom_id: string;
+	disabled?: boolean;
+};
+export type DiscordActionRow = {
+	type: typeof DISCORD_COMPONENT_TYPES.ACTION_ROW;
+	components: DiscordButton[];
+};
 export type DiscordMessageData = z.infer<typeof DiscordMessageDataSchema>;
 export type DiscordInteractionResponse = z.infer<
 	typeof DiscordInteractionResponseSchema
@@ -152,6 +183,7 @@ export function createSuccessResponse(
 	options: {
 		ephemeral?: boolean;
 		embeds?: DiscordEmbed[];
+		components?: DiscordActionRow[];
 	} = {},
 ): DiscordInteractionResponse {
 	const flags = options.ephemeral ? DISCORD_MESSAGE_FLAGS.EPHEMERAL : undefined;
@@ -162,10 +194,47 @@ export function createSuccessResponse(
 			content,
 			embeds: options.embeds,
 			flags,
+			components: options.components,
 		},
 	};
 }
 
+/**
+ * Creates a response that edits the message a clicked button belongs to
+ * Components are replaced too, pass an empty array to remove the buttons
+ */
+export function createUpdateMessageResponse(
+	content: string,
+	options: {
+		components?: DiscordActionRow[];
+	} = {},
+): DiscordInteractionResponse {
+	return {
+		type: DISCORD_RESPONSE_TYPES.UPDATE_MESSAGE,
+		data: {
+			content,
+			components: options.components ?? [],
+		},
+	};
+}
+
+/**
+ * Creates a row of buttons (Discord allows at most 5 per row)
+ */
+export function createButtonRow(
+	buttons: { label: string; customId: string; style?: number }[],
+): DiscordActionRow {
+	return {
+		type: DISCORD_COMPONENT_TYPES.ACTION_ROW,
+		components: buttons.map((button) => ({
+			type: DISCORD_COMPONENT_TYPES.BUTTON,
+			style: button.style ?? DISCORD_BUTTON_STYLES.PRIMARY,
+			label: button.label,
+			custom_id: button.customId,
+		})),
+	};
+}
+
 /**
  * Creates an error response with a message
  */
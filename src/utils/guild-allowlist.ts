@@ -0,0 +1,80 @@
+/**
+ * Hono middleware limiting the bot to the Discord servers it was set up for
+ */
+
+import type { Context, Next } from "hono";
+import type { Env } from "../db/types";
+import { DISCORD_INTERACTION_TYPES } from "../validation/discord";
+import { getDiscordBody } from "./discord-middleware";
+import {
+	createDiscordHttpResponse,
+	createErrorResponse,
+} from "./discord-responses";
+
+/**
+ * Parse a comma-separated list of Discord server IDs
+ * @param value - Configured value, e.g. "123,456"
+ * @returns Server IDs, empty when nothing is configured
+ */
+export function parseGuildAllowlist(value?: string): string[] {
+	return value
+		? value
+				.split(",")
+				.map((id) => id.trim())
+				.filter((id) => id.length > 0)
+		: [];
+}
+
+/**
+ * Read the server allowlist from the environment
+ * Deployments configured before multiple servers were supported only set ALLOWED_GUILD_ID, so it is used when ALLOWED_GUILD_IDS is unset.
+ * @param env - Worker environment
+ * @returns Server IDs, empty when neither variable is configured
+ */
+export function guildAllowlistFromEnv(
+	env: Pick<Env, "ALLOWED_GUILD_IDS" | "ALLOWED_GUILD_ID">,
+): string[] {
+	return parseGuildAllowlist(env.ALLOWED_GUILD_IDS || env.ALLOWED_GUILD_ID);
+}
+
+/**
+ * Hono middleware that rejects interactions from servers off the allowlist and from DMs
+ * Must run after discordSignatureMiddleware, which stores the interaction body.
+ * Discord's verification pings carry no server and always pass.
+ * @param allowedGuildIds - Server IDs the bot answers in, an empty list rejects every server
+ * @returns Hono middleware function
+ */
+export function guildAllowlistMiddleware(allowedGuildIds: string[]) {
+	return async (c: Context, next: Next) => {
+		const interaction = getDiscordBody(c);
+		if (!interaction || interaction.type === DISCORD_INTERACTION_TYPES.PING) {
+			return next();
+		}
+
+		const guildId = interaction.guild_id;
+		if (guildId && allowedGuildIds.includes(guildId)) {
+			return next();
+		}
+
+		if (allowedGuildIds.length === 0) {
+			console.error(
+				"Neither ALLOWED_GUILD_IDS nor ALLOWED_GUILD_ID environment variable set, rejecting every server",
+			);
+		}
+		console.warn("Rejected interaction from a server off the allowlist:", {
+			guildId: guildId ?? "DM",
+			userId: interaction.member?.user?.id || interaction.user?.id,
+			command: interaction.data?.name,
+			timestamp: new Date().toISOString(),
+		});
+
+		// Answered with 200 so Discord shows the rejection instead of a failed interaction
+		const errorResponse = createErrorResponse(
+			guildId
+				? "This bot is not available in this server."
+				: "This bot only works in server channels, not in direct messages.",
+			{ title: "Not Available" },
+		);
+		return createDiscordHttpResponse(errorResponse);
+	};
+}
@@ -7,6 +7,7 @@ export {
 	getDiscordBody,
 } from "./discord-middleware";
 export {
+	createButtonRow,
 	createDeferredResponse,
 	createDiscordHttpResponse,
 	createEmbedResponse,
@@ -14,9 +15,14 @@ export {
 	createInternalErrorResponse,
 	createPongResponse,
 	createSuccessResponse,
+	createUpdateMessageResponse,
 	createValidationErrorResponse,
+	DISCORD_BUTTON_STYLES,
+	DISCORD_COMPONENT_TYPES,
 	DISCORD_MESSAGE_FLAGS,
 	DISCORD_RESPONSE_TYPES,
+	type DiscordActionRow,
+	type DiscordButton,
 	type DiscordEmbed,
 	DiscordEmbedSchema,
 	type DiscordInteractionResponse,
@@ -29,3 +35,8 @@ export {
 	DiscordSignatureError,
 	verifyDiscordSignature,
 } from "./discord-verify";
+export {
+	guildAllowlistFromEnv,
+	guildAllowlistMiddleware,
+	parseGuildAllowlist,
+} from "./guild-allowlist";
@@ -74,6 +74,13 @@ export const DiscordCommandDataSchema = z.object({
 	target_id: z.string().optional(),
 });
 
+// Discord message component data schema (button clicks, select menus)
+export const DiscordComponentDataSchema = z.object({
+	custom_id: z.string().max(100),
+	component_type: z.number(),
+	values: z.array(z.string()).optional(),
+});
+
 // Discord guild member schema
 export const DiscordGuildMemberSchema = z.object({
 	user: DiscordUserSchema.optional(),
@@ -108,9 +115,19 @@ export const DiscordInteractionSchema = z.object({
 	guild_locale: z.string().optional(),
 });
 
+// Message component interaction schema, sent when a user clicks a button on a bot message
+export const DiscordComponentInteractionSchema =
+	DiscordInteractionSchema.extend({
+		data: DiscordComponentDataSchema,
+	});
+
 // Type exports
 export type DiscordUser = z.infer<typeof DiscordUserSchema>;
 export type DiscordCommandOption = z.infer<typeof DiscordCommandOptionSchema>;
 export type DiscordCommandData = z.infer<typeof DiscordCommandDataSchema>;
 export type DiscordGuildMember = z.infer<typeof DiscordGuildMemberSchema>;
 export type DiscordInteraction = z.infer<typeof DiscordInteractionSchema>;
+export type DiscordComponentData = z.infer<typeof DiscordComponentDataSchema>;
+export type DiscordComponentInteraction = z.infer<
+	typeof DiscordComponentInteractionSchema
+>;
@@ -6,6 +6,10 @@ export {
 	DiscordCommandDataSchema,
 	type DiscordCommandOption,
 	DiscordCommandOptionSchema,
+	type DiscordComponentData,
+	DiscordComponentDataSchema,
+	type DiscordComponentInteraction,
+	DiscordComponentInteractionSchema,
 	type DiscordGuildMember,
 	DiscordGuildMemberSchema,
 	type DiscordInteraction,
@@ -18,15 +22,60 @@ export {
 
 // Tournament validation schemas and types
 export {
+	AdrSourceSchema,
+	BalanceMetricSchema,
+	BalancingObjectiveSchema,
+	BenchPrioritySchema,
+	type DraftInteraction,
+	DraftInteractionSchema,
+	DraftOrderSchema,
+	DraftPageSchema,
+	type DraftParams,
+	type DraftPick,
+	DraftPickSchema,
+	DraftSchema,
+	extractDraftPageParams,
+	extractDraftParams,
+	extractDraftPickParams,
 	extractGenerateTeamsParams,
+	extractPairConstraintParams,
+	extractPinPlayerParams,
+	extractRatingParams,
+	extractRebalanceConfirmParams,
+	extractRebalanceParams,
 	extractResultMatchParams,
 	extractSetAdrParams,
+	extractSetRoleParams,
+	extractSplitChoiceParams,
+	extractTeamRegisterParams,
+	extractTournamentComponentAction,
+	extractTournamentOpenParams,
 	extractTournamentSubcommand,
 	type GenerateTeams,
 	type GenerateTeamsInteraction,
 	GenerateTeamsInteractionSchema,
 	GenerateTeamsSchema,
+	LobbySplitSchema,
+	type PairConstraintInteraction,
+	PairConstraintInteractionSchema,
+	type PairConstraintParams,
+	PairConstraintSchema,
+	type PinPlayerInteraction,
+	PinPlayerInteractionSchema,
+	type PinPlayerParams,
+	PinPlayerSchema,
+	PlayerRoleSchema,
 	parseMatchString,
+	type RatingInteraction,
+	RatingInteractionSchema,
+	type RatingParams,
+	RatingSchema,
+	type RebalanceConfirm,
+	RebalanceConfirmSchema,
+	type RebalanceInteraction,
+	RebalanceInteractionSchema,
+	type RebalanceParams,
+	RebalanceSchema,
 	type ResultMatch,
 	type ResultMatchInteraction,
 	ResultMatchInteractionSchema,
@@ -35,6 +84,10 @@ export {
 	type SetAdrInteraction,
 	SetAdrInteractionSchema,
 	SetAdrSchema,
+	type SetRoleInteraction,
+	SetRoleInteractionSchema,
+	type SetRoleParams,
+	SetRoleSchema,
 	type ShowAdr,
 	type ShowAdrInteraction,
 	ShowAdrInteractionSchema,
@@ -43,10 +96,18 @@ export {
 	type ShowTeamsInteraction,
 	ShowTeamsInteractionSchema,
 	ShowTeamsSchema,
+	type SplitChoice,
+	SplitChoiceSchema,
+	TeamModeSchema,
+	type TeamRegisterInteraction,
+	TeamRegisterInteractionSchema,
+	type TeamRegisterParams,
+	TeamRegisterSchema,
 	type TournamentClose,
 	type TournamentCloseInteraction,
 	TournamentCloseInteractionSchema,
 	TournamentCloseSchema,
+	TournamentFormatSchema,
 	type TournamentInteraction,
 	TournamentInteractionSchema,
 	type TournamentOpen,
@@ -1,10 +1,71 @@
 import { z } from "zod";
+import { ValidationError } from "../db/types";
 import { DISCORD_OPTION_TYPES } from "./discord";
 
 // Tournament command parameter validation schemas
 
-// Tournament open command - no parameters required
-export const TournamentOpenSchema = z.object({});
+// Tournament open command
+// Who sits out when the player count isn't a multiple of the team size
+export const BenchPrioritySchema = z.enum([
+	"latest_joiner",
+	"fewest_games",
+	"random",
+]);
+
+export const BalancingObjectiveSchema = z.enum([
+	"total_diff",
+	"spread_variance",
+	"star_distribution",
+	"weighted",
+]);
+
+export const PlayerRoleSchema = z.enum(["awp", "entry", "igl", "support"]);
+
+export const RoleCoverageSchema = z.enum(["off", "soft", "hard"]);
+
+export const BalanceMetricSchema = z.enum(["adr", "rating"]);
+
+export const DraftOrderSchema = z.enum(["snake", "linear"]);
+
+export const TeamModeSchema = z.enum(["balanced", "random", "premade"]);
+
+export const AdrSourceSchema = z.enum(["raw", "effective"]);
+
+export const LobbySplitSchema = z.enum(["tiered", "mixed"]);
+
+export const TournamentFormatSchema = z.enum(["teams", "mix"]);
+
+export const TournamentOpenSchema = z.object({
+	team_size: z
+		.number()
+		.int("Team size must be an integer")
+		.min(2, "Team size must be at least 2")
+		.max(5, "Team size cannot exceed 5")
+		.optional(),
+	bench: BenchPrioritySchema.optional(),
+	objective: BalancingObjectiveSchema.optional(),
+	role_coverage: RoleCoverageSchema.optional(),
+	variety: z
+		.number()
+		.int("Variety lookback must be an integer")
+		.min(0, "Variety lookback cannot be negative")
+		.max(10, "Variety lookback cannot exceed 10 tournaments")
+		.optional(), // Past tournaments whose teammate pairs are avoided
+	variety_weight: z
+		.number()
+		.min(0, "Variety weight cannot be negative")
+		.max(100, "Variety weight cannot exceed 100")
+		.optional(),
+	metric: BalanceMetricSchema.optional(), // Balance teams on ADR or match rating
+	mode: TeamModeSchema.optional(), // How generate_teams forms teams
+	adr_source: AdrSourceSchema.optional(), // Generate from submitted or effective ADR
+	adr_decay: z
+		.number()
+		.min(0, "ADR decay cannot be negative")
+		.max(1, "ADR decay cannot exceed 1")
+		.optional(),
+	format: TournamentFormatSchema.optional(), // Team scoring, or individual scoring with teams reshuffled every round
+});
 
 // Tournament close command - no parameters required
 export const TournamentCloseSchema = z.object({});
@@ -36,6 +97,32 @@ export const GenerateTeamsSchema = z.object({
 		.max(200, "Cannot exceed 200 optimization runs")
 		.optional()
 		.default(200),
+	bench: BenchPrioritySchema.optional(), // Overrides the tournament's bench priority
+	seed: z
+		.number()
+		.int("Seed must be an integer")
+		.min(0, "Seed cannot be negative")
+		.max(4294967295, "Seed must fit in 32 bits")
+		.optional(), // Reproduces a previous generation
+	alternatives: z
+		.number()
+		.int("Number of alternatives must be an integer")
+		.min(1, "Must offer at least 1 split")
+		.max(5, "Cannot offer more than 5 splits")
+		.optional(), // Offer several distinct splits to pick from
+	time: z
+		.number()
+		.min(0.5, "Time limit must be at least 0.5 seconds")
+		.max(20, "Time limit cannot exceed 20 seconds")
+		.optional(), // Seconds to search for the best split, instead of a fixed run count
+	mode: TeamModeSchema.optional(), // Overrides the tournament's team mode
+	lobbies: z
+		.number()
+		.int("Number of lobbies must be an integer")
+		.min(1, "Must have at least 1 lobby")
+		.max(5, "Cannot split into more than 5 lobbies")
+		.optional(), // Split players into separate lobbies before balancing
+	lobby_split: LobbySplitSchema.optional(), // Tiered or equally strong lobbies
 });
 
 // Show teams command - no parameters required
@@ -60,6 +147,63 @@ export const ExchangePlayersSchema = z.object({
 	player2: z.string(), // Discord user ID of second player
 });
 
+// Pairing rule command (admin only)
+export const PairConstraintSchema = z.object({
+	player1: z.string(), // Discord user ID of first player
+	player2: z.string(), // Discord user ID of second player
+	rule: z.enum(["together", "apart", "clear"]), // "clear" removes the rule for the pair
+});
+
+// Show pairing rules command - no parameters required
+export const ShowPairsSchema = z.object({});
+
+// Pin player command (admin only): pre-assign a player to a team before generation
+export const PinPlayerSchema = z.object({
+	player: z.string(), // Discord user ID of the player to pin
+	team: z
+		.number()
+		.int("Team number must be an integer")
+		.min(1, "Team number must be at least 1")
+		.max(20, "Team number cannot exceed 20")
+		.optional(), // Unpins the player when omitted
+});
+
+// Rebalance command (admin only): suggest swaps for the current teams
+export const RebalanceSchema = z.object({
+	keep_locked: z.boolean().optional(), // Leave players on locked teams where they are
+	keep_pinned: z.boolean().optional(), // Leave pinned players where they are
+});
+
+// Preferred role command
+export const SetRoleSchema = z.object({
+	primary: z.union([PlayerRoleSchema, z.literal("none")]), // "none" clears the player's roles
+	secondary: PlayerRoleSchema.optional(),
+	player: z.string().optional(), // Discord user ID when admin sets roles for a player
+});
+
+// Rating command: a player's rating, the leaderboard, or (admin) a recalculation from match history
+export const RatingSchema = z.object({
+	player: z.string().optional(), // Discord user ID, shows the leaderboard when omitted
+	recalculate: z.boolean().optional(),
+});
+
+// Pre-made team registration: the registering player plus their teammates
+export const TeamRegisterSchema = z.object({
+	teammates: z
+		.array(z.string())
+		.min(1, "Name at least one teammate")
+		.max(4, "Cannot name more than 4 teammates"), // Discord user IDs from the teammate1-teammate4 options
+});
+
+// Captain draft command (admin only): captains named in team order, the rest are the strongest players
+export const DraftSchema = z.object({
+	order: DraftOrderSchema.optional(),
+	captains: z
+		.array(z.string())
+		.max(4, "Cannot name more than 4 captains")
+		.optional(), // Discord user IDs from the captain1-captain4 options
+});
+
 // Add player to team command (admin only)
 export const AddPlayerToTeamSchema = z.object({
 	player: z.string(), // Discord user ID of the player to add
@@ -122,6 +266,15 @@ export const TournamentOpenInteractionSchema = z.object({
 			z.object({
 				name: z.literal("open"),
 				type: z.literal(DISCORD_OPTION_TYPES.SUB_COMMAND),
+				options: z
+					.array(
+						z.object({
+							name: z.string(),
+							type: z.number(),
+							value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+						}),
+					)
+					.optional(),
 			}),
 		),
 	}),
@@ -298,6 +451,212 @@ export const ExchangePlayersInteractionSchema = z.object({
 	}),
 });
 
+export const PairConstraintInteractionSchema = z.object({
+	data: z.object({
+		name: z.literal("t"),
+		options: z.array(
+			z.object({
+				name: z.literal("pair"),
+				type: z.literal(DISCORD_OPTION_TYPES.SUB_COMMAND),
+				options: z.array(
+					z.object({
+						name: z.enum(["player1", "player2", "rule"]),
+						type: z.number(),
+						value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+						user: z
+							.object({
+								id: z.string(),
+								username: z.string(),
+								discriminator: z.string().optional(),
+								global_name: z.string().nullable().optional(),
+							})
+							.optional(),
+					}),
+				),
+			}),
+		),
+	}),
+});
+
+export const RebalanceInteractionSchema = z.object({
+	data: z.object({
+		name: z.literal("t"),
+		options: z.array(
+			z.object({
+				name: z.literal("rebalance"),
+				type: z.literal(DISCORD_OPTION_TYPES.SUB_COMMAND),
+				options: z
+					.array(
+						z.object({
+							name: z.enum(["keep_locked", "keep_pinned"]),
+							type: z.number(),
+							value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+						}),
+					)
+					.optional(),
+			}),
+		),
+	}),
+});
+
+export const RatingInteractionSchema = z.object({
+	data: z.object({
+		name: z.literal("t"),
+		options: z.array(
+			z.object({
+				name: z.literal("rating"),
+				type: z.literal(DISCORD_OPTION_TYPES.SUB_COMMAND),
+				options: z
+					.array(
+						z.object({
+							name: z.enum(["player", "recalculate"]),
+							type: z.number(),
+							value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+							user: z
+								.object({
+									id: z.string(),
+									username: z.string(),
+									discriminator: z.string().optional(),
+									global_name: z.string().nullable().optional(),
+								})
+								.optional(),
+						}),
+					)
+					.optional(),
+			}),
+		),
+	}),
+});
+
+export const DraftInteractionSchema = z.object({
+	data: z.object({
+		name: z.literal("t"),
+		options: z.array(
+			z.object({
+				name: z.literal("draft"),
+				type: z.literal(DISCORD_OPTION_TYPES.SUB_COMMAND),
+				options: z
+					.array(
+						z.object({
+							name: z.enum([
+								"order",
+								"captain1",
+								"captain2",
+								"captain3",
+								"captain4",
+							]),
+							type: z.number(),
+							value: z.union([z.string(), z.number()]).optional(),
+							user: z
+								.object({
+									id: z.string(),
+									username: z.string(),
+									discriminator: z.string().optional(),
+									global_name: z.string().nullable().optional(),
+								})
+								.optional(),
+						}),
+					)
+					.optional(),
+			}),
+		),
+	}),
+});
+
+export const TeamRegisterInteractionSchema = z.object({
+	data: z.object({
+		name: z.literal("t"),
+		options: z.array(
+			z.object({
+				name: z.literal("team"),
+				type: z.literal(DISCORD_OPTION_TYPES.SUB_COMMAND_GROUP),
+				options: z.array(
+					z.object({
+						name: z.literal("register"),
+						type: z.literal(DISCORD_OPTION_TYPES.SUB_COMMAND),
+						options: z
+							.array(
+								z.object({
+									name: z.enum([
+										"teammate1",
+										"teammate2",
+										"teammate3",
+										"teammate4",
+									]),
+									type: z.number(),
+									value: z.string().optional(),
+									user: z
+										.object({
+											id: z.string(),
+											username: z.string(),
+											discriminator: z.string().optional(),
+											global_name: z.string().nullable().optional(),
+										})
+										.optional(),
+								}),
+							)
+							.optional(),
+					}),
+				),
+			}),
+		),
+	}),
+});
+
+export const PinPlayerInteractionSchema = z.object({
+	data: z.object({
+		name: z.literal("t"),
+		options: z.array(
+			z.object({
+				name: z.literal("pin"),
+				type: z.literal(DISCORD_OPTION_TYPES.SUB_COMMAND),
+				options: z.array(
+					z.object({
+						name: z.enum(["player", "team"]),
+						type: z.number(),
+						value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+						user: z
+							.object({
+								id: z.string(),
+								username: z.string(),
+								discriminator: z.string().optional(),
+								global_name: z.string().nullable().optional(),
+							})
+							.optional(),
+					}),
+				),
+			}),
+		),
+	}),
+});
+
+export const SetRoleInteractionSchema = z.object({
+	data: z.object({
+		name: z.literal("t"),
+		options: z.array(
+			z.object({
+				name: z.literal("role"),
+				type: z.literal(DISCORD_OPTION_TYPES.SUB_COMMAND),
+				options: z.array(
+					z.object({
+						name: z.enum(["primary", "secondary", "player"]),
+						type: z.number(),
+						value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+						user: z
+							.object({
+								id: z.string(),
+								username: z.string(),
+								discriminator: z.string().optional(),
+								global_name: z.string().nullable().optional(),
+							})
+							.optional(),
+					}),
+				),
+			}),
+		),
+	}),
+});
+
 export const AddPlayerToTeamInteractionSchema = z.object({
 	data: z.object({
 		name: z.literal("t"),
@@ -354,6 +713,77 @@ export function extractTournamentSubcommand(
 	return subcommand.name;
 }
 
+// Extract tournament open parameters
+export function extractTournamentOpenParams(
+	interaction: z.infer<typeof TournamentOpenInteractionSchema>,
+): {
+	team_size?: number;
+	bench?: string;
+	objective?: string;
+	role_coverage?: string;
+	variety?: number;
+	variety_weight?: number;
+	metric?: string;
+	mode?: string;
+	adr_source?: string;
+	adr_decay?: number;
+	format?: string;
+} {
+	const subcommand = interaction.data.options[0];
+	const options = subcommand.options || [];
+
+	const params: {
+		team_size?: number;
+		bench?: string;
+		objective?: string;
+		role_coverage?: string;
+		variety?: number;
+		variety_weight?: number;
+		metric?: string;
+		mode?: string;
+		adr_source?: string;
+		adr_decay?: number;
+		format?: string;
+	} = {};
+
+	for (const option of options) {
+		if (option.name === "team_size" && typeof option.value === "number") {
+			params.team_size = option.value;
+		}
+		if (option.name === "bench" && typeof option.value === "string") {
+			params.bench = option.value;
+		}
+		if (option.name === "objective" && typeof option.value === "string") {
+			params.objective = option.value;
+		}
+		if (option.name === "role_coverage" && typeof option.value === "string") {
+			params.role_coverage = option.value;
+		}
+		if (option.name === "metric" && typeof option.value === "string") {
+			params.metric = option.value;
+		}
+		if (option.name === "mode" && typeof option.value === "string") {
+			params.mode = option.value;
+		}
+		if (option.name === "adr_source" && typeof option.value === "string") {
+			params.adr_source = option.value;
+		}
+		if (option.name === "format" && typeof option.value === "string") {
+			params.format = option.value;
+		}
+		if (
+			(option.name === "variety" ||
+				option.name === "variety_weight" ||
+				option.name === "adr_decay") &&
+			typeof option.value === "number"
+		) {
+			params[option.name] = option.value;
+		}
+	}
+
+	return params;
+}
+
 // Extract ADR submission parameters
 export function extractSetAdrParams(
 	interaction: z.infer<typeof SetAdrInteractionSchema>,
@@ -403,11 +833,28 @@ export function extractGenerateTeamsParams(
 ): {
 	action?: "lock" | "unlock";
 	runs?: number;
+	bench?: string;
+	seed?: number;
+	alternatives?: number;
+	time?: number;
+	mode?: string;
+	lobbies?: number;
+	lobby_split?: string;
 } {
 	const subcommand = interaction.data.options[0];
 	const options = subcommand.options || [];
 
-	const params: { action?: "lock" | "unlock"; runs?: number } = {};
+	const params: {
+		action?: "lock" | "unlock";
+		runs?: number;
+		bench?: string;
+		seed?: number;
+		alternatives?: number;
+		time?: number;
+		mode?: string;
+		lobbies?: number;
+		lobby_split?: string;
+	} = {};
 
 	for (const option of options) {
 		switch (option.name) {
@@ -424,6 +871,41 @@ export function extractGenerateTeamsParams(
 					params.runs = option.value;
 				}
 				break;
+			case "bench":
+				if (typeof option.value === "string") {
+					params.bench = option.value;
+				}
+				break;
+			case "seed":
+				if (typeof option.value === "number") {
+					params.seed = option.value;
+				}
+				break;
+			case "alternatives":
+				if (typeof option.value === "number") {
+					params.alternatives = option.value;
+				}
+				break;
+			case "time":
+				if (typeof option.value === "number") {
+					params.time = option.value;
+				}
+				break;
+			case "mode":
+				if (typeof option.value === "string") {
+					params.mode = option.value;
+				}
+				break;
+			case "lobbies":
+				if (typeof option.value === "number") {
+					params.lobbies = option.value;
+				}
+				break;
+			case "lobby_split":
+				if (typeof option.value === "string") {
+					params.lobby_split = option.value;
+				}
+				break;
 		}
 	}
 
@@ -508,6 +990,196 @@ export function extractExchangePlayersParams(
 	return params;
 }
 
+// Extract pairing rule parameters
+export function extractPairConstraintParams(
+	interaction: z.infer<typeof PairConstraintInteractionSchema>,
+): {
+	player1?: string;
+	player2?: string;
+	rule?: string;
+} {
+	const subcommand = interaction.data.options[0];
+	const options = subcommand.options || [];
+
+	const params: { player1?: string; player2?: string; rule?: string } = {};
+
+	for (const option of options) {
+		if (option.name === "player1" || option.name === "player2") {
+			if (option.user?.id) {
+				params[option.name] = option.user.id;
+			} else if (typeof option.value === "string") {
+				// Fallback to value if user object is not available (for testing)
+				params[option.name] = option.value;
+			}
+		} else if (option.name === "rule" && typeof option.value === "string") {
+			params.rule = option.value;
+		}
+	}
+
+	return params;
+}
+
+// Extract preferred role parameters
+export function extractSetRoleParams(
+	interaction: z.infer<typeof SetRoleInteractionSchema>,
+): {
+	primary?: string;
+	secondary?: string;
+	player?: string;
+} {
+	const subcommand = interaction.data.options[0];
+	const options = subcommand.options || [];
+
+	const params: { primary?: string; secondary?: string; player?: string } = {};
+
+	for (const option of options) {
+		if (option.name === "player") {
+			if (option.user?.id) {
+				params.player = option.user.id;
+			} else if (typeof option.value === "string") {
+				// Fallback to value if user object is not available (for testing)
+				params.player = option.value;
+			}
+		} else if (typeof option.value === "string") {
+			params[option.name] = option.value;
+		}
+	}
+
+	return params;
+}
+
+// Extract pin player parameters
+export function extractPinPlayerParams(
+	interaction: z.infer<typeof PinPlayerInteractionSchema>,
+): {
+	player?: string;
+	team?: number;
+} {
+	const subcommand = interaction.data.options[0];
+	const options = subcommand.options || [];
+
+	const params: { player?: string; team?: number } = {};
+
+	for (const option of options) {
+		if (option.name === "player") {
+			if (option.user?.id) {
+				params.player = option.user.id;
+			} else if (typeof option.value === "string") {
+				// Fallback to value if user object is not available (for testing)
+				params.player = option.value;
+			}
+		} else if (option.name === "team" && typeof option.value === "number") {
+			params.team = option.value;
+		}
+	}
+
+	return params;
+}
+
+// Extract rating parameters
+export function extractRatingParams(
+	interaction: z.infer<typeof RatingInteractionSchema>,
+): {
+	player?: string;
+	recalculate?: boolean;
+} {
+	const subcommand = interaction.data.options[0];
+	const options = subcommand.options || [];
+
+	const params: { player?: string; recalculate?: boolean } = {};
+
+	for (const option of options) {
+		if (option.name === "player") {
+			if (option.user?.id) {
+				params.player = option.user.id;
+			} else if (typeof option.value === "string") {
+				// Fallback to value if user object is not available (for testing)
+				params.player = option.value;
+			}
+		} else if (typeof option.value === "boolean") {
+			params.recalculate = option.value;
+		}
+	}
+
+	return params;
+}
+
+// Extract rebalance parameters
+export function extractRebalanceParams(
+	interaction: z.infer<typeof RebalanceInteractionSchema>,
+): {
+	keep_locked?: boolean;
+	keep_pinned?: boolean;
+} {
+	const subcommand = interaction.data.options[0];
+	const options = subcommand.options || [];
+
+	const params: { keep_locked?: boolean; keep_pinned?: boolean } = {};
+
+	for (const option of options) {
+		if (typeof option.value === "boolean") {
+			params[option.name] = option.value;
+		}
+	}
+
+	return params;
+}
+
+// Extract pre-made team registration parameters from the "team register" subcommand
+export function extractTeamRegisterParams(
+	interaction: z.infer<typeof TeamRegisterInteractionSchema>,
+): {
+	teammates: string[];
+} {
+	const group = interaction.data.options[0];
+	const options = [...(group.options[0]?.options || [])].sort((a, b) =>
+		a.name.localeCompare(b.name),
+	);
+
+	const params: { teammates: string[] } = { teammates: [] };
+
+	for (const option of options) {
+		if (option.user?.id) {
+			params.teammates.push(option.user.id);
+		} else if (typeof option.value === "string") {
+			// Fallback to value if user object is not available (for testing)
+			params.teammates.push(option.value);
+		}
+	}
+
+	return params;
+}
+
+// Extract draft parameters, collecting the captain options in team order
+export function extractDraftParams(
+	interaction: z.infer<typeof DraftInteractionSchema>,
+): {
+	order?: string;
+	captains: string[];
+} {
+	const subcommand = interaction.data.options[0];
+	const options = [...(subcommand.options || [])].sort((a, b) =>
+		a.name.localeCompare(b.name),
+	);
+
+	const params: { order?: string; captains: string[] } = { captains: [] };
+
+	for (const option of options) {
+		if (option.name === "order") {
+			if (typeof option.value === "string") {
+				params.order = option.value;
+			}
+		} else if (option.user?.id) {
+			params.captains.push(option.user.id);
+		} else if (typeof option.value === "string") {
+			// Fallback to value if user object is not available (for testing)
+			params.captains.push(option.value);
+		}
+	}
+
+	return params;
+}
+
 // Extract add player to team parameters
 export function extractAddPlayerToTeamParams(
 	interaction: z.infer<typeof AddPlayerToTeamInteractionSchema>,
@@ -585,6 +1257,92 @@ export function parseMatchString(matchString: string): {
 	return { team1Id, score1, score2, team2Id };
 }
 
+// Button clicks on tournament messages carry the action and its arguments in the custom ID: "t:<action>:<args...>"
+export function extractTournamentComponentAction(customId: string): {
+	action: string;
+	args: string[];
+} {
+	const [prefix, action, ...args] = customId.split(":");
+	if (prefix !== "t" || !action) {
+		throw new ValidationError(`Unknown button: ${customId}`, "custom_id");
+	}
+	return { action, args };
+}
+
+// Picking one of several generated splits: "t:split:<seed>:<option>"
+export const SplitChoiceSchema = z.object({
+	seed: z
+		.number()
+		.int("Seed must be an integer")
+		.min(0, "Seed cannot be negative")
+		.max(4294967295, "Seed must fit in 32 bits"),
+	option: z
+		.number()
+		.int("Option must be an integer")
+		.min(1, "Option must be at least 1")
+		.max(5, "Option cannot exceed 5"),
+});
+
+export function extractSplitChoiceParams(args: string[]): {
+	seed: number;
+	option: number;
+} {
+	const [seed, option] = args.map(Number);
+	return SplitChoiceSchema.parse({ seed, option });
+}
+
+// Picking a player in a captain draft: "t:draft:<pick number>:<player ID>"
+export const DraftPickSchema = z.object({
+	pick: z
+		.number()
+		.int("Pick must be an integer")
+		.min(1, "Pick must be at least 1"),
+	player: z.string().min(1, "Player is required"), // Discord user ID
+});
+
+export function extractDraftPickParams(args: string[]): {
+	pick: number;
+	player: string;
+} {
+	const [pick, player] = args;
+	return DraftPickSchema.parse({ pick: Number(pick), player });
+}
+
+// Paging through the players left in a captain draft: "t:draft_page:<page>"
+export const DraftPageSchema = z.object({
+	page: z
+		.number()
+		.int("Page must be an integer")
+		.min(0, "Page cannot be negative"),
+});
+
+export function extractDraftPageParams(args: string[]): { page: number } {
+	return DraftPageSchema.parse({ page: Number(args[0]) });
+}
+
+// Confirming a suggested rebalance: "t:rebalance:<options>:<fingerprint>",
+// options are "l" and/or "p" for keeping locked and pinned players in place, or "-" for neither
+export const RebalanceConfirmSchema = z.object({
+	keep_locked: z.boolean(),
+	keep_pinned: z.boolean(),
+	fingerprint: z
+		.string()
+		.regex(/^[0-9a-z]+$/, "Fingerprint must be a base-36 hash"),
+});
+
+export function extractRebalanceConfirmParams(args: string[]): {
+	keep_locked: boolean;
+	keep_pinned: boolean;
+	fingerprint: string;
+} {
+	const [options = "", fingerprint] = args;
+	return RebalanceConfirmSchema.parse({
+		keep_locked: options.includes("l"),
+		keep_pinned: options.includes("p"),
+		fingerprint,
+	});
+}
+
 // Validate tournament command parameters based on subcommand
 export function validateTournamentCommandParams(
 	subcommand: string,
@@ -612,6 +1370,22 @@ export function validateTournamentCommandParams(
 			return LeaveTournamentSchema.parse(params);
 		case "exchange":
 			return ExchangePlayersSchema.parse(params);
+		case "pair":
+			return PairConstraintSchema.parse(params);
+		case "show_pairs":
+			return ShowPairsSchema.parse(params);
+		case "pin":
+			return PinPlayerSchema.parse(params);
+		case "rebalance":
+			return RebalanceSchema.parse(params);
+		case "role":
+			return SetRoleSchema.parse(params);
+		case "rating":
+			return RatingSchema.parse(params);
+		case "draft":
+			return DraftSchema.parse(params);
+		case "team_register":
+			return TeamRegisterSchema.parse(params);
 		case "add":
 			return AddPlayerToTeamSchema.parse(params);
 		case "result":
@@ -632,8 +1406,19 @@ export type Help = z.infer<typeof HelpSchema>;
 export type JoinTournament = z.infer<typeof JoinTournamentSchema>;
 export type LeaveTournament = z.infer<typeof LeaveTournamentSchema>;
 export type ExchangePlayers = z.infer<typeof ExchangePlayersSchema>;
+export type PairConstraintParams = z.infer<typeof PairConstraintSchema>;
+export type ShowPairs = z.infer<typeof ShowPairsSchema>;
+export type PinPlayerParams = z.infer<typeof PinPlayerSchema>;
+export type RebalanceParams = z.infer<typeof RebalanceSchema>;
+export type SetRoleParams = z.infer<typeof SetRoleSchema>;
+export type RatingParams = z.infer<typeof RatingSchema>;
+export type DraftParams = z.infer<typeof DraftSchema>;
+export type TeamRegisterParams = z.infer<typeof TeamRegisterSchema>;
 export type AddPlayerToTeam = z.infer<typeof AddPlayerToTeamSchema>;
 export type ResultMatch = z.infer<typeof ResultMatchSchema>;
+export type SplitChoice = z.infer<typeof SplitChoiceSchema>;
+export type DraftPick = z.infer<typeof DraftPickSchema>;
+export type RebalanceConfirm = z.infer<typeof RebalanceConfirmSchema>;
 
 export type TournamentInteraction = z.infer<typeof TournamentInteractionSchema>;
 export type TournamentOpenInteraction = z.infer<
@@ -657,6 +1442,17 @@ export type LeaveTournamentInteraction = z.infer<
 export type ExchangePlayersInteraction = z.infer<
 	typeof ExchangePlayersInteractionSchema
 >;
+export type PairConstraintInteraction = z.infer<
+	typeof PairConstraintInteractionSchema
+>;
+export type PinPlayerInteraction = z.infer<typeof PinPlayerInteractionSchema>;
+export type SetRoleInteraction = z.infer<typeof SetRoleInteractionSchema>;
+export type RebalanceInteraction = z.infer<typeof RebalanceInteractionSchema>;
+export type RatingInteraction = z.infer<typeof RatingInteractionSchema>;
+export type DraftInteraction = z.infer<typeof DraftInteractionSchema>;
+export type TeamRegisterInteraction = z.infer<
+	typeof TeamRegisterInteractionSchema
+>;
 export type AddPlayerToTeamInteraction = z.infer<
 	typeof AddPlayerToTeamInteractionSchema
 >;
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { ADR_HISTORY_LIMIT, effectiveAdr } from "../src/effective-adr.js";
+
+describe("effectiveAdr", () => {
+	it("should keep the submitted ADR without match history", () => {
+		expect(effectiveAdr(85, [], 0.5)).toBe(85);
+	});
+
+	it("should keep the submitted ADR when decay is zero", () => {
+		expect(effectiveAdr(85, [60, 70], 0)).toBe(85);
+	});
+
+	it("should weigh recent matches more than older ones", () => {
+		// (100 * 1 + 70 * 0.5 + 40 * 0.25) / 1.75
+		expect(effectiveAdr(100, [70, 40], 0.5)).toBe(82.86);
+		expect(effectiveAdr(100, [40, 70], 0.5)).toBe(78.57);
+	});
+
+	it("should weigh every match like the submitted ADR when decay is one", () => {
+		expect(effectiveAdr(90, [60, 90], 1)).toBe(80);
+	});
+
+	it("should ignore matches beyond the history limit", () => {
+		const history = Array(ADR_HISTORY_LIMIT).fill(50);
+		expect(effectiveAdr(100, [...history, 0], 1)).toBe(
+			effectiveAdr(100, history, 1),
+		);
+	});
+});
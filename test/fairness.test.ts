@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+	diagnoseBalance,
+	diagnoseLobbies,
+	fairnessScore,
+} from "../src/fairness.js";
+
+describe("fairness", () => {
+	describe("fairnessScore", () => {
+		it("should give a perfect score to identical team totals", () => {
+			expect(fairnessScore(0, 400)).toBe(100);
+		});
+
+		it("should lose ten points per percent of spread and stop at zero", () => {
+			expect(fairnessScore(4, 400)).toBe(90);
+			expect(fairnessScore(60, 400)).toBe(0);
+		});
+
+		it("should not divide by an empty lobby", () => {
+			expect(fairnessScore(0, 0)).toBe(100);
+		});
+	});
+
+	describe("diagnoseBalance", () => {
+		it("should measure the spread of team totals and each team's range", () => {
+			const diagnostics = diagnoseBalance([
+				{ team_id: "TEAM1", adrs: [70, 90] },
+				{ team_id: "TEAM2", adrs: [75, 80] },
+			]);
+
+			// Totals 160 and 155
+			expect(diagnostics.adr_difference).toBe(5);
+			expect(diagnostics.adr_std_dev).toBe(2.5);
+			expect(diagnostics.teams).toEqual([
+				{ team_id: "TEAM1", min_adr: 70, max_adr: 90 },
+				{ team_id: "TEAM2", min_adr: 75, max_adr: 80 },
+			]);
+			expect(diagnostics.fairness).toBe(84);
+		});
+
+		it("should report nothing for no teams", () => {
+			expect(diagnoseBalance([])).toEqual({
+				adr_difference: 0,
+				adr_std_dev: 0,
+				teams: [],
+				fairness: 100,
+			});
+		});
+	});
+
+	describe("diagnoseLobbies", () => {
+		it("should report the least fair lobby with every team's range", () => {
+			const diagnostics = diagnoseLobbies([
+				[
+					{ team_id: "TEAM1", adrs: [100, 110] },
+					{ team_id: "TEAM2", adrs: [105, 105] },
+				],
+				[
+					{ team_id: "TEAM3", adrs: [70, 90] },
+					{ team_id: "TEAM4", adrs: [75, 80] },
+				],
+			]);
+
+			// The lower lobby is 5 apart, the higher one is even
+			expect(diagnostics.adr_difference).toBe(5);
+			expect(diagnostics.fairness).toBe(84);
+			expect(diagnostics.teams.map((team) => team.team_id)).toEqual([
+				"TEAM1",
+				"TEAM2",
+				"TEAM3",
+				"TEAM4",
+			]);
+		});
+	});
+});
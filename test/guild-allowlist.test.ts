@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the guild allowlist middleware
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import {
+	guildAllowlistFromEnv,
+	guildAllowlistMiddleware,
+	parseGuildAllowlist,
+} from "../src/utils/guild-allowlist";
+import { DISCORD_MESSAGE_FLAGS } from "../src/utils/discord-responses";
+
+describe("Guild Allowlist Middleware", () => {
+	let app: Hono;
+
+	beforeEach(() => {
+		vi.restoreAllMocks();
+		app = new Hono();
+	});
+
+	// Stand-in for the signature middleware, which stores the verified body
+	const send = (allowed: string[], body: Record<string, unknown>) => {
+		app.use("*", async (c, next) => {
+			c.set("discordBody", body);
+			await next();
+		});
+		app.use("*", guildAllowlistMiddleware(allowed));
+		app.post("/webhook", (c) => c.json({ success: true }));
+		return app.request("/webhook", { method: "POST" });
+	};
+
+	const command = (guildId?: string) => ({
+		type: 2,
+		guild_id: guildId,
+		data: { name: "t" },
+		member: { user: { id: "user-1" } },
+	});
+
+	describe("parseGuildAllowlist", () => {
+		it("should split a comma-separated list and drop blanks", () => {
+			expect(parseGuildAllowlist(" 111, 222 ,,")).toEqual(["111", "222"]);
+		});
+
+		it("should allow nothing when not configured", () => {
+			expect(parseGuildAllowlist(undefined)).toEqual([]);
+			expect(parseGuildAllowlist("")).toEqual([]);
+		});
+	});
+
+	describe("guildAllowlistFromEnv", () => {
+		it("should fall back to the single-server variable when the list is unset", () => {
+			expect(guildAllowlistFromEnv({ ALLOWED_GUILD_ID: "111" })).toEqual([
+				"111",
+			]);
+		});
+
+		it("should prefer the list when both variables are set", () => {
+			expect(
+				guildAllowlistFromEnv({
+					ALLOWED_GUILD_IDS: "222,333",
+					ALLOWED_GUILD_ID: "111",
+				}),
+			).toEqual(["222", "333"]);
+		});
+	});
+
+	describe("guildAllowlistMiddleware", () => {
+		it("should pass through interactions from an allowed server", async () => {
+			const response = await send(["111", "222"], command("222"));
+
+			expect(await response.json()).toEqual({ success: true });
+		});
+
+		it("should pass through Discord verification pings", async () => {
+			const response = await send(["111"], { type: 1 });
+
+			expect(await response.json()).toEqual({ success: true });
+		});
+
+		it("should reject another server with an ephemeral message and log it", async () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			const response = await send(["111"], command("999"));
+			const body = (await response.json()) as {
+				data: { flags: number; embeds: { description: string }[] };
+			};
+
+			expect(response.status).toBe(200);
+			expect(body.data.flags).toBe(DISCORD_MESSAGE_FLAGS.EPHEMERAL);
+			expect(body.data.embeds[0]?.description).toBe(
+				"This bot is not available in this server.",
+			);
+			expect(warn).toHaveBeenCalledWith(
+				"Rejected interaction from a server off the allowlist:",
+				expect.objectContaining({ guildId: "999", userId: "user-1" }),
+			);
+		});
+
+		it("should reject direct messages", async () => {
+			vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			const response = await send(["111"], {
+				type: 2,
+				data: { name: "t" },
+				user: { id: "user-1" },
+			});
+			const body = (await response.json()) as {
+				data: { embeds: { description: string }[] };
+			};
+
+			expect(body.data.embeds[0]?.description).toContain("direct messages");
+		});
+
+		it("should reject every server when no allowlist is configured", async () => {
+			vi.spyOn(console, "warn").mockImplementation(() => {});
+			vi.spyOn(console, "error").mockImplementation(() => {});
+
+			const response = await send([], command("111"));
+			const body = (await response.json()) as { success?: boolean };
+
+			expect(body.success).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+	MAP_WIN_POINTS,
+	ROUND_WIN_POINTS,
+	scoreIndividuals,
+} from "../src/mix-scoring.js";
+
+describe("mix scoring", () => {
+	it("should give every player their team's rounds plus the map win", () => {
+		const standings = scoreIndividuals([
+			{ team1: ["a", "b"], team2: ["c", "d"], score1: 13, score2: 9 },
+		]);
+
+		expect(standings[0]).toEqual({
+			player_id: "a",
+			points: 13 * ROUND_WIN_POINTS + MAP_WIN_POINTS,
+			maps_played: 1,
+			maps_won: 1,
+			rounds_won: 13,
+		});
+		expect(standings.find((s) => s.player_id === "c")?.points).toBe(9);
+	});
+
+	it("should split the map points on a tie", () => {
+		const standings = scoreIndividuals([
+			{ team1: ["a"], team2: ["b"], score1: 12, score2: 12 },
+		]);
+
+		expect(standings.map((s) => s.points)).toEqual([17, 17]);
+		expect(standings.every((s) => s.maps_won === 0)).toBe(true);
+	});
+
+	it("should add up points across rounds with reshuffled teams", () => {
+		const standings = scoreIndividuals([
+			{ team1: ["a", "b"], team2: ["c", "d"], score1: 13, score2: 5 },
+			{ team1: ["a", "c"], team2: ["b", "d"], score1: 13, score2: 11 },
+		]);
+
+		expect(standings.map((s) => [s.player_id, s.points])).toEqual([
+			["a", 46],
+			["b", 34],
+			["c", 28],
+			["d", 16],
+		]);
+	});
+
+	it("should rank equal points by map wins, then rounds won", () => {
+		// b wins a map with fewer rounds, c loses with more rounds but ties on points
+		const standings = scoreIndividuals([
+			{ team1: ["b"], team2: ["a"], score1: 13, score2: 0 },
+			{ team1: ["c"], team2: ["d"], score1: 11, score2: 13 },
+			{ team1: ["c"], team2: ["d"], score1: 12, score2: 13 },
+		]);
+
+		expect(standings.find((s) => s.player_id === "b")?.points).toBe(23);
+		expect(standings.find((s) => s.player_id === "c")?.points).toBe(23);
+		expect(standings.map((s) => s.player_id)).toEqual(["d", "b", "c", "a"]);
+	});
+
+	it("should rank on points, so close losses can outscore a map win", () => {
+		// a wins 13-11 and loses 0-13 for 23 points, b loses 12-13 twice for 24 points
+		const standings = scoreIndividuals([
+			{ team1: ["a"], team2: ["x"], score1: 13, score2: 11 },
+			{ team1: ["a"], team2: ["y"], score1: 0, score2: 13 },
+			{ team1: ["b"], team2: ["x"], score1: 12, score2: 13 },
+			{ team1: ["b"], team2: ["y"], score1: 12, score2: 13 },
+		]);
+		const rank = (id: string) => standings.findIndex((s) => s.player_id === id);
+
+		expect(standings.find((s) => s.player_id === "a")?.points).toBe(23);
+		expect(standings.find((s) => s.player_id === "b")?.points).toBe(24);
+		expect(rank("b")).toBeLessThan(rank("a"));
+	});
+
+	it("should have no standings without matches", () => {
+		expect(scoreIndividuals([])).toEqual([]);
+	});
+});
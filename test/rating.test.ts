@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+	DEFAULT_RATING,
+	expectedScore,
+	kFactor,
+	PROVISIONAL_MATCHES,
+	type RatedPlayer,
+	rateMatch,
+} from "../src/rating.js";
+
+const createPlayers = (
+	prefix: string,
+	ratings: number[],
+	ratedMatches = 0,
+): RatedPlayer[] =>
+	ratings.map((rating, i) => ({ id: `${prefix}${i}`, rating, ratedMatches }));
+
+describe("rating", () => {
+	describe("expectedScore", () => {
+		it("should give even odds to equal ratings", () => {
+			expect(expectedScore(1500, 1500)).toBe(0.5);
+		});
+
+		it("should favour the higher rating, symmetrically", () => {
+			const favourite = expectedScore(1700, 1500);
+			expect(favourite).toBeGreaterThan(0.75);
+			expect(favourite + expectedScore(1500, 1700)).toBeCloseTo(1);
+		});
+	});
+
+	describe("kFactor", () => {
+		it("should move provisional ratings faster", () => {
+			expect(kFactor(0)).toBeGreaterThan(kFactor(PROVISIONAL_MATCHES));
+			expect(kFactor(PROVISIONAL_MATCHES - 1)).toBe(kFactor(0));
+		});
+	});
+
+	describe("rateMatch", () => {
+		it("should move winners up and losers down by the same amount", () => {
+			const updates = rateMatch(
+				createPlayers("a", [DEFAULT_RATING, DEFAULT_RATING]),
+				createPlayers("b", [DEFAULT_RATING, DEFAULT_RATING]),
+				16,
+				10,
+			);
+
+			expect(updates.map((u) => u.change)).toEqual([20, 20, -20, -20]);
+			expect(updates.every((u) => u.ratedMatches === 1)).toBe(true);
+		});
+
+		it("should rate teams on their average rating", () => {
+			// Both teams average 1500, so the win is worth the same to everyone
+			const updates = rateMatch(
+				createPlayers("a", [1300, 1700]),
+				createPlayers("b", [1500, 1500]),
+				13,
+				16,
+			);
+
+			expect(updates.map((u) => u.change)).toEqual([-20, -20, 20, 20]);
+		});
+
+		it("should barely move ratings when the favourite wins", () => {
+			const [favourite] = rateMatch(
+				createPlayers("a", [1800], PROVISIONAL_MATCHES),
+				createPlayers("b", [1400], PROVISIONAL_MATCHES),
+				16,
+				8,
+			);
+
+			expect(favourite!.change).toBeGreaterThan(0);
+			expect(favourite!.change).toBeLessThan(2);
+		});
+
+		it("should pull ratings together on a draw", () => {
+			const [stronger, weaker] = rateMatch(
+				createPlayers("a", [1600]),
+				createPlayers("b", [1400]),
+				15,
+				15,
+			);
+
+			expect(stronger!.rating).toBeLessThan(1600);
+			expect(weaker!.rating).toBeGreaterThan(1400);
+		});
+
+		it("should skip matches without a lineup", () => {
+			expect(rateMatch([], createPlayers("b", [1500]), 16, 0)).toEqual([]);
+		});
+	});
+});
@@ -9,6 +9,8 @@ import {
 } from "../src/db";
 import type { Env } from "../src/db/types";
 
+const scope = { guildId: "test-guild", channelId: "test-channel" };
+
 describe("Repository Integration Tests", () => {
 	let env: Env;
 	let db: ReturnType<typeof createDatabase>;
@@ -50,17 +52,25 @@ describe("Repository Integration Tests", () => {
 				`CREATE TABLE IF NOT EXISTS messages (id text PRIMARY KEY NOT NULL, user_id text NOT NULL, username text NOT NULL, message text NOT NULL, created_at text DEFAULT CURRENT_TIMESTAMP NOT NULL)`,
 
 				// Migration 0001: Create tournament tables
-				`CREATE TABLE IF NOT EXISTS tournaments (id text PRIMARY KEY NOT NULL, status text DEFAULT 'open' NOT NULL, created_at text DEFAULT CURRENT_TIMESTAMP NOT NULL)`,
+				`CREATE TABLE IF NOT EXISTS tournaments (id text PRIMARY KEY NOT NULL, guild_id text NOT NULL, channel_id text, status text DEFAULT 'open' NOT NULL, team_size integer DEFAULT 5 NOT NULL, bench_priority text, objective text DEFAULT 'total_diff' NOT NULL, role_coverage text DEFAULT 'off' NOT NULL, variety_lookback integer DEFAULT 0 NOT NULL, variety_weight real DEFAULT 10 NOT NULL, balance_metric text DEFAULT 'adr' NOT NULL, team_mode text DEFAULT 'balanced' NOT NULL, adr_source text DEFAULT 'raw' NOT NULL, adr_decay real DEFAULT 0.5 NOT NULL, format text DEFAULT 'teams' NOT NULL, created_at text DEFAULT CURRENT_TIMESTAMP NOT NULL)`,
+
+				`CREATE TABLE IF NOT EXISTS players (id text PRIMARY KEY NOT NULL, username text, display_name text, default_adr real, roles text)`,
+
+				`CREATE TABLE IF NOT EXISTS player_ratings (guild_id text NOT NULL, player_id text NOT NULL, rating real DEFAULT 1500 NOT NULL, rated_matches integer DEFAULT 0 NOT NULL, PRIMARY KEY(guild_id, player_id), FOREIGN KEY (player_id) REFERENCES players(id) ON UPDATE no action ON DELETE no action)`,
 
-				`CREATE TABLE IF NOT EXISTS players (id text PRIMARY KEY NOT NULL, username text, display_name text)`,
+				`CREATE TABLE IF NOT EXISTS tournament_players (tournament_id text NOT NULL, player_id text NOT NULL, adr real, adr_locked integer DEFAULT false NOT NULL, joined_at text, benched integer DEFAULT false NOT NULL, premade_group text, pinned_team text, sit_outs integer DEFAULT 0 NOT NULL, PRIMARY KEY(tournament_id, player_id), FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON UPDATE no action ON DELETE no action, FOREIGN KEY (player_id) REFERENCES players(id) ON UPDATE no action ON DELETE no action)`,
 
-				`CREATE TABLE IF NOT EXISTS tournament_players (tournament_id text NOT NULL, player_id text NOT NULL, adr real, adr_locked integer DEFAULT false NOT NULL, PRIMARY KEY(tournament_id, player_id), FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON UPDATE no action ON DELETE no action, FOREIGN KEY (player_id) REFERENCES players(id) ON UPDATE no action ON DELETE no action)`,
+				`CREATE TABLE IF NOT EXISTS teams (tournament_id text NOT NULL, id text NOT NULL, locked integer DEFAULT false NOT NULL, seed integer, lobby integer, PRIMARY KEY(tournament_id, id), FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON UPDATE no action ON DELETE no action)`,
 
-				`CREATE TABLE IF NOT EXISTS teams (tournament_id text NOT NULL, id text NOT NULL, locked integer DEFAULT false NOT NULL, PRIMARY KEY(tournament_id, id), FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON UPDATE no action ON DELETE no action)`,
+				`CREATE TABLE IF NOT EXISTS team_diagnostics (tournament_id text PRIMARY KEY NOT NULL, adr_difference real NOT NULL, adr_std_dev real NOT NULL, team_ranges text NOT NULL, fairness integer NOT NULL, runs integer, elapsed_ms integer, created_at text DEFAULT CURRENT_TIMESTAMP NOT NULL, FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON UPDATE no action ON DELETE no action)`,
 
 				`CREATE TABLE IF NOT EXISTS team_players (team_id text NOT NULL, tournament_id text NOT NULL, player_id text NOT NULL, PRIMARY KEY(tournament_id, team_id, player_id), FOREIGN KEY (player_id) REFERENCES players(id) ON UPDATE no action ON DELETE no action)`,
 
-				`CREATE TABLE IF NOT EXISTS matches (id integer PRIMARY KEY AUTOINCREMENT NOT NULL, tournament_id text NOT NULL, team1_id text NOT NULL, team2_id text NOT NULL, score1 integer NOT NULL, score2 integer NOT NULL, created_at text DEFAULT CURRENT_TIMESTAMP NOT NULL, FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON UPDATE no action ON DELETE no action)`,
+				`CREATE TABLE IF NOT EXISTS matches (id integer PRIMARY KEY AUTOINCREMENT NOT NULL, tournament_id text NOT NULL, team1_id text NOT NULL, team2_id text NOT NULL, score1 integer NOT NULL, score2 integer NOT NULL, round integer, created_at text DEFAULT CURRENT_TIMESTAMP NOT NULL, FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON UPDATE no action ON DELETE no action)`,
+
+				`CREATE TABLE IF NOT EXISTS match_team_players (match_id integer NOT NULL, team_id text NOT NULL, player_id text NOT NULL, adr_at_time real, PRIMARY KEY(match_id, team_id, player_id), FOREIGN KEY (match_id) REFERENCES matches(id) ON UPDATE no action ON DELETE no action, FOREIGN KEY (player_id) REFERENCES players(id) ON UPDATE no action ON DELETE no action)`,
+
+				`CREATE TABLE IF NOT EXISTS pair_constraints (guild_id text NOT NULL, player1_id text NOT NULL, player2_id text NOT NULL, type text NOT NULL, created_at text DEFAULT CURRENT_TIMESTAMP NOT NULL, PRIMARY KEY(guild_id, player1_id, player2_id), FOREIGN KEY (player1_id) REFERENCES players(id) ON UPDATE no action ON DELETE no action, FOREIGN KEY (player2_id) REFERENCES players(id) ON UPDATE no action ON DELETE no action)`,
 
 				// Migration 0002: Create indexes
 				`CREATE INDEX IF NOT EXISTS tournament_status_idx ON tournaments(status)`,
@@ -80,17 +90,29 @@ describe("Repository Integration Tests", () => {
 	async function cleanupTestData() {
 		try {
 			// Delete in reverse dependency order
+			await env.DB.exec(
+				'DELETE FROM match_team_players WHERE player_id LIKE "test-%"',
+			);
 			await env.DB.exec(
 				'DELETE FROM matches WHERE tournament_id LIKE "test-%"',
 			);
 			await env.DB.exec(
 				'DELETE FROM team_players WHERE tournament_id LIKE "test-%"',
 			);
+			await env.DB.exec(
+				'DELETE FROM team_diagnostics WHERE tournament_id LIKE "test-%"',
+			);
 			await env.DB.exec('DELETE FROM teams WHERE tournament_id LIKE "test-%"');
 			await env.DB.exec(
 				'DELETE FROM tournament_players WHERE tournament_id LIKE "test-%"',
 			);
 			await env.DB.exec('DELETE FROM tournaments WHERE id LIKE "test-%"');
+			await env.DB.exec(
+				'DELETE FROM pair_constraints WHERE player1_id LIKE "test-%"',
+			);
+			await env.DB.exec(
+				'DELETE FROM player_ratings WHERE player_id LIKE "test-%"',
+			);
 			await env.DB.exec('DELETE FROM players WHERE id LIKE "test-%"');
 		} catch (error) {
 			// Ignore cleanup errors
@@ -101,7 +123,7 @@ describe("Repository Integration Tests", () => {
 		it("should create and retrieve tournament", async () => {
 			const tournamentId = "test-2025-08-30-1";
 
-			await tournamentRepo.createTournament(tournamentId);
+			await tournamentRepo.createTournament(tournamentId, scope);
 
 			const tournament = await tournamentRepo.getTournamentById(tournamentId);
 			expect(tournament).toBeDefined();
@@ -115,12 +137,12 @@ describe("Repository Integration Tests", () => {
 			// Create first tournament
 			const id1 = await tournamentRepo.generateTournamentId(`test-${date}`);
 			expect(id1).toBe(`test-${date}-1`);
-			await tournamentRepo.createTournament(id1);
+			await tournamentRepo.createTournament(id1, scope);
 
 			// Create second tournament
 			const id2 = await tournamentRepo.generateTournamentId(`test-${date}`);
 			expect(id2).toBe(`test-${date}-2`);
-			await tournamentRepo.createTournament(id2);
+			await tournamentRepo.createTournament(id2, scope);
 
 			// Verify both exist
 			const tournament1 = await tournamentRepo.getTournamentById(id1);
@@ -132,7 +154,7 @@ describe("Repository Integration Tests", () => {
 		it("should handle tournament status changes", async () => {
 			const tournamentId = "test-2025-08-30-1";
 
-			await tournamentRepo.createTournament(tournamentId);
+			await tournamentRepo.createTournament(tournamentId, scope);
 
 			// Check initial status
 			let status = await tournamentRepo.getTournamentStatus(tournamentId);
@@ -149,9 +171,9 @@ describe("Repository Integration Tests", () => {
 		it("should find open tournaments", async () => {
 			const tournamentId = "test-2025-08-30-1";
 
-			await tournamentRepo.createTournament(tournamentId);
+			await tournamentRepo.createTournament(tournamentId, scope);
 
-			const openTournament = await tournamentRepo.getOpenTournament();
+			const openTournament = await tournamentRepo.getOpenTournament(scope);
 			expect(openTournament).toBeDefined();
 			expect(openTournament?.id).toBe(tournamentId);
 
@@ -159,9 +181,56 @@ describe("Repository Integration Tests", () => {
 			await tournamentRepo.closeTournament(tournamentId);
 
 			// Should not find open tournament
-			const noOpenTournament = await tournamentRepo.getOpenTournament();
+			const noOpenTournament = await tournamentRepo.getOpenTournament(scope);
 			expect(noOpenTournament).toBeNull();
 		});
+
+		it("should only find the open tournament of the same server and channel", async () => {
+			await tournamentRepo.createTournament("test-2025-08-30-1", scope);
+			await tournamentRepo.createTournament("test-2025-08-30-2", {
+				guildId: "test-guild",
+				channelId: "test-other-channel",
+			});
+
+			const open = await tournamentRepo.getOpenTournament(scope);
+			expect(open?.id).toBe("test-2025-08-30-1");
+			expect(open?.guildId).toBe("test-guild");
+
+			expect(
+				await tournamentRepo.getOpenTournament({
+					guildId: "test-other-guild",
+					channelId: "test-channel",
+				}),
+			).toBeNull();
+		});
+
+		it("should find a server-wide tournament from any channel", async () => {
+			await tournamentRepo.createTournament("test-2025-08-30-1", {
+				guildId: "test-guild",
+				channelId: null,
+			});
+
+			const open = await tournamentRepo.getOpenTournament(scope);
+			expect(open?.id).toBe("test-2025-08-30-1");
+		});
+
+		it("should keep finding a tournament while registration is locked", async () => {
+			const tournamentId = "test-2025-08-30-1";
+			await tournamentRepo.createTournament(tournamentId, scope);
+
+			await tournamentRepo.setRegistrationLocked(tournamentId, true);
+			expect(await tournamentRepo.getTournamentStatus(tournamentId)).toBe(
+				"locked",
+			);
+			expect((await tournamentRepo.getOpenTournament(scope))?.id).toBe(
+				tournamentId,
+			);
+
+			await tournamentRepo.setRegistrationLocked(tournamentId, false);
+			expect((await tournamentRepo.getOpenTournament(scope))?.status).toBe(
+				"open",
+			);
+		});
 	});
 
 	describe("Player Repository Integration", () => {
@@ -169,7 +238,7 @@ describe("Repository Integration Tests", () => {
 
 		beforeEach(async () => {
 			tournamentId = "test-2025-08-30-1";
-			await tournamentRepo.createTournament(tournamentId);
+			await tournamentRepo.createTournament(tournamentId, scope);
 		});
 
 		it("should upsert and retrieve players", async () => {
@@ -209,6 +278,81 @@ describe("Repository Integration Tests", () => {
 			expect(player?.displayName).toBe("New Name");
 		});
 
+		it("should keep ratings to the server they were earned in", async () => {
+			await playerRepo.upsertPlayer({ id: "test-player-1", username: "user1" });
+			await playerRepo.upsertPlayer({ id: "test-player-2", username: "user2" });
+
+			await playerRepo.updateRatings("test-guild", [
+				{ id: "test-player-1", rating: 1520, ratedMatches: 1 },
+				{ id: "test-player-2", rating: 1480, ratedMatches: 1 },
+			]);
+			await playerRepo.updateRatings("test-other-guild", [
+				{ id: "test-player-2", rating: 1600, ratedMatches: 5 },
+			]);
+
+			const ratings = await playerRepo.getRatings("test-guild", [
+				"test-player-1",
+				"test-player-2",
+			]);
+			expect(ratings.get("test-player-2")).toEqual({
+				rating: 1480,
+				ratedMatches: 1,
+			});
+			const leaderboard = await playerRepo.getTopRatedPlayers("test-guild", 10);
+			expect(leaderboard.map((p) => [p.id, p.rating])).toEqual([
+				["test-player-1", 1520],
+				["test-player-2", 1480],
+			]);
+
+			await playerRepo.resetRatings("test-guild");
+			expect(
+				(await playerRepo.getRatings("test-guild", ["test-player-1"])).size,
+			).toBe(0);
+			expect(
+				await playerRepo.getRatings("test-other-guild", ["test-player-2"]),
+			).toEqual(
+				new Map([["test-player-2", { rating: 1600, ratedMatches: 5 }]]),
+			);
+		});
+
+		it("should keep pairing rules to the server they were set in", async () => {
+			await playerRepo.upsertPlayer({ id: "test-player-1", username: "user1" });
+			await playerRepo.upsertPlayer({ id: "test-player-2", username: "user2" });
+
+			await playerRepo.setPairConstraint(
+				"test-guild",
+				"test-player-2",
+				"test-player-1",
+				"apart",
+			);
+			await playerRepo.setPairConstraint(
+				"test-other-guild",
+				"test-player-1",
+				"test-player-2",
+				"together",
+			);
+
+			const rules = await playerRepo.getPairConstraints("test-guild");
+			expect(rules).toHaveLength(1);
+			expect(rules[0]).toMatchObject({
+				player1Id: "test-player-1",
+				player2Id: "test-player-2",
+				type: "apart",
+			});
+
+			expect(
+				await playerRepo.removePairConstraint(
+					"test-guild",
+					"test-player-1",
+					"test-player-2",
+				),
+			).toBe(true);
+			expect(await playerRepo.getPairConstraints("test-guild")).toEqual([]);
+			expect(
+				await playerRepo.getPairConstraints("test-other-guild"),
+			).toHaveLength(1);
+		});
+
 		it("should manage tournament player associations", async () => {
 			const playerId = "test-player-123";
 
@@ -318,7 +462,7 @@ describe("Repository Integration Tests", () => {
 
 		beforeEach(async () => {
 			tournamentId = "test-2025-08-30-1";
-			await tournamentRepo.createTournament(tournamentId);
+			await tournamentRepo.createTournament(tournamentId, scope);
 
 			// Create test players
 			playerIds = [
@@ -428,6 +572,41 @@ describe("Repository Integration Tests", () => {
 			const nonExistentTeam = await teamRepo.getTeam(tournamentId, "TEAM999");
 			expect(nonExistentTeam).toBeNull();
 		});
+
+		it("should count teammate pairs from previous tournaments", async () => {
+			const previousId = "test-2025-08-23-1";
+			await tournamentRepo.createTournament(previousId, scope);
+			await teamRepo.createTeams(previousId, [
+				{ id: "TEAM1", players: playerIds.slice(0, 2) },
+				{ id: "TEAM2", players: playerIds.slice(2, 4) },
+			]);
+			// Teams of the current tournament are not history
+			await teamRepo.createTeams(tournamentId, [
+				{ id: "TEAM1", players: [playerIds[0]!, playerIds[4]!] },
+			]);
+
+			const pairs = await teamRepo.getRecentTeammates(tournamentId, 1);
+
+			expect(pairs).toHaveLength(2);
+			expect(pairs).toContainEqual({
+				player1Id: "test-player-1",
+				player2Id: "test-player-2",
+				count: 1,
+			});
+			expect(pairs).toContainEqual({
+				player1Id: "test-player-3",
+				player2Id: "test-player-4",
+				count: 1,
+			});
+		});
+
+		it("should return no teammate pairs without previous tournaments", async () => {
+			await teamRepo.createTeams(tournamentId, [
+				{ id: "TEAM1", players: playerIds.slice(0, 2) },
+			]);
+
+			expect(await teamRepo.getRecentTeammates(tournamentId, 3)).toEqual([]);
+		});
 	});
 
 	describe("Match Repository Integration", () => {
@@ -436,7 +615,7 @@ describe("Repository Integration Tests", () => {
 
 		beforeEach(async () => {
 			tournamentId = "test-2025-08-30-1";
-			await tournamentRepo.createTournament(tournamentId);
+			await tournamentRepo.createTournament(tournamentId, scope);
 
 			// Create test teams
 			teamIds = ["TEAM1", "TEAM2"];
@@ -618,6 +797,68 @@ describe("Repository Integration Tests", () => {
 			expect(team1Stats?.wins).toBe(2);
 			expect(team1Stats?.losses).toBe(0);
 		});
+
+		it("should keep player history to the server it was played in", async () => {
+			const otherId = "test-2025-08-30-2";
+			await tournamentRepo.createTournament(otherId, {
+				guildId: "test-other-guild",
+				channelId: "test-channel",
+			});
+			const lineup = (playerId: string, adr: number) => [{ playerId, adr }];
+
+			const otherMatch = await matchRepo.createMatch({
+				tournamentId: otherId,
+				team1Id: "TEAM1",
+				team2Id: "TEAM2",
+				score1: 13,
+				score2: 7,
+			});
+			await matchRepo.captureMatchTeamComposition(
+				otherMatch,
+				"TEAM1",
+				"TEAM2",
+				lineup("test-player-1", 140),
+				lineup("test-player-4", 60),
+			);
+			const match = await matchRepo.createMatch({
+				tournamentId,
+				team1Id: "TEAM1",
+				team2Id: "TEAM2",
+				score1: 13,
+				score2: 11,
+			});
+			await matchRepo.captureMatchTeamComposition(
+				match,
+				"TEAM1",
+				"TEAM2",
+				lineup("test-player-1", 90),
+				lineup("test-player-4", 80),
+			);
+
+			const ids = ["test-player-1", "test-player-4"];
+			expect(await matchRepo.getGamesPlayed("test-guild", ids)).toEqual(
+				new Map([
+					["test-player-1", 1],
+					["test-player-4", 1],
+				]),
+			);
+			expect(
+				(await matchRepo.getTournamentsPlayed("test-guild", ids)).get(
+					"test-player-1",
+				),
+			).toBe(1);
+			expect(
+				await matchRepo.getAdrHistory("test-guild", ids, "test-2025-08-30-9"),
+			).toEqual(
+				new Map([
+					["test-player-1", [90]],
+					["test-player-4", [80]],
+				]),
+			);
+			expect(
+				(await matchRepo.getAdrHistory("test-other-guild", ids, otherId)).size,
+			).toBe(0);
+		});
 	});
 
 	describe("Foreign Key Constraints and Data Integrity", () => {
@@ -625,7 +866,7 @@ describe("Repository Integration Tests", () => {
 
 		beforeEach(async () => {
 			tournamentId = "test-2025-08-30-1";
-			await tournamentRepo.createTournament(tournamentId);
+			await tournamentRepo.createTournament(tournamentId, scope);
 		});
 
 		it("should enforce foreign key constraints for tournament players", async () => {
@@ -698,7 +939,7 @@ describe("Repository Integration Tests", () => {
 
 		beforeEach(async () => {
 			tournamentId = "test-2025-08-30-1";
-			await tournamentRepo.createTournament(tournamentId);
+			await tournamentRepo.createTournament(tournamentId, scope);
 
 			// Create test players
 			playerIds = Array.from({ length: 10 }, (_, i) => `test-player-${i + 1}`);
@@ -7,18 +7,60 @@ import {
 
 // Mock the teamgen module
 vi.mock("../src/teamgen.js", () => ({
+	DEFAULT_OBJECTIVE_WEIGHTS: {
+		total_diff: 1,
+		spread_variance: 0.05,
+		star_distribution: 10,
+	},
+	createObjective: vi.fn(() => () => 0),
+	createRandom: vi.fn(() => Math.random),
 	optimizeTeams: vi.fn(),
+	randomTeams: vi.fn(),
+	findConstraintConflict: vi.fn(),
+	missingRoles: vi.fn(() => []),
+	scoreObjectives: vi.fn(() => ({
+		total_diff: 0,
+		spread_variance: 0,
+		star_distribution: 0,
+	})),
+	shuffle: vi.fn(),
+	solveTeamsExact: vi.fn(),
+	splitKey: vi.fn((teams) => JSON.stringify(teams)),
+	uncertaintySpread: vi.fn(() => 0),
+	countRepeatPairings: vi.fn(() => 0),
+	playerConfidence: vi.fn((tournamentsPlayed: number) =>
+		Math.min(1, tournamentsPlayed / 3),
+	),
+	withConfidenceSpread: vi.fn((objective) => objective),
+	withRepeatPairPenalty: vi.fn((objective) => objective),
+	withRoleCoverage: vi.fn((objective) => objective),
 }));
 
-import { optimizeTeams } from "../src/teamgen.js";
+import {
+	countRepeatPairings,
+	createObjective,
+	createRandom,
+	findConstraintConflict,
+	missingRoles,
+	optimizeTeams,
+	randomTeams,
+	shuffle,
+	solveTeamsExact,
+	uncertaintySpread,
+	withConfidenceSpread,
+	withRepeatPairPenalty,
+	withRoleCoverage,
+} from "../src/teamgen.js";
 
 describe("TeamGenerationService", () => {
 	let service: TeamGenerationService;
 	const mockOptimizeTeams = vi.mocked(optimizeTeams);
+	const mockSolveTeamsExact = vi.mocked(solveTeamsExact);
 
 	beforeEach(() => {
 		service = new TeamGenerationService();
 		vi.clearAllMocks();
+		mockSolveTeamsExact.mockReturnValue(null);
 	});
 
 	describe("constructor", () => {
@@ -92,6 +134,7 @@ describe("TeamGenerationService", () => {
 					},
 				],
 				adrDiff: 250,
+				alternatives: [],
 			});
 		});
 
@@ -119,6 +162,11 @@ describe("TeamGenerationService", () => {
 				5, // team size
 				1000, // max no improvement
 				100, // custom runs
+				[], // no pair constraints
+				expect.any(Function), // seeded random number generator
+				expect.any(Function), // balancing objective
+				1, // a single split
+				expect.any(Number), // deadline from the default time limit
 			);
 		});
 
@@ -146,6 +194,11 @@ describe("TeamGenerationService", () => {
 				5,
 				1000,
 				500,
+				[],
+				expect.any(Function),
+				expect.any(Function),
+				1,
+				expect.any(Number), // deadline
 			);
 		});
 
@@ -164,6 +217,7 @@ describe("TeamGenerationService", () => {
 					},
 				],
 				adrDiff: 0,
+				alternatives: [],
 			});
 
 			const players = createMockPlayers(5);
@@ -194,6 +248,32 @@ describe("TeamGenerationService", () => {
 			);
 		});
 
+		it("should use the team size override when provided", async () => {
+			const players = createMockPlayers(4);
+
+			await service.generateBalancedTeams(players, 100, 2);
+
+			expect(mockOptimizeTeams).toHaveBeenCalledWith(
+				expect.any(Array),
+				2, // overridden team size
+				expect.any(Number),
+				100,
+				[],
+				expect.any(Function),
+				expect.any(Function),
+				1,
+				expect.any(Number), // deadline
+			);
+		});
+
+		it("should validate player count against the team size override", async () => {
+			const players = createMockPlayers(10);
+
+			await expect(
+				service.generateBalancedTeams(players, undefined, 3),
+			).rejects.toThrow("Player count (10) must be divisible by team size (3)");
+		});
+
 		it("should throw error for players missing ADR", async () => {
 			const players: TournamentPlayer[] = [
 				{ id: "1", username: "Player1", adr: 50 },
@@ -293,6 +373,1163 @@ describe("TeamGenerationService", () => {
 		});
 	});
 
+	describe("pair constraints", () => {
+		const mockFindConstraintConflict = vi.mocked(findConstraintConflict);
+		const players: TournamentPlayer[] = Array.from({ length: 4 }, (_, i) => ({
+			id: `player${i + 1}`,
+			username: `Player${i + 1}`,
+			adr: 50 + i * 10,
+		}));
+
+		beforeEach(() => {
+			mockOptimizeTeams.mockReturnValue({
+				teams: [],
+				adrDiff: 0,
+				alternatives: [],
+			});
+			mockFindConstraintConflict.mockReturnValue(null);
+		});
+
+		it("should map constraints to player indices", async () => {
+			await service.generateBalancedTeams(players, 10, 2, {
+				pairConstraints: [
+					{ player1_id: "player4", player2_id: "player1", type: "together" },
+					{ player1_id: "player2", player2_id: "absent", type: "apart" },
+				],
+			});
+
+			expect(mockOptimizeTeams).toHaveBeenCalledWith(
+				expect.any(Array),
+				2,
+				expect.any(Number),
+				10,
+				[{ a: 3, b: 0, type: "together" }],
+				expect.any(Function),
+				expect.any(Function),
+				1,
+				expect.any(Number), // deadline
+			);
+		});
+
+		it("should name the constraint that makes generation impossible", async () => {
+			mockFindConstraintConflict.mockReturnValue({
+				constraint: { a: 0, b: 1, type: "apart" },
+				reason: "the players are already linked by together constraints",
+			});
+
+			await expect(
+				service.generateBalancedTeams(players, 10, 2, {
+					pairConstraints: [
+						{ player1_id: "player1", player2_id: "player2", type: "apart" },
+					],
+				}),
+			).rejects.toThrow(
+				"Cannot keep Player1 and Player2 apart: the players are already linked by together constraints",
+			);
+			expect(mockOptimizeTeams).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("pinned players", () => {
+		const mockFindConstraintConflict = vi.mocked(findConstraintConflict);
+		const players: TournamentPlayer[] = Array.from({ length: 4 }, (_, i) => ({
+			id: `player${i + 1}`,
+			username: `Player${i + 1}`,
+			adr: 50 + i * 10,
+		}));
+
+		beforeEach(() => {
+			mockFindConstraintConflict.mockReturnValue(null);
+			// Teams in input order: players 1 and 2, then players 3 and 4
+			mockOptimizeTeams.mockImplementation((teamgenPlayers) => {
+				const split = {
+					teams: [0, 2].map((i) => ({
+						players: teamgenPlayers.slice(i, i + 2),
+						totalAdr: 0,
+					})),
+					adrDiff: 20,
+					score: 20,
+				};
+				return { ...split, alternatives: [split] };
+			});
+		});
+
+		it("should keep pinned players on their teams", async () => {
+			const result = await service.generateBalancedTeams(
+				players.map((p) =>
+					p.id === "player3" ? { ...p, pinned_team: "TEAM1" } : p,
+				),
+				10,
+				2,
+			);
+
+			expect(result.teams.map((t) => t.players.map((p) => p.username))).toEqual(
+				[
+					["Player3", "Player4"],
+					["Player1", "Player2"],
+				],
+			);
+			expect(result.alternatives[0]?.teams[0]?.id).toBe("TEAM1");
+			expect(result.alternatives[0]?.teams[0]?.players[0]?.username).toBe(
+				"Player3",
+			);
+		});
+
+		it("should keep players pinned to different teams apart", async () => {
+			await service.generateBalancedTeams(
+				players.map((p) =>
+					p.id === "player1"
+						? { ...p, pinned_team: "TEAM2" }
+						: p.id === "player2"
+							? { ...p, pinned_team: "TEAM1" }
+							: p,
+				),
+				10,
+				2,
+			);
+
+			expect(mockOptimizeTeams).toHaveBeenCalledWith(
+				expect.any(Array),
+				2,
+				expect.any(Number),
+				10,
+				[{ a: 0, b: 1, type: "apart" }],
+				expect.any(Function),
+				expect.any(Function),
+				1,
+				expect.any(Number), // deadline
+			);
+		});
+
+		it("should reject a pin to a team that isn't being formed", async () => {
+			await expect(
+				service.generateBalancedTeams(
+					players.map((p) =>
+						p.id === "player1" ? { ...p, pinned_team: "TEAM3" } : p,
+					),
+					10,
+					2,
+				),
+			).rejects.toThrow(
+				"Player1 is pinned to TEAM3, but only 2 team(s) are being formed",
+			);
+			expect(mockOptimizeTeams).not.toHaveBeenCalled();
+		});
+
+		it("should never bench a pinned player", () => {
+			const { bench } = service.selectBench(
+				[
+					{ ...players[0]!, joined_at: "2025-08-31T10:00:00.000Z" },
+					{
+						...players[1]!,
+						joined_at: "2025-08-31T10:05:00.000Z",
+						pinned_team: "TEAM1",
+					},
+					{ ...players[2]!, joined_at: "2025-08-31T10:02:00.000Z" },
+				],
+				2,
+				"latest_joiner",
+			);
+
+			expect(bench.map((p) => p.id)).toEqual(["player3"]);
+		});
+	});
+
+	describe("exact solver", () => {
+		const players: TournamentPlayer[] = Array.from({ length: 4 }, (_, i) => ({
+			id: `player${i + 1}`,
+			username: `Player${i + 1}`,
+			adr: 50 + i * 10,
+		}));
+		const exactTeams = [
+			{
+				players: [
+					{ name: "Player1", adr: 50 },
+					{ name: "Player4", adr: 80 },
+				],
+				totalAdr: 130,
+			},
+			{
+				players: [
+					{ name: "Player2", adr: 60 },
+					{ name: "Player3", adr: 70 },
+				],
+				totalAdr: 130,
+			},
+		];
+
+		it("should use a proven optimal split without running the heuristic", async () => {
+			mockSolveTeamsExact.mockReturnValue({
+				teams: exactTeams,
+				adrDiff: 0,
+				optimal: true,
+			});
+
+			const result = await service.generateBalancedTeams(players, 10, 2);
+
+			expect(mockOptimizeTeams).not.toHaveBeenCalled();
+			expect(result.solver).toBe("exact");
+			expect(result.proven_optimal).toBe(true);
+			expect(result.adr_difference).toBe(0);
+		});
+
+		it("should fall back to the heuristic when the exact search does not finish", async () => {
+			mockSolveTeamsExact.mockReturnValue({
+				teams: exactTeams,
+				adrDiff: 20,
+				optimal: false,
+			});
+			mockOptimizeTeams.mockReturnValue({
+				teams: exactTeams,
+				adrDiff: 10,
+				alternatives: [],
+			});
+
+			const result = await service.generateBalancedTeams(players, 10, 2);
+
+			expect(mockOptimizeTeams).toHaveBeenCalledOnce();
+			expect(result.solver).toBe("heuristic");
+			expect(result.proven_optimal).toBe(false);
+			expect(result.adr_difference).toBe(10);
+		});
+
+		it("should skip the exact solver for large pools", async () => {
+			const smallLimitService = new TeamGenerationService({
+				exactSolverMaxPlayers: 3,
+			});
+			mockOptimizeTeams.mockReturnValue({
+				teams: exactTeams,
+				adrDiff: 0,
+				alternatives: [],
+			});
+
+			const result = await smallLimitService.generateBalancedTeams(
+				players,
+				10,
+				2,
+			);
+
+			expect(mockSolveTeamsExact).not.toHaveBeenCalled();
+			expect(result.solver).toBe("heuristic");
+			expect(result.proven_optimal).toBe(false);
+		});
+	});
+
+	describe("seed", () => {
+		const mockCreateRandom = vi.mocked(createRandom);
+		const players: TournamentPlayer[] = Array.from({ length: 4 }, (_, i) => ({
+			id: `player${i + 1}`,
+			username: `Player${i + 1}`,
+			adr: 50 + i * 10,
+		}));
+
+		beforeEach(() => {
+			mockOptimizeTeams.mockReturnValue({
+				teams: [],
+				adrDiff: 0,
+				alternatives: [],
+			});
+		});
+
+		it("should seed the random number generator with the requested seed", async () => {
+			const result = await service.generateBalancedTeams(players, 10, 2, {
+				seed: 1234,
+			});
+
+			expect(mockCreateRandom).toHaveBeenCalledWith(1234);
+			expect(result.seed).toBe(1234);
+		});
+
+		it("should pick and report a fresh 32-bit seed when none is requested", async () => {
+			const result = await service.generateBalancedTeams(players, 10, 2);
+
+			expect(mockCreateRandom).toHaveBeenCalledWith(result.seed);
+			expect(Number.isInteger(result.seed)).toBe(true);
+			expect(result.seed).toBeGreaterThanOrEqual(0);
+			expect(result.seed).toBeLessThan(2 ** 32);
+		});
+
+		it("should use the seeded generator for random bench selection", async () => {
+			const random = () => 0;
+			mockCreateRandom.mockReturnValueOnce(random);
+
+			await service.generateBalancedTeams(players.slice(0, 3), 10, 2, {
+				benchPriority: "random",
+				seed: 42,
+			});
+
+			expect(vi.mocked(shuffle)).toHaveBeenCalledWith(
+				expect.any(Array),
+				random,
+			);
+		});
+	});
+
+	describe("objective", () => {
+		const players: TournamentPlayer[] = Array.from({ length: 4 }, (_, i) => ({
+			id: `player${i + 1}`,
+			username: `Player${i + 1}`,
+			adr: 50 + i * 10,
+		}));
+
+		beforeEach(() => {
+			mockOptimizeTeams.mockReturnValue({
+				teams: [],
+				adrDiff: 0,
+				score: 0,
+				alternatives: [],
+			});
+		});
+
+		it("should default to total ADR difference", async () => {
+			const result = await service.generateBalancedTeams(players, 10, 2);
+
+			expect(vi.mocked(createObjective)).toHaveBeenCalledWith(
+				"total_diff",
+				expect.any(Object),
+			);
+			expect(mockSolveTeamsExact).toHaveBeenCalled();
+			expect(result.objective).toBe("total_diff");
+		});
+
+		it("should only use the heuristic for other objectives", async () => {
+			const result = await service.generateBalancedTeams(players, 10, 2, {
+				objective: "star_distribution",
+			});
+
+			expect(mockSolveTeamsExact).not.toHaveBeenCalled();
+			expect(vi.mocked(createObjective)).toHaveBeenCalledWith(
+				"star_distribution",
+				expect.any(Object),
+			);
+			expect(result.objective).toBe("star_distribution");
+			expect(result.proven_optimal).toBe(false);
+		});
+
+		it("should pass configured weights to the weighted objective", async () => {
+			const weightedService = new TeamGenerationService({
+				objectiveWeights: { star_distribution: 25 },
+			});
+
+			await weightedService.generateBalancedTeams(players, 10, 2, {
+				objective: "weighted",
+			});
+
+			expect(vi.mocked(createObjective)).toHaveBeenCalledWith("weighted", {
+				total_diff: 1,
+				spread_variance: 0.05,
+				star_distribution: 25,
+			});
+		});
+
+		it("should report the score of every component", async () => {
+			const result = await service.generateBalancedTeams(players, 10, 2, {
+				objective: "weighted",
+			});
+
+			expect(result.objective_scores).toEqual({
+				total_diff: 0,
+				spread_variance: 0,
+				star_distribution: 0,
+			});
+		});
+	});
+
+	describe("role coverage", () => {
+		const players: TournamentPlayer[] = [
+			{ id: "player1", username: "Player1", adr: 50, roles: ["awp"] },
+			{ id: "player2", username: "Player2", adr: 60, roles: ["igl"] },
+			{ id: "player3", username: "Player3", adr: 70 },
+			{ id: "player4", username: "Player4", adr: 80, roles: ["entry"] },
+		];
+		const teams = [
+			{ players: [], totalAdr: 130 },
+			{ players: [], totalAdr: 130 },
+		];
+
+		beforeEach(() => {
+			mockOptimizeTeams.mockReturnValue({
+				teams,
+				adrDiff: 0,
+				score: 0,
+				alternatives: [],
+			});
+		});
+
+		it("should pass roles to the optimizer and skip the exact solver", async () => {
+			await service.generateBalancedTeams(players, 10, 2, {
+				roleCoverage: "soft",
+			});
+
+			expect(mockSolveTeamsExact).not.toHaveBeenCalled();
+			expect(mockOptimizeTeams.mock.calls[0]?.[0]).toEqual([
+				{ name: "Player1", adr: 50, roles: ["awp"] },
+				{ name: "Player2", adr: 60, roles: ["igl"] },
+				{ name: "Player3", adr: 70 },
+				{ name: "Player4", adr: 80, roles: ["entry"] },
+			]);
+			expect(vi.mocked(withRoleCoverage)).toHaveBeenCalledWith(
+				expect.any(Function),
+				["awp", "igl"],
+				25,
+			);
+		});
+
+		it("should make hard coverage outweigh any ADR difference", async () => {
+			await service.generateBalancedTeams(players, 10, 2, {
+				roleCoverage: "hard",
+			});
+
+			const weight = vi.mocked(withRoleCoverage).mock.calls[0]?.[2];
+			expect(weight).toBeGreaterThanOrEqual(1_000_000);
+		});
+
+		it("should report the teams missing a required role", async () => {
+			vi.mocked(missingRoles)
+				.mockReturnValueOnce([])
+				.mockReturnValueOnce(["awp"]);
+
+			const result = await service.generateBalancedTeams(players, 10, 2, {
+				roleCoverage: "soft",
+			});
+
+			expect(result.role_gaps).toEqual([
+				{ team_id: "TEAM2", missing: ["awp"] },
+			]);
+		});
+
+		it("should not check roles when coverage is off", async () => {
+			const result = await service.generateBalancedTeams(players, 10, 2);
+
+			expect(vi.mocked(withRoleCoverage)).not.toHaveBeenCalled();
+			expect(result.role_gaps).toEqual([]);
+		});
+	});
+
+	describe("alternatives", () => {
+		const players: TournamentPlayer[] = Array.from({ length: 4 }, (_, i) => ({
+			id: `player${i + 1}`,
+			username: `Player${i + 1}`,
+			adr: 50 + i * 10,
+		}));
+		const split = (first: string, second: string, adrDiff: number) => ({
+			teams: [
+				{
+					players: [
+						{ name: "Player1", adr: 50 },
+						{ name: first, adr: 60 },
+					],
+					totalAdr: 110,
+				},
+				{
+					players: [{ name: second, adr: 70 }],
+					totalAdr: 70,
+				},
+			],
+			adrDiff,
+			score: adrDiff,
+		});
+
+		it("should return the distinct splits found by the heuristic", async () => {
+			const best = split("Player2", "Player3", 10);
+			const second = split("Player3", "Player2", 20);
+			mockSolveTeamsExact.mockReturnValue(null);
+			mockOptimizeTeams.mockReturnValue({
+				...best,
+				alternatives: [best, second],
+			});
+
+			const result = await service.generateBalancedTeams(players, 10, 2, {
+				alternatives: 3,
+			});
+
+			expect(mockOptimizeTeams).toHaveBeenCalledWith(
+				expect.any(Array),
+				2,
+				expect.any(Number),
+				10,
+				[],
+				expect.any(Function),
+				expect.any(Function),
+				3,
+				expect.any(Number), // deadline
+			);
+			expect(result.alternatives.map((a) => a.adr_difference)).toEqual([
+				10, 20,
+			]);
+			expect(result.alternatives[1]?.teams[0]?.players[1]?.username).toBe(
+				"Player3",
+			);
+		});
+
+		it("should still run the heuristic for alternatives when the exact split is optimal", async () => {
+			const exact = split("Player2", "Player3", 0);
+			const other = split("Player3", "Player2", 20);
+			mockSolveTeamsExact.mockReturnValue({
+				teams: exact.teams,
+				adrDiff: 0,
+				optimal: true,
+			});
+			mockOptimizeTeams.mockReturnValue({
+				...exact,
+				alternatives: [exact, other],
+			});
+
+			const result = await service.generateBalancedTeams(players, 10, 2, {
+				alternatives: 2,
+			});
+
+			expect(mockOptimizeTeams).toHaveBeenCalledOnce();
+			expect(result.solver).toBe("exact");
+			expect(result.proven_optimal).toBe(true);
+			// The heuristic's copy of the exact split is not offered twice
+			expect(result.alternatives.map((a) => a.adr_difference)).toEqual([0, 20]);
+		});
+
+		it("should reject a non-positive number of alternatives", async () => {
+			await expect(
+				service.generateBalancedTeams(players, 10, 2, { alternatives: 0 }),
+			).rejects.toThrow(
+				"Number of alternative splits must be a positive integer",
+			);
+		});
+	});
+
+	describe("time limit", () => {
+		const players: TournamentPlayer[] = Array.from({ length: 4 }, (_, i) => ({
+			id: `player${i + 1}`,
+			username: `Player${i + 1}`,
+			adr: 50 + i * 10,
+		}));
+
+		beforeEach(() => {
+			mockOptimizeTeams.mockReturnValue({
+				teams: [],
+				adrDiff: 5,
+				score: 5,
+				alternatives: [],
+				runs: 37,
+				iterations: 1850,
+				timedOut: true,
+			});
+		});
+
+		it("should keep starting runs until the deadline with only a time limit", async () => {
+			const before = Date.now();
+			const result = await service.generateBalancedTeams(
+				players,
+				undefined,
+				2,
+				{
+					timeLimit: 2000,
+				},
+			);
+
+			const call = mockOptimizeTeams.mock.calls[0]!;
+			expect(call[3]).toBe(Number.POSITIVE_INFINITY);
+			expect(call[8]).toBeGreaterThanOrEqual(before + 2000);
+			expect(call[8]).toBeLessThanOrEqual(Date.now() + 2000);
+			expect(result).toMatchObject({
+				optimization_runs: 37,
+				runs_completed: 37,
+				iterations: 1850,
+				timed_out: true,
+			});
+		});
+
+		it("should give the exact solver the same deadline", async () => {
+			const before = Date.now();
+			await service.generateBalancedTeams(players, undefined, 2, {
+				timeLimit: 2000,
+			});
+
+			const call = mockSolveTeamsExact.mock.calls[0]!;
+			expect(call[4]).toBeGreaterThanOrEqual(before + 2000);
+			expect(call[4]).toBe(mockOptimizeTeams.mock.calls[0]![8]);
+		});
+
+		it("should keep the requested runs alongside a time limit", async () => {
+			const result = await service.generateBalancedTeams(players, 10, 2, {
+				timeLimit: 2000,
+			});
+
+			expect(mockOptimizeTeams.mock.calls[0]![3]).toBe(10);
+			expect(result.optimization_runs).toBe(10);
+			expect(result.runs_completed).toBe(37);
+		});
+
+		it("should report no heuristic effort when the exact solver settles the split", async () => {
+			mockSolveTeamsExact.mockReturnValue({
+				teams: [],
+				adrDiff: 0,
+				optimal: true,
+			});
+
+			const result = await service.generateBalancedTeams(players, 10, 2);
+
+			expect(mockOptimizeTeams).not.toHaveBeenCalled();
+			expect(result).toMatchObject({
+				runs_completed: 0,
+				iterations: 0,
+				timed_out: false,
+			});
+		});
+
+		it("should reject a time limit above the maximum execution time", async () => {
+			await expect(
+				service.generateBalancedTeams(players, 10, 2, { timeLimit: 30000 }),
+			).rejects.toThrow("Time limit cannot exceed 25000ms");
+			await expect(
+				service.generateBalancedTeams(players, 10, 2, { timeLimit: 0 }),
+			).rejects.toThrow("Time limit must be a positive number");
+		});
+	});
+
+	describe("variety mode", () => {
+		const players: TournamentPlayer[] = Array.from({ length: 4 }, (_, i) => ({
+			id: `player${i + 1}`,
+			username: `Player${i + 1}`,
+			adr: 50 + i * 10,
+		}));
+
+		beforeEach(() => {
+			mockOptimizeTeams.mockReturnValue({
+				teams: [],
+				adrDiff: 0,
+				score: 0,
+				alternatives: [],
+			});
+		});
+
+		it("should penalize recent teammates that are in the lineup", async () => {
+			await service.generateBalancedTeams(players, 10, 2, {
+				recentTeammates: [
+					{ player1_id: "player1", player2_id: "player3", count: 2 },
+					{ player1_id: "player2", player2_id: "absent", count: 1 },
+				],
+				varietyWeight: 15,
+			});
+
+			expect(mockSolveTeamsExact).not.toHaveBeenCalled();
+			expect(vi.mocked(withRepeatPairPenalty)).toHaveBeenCalledWith(
+				expect.any(Function),
+				expect.any(Array),
+				[{ a: 0, b: 2, count: 2 }],
+				15,
+			);
+		});
+
+		it("should report the repeat pairings left in the split", async () => {
+			vi.mocked(countRepeatPairings).mockReturnValueOnce(1);
+
+			const result = await service.generateBalancedTeams(players, 10, 2, {
+				recentTeammates: [
+					{ player1_id: "player1", player2_id: "player2", count: 1 },
+				],
+			});
+
+			expect(result.repeat_pairings).toBe(1);
+		});
+
+		it("should keep the exact solver without history", async () => {
+			await service.generateBalancedTeams(players, 10, 2, {
+				recentTeammates: [],
+			});
+
+			expect(vi.mocked(withRepeatPairPenalty)).not.toHaveBeenCalled();
+			expect(mockSolveTeamsExact).toHaveBeenCalled();
+		});
+	});
+
+	describe("confidence", () => {
+		const players: TournamentPlayer[] = Array.from({ length: 4 }, (_, i) => ({
+			id: `player${i + 1}`,
+			username: `Player${i + 1}`,
+			adr: 50 + i * 10,
+			tournaments_played: 3,
+		}));
+
+		beforeEach(() => {
+			mockOptimizeTeams.mockReturnValue({
+				teams: [],
+				adrDiff: 0,
+				score: 0,
+				alternatives: [],
+			});
+		});
+
+		// The least ADR difference, Player1 and Player4 share the first team
+		const exactTeams = [
+			{
+				players: [
+					{ name: "Player1", adr: 50 },
+					{ name: "Player4", adr: 80 },
+				],
+				totalAdr: 130,
+			},
+			{
+				players: [
+					{ name: "Player2", adr: 60 },
+					{ name: "Player3", adr: 70 },
+				],
+				totalAdr: 130,
+			},
+		];
+
+		it("should spread newcomers across teams", async () => {
+			mockSolveTeamsExact.mockReturnValue({
+				teams: exactTeams,
+				adrDiff: 0,
+				optimal: true,
+			});
+			vi.mocked(uncertaintySpread).mockReturnValueOnce(2);
+			vi.mocked(withConfidenceSpread).mockReturnValueOnce(() => 40);
+			mockOptimizeTeams.mockReturnValue({
+				teams: exactTeams,
+				adrDiff: 20,
+				score: 20,
+				alternatives: [],
+			});
+
+			const result = await service.generateBalancedTeams(
+				players.map((p) =>
+					p.id === "player1" || p.id === "player4"
+						? { ...p, tournaments_played: 0 }
+						: p,
+				),
+				10,
+				2,
+			);
+
+			expect(vi.mocked(withConfidenceSpread)).toHaveBeenCalledWith(
+				expect.any(Function),
+				20,
+			);
+			expect(
+				mockOptimizeTeams.mock.calls[0]![0].map((p) => p.confidence),
+			).toEqual([0, 1, 1, 0]);
+			expect(result.solver).toBe("heuristic");
+			expect(result.proven_optimal).toBe(false);
+		});
+
+		it("should keep the exact solver when a single newcomer can't change the best split", async () => {
+			mockSolveTeamsExact.mockReturnValue({
+				teams: exactTeams,
+				adrDiff: 0,
+				optimal: true,
+			});
+			// The newcomer's team is always one newcomer less certain than the other
+			vi.mocked(uncertaintySpread).mockReturnValueOnce(1);
+
+			const result = await service.generateBalancedTeams(
+				players.map((p) =>
+					p.id === "player2" ? { ...p, tournaments_played: 0 } : p,
+				),
+				10,
+				2,
+			);
+
+			expect(vi.mocked(withConfidenceSpread)).toHaveBeenCalled();
+			expect(mockOptimizeTeams).not.toHaveBeenCalled();
+			expect(result.solver).toBe("exact");
+			expect(result.proven_optimal).toBe(true);
+		});
+
+		it("should keep the exact solver when every player is established", async () => {
+			await service.generateBalancedTeams(players, 10, 2);
+
+			expect(vi.mocked(withConfidenceSpread)).not.toHaveBeenCalled();
+			expect(mockSolveTeamsExact).toHaveBeenCalled();
+		});
+	});
+
+	describe("lobbies", () => {
+		// ADRs 100, 90, ..., 30
+		const players: TournamentPlayer[] = Array.from({ length: 8 }, (_, i) => ({
+			id: `player${i + 1}`,
+			username: `Player${i + 1}`,
+			adr: 100 - i * 10,
+		}));
+
+		beforeEach(() => {
+			// Teams in input order: first half against second half
+			mockOptimizeTeams.mockImplementation((teamgenPlayers) => {
+				const half = teamgenPlayers.length / 2;
+				const split = {
+					teams: [0, half].map((i) => ({
+						players: teamgenPlayers.slice(i, i + half),
+						totalAdr: 0,
+					})),
+					adrDiff: 10,
+					score: 10,
+				};
+				return { ...split, alternatives: [split] };
+			});
+		});
+
+		it("should put the strongest players in the first lobby when tiered", async () => {
+			const result = await service.generateLobbyTeams(
+				players,
+				2,
+				"tiered",
+				10,
+				2,
+			);
+
+			expect(
+				result.teams.map((team) => ({
+					id: team.id,
+					lobby: team.lobby,
+					players: team.players.map((p) => p.username),
+				})),
+			).toEqual([
+				{ id: "TEAM1", lobby: 1, players: ["Player1", "Player2"] },
+				{ id: "TEAM2", lobby: 1, players: ["Player3", "Player4"] },
+				{ id: "TEAM3", lobby: 2, players: ["Player5", "Player6"] },
+				{ id: "TEAM4", lobby: 2, players: ["Player7", "Player8"] },
+			]);
+			expect(result.adr_difference).toBe(10);
+		});
+
+		it("should deal players out in snake order when mixed", async () => {
+			await service.generateLobbyTeams(players, 2, "mixed", 10, 2);
+
+			expect(
+				mockOptimizeTeams.mock.calls.map((call) => call[0].map((p) => p.adr)),
+			).toEqual([
+				[100, 70, 60, 30],
+				[90, 80, 50, 40],
+			]);
+		});
+
+		it("should bench players who don't fill every lobby", async () => {
+			const result = await service.generateLobbyTeams(
+				[
+					...players,
+					{ id: "player9", username: "Player9", adr: 20, joined_at: "z" },
+				],
+				2,
+				"tiered",
+				10,
+				2,
+				{ benchPriority: "latest_joiner" },
+			);
+
+			expect(result.bench.map((p) => p.id)).toEqual(["player9"]);
+			expect(result.teams).toHaveLength(4);
+		});
+
+		it("should keep players who must play together in the same lobby", async () => {
+			await service.generateLobbyTeams(players, 2, "tiered", 10, 2, {
+				pairConstraints: [
+					{ player1_id: "player4", player2_id: "player5", type: "together" },
+				],
+			});
+
+			expect(
+				mockOptimizeTeams.mock.calls.map((call) => call[0].map((p) => p.adr)),
+			).toEqual([
+				[100, 90, 80, 50],
+				[70, 60, 40, 30],
+			]);
+		});
+
+		it("should refuse a together group too large for one lobby", async () => {
+			const chain = ["player1", "player2", "player3", "player4", "player5"];
+			await expect(
+				service.generateLobbyTeams(players, 2, "mixed", 10, 2, {
+					pairConstraints: chain.slice(1).map((id, i) => ({
+						player1_id: chain[i]!,
+						player2_id: id,
+						type: "together" as const,
+					})),
+				}),
+			).rejects.toThrow(
+				"Cannot keep Player1, Player2, Player3, Player4 and Player5 together",
+			);
+		});
+
+		it("should refuse pinned players", async () => {
+			await expect(
+				service.generateLobbyTeams(
+					players.map((p) =>
+						p.id === "player1" ? { ...p, pinned_team: "TEAM1" } : p,
+					),
+					2,
+					"tiered",
+					10,
+					2,
+				),
+			).rejects.toThrow("Unpin Player1 before splitting into lobbies");
+		});
+
+		it("should refuse more lobbies than the players can fill", async () => {
+			await expect(
+				service.generateLobbyTeams(players, 3, "tiered", 10, 2),
+			).rejects.toThrow("Not enough players (8) for 3 lobbies");
+		});
+	});
+
+	describe("rating metric", () => {
+		const players: TournamentPlayer[] = [
+			{ id: "player1", username: "Player1", adr: 95, rating: 1400 },
+			{ id: "player2", username: "Player2", adr: 60, rating: 1600 },
+			{ id: "player3", username: "Player3", adr: 80 },
+			{ id: "player4", username: "Player4", adr: 70, rating: 1500 },
+		];
+
+		beforeEach(() => {
+			mockSolveTeamsExact.mockImplementation((teamgenPlayers) => ({
+				teams: [
+					{
+						players: [teamgenPlayers[0]!, teamgenPlayers[1]!],
+						totalAdr: teamgenPlayers[0]!.adr + teamgenPlayers[1]!.adr,
+					},
+					{
+						players: [teamgenPlayers[2]!, teamgenPlayers[3]!],
+						totalAdr: teamgenPlayers[2]!.adr + teamgenPlayers[3]!.adr,
+					},
+				],
+				adrDiff: 0,
+				optimal: true,
+			}));
+		});
+
+		it("should balance on ratings, unrated players counting as the default", async () => {
+			const result = await service.generateBalancedTeams(players, 10, 2, {
+				metric: "rating",
+			});
+
+			expect(mockSolveTeamsExact.mock.calls[0]![0].map((p) => p.adr)).toEqual([
+				1400, 1600, 1500, 1500,
+			]);
+			expect(result.metric).toBe("rating");
+			expect(result.teams[0]).toMatchObject({
+				average_adr: 77.5,
+				total_adr: 155,
+				average_rating: 1500,
+			});
+			expect(result.teams[0]!.players.map((p) => [p.adr, p.rating])).toEqual([
+				[95, 1400],
+				[60, 1600],
+			]);
+		});
+
+		it("should balance on ADR by default", async () => {
+			const result = await service.generateBalancedTeams(players, 10, 2);
+
+			expect(mockSolveTeamsExact.mock.calls[0]![0].map((p) => p.adr)).toEqual([
+				95, 60, 80, 70,
+			]);
+			expect(result.metric).toBe("adr");
+			expect(result.teams[0]!.average_rating).toBeUndefined();
+		});
+	});
+
+	describe("random teams", () => {
+		const players: TournamentPlayer[] = [
+			{ id: "player1", username: "Player1", adr: 95 },
+			{ id: "player2", username: "Player2", adr: 60 },
+			{ id: "player3", username: "Player3", adr: 80 },
+			{ id: "player4", username: "Player4", adr: 70 },
+			{ id: "player5", username: "Player5", adr: 75 },
+		];
+		const mockRandomTeams = vi.mocked(randomTeams);
+
+		it("should split the active players at random without optimizing", async () => {
+			mockRandomTeams.mockImplementation((teamgenPlayers) => [
+				{
+					players: [teamgenPlayers[0]!, teamgenPlayers[3]!],
+					totalAdr: teamgenPlayers[0]!.adr + teamgenPlayers[3]!.adr,
+				},
+				{
+					players: [teamgenPlayers[1]!, teamgenPlayers[2]!],
+					totalAdr: teamgenPlayers[1]!.adr + teamgenPlayers[2]!.adr,
+				},
+			]);
+
+			const result = await service.generateRandomTeams(players, 2, {
+				benchPriority: "latest_joiner",
+				seed: 5,
+			});
+
+			expect(createRandom).toHaveBeenCalledWith(5);
+			expect(mockRandomTeams).toHaveBeenCalledWith(
+				expect.any(Array),
+				2,
+				[],
+				expect.any(Function),
+			);
+			expect(mockOptimizeTeams).not.toHaveBeenCalled();
+			expect(mockSolveTeamsExact).not.toHaveBeenCalled();
+			expect(result.bench.map((p) => p.id)).toEqual(["player1"]);
+			expect(result.teams.map((t) => t.total_adr)).toEqual([135, 150]);
+			expect(result).toMatchObject({
+				adr_difference: 15,
+				solver: "none",
+				runs_completed: 0,
+				proven_optimal: false,
+				seed: 5,
+			});
+		});
+
+		it("should fail when pair constraints leave no valid split", async () => {
+			mockRandomTeams.mockReturnValue(null);
+
+			await expect(
+				service.generateRandomTeams(players.slice(0, 4), 2),
+			).rejects.toThrow(TeamGenerationError);
+		});
+	});
+
+	describe("pre-made teams", () => {
+		const players: TournamentPlayer[] = [
+			{ id: "player1", username: "Player1", adr: 95 },
+			{ id: "player2", username: "Player2", adr: 60 },
+			{ id: "player3", username: "Player3", adr: 80 },
+			{ id: "player4", username: "Player4", adr: 70 },
+			{ id: "player5", username: "Player5", adr: 75 },
+		];
+
+		it("should keep every complete pre-made team together and bench the rest", async () => {
+			const result = await service.generatePremadeTeams(
+				players,
+				[
+					["player3", "player1"],
+					["player5"], // Incomplete, so player5 sits out
+					["player2", "player4"],
+				],
+				2,
+			);
+
+			expect(result.teams.map((t) => t.players.map((p) => p.username))).toEqual(
+				[
+					["Player3", "Player1"],
+					["Player2", "Player4"],
+				],
+			);
+			expect(result.bench.map((p) => p.id)).toEqual(["player5"]);
+			expect(result.adr_difference).toBe(45);
+			expect(mockOptimizeTeams).not.toHaveBeenCalled();
+		});
+
+		it("should require at least two complete teams", async () => {
+			await expect(
+				service.generatePremadeTeams(
+					players,
+					[
+						["player1", "player2"],
+						["player3", "player9"], // player9 isn't in the lineup
+					],
+					2,
+				),
+			).rejects.toThrow("at least 2 registered teams of 2 (currently 1)");
+		});
+	});
+
+	describe("selectBench", () => {
+		const players: TournamentPlayer[] = [
+			{
+				id: "1",
+				username: "Early",
+				adr: 80,
+				joined_at: "2025-08-31T10:00:00.000Z",
+				games_played: 3,
+			},
+			{
+				id: "2",
+				username: "Late",
+				adr: 70,
+				joined_at: "2025-08-31T10:05:00.000Z",
+				games_played: 9,
+			},
+			{
+				id: "3",
+				username: "Middle",
+				adr: 60,
+				joined_at: "2025-08-31T10:02:00.000Z",
+				games_played: 1,
+			},
+		];
+
+		it("should bench the latest joiners", () => {
+			const { active, bench } = service.selectBench(
+				players,
+				2,
+				"latest_joiner",
+			);
+
+			expect(bench.map((p) => p.id)).toEqual(["2"]);
+			expect(active.map((p) => p.id)).toEqual(["1", "3"]);
+		});
+
+		it("should bench the players with the fewest games", () => {
+			const { bench } = service.selectBench(players, 2, "fewest_games");
+
+			expect(bench.map((p) => p.id)).toEqual(["3"]);
+		});
+
+		it("should rotate the bench to whoever sat out least", () => {
+			const { bench } = service.selectBench(
+				players.map((p) => ({ ...p, sit_outs: p.id === "2" ? 1 : 0 })),
+				2,
+				"latest_joiner",
+			);
+
+			// Late already sat out once, so the next latest joiner takes a turn
+			expect(bench.map((p) => p.id)).toEqual(["3"]);
+		});
+
+		it("should bench nobody when the count divides evenly", () => {
+			const { active, bench } = service.selectBench(players, 3, "random");
+
+			expect(bench).toHaveLength(0);
+			expect(active).toHaveLength(3);
+		});
+
+		it("should throw when there are not enough players for one team", () => {
+			expect(() => service.selectBench(players, 5, "random")).toThrow(
+				"Not enough players (3) to form a team of 5",
+			);
+		});
+
+		it("should return the bench from generateBalancedTeams", async () => {
+			mockOptimizeTeams.mockReturnValue({
+				teams: [
+					{
+						players: [
+							{ name: "Early", adr: 80 },
+							{ name: "Middle", adr: 60 },
+						],
+						totalAdr: 140,
+					},
+				],
+				adrDiff: 0,
+				alternatives: [],
+			});
+
+			const result = await service.generateBalancedTeams(players, 10, 2, {
+				benchPriority: "latest_joiner",
+			});
+
+			expect(mockOptimizeTeams).toHaveBeenCalledWith(
+				[
+					{ name: "Early", adr: 80 },
+					{ name: "Middle", adr: 60 },
+				],
+				2,
+				expect.any(Number),
+				10,
+				[],
+				expect.any(Function),
+				expect.any(Function),
+				1,
+				expect.any(Number), // deadline
+			);
+			expect(result.bench.map((p) => p.id)).toEqual(["2"]);
+		});
+	});
+
 	describe("team ID generation", () => {
 		beforeEach(() => {
 			mockOptimizeTeams.mockReturnValue({
@@ -302,6 +1539,7 @@ describe("TeamGenerationService", () => {
 					{ players: [], totalAdr: 0 },
 				],
 				adrDiff: 0,
+				alternatives: [],
 			});
 		});
 
@@ -334,6 +1572,15 @@ describe("TeamGenerationService", () => {
 				defaultRuns: 200,
 				maxRuns: 800,
 				teamSize: 4,
+				exactSolverMaxPlayers: 20,
+				maxExecutionTime: 25000,
+				objectiveWeights: {
+					total_diff: 1,
+					spread_variance: 0.05,
+					star_distribution: 10,
+				},
+				requiredRoles: ["awp", "igl"],
+				roleCoverageWeight: 25,
 			});
 		});
 	});
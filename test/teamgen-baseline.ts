@@ -0,0 +1,322 @@
+// optimizeTeams as it was before incremental team totals and greedy seeding, with the helpers it used,
+// kept unchanged so the optimizer benchmark measures the new core against the code it replaced.
+// shuffle and splitKey did not change, so they and the shared types come from the current module.
+
+import {
+	type Objective,
+	type PairConstraint,
+	type Player,
+	type Random,
+	type SearchEffort,
+	type Split,
+	shuffle,
+	splitKey,
+	type Team,
+} from "../src/teamgen.js";
+
+// Max minus min team total ADR
+function totalDiff(teams: Team[]): number {
+	const totals = teams.map((t) => t.totalAdr);
+	return Math.max(...totals) - Math.min(...totals);
+}
+
+// Merge players linked by "together" constraints into groups that must share a team
+function groupPlayers(
+	playerCount: number,
+	constraints: PairConstraint[],
+): { groups: number[][]; groupOf: number[] } {
+	const parent = Array.from({ length: playerCount }, (_, i) => i);
+	const find = (i: number): number => {
+		while (parent[i] !== i) {
+			// biome-ignore lint/style/noNonNullAssertion: Parent indices are always valid player indices
+			parent[i] = parent[parent[i]!]!;
+			// biome-ignore lint/style/noNonNullAssertion: Parent indices are always valid player indices
+			i = parent[i]!;
+		}
+		return i;
+	};
+
+	for (const c of constraints) {
+		if (c.type === "together") {
+			parent[find(c.a)] = find(c.b);
+		}
+	}
+
+	const groupIndexByRoot = new Map<number, number>();
+	const groups: number[][] = [];
+	const groupOf: number[] = [];
+	for (let i = 0; i < playerCount; i++) {
+		const root = find(i);
+		let groupIndex = groupIndexByRoot.get(root);
+		if (groupIndex === undefined) {
+			groupIndex = groups.length;
+			groupIndexByRoot.set(root, groupIndex);
+			groups.push([]);
+		}
+		// biome-ignore lint/style/noNonNullAssertion: Group was created above
+		groups[groupIndex]!.push(i);
+		groupOf.push(groupIndex);
+	}
+
+	return { groups, groupOf };
+}
+
+// Group pairs that may never share a team, derived from "apart" constraints
+function groupConflicts(
+	groupCount: number,
+	groupOf: number[],
+	constraints: PairConstraint[],
+): Set<number>[] {
+	const conflicts = Array.from({ length: groupCount }, () => new Set<number>());
+	for (const c of constraints) {
+		if (c.type === "apart") {
+			// biome-ignore lint/style/noNonNullAssertion: Constraint indices are validated player indices
+			const ga = groupOf[c.a]!;
+			// biome-ignore lint/style/noNonNullAssertion: Constraint indices are validated player indices
+			const gb = groupOf[c.b]!;
+			conflicts[ga]?.add(gb);
+			conflicts[gb]?.add(ga);
+		}
+	}
+	return conflicts;
+}
+
+// Backtracking placement of groups into teams, respecting team size and conflicts.
+// Returns the team index for each group in `order`, or null when no placement exists.
+function placeGroups(
+	order: number[],
+	groups: number[][],
+	conflicts: Set<number>[],
+	numTeams: number,
+	teamSize: number,
+): number[] | null {
+	const teamOf = new Array<number>(groups.length).fill(-1);
+	const members: number[][] = Array.from({ length: numTeams }, () => []);
+	const space = new Array<number>(numTeams).fill(teamSize);
+
+	// A group whose members must be kept apart can never be placed
+	if (order.some((g) => conflicts[g]?.has(g))) {
+		return null;
+	}
+
+	const place = (k: number): boolean => {
+		if (k === order.length) {
+			return true;
+		}
+		// biome-ignore lint/style/noNonNullAssertion: k is bounded by order.length
+		const g = order[k]!;
+		// biome-ignore lint/style/noNonNullAssertion: Group indices come from groupPlayers
+		const size = groups[g]!.length;
+		let triedEmptyTeam = false;
+
+		for (let t = 0; t < numTeams; t++) {
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			const teamMembers = members[t]!;
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			if (space[t]! < size) continue;
+			// Empty teams are interchangeable, so only try the first one
+			if (teamMembers.length === 0) {
+				if (triedEmptyTeam) continue;
+				triedEmptyTeam = true;
+			}
+			if (teamMembers.some((other) => conflicts[g]?.has(other))) continue;
+
+			teamMembers.push(g);
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			space[t]! -= size;
+			teamOf[g] = t;
+			if (place(k + 1)) {
+				return true;
+			}
+			teamMembers.pop();
+			// biome-ignore lint/style/noNonNullAssertion: t is bounded by numTeams
+			space[t]! += size;
+		}
+		return false;
+	};
+
+	return place(0) ? teamOf : null;
+}
+
+// Largest groups first keeps backtracking shallow
+function largestFirst(groups: number[][], order: number[]): number[] {
+	return order.sort(
+		// biome-ignore lint/style/noNonNullAssertion: Group indices come from groupPlayers
+		(x, y) => groups[y]!.length - groups[x]!.length,
+	);
+}
+
+// Anytime local search optimizer.
+// Every run ends in a local optimum; the best `keep` distinct ones are returned as alternatives, best first.
+// The search stops at `deadline` (a timestamp in milliseconds from `now`) and returns the best splits so far;
+// a run cut short still counts with its current split, so at least one split is always returned.
+// Runs stopped by the deadline depend on machine speed, so a seed only reproduces a split when no deadline is hit.
+export function optimizeTeams(
+	players: Player[],
+	teamSize = 5,
+	maxNoImprovement = 1000,
+	runs = 500,
+	constraints: PairConstraint[] = [],
+	random: Random = Math.random,
+	objective: Objective = totalDiff,
+	keep = 1,
+	deadline = Number.POSITIVE_INFINITY,
+	now: () => number = Date.now,
+): Split & { alternatives: Split[] } & SearchEffort {
+	if (players.length % teamSize !== 0) {
+		throw new Error(`Player count must be a multiple of ${teamSize}`);
+	}
+
+	const numTeams = players.length / teamSize;
+
+	// Players that must stay together move between teams as one group
+	const { groups, groupOf } = groupPlayers(players.length, constraints);
+	const conflicts = groupConflicts(groups.length, groupOf, constraints);
+	// biome-ignore lint/style/noNonNullAssertion: Group indices come from groupPlayers
+	const groupSize = (g: number) => groups[g]!.length;
+	const scoreOf = (teams: number[][]) =>
+		objective(toTeams(players, groups, teams));
+	const canJoin = (g: number, team: number[]) =>
+		!team.some((other) => conflicts[g]?.has(other));
+
+	const kept: (Split & { key: string })[] = [];
+	const outOfTime = () => now() >= deadline;
+	let started = 0;
+	let iterations = 0;
+	let timedOut = false;
+
+	for (let run = 0; run < runs; run++) {
+		// The first run always starts, so there is a split to return
+		if (run > 0 && outOfTime()) {
+			timedOut = true;
+			break;
+		}
+		started++;
+
+		const order = groups.map((_, i) => i);
+		shuffle(order, random);
+
+		const teamOf = placeGroups(
+			largestFirst(groups, order),
+			groups,
+			conflicts,
+			numTeams,
+			teamSize,
+		);
+		if (!teamOf) {
+			throw new Error("No team split satisfies the pairing constraints");
+		}
+
+		const teams: number[][] = Array.from({ length: numTeams }, () => []);
+		for (let g = 0; g < groups.length; g++) {
+			// biome-ignore lint/style/noNonNullAssertion: placeGroups assigns every group a valid team
+			teams[teamOf[g]!]?.push(g);
+		}
+		let score = scoreOf(teams);
+
+		// A single team has nothing to swap with
+		let noImprovement = teams.length < 2 ? maxNoImprovement : 0;
+
+		while (noImprovement < maxNoImprovement) {
+			if (outOfTime()) {
+				timedOut = true;
+				break;
+			}
+			iterations++;
+
+			// Pick two random teams
+			const indices = Array.from({ length: teams.length }, (_, i) => i);
+			shuffle(indices, random);
+			const [i, j] = indices.slice(0, 2) as [number, number];
+
+			// biome-ignore lint/style/noNonNullAssertion: Indices are controlled by shuffle of valid team indices
+			const teamA = teams[i]!;
+			// biome-ignore lint/style/noNonNullAssertion: Indices are controlled by shuffle of valid team indices
+			const teamB = teams[j]!;
+
+			// Pick a random group from team A, and groups from team B filling the same number of slots
+			const aIndex = Math.floor(random() * teamA.length);
+			// biome-ignore lint/style/noNonNullAssertion: Index is controlled by teamA.length
+			const outOfA = teamA[aIndex]!;
+			const slots = groupSize(outOfA);
+
+			const candidates = [...teamB];
+			shuffle(candidates, random);
+			const outOfB: number[] = [];
+			let filled = 0;
+			for (const g of candidates) {
+				if (filled + groupSize(g) <= slots) {
+					outOfB.push(g);
+					filled += groupSize(g);
+					if (filled === slots) break;
+				}
+			}
+
+			const remainingA = teamA.filter((g) => g !== outOfA);
+			const remainingB = teamB.filter((g) => !outOfB.includes(g));
+			const valid =
+				filled === slots &&
+				canJoin(outOfA, remainingB) &&
+				outOfB.every((g) => canJoin(g, remainingA));
+
+			if (valid) {
+				const swapped = [...teams];
+				swapped[i] = [...remainingA, ...outOfB];
+				swapped[j] = [...remainingB, outOfA];
+				const newScore = scoreOf(swapped);
+
+				if (newScore < score) {
+					// Swap
+					teams.splice(0, teams.length, ...swapped);
+					score = newScore;
+					noImprovement = 0;
+					continue;
+				}
+			}
+
+			noImprovement++;
+		}
+
+		// Keep the best distinct runs
+		const worstKept = kept[keep - 1]?.score ?? Infinity;
+		if (kept.length < keep || score < worstKept) {
+			const split = toTeams(players, groups, teams);
+			const key = splitKey(split, players);
+			if (!kept.some((k) => k.key === key)) {
+				kept.push({ teams: split, adrDiff: totalDiff(split), score, key });
+				kept.sort((a, b) => a.score - b.score);
+				kept.length = Math.min(kept.length, keep);
+			}
+		}
+
+		if (timedOut) {
+			break;
+		}
+	}
+
+	const alternatives = kept.map(({ key: _key, ...split }) => split);
+	return {
+		// biome-ignore lint/style/noNonNullAssertion: Every run keeps at least the first split
+		...alternatives[0]!,
+		alternatives,
+		runs: started,
+		iterations,
+		timedOut,
+	};
+}
+
+// Expand group placements back into teams of players
+function toTeams(
+	players: Player[],
+	groups: number[][],
+	teamGroups: number[][],
+): Team[] {
+	return teamGroups.map((team) => {
+		// biome-ignore lint/style/noNonNullAssertion: Group members are valid player indices
+		const members = team.flatMap((g) => groups[g]!).map((i) => players[i]!);
+		return {
+			players: members,
+			totalAdr: members.reduce((sum, p) => sum + p.adr, 0),
+		};
+	});
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { createRandom, optimizeTeams, type Player } from "../src/teamgen.js";
+import { optimizeTeams as baselineOptimizeTeams } from "./teamgen-baseline.js";
+
+// ADRs spread like a real lobby, with two decimals
+const createLobby = (size: number, seed: number): Player[] => {
+	const random = createRandom(seed);
+	return Array.from({ length: size }, (_, i) => ({
+		name: `P${i}`,
+		adr: Math.round((50 + random() * 70) * 100) / 100,
+	}));
+};
+
+describe("optimizer benchmark", () => {
+	// The service's defaults: 200 runs of up to 50 attempts without improvement
+	const RUNS = 200;
+	const PATIENCE = 50;
+
+	// A seeded search over fewer runs is a prefix of the longer one, so doubling budgets up to the full one
+	// show how much work a core needs before its best split is balanced enough
+	const BUDGETS = [1, 2, 4, 8, 16, 32, 64, 128, RUNS];
+
+	// Swap attempts of the smallest budget whose best split reaches `target`
+	const workToReach = (
+		results: { adrDiff: number; iterations: number }[],
+		target: number,
+	): number =>
+		results.find((result) => result.adrDiff <= target + 1e-9)?.iterations ??
+		Number.POSITIVE_INFINITY;
+
+	// Ten players are balanced within a few runs either way, where one run's patience is all the new core needs
+	const speedup: Record<number, number> = { 10: 2, 20: 10, 40: 10 };
+
+	// Wall-clock time in the Workers test runtime is shared with the other test files, so the test
+	// compares the work each core needs instead, which is deterministic for a seed. Running the previous
+	// core over every budget still takes seconds, hence the longer timeout.
+	for (const size of [10, 20, 40]) {
+		it(`should reach the previous core's balance with a fraction of the swap attempts for ${size} players`, () => {
+			const players = createLobby(size, size);
+			const baseline = BUDGETS.map((runs) =>
+				baselineOptimizeTeams(players, 5, PATIENCE, runs, [], createRandom(1)),
+			);
+			const current = BUDGETS.map((runs) =>
+				optimizeTeams(players, 5, PATIENCE, runs, [], createRandom(1)),
+			);
+
+			// Same budget: the new core is at least as balanced
+			// biome-ignore lint/style/noNonNullAssertion: BUDGETS ends with the full budget
+			const target = baseline[baseline.length - 1]!.adrDiff;
+			// biome-ignore lint/style/noNonNullAssertion: BUDGETS ends with the full budget
+			expect(current[current.length - 1]!.adrDiff).toBeLessThanOrEqual(
+				target + 1e-9,
+			);
+
+			// Same quality: the new core gets there with far fewer attempts, each of them cheaper
+			// since the totals are updated instead of summed again
+			expect(workToReach(current, target)).toBeLessThanOrEqual(
+				workToReach(baseline, target) / (speedup[size] ?? 1),
+			);
+		}, 30_000);
+	}
+});
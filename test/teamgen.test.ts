@@ -0,0 +1,626 @@
+import { describe, it, expect } from "vitest";
+import {
+	countRepeatPairings,
+	createObjective,
+	createRandom,
+	findConstraintConflict,
+	missingRoles,
+	optimizeTeams,
+	type PairConstraint,
+	type Player,
+	planSwaps,
+	playerConfidence,
+	randomTeams,
+	scoreObjectives,
+	solveTeamsExact,
+	splitKey,
+	type Team,
+	uncertaintySpread,
+	withConfidenceSpread,
+	withRepeatPairPenalty,
+	withRoleCoverage,
+} from "../src/teamgen.js";
+
+const createPlayers = (adrs: number[]): Player[] =>
+	adrs.map((adr, i) => ({ name: `P${i}`, adr }));
+
+const toTeam = (players: Player[]): Team => ({
+	players,
+	totalAdr: players.reduce((sum, p) => sum + p.adr, 0),
+});
+
+const teamIndexOf = (teams: { players: Player[] }[], name: string) =>
+	teams.findIndex((t) => t.players.some((p) => p.name === name));
+
+describe("teamgen", () => {
+	describe("createRandom", () => {
+		it("should produce the same sequence for the same seed", () => {
+			const a = createRandom(1234);
+			const b = createRandom(1234);
+
+			const sequence = Array.from({ length: 5 }, () => a());
+
+			expect(Array.from({ length: 5 }, () => b())).toEqual(sequence);
+			expect(sequence.every((n) => n >= 0 && n < 1)).toBe(true);
+		});
+
+		it("should produce different sequences for different seeds", () => {
+			expect(createRandom(1)()).not.toBe(createRandom(2)());
+		});
+	});
+
+	describe("objectives", () => {
+		// Equal totals, but both top players share TEAM1
+		const stacked = [
+			toTeam(createPlayers([120, 110, 20, 30])),
+			toTeam(createPlayers([70, 70, 60, 80])),
+		];
+
+		it("should score every component of a split", () => {
+			expect(scoreObjectives(stacked)).toEqual({
+				total_diff: 0,
+				spread_variance: 1600, // spreads of 100 and 20 around a mean of 60
+				star_distribution: 1,
+			});
+		});
+
+		it("should combine components with the given weights", () => {
+			const objective = createObjective("weighted", {
+				total_diff: 1,
+				spread_variance: 0,
+				star_distribution: 10,
+			});
+
+			expect(objective(stacked)).toBe(10);
+		});
+
+		it("should split the top players under star distribution", () => {
+			const players = createPlayers([120, 110, 70, 70, 70, 60, 30, 20]);
+
+			const result = optimizeTeams(
+				players,
+				4,
+				200,
+				20,
+				[],
+				Math.random,
+				createObjective("star_distribution"),
+			);
+
+			expect(teamIndexOf(result.teams, "P0")).not.toBe(
+				teamIndexOf(result.teams, "P1"),
+			);
+			expect(result.score).toBe(0);
+		});
+	});
+
+	describe("role coverage", () => {
+		const awp = (name: string, adr: number): Player => ({
+			name,
+			adr,
+			roles: ["awp"],
+		});
+		const igl = (name: string, adr: number): Player => ({
+			name,
+			adr,
+			roles: ["igl"],
+		});
+
+		it("should list the required roles a team is missing", () => {
+			const team = toTeam([awp("A", 80), { name: "B", adr: 70 }]);
+
+			expect(missingRoles(team, ["awp", "igl"])).toEqual(["igl"]);
+		});
+
+		it("should give each team an AWP and an IGL when possible", () => {
+			// Balance alone would pair both AWPs (80 + 40) against both IGLs (70 + 50)
+			const players = [
+				awp("A1", 80),
+				awp("A2", 40),
+				igl("I1", 70),
+				igl("I2", 50),
+			];
+			const objective = withRoleCoverage(
+				createObjective("total_diff"),
+				["awp", "igl"],
+				1_000_000,
+			);
+
+			const result = optimizeTeams(
+				players,
+				2,
+				200,
+				10,
+				[],
+				Math.random,
+				objective,
+			);
+
+			for (const team of result.teams) {
+				expect(missingRoles(team, ["awp", "igl"])).toEqual([]);
+			}
+		});
+	});
+
+	describe("repeat pairings", () => {
+		it("should count recent teammates who share a team again", () => {
+			const players = createPlayers([80, 70, 60, 50]);
+			const teams = [
+				toTeam([players[0]!, players[1]!]),
+				toTeam([players[2]!, players[3]!]),
+			];
+
+			expect(
+				countRepeatPairings(teams, players, [
+					{ a: 0, b: 1, count: 2 },
+					{ a: 0, b: 2, count: 1 },
+				]),
+			).toBe(1);
+		});
+
+		it("should split recent teammates when the penalty outweighs balance", () => {
+			// P0 + P3 against P1 + P2 is perfectly balanced, but P0 and P3 just played together
+			const players = createPlayers([80, 70, 60, 50]);
+			const pairings = [{ a: 0, b: 3, count: 1 }];
+			const objective = withRepeatPairPenalty(
+				createObjective("total_diff"),
+				players,
+				pairings,
+				50,
+			);
+
+			const result = optimizeTeams(
+				players,
+				2,
+				200,
+				10,
+				[],
+				Math.random,
+				objective,
+			);
+
+			expect(countRepeatPairings(result.teams, players, pairings)).toBe(0);
+			expect(result.adrDiff).toBe(20);
+		});
+	});
+
+	describe("confidence", () => {
+		it("should grow with tournaments played until it is full", () => {
+			expect(playerConfidence(0)).toBe(0);
+			expect(playerConfidence(1)).toBeCloseTo(1 / 3);
+			expect(playerConfidence(3)).toBe(1);
+			expect(playerConfidence(8)).toBe(1);
+		});
+
+		it("should measure how unevenly uncertain players are spread", () => {
+			const [a, b, c, d] = createPlayers([80, 70, 60, 50]);
+			const newcomer = (p: Player): Player => ({ ...p, confidence: 0 });
+
+			expect(
+				uncertaintySpread([
+					toTeam([newcomer(a!), newcomer(b!)]),
+					toTeam([c!, d!]),
+				]),
+			).toBe(2);
+			expect(
+				uncertaintySpread([
+					toTeam([newcomer(a!), c!]),
+					toTeam([newcomer(b!), d!]),
+				]),
+			).toBe(0);
+		});
+
+		it("should split newcomers when the penalty outweighs balance", () => {
+			// P0 + P3 against P1 + P2 is perfectly balanced, but P0 and P3 are both newcomers
+			const players = createPlayers([80, 70, 60, 50]).map((p, i) => ({
+				...p,
+				confidence: i === 0 || i === 3 ? 0 : 1,
+			}));
+			const objective = withConfidenceSpread(createObjective("total_diff"), 25);
+
+			const result = optimizeTeams(
+				players,
+				2,
+				200,
+				10,
+				[],
+				Math.random,
+				objective,
+			);
+
+			expect(uncertaintySpread(result.teams)).toBe(0);
+			expect(result.adrDiff).toBe(20);
+		});
+	});
+
+	describe("alternative splits", () => {
+		it("should identify a split regardless of team order", () => {
+			const players = createPlayers([80, 70, 60, 50]);
+			const split = [
+				toTeam([players[0]!, players[3]!]),
+				toTeam([players[1]!, players[2]!]),
+			];
+			const relabeled = [
+				toTeam([players[2]!, players[1]!]),
+				toTeam([players[3]!, players[0]!]),
+			];
+
+			expect(splitKey(relabeled, players)).toBe(splitKey(split, players));
+		});
+
+		it("should return distinct splits best first", () => {
+			// Four players only split three ways into two teams of two
+			const players = createPlayers([80, 70, 60, 50]);
+
+			const result = optimizeTeams(
+				players,
+				2,
+				0, // keep every starting split, so all three come up
+				200,
+				[],
+				createRandom(7),
+				undefined,
+				5,
+			);
+
+			expect(result.alternatives.map((a) => a.adrDiff)).toEqual([0, 20, 40]);
+			const keys = result.alternatives.map((a) => splitKey(a.teams, players));
+			expect(new Set(keys).size).toBe(3);
+			expect(result.teams).toBe(result.alternatives[0]?.teams);
+		});
+
+		it("should only keep the best split by default", () => {
+			const players = createPlayers([80, 70, 60, 50]);
+
+			const result = optimizeTeams(players, 2, 10, 20);
+
+			expect(result.alternatives).toHaveLength(1);
+			expect(result.adrDiff).toBe(0);
+		});
+	});
+
+	describe("time budget", () => {
+		const players = createPlayers([
+			110, 100, 95, 90, 80, 75, 70, 65, 60, 50, 45, 40,
+		]);
+
+		// A clock that advances one millisecond every time it is read
+		const tickingClock = () => {
+			let time = 0;
+			return () => time++;
+		};
+
+		it("should run to completion without a deadline", () => {
+			const result = optimizeTeams(players, 3, 20, 8, [], createRandom(1));
+
+			expect(result.runs).toBe(8);
+			expect(result.timedOut).toBe(false);
+			// Each run tries at least maxNoImprovement swaps before giving up
+			expect(result.iterations).toBeGreaterThanOrEqual(8 * 20);
+		});
+
+		it("should stop at the deadline and keep the best split so far", () => {
+			const result = optimizeTeams(
+				players,
+				3,
+				20,
+				Number.POSITIVE_INFINITY,
+				[],
+				createRandom(1),
+				undefined,
+				1,
+				500,
+				tickingClock(),
+			);
+
+			expect(result.timedOut).toBe(true);
+			expect(result.runs).toBeGreaterThan(1);
+			expect(result.iterations).toBeLessThan(500);
+			expect(result.teams).toHaveLength(4);
+			expect(result.teams.every((t) => t.players.length === 3)).toBe(true);
+		});
+
+		it("should still return a split when the deadline has already passed", () => {
+			const result = optimizeTeams(
+				players,
+				3,
+				20,
+				100,
+				[],
+				createRandom(1),
+				undefined,
+				1,
+				0,
+				tickingClock(),
+			);
+
+			expect(result).toMatchObject({ runs: 1, iterations: 0, timedOut: true });
+			expect(result.teams.flatMap((t) => t.players)).toHaveLength(12);
+		});
+	});
+
+	describe("optimizeTeams", () => {
+		it("should reproduce the same split for the same seed", () => {
+			const players = createPlayers([
+				110, 100, 95, 90, 80, 75, 70, 65, 60, 50, 45, 40,
+			]);
+			const names = (teams: { players: Player[] }[]) =>
+				teams.map((t) => t.players.map((p) => p.name));
+
+			const first = optimizeTeams(players, 3, 50, 5, [], createRandom(99));
+			const second = optimizeTeams(players, 3, 50, 5, [], createRandom(99));
+
+			expect(names(second.teams)).toEqual(names(first.teams));
+			expect(second.adrDiff).toBe(first.adrDiff);
+		});
+
+		it("should find a balanced split without constraints", () => {
+			const players = createPlayers([100, 90, 80, 70, 60, 50]);
+
+			const result = optimizeTeams(players, 3, 200, 20);
+
+			expect(result.teams).toHaveLength(2);
+			expect(result.teams.every((t) => t.players.length === 3)).toBe(true);
+			expect(result.adrDiff).toBe(10);
+		});
+
+		it("should keep together-constrained players on the same team", () => {
+			// P0 and P1 are the two strongest players, so balance alone would split them
+			const players = createPlayers([100, 95, 60, 55, 50, 45]);
+			const constraints: PairConstraint[] = [{ a: 0, b: 1, type: "together" }];
+
+			for (let attempt = 0; attempt < 5; attempt++) {
+				const result = optimizeTeams(players, 3, 200, 10, constraints);
+
+				expect(teamIndexOf(result.teams, "P0")).toBe(
+					teamIndexOf(result.teams, "P1"),
+				);
+				expect(result.teams.every((t) => t.players.length === 3)).toBe(true);
+			}
+		});
+
+		it("should keep apart-constrained players on different teams", () => {
+			// P0 and P5 are the strongest and weakest, so balance alone would pair them
+			const players = createPlayers([100, 80, 75, 70, 65, 40]);
+			const constraints: PairConstraint[] = [{ a: 0, b: 5, type: "apart" }];
+
+			for (let attempt = 0; attempt < 5; attempt++) {
+				const result = optimizeTeams(players, 3, 200, 10, constraints);
+
+				expect(teamIndexOf(result.teams, "P0")).not.toBe(
+					teamIndexOf(result.teams, "P5"),
+				);
+			}
+		});
+
+		it("should move together groups as a unit across several teams", () => {
+			const players = createPlayers([90, 85, 80, 75, 70, 65, 60, 55, 50]);
+			const constraints: PairConstraint[] = [
+				{ a: 0, b: 1, type: "together" },
+				{ a: 1, b: 2, type: "together" },
+				{ a: 3, b: 4, type: "together" },
+				{ a: 0, b: 3, type: "apart" },
+			];
+
+			const result = optimizeTeams(players, 3, 200, 10, constraints);
+			const team0 = teamIndexOf(result.teams, "P0");
+
+			expect(teamIndexOf(result.teams, "P1")).toBe(team0);
+			expect(teamIndexOf(result.teams, "P2")).toBe(team0);
+			expect(teamIndexOf(result.teams, "P3")).toBe(
+				teamIndexOf(result.teams, "P4"),
+			);
+			expect(teamIndexOf(result.teams, "P3")).not.toBe(team0);
+		});
+	});
+
+	describe("planSwaps", () => {
+		it("should settle an unbalanced lineup with a single swap", () => {
+			const players = createPlayers([100, 90, 50, 40]);
+
+			const plan = planSwaps(players, [
+				[0, 1],
+				[2, 3],
+			]);
+
+			expect(plan.swaps).toEqual([{ a: 0, b: 2 }]);
+			expect(plan.adrDiff).toBe(0);
+		});
+
+		it("should suggest nothing when no swap helps", () => {
+			const players = createPlayers([100, 90, 50, 40]);
+
+			const plan = planSwaps(players, [
+				[0, 3],
+				[1, 2],
+			]);
+
+			expect(plan.swaps).toEqual([]);
+			expect(plan.adrDiff).toBe(0);
+		});
+
+		it("should leave fixed players on their teams", () => {
+			const players = createPlayers([100, 90, 50, 40]);
+
+			const plan = planSwaps(
+				players,
+				[
+					[0, 1],
+					[2, 3],
+				],
+				new Set([0, 2]),
+			);
+
+			expect(plan.swaps).toEqual([{ a: 1, b: 3 }]);
+			expect(plan.adrDiff).toBe(0);
+		});
+	});
+
+	describe("randomTeams", () => {
+		it("should reproduce the same split for the same seed", () => {
+			const players = createPlayers([90, 80, 70, 60, 50, 40]);
+
+			const first = randomTeams(players, 3, [], createRandom(9));
+			const second = randomTeams(players, 3, [], createRandom(9));
+
+			expect(first).not.toBeNull();
+			expect(splitKey(first!, players)).toBe(splitKey(second!, players));
+			expect(first!.map((t) => t.players.length)).toEqual([3, 3]);
+		});
+
+		it("should keep pair constraints whatever the seed", () => {
+			const players = createPlayers([90, 80, 70, 60]);
+			const constraints: PairConstraint[] = [
+				{ a: 0, b: 1, type: "together" },
+				{ a: 0, b: 2, type: "apart" },
+			];
+
+			for (let seed = 0; seed < 20; seed++) {
+				const teams = randomTeams(players, 2, constraints, createRandom(seed))!;
+				expect(teamIndexOf(teams, "P0")).toBe(teamIndexOf(teams, "P1"));
+				expect(teamIndexOf(teams, "P0")).not.toBe(teamIndexOf(teams, "P2"));
+			}
+		});
+
+		it("should return null when the constraints can't be met", () => {
+			const players = createPlayers([90, 80, 70, 60]);
+
+			expect(
+				randomTeams(
+					players,
+					2,
+					[
+						{ a: 0, b: 1, type: "together" },
+						{ a: 0, b: 2, type: "together" },
+					],
+					createRandom(1),
+				),
+			).toBeNull();
+		});
+	});
+
+	describe("solveTeamsExact", () => {
+		it("should find the optimal split and prove it", () => {
+			// Best split is {100, 40, 30} vs {80, 50, 45}: 170 vs 175
+			const players = createPlayers([100, 80, 50, 45, 40, 30]);
+
+			const result = solveTeamsExact(players, 3);
+
+			expect(result?.optimal).toBe(true);
+			expect(result?.adrDiff).toBe(5);
+			expect(result?.teams.every((t) => t.players.length === 3)).toBe(true);
+		});
+
+		it("should match or beat the heuristic across several teams", () => {
+			const players = createPlayers([
+				97.5, 91.2, 88.8, 84.1, 80, 76.3, 72.9, 70.4, 66.6, 61.2, 58.8, 50.5,
+			]);
+
+			const exact = solveTeamsExact(players, 3);
+			const heuristic = optimizeTeams(players, 3, 200, 20);
+
+			expect(exact?.optimal).toBe(true);
+			expect(exact?.adrDiff).toBeLessThanOrEqual(heuristic.adrDiff + 1e-9);
+		});
+
+		it("should respect pairing constraints", () => {
+			const players = createPlayers([100, 95, 60, 55, 50, 45]);
+
+			const result = solveTeamsExact(players, 3, [
+				{ a: 0, b: 1, type: "together" },
+			]);
+
+			expect(result?.optimal).toBe(true);
+			expect(teamIndexOf(result?.teams ?? [], "P0")).toBe(
+				teamIndexOf(result?.teams ?? [], "P1"),
+			);
+		});
+
+		it("should report an unfinished search as not optimal", () => {
+			const players = createPlayers([
+				97.5, 91.2, 88.8, 84.1, 80, 76.3, 72.9, 70.4, 66.6, 61.2,
+			]);
+
+			const result = solveTeamsExact(players, 5, [], 5);
+
+			expect(result?.optimal).not.toBe(true);
+		});
+
+		it("should stop at the deadline with the best split so far", () => {
+			const players = createPlayers(
+				Array.from({ length: 20 }, (_, i) => 50 + ((i * 37) % 50)),
+			);
+
+			const result = solveTeamsExact(
+				players,
+				5,
+				[],
+				undefined,
+				1000,
+				() => 1000,
+			);
+
+			expect(result?.optimal).toBe(false);
+			expect(result?.teams).toHaveLength(4);
+		});
+
+		it("should return null when no split satisfies the constraints", () => {
+			const players = createPlayers([100, 90, 80, 70]);
+
+			expect(
+				solveTeamsExact(players, 2, [
+					{ a: 0, b: 1, type: "together" },
+					{ a: 0, b: 1, type: "apart" },
+				]),
+			).toBeNull();
+		});
+	});
+
+	describe("findConstraintConflict", () => {
+		it("should return null when the constraints can be satisfied", () => {
+			expect(
+				findConstraintConflict(4, 2, [
+					{ a: 0, b: 1, type: "together" },
+					{ a: 0, b: 2, type: "apart" },
+				]),
+			).toBeNull();
+		});
+
+		it("should report a together group larger than a team", () => {
+			const conflict = findConstraintConflict(6, 2, [
+				{ a: 0, b: 1, type: "together" },
+				{ a: 1, b: 2, type: "together" },
+			]);
+
+			expect(conflict?.constraint).toEqual({ a: 1, b: 2, type: "together" });
+			expect(conflict?.reason).toBe("it would put 3 players on one team of 2");
+		});
+
+		it("should report an apart rule between players linked together", () => {
+			const conflict = findConstraintConflict(6, 3, [
+				{ a: 0, b: 1, type: "together" },
+				{ a: 1, b: 2, type: "together" },
+				{ a: 0, b: 2, type: "apart" },
+			]);
+
+			expect(conflict?.constraint).toEqual({ a: 0, b: 2, type: "apart" });
+			expect(conflict?.reason).toBe(
+				"the players are already linked by together constraints",
+			);
+		});
+
+		it("should report the rule that makes packing impossible", () => {
+			// Three players who must all be apart cannot fit into two teams
+			const conflict = findConstraintConflict(4, 2, [
+				{ a: 0, b: 1, type: "apart" },
+				{ a: 1, b: 2, type: "apart" },
+				{ a: 0, b: 2, type: "apart" },
+			]);
+
+			expect(conflict?.constraint).toEqual({ a: 0, b: 2, type: "apart" });
+			expect(conflict?.reason).toBe(
+				"no valid split satisfies it together with the other constraints",
+			);
+		});
+	});
+});
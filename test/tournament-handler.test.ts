@@ -25,9 +25,15 @@ const mockTournamentService = {
 	unlockPlayerAdr: vi.fn(),
 	getPlayerAdrs: vi.fn(),
 	generateTeams: vi.fn(),
+	chooseSplit: vi.fn(),
+	startDraft: vi.fn(),
+	getDraft: vi.fn(),
+	pickDraftPlayer: vi.fn(),
+	getBench: vi.fn(),
 	lockTeams: vi.fn(),
 	unlockTeams: vi.fn(),
 	getTeams: vi.fn(),
+	getTeamDiagnostics: vi.fn(),
 	recordMatch: vi.fn(),
 	teamsExist: vi.fn(),
 	areTeamsLocked: vi.fn(),
@@ -93,6 +99,7 @@ vi.mock("../src/utils/discord-middleware", () => ({
 }));
 
 import { getDiscordBody } from "../src/utils/discord-middleware";
+import { TournamentService } from "../src/services/tournament";
 
 describe("Tournament Command Handler", () => {
 	let app: Hono<{ Bindings: typeof mockEnv }>;
@@ -581,7 +588,21 @@ describe("Tournament Command Handler", () => {
 			];
 
 			mockPermissionService.requireAdminPermission.mockResolvedValue(undefined);
-			mockTournamentService.generateTeams.mockResolvedValue(mockTeams);
+			mockTournamentService.generateTeams.mockResolvedValue({
+				teams: mockTeams,
+				adr_difference: 0,
+				proven_optimal: true,
+				seed: 1234,
+				objective: "total_diff",
+				role_gaps: [],
+				objective_scores: {
+					total_diff: 0,
+					spread_variance: 0,
+					star_distribution: 0,
+				},
+				repeat_pairings: 0,
+				options: [],
+			});
 
 			const commandInteraction = {
 				type: DISCORD_INTERACTION_TYPES.APPLICATION_COMMAND,
@@ -684,6 +705,223 @@ describe("Tournament Command Handler", () => {
 		});
 	});
 
+	describe("Split Option Buttons", () => {
+		const buttonInteraction = (customId: string) => ({
+			type: DISCORD_INTERACTION_TYPES.MESSAGE_COMPONENT,
+			id: "test-id",
+			application_id: "test-app-id",
+			token: "test-token",
+			version: 1,
+			guild_id: "test-guild",
+			channel_id: "test-channel",
+			data: { custom_id: customId, component_type: 2 },
+			member: {
+				user: { id: "admin-123", username: "admin" },
+				roles: ["123456789"],
+				joined_at: "2023-01-01T00:00:00Z",
+			},
+		});
+
+		it("should save the picked split and replace the options message", async () => {
+			mockPermissionService.requireAdminPermission.mockResolvedValue(undefined);
+			mockTournamentService.chooseSplit.mockResolvedValue([
+				{
+					team_id: "TEAM1",
+					players: [
+						{
+							player_id: "player1",
+							username: "Player1",
+							adr: 85.5,
+							adr_locked: false,
+							status: "submitted",
+						},
+					],
+					average_adr: 85.5,
+					locked: false,
+					seed: 1234,
+				},
+			]);
+			mockTournamentService.getBench.mockResolvedValue([]);
+
+			const interaction = buttonInteraction("t:split:1234:2");
+			vi.mocked(getDiscordBody).mockReturnValue(interaction);
+
+			const response = await app.request(
+				"/webhook",
+				{
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify(interaction),
+				},
+				mockEnv,
+			);
+
+			expect(response.status).toBe(200);
+			const responseData =
+				(await response.json()) as DiscordInteractionResponse;
+
+			expect(mockTournamentService.chooseSplit).toHaveBeenCalledWith(1234, 2);
+			// Only the tournament of the channel the button was clicked in is touched
+			expect(vi.mocked(TournamentService).mock.calls[0]?.[7]).toEqual({
+				guildId: "test-guild",
+				channelId: "test-channel",
+			});
+			expect(responseData.type).toBe(DISCORD_RESPONSE_TYPES.UPDATE_MESSAGE);
+			expect(responseData.data?.content).toContain("Option 2 picked!");
+			expect(responseData.data?.components).toEqual([]);
+		});
+
+		it("should reject a malformed split button", async () => {
+			mockPermissionService.requireAdminPermission.mockResolvedValue(undefined);
+
+			const interaction = buttonInteraction("t:split:abc:9");
+			vi.mocked(getDiscordBody).mockReturnValue(interaction);
+
+			const response = await app.request(
+				"/webhook",
+				{
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify(interaction),
+				},
+				mockEnv,
+			);
+
+			const responseData =
+				(await response.json()) as DiscordInteractionResponse;
+
+			expect(mockTournamentService.chooseSplit).not.toHaveBeenCalled();
+			expect(responseData.data?.embeds?.[0]?.title).toBe("Validation Error");
+		});
+
+		it("should refuse a button clicked outside a server", async () => {
+			const interaction = {
+				...buttonInteraction("t:split:1234:2"),
+				guild_id: undefined,
+			};
+			vi.mocked(getDiscordBody).mockReturnValue(interaction);
+
+			const response = await app.request(
+				"/webhook",
+				{
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify(interaction),
+				},
+				mockEnv,
+			);
+
+			const responseData =
+				(await response.json()) as DiscordInteractionResponse;
+
+			expect(mockTournamentService.chooseSplit).not.toHaveBeenCalled();
+			expect(responseData.data?.embeds?.[0]?.description).toContain(
+				"only be run in a server channel",
+			);
+		});
+	});
+
+	describe("Draft Buttons", () => {
+		const player = (id: string, adr: number) => ({
+			player_id: id,
+			username: id,
+			adr,
+			adr_locked: false,
+			status: "submitted",
+		});
+		const captain1 = player("captain-1", 110);
+		const captain2 = player("captain-2", 105);
+		const board = {
+			order: "snake",
+			teams: [
+				{ team_id: "TEAM1", captain: captain1, players: [] },
+				{ team_id: "TEAM2", captain: captain2, players: [] },
+			],
+			available: [player("player1", 90), player("player2", 80)],
+			pick_number: 1,
+			total_picks: 2,
+			on_the_clock: { team_id: "TEAM1", captain: captain1, players: [] },
+			complete: false,
+		};
+
+		const pickInteraction = (userId: string, customId: string) => ({
+			type: DISCORD_INTERACTION_TYPES.MESSAGE_COMPONENT,
+			id: "test-id",
+			application_id: "test-app-id",
+			token: "test-token",
+			version: 1,
+			guild_id: "test-guild",
+			channel_id: "test-channel",
+			data: { custom_id: customId, component_type: 2 },
+			member: {
+				user: { id: userId, username: userId },
+				roles: [],
+				joined_at: "2023-01-01T00:00:00Z",
+			},
+		});
+
+		const click = async (interaction: ReturnType<typeof pickInteraction>) => {
+			vi.mocked(getDiscordBody).mockReturnValue(interaction);
+			const response = await app.request(
+				"/webhook",
+				{
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify(interaction),
+				},
+				mockEnv,
+			);
+			return (await response.json()) as DiscordInteractionResponse;
+		};
+
+		it("should let the captain on the clock pick and show the next pick", async () => {
+			mockTournamentService.getDraft.mockResolvedValue(board);
+			mockTournamentService.pickDraftPlayer.mockResolvedValue({
+				...board,
+				teams: [
+					{
+						team_id: "TEAM1",
+						captain: captain1,
+						players: [player("player1", 90)],
+					},
+					board.teams[1],
+				],
+				available: [player("player2", 80)],
+				pick_number: 2,
+				on_the_clock: board.teams[1],
+			});
+
+			const responseData = await click(
+				pickInteraction("captain-1", "t:draft:1:player1"),
+			);
+
+			expect(
+				mockPermissionService.requireAdminPermission,
+			).not.toHaveBeenCalled();
+			expect(mockTournamentService.pickDraftPlayer).toHaveBeenCalledWith(
+				1,
+				"player1",
+			);
+			expect(responseData.type).toBe(DISCORD_RESPONSE_TYPES.UPDATE_MESSAGE);
+			expect(responseData.data?.content).toContain("Pick 2 of 2");
+			expect(responseData.data?.components?.[0]?.components).toEqual([
+				expect.objectContaining({ custom_id: "t:draft:2:player2" }),
+			]);
+		});
+
+		it("should require admin permission from anyone else", async () => {
+			mockTournamentService.getDraft.mockResolvedValue(board);
+			mockPermissionService.requireAdminPermission.mockRejectedValue(
+				new Error("Admin only"),
+			);
+
+			await click(pickInteraction("captain-2", "t:draft:1:player1"));
+
+			expect(mockPermissionService.requireAdminPermission).toHaveBeenCalled();
+			expect(mockTournamentService.pickDraftPlayer).not.toHaveBeenCalled();
+		});
+	});
+
 	describe("Show Teams Command", () => {
 		it("should display teams", async () => {
 			mockTournamentService.teamsExist.mockResolvedValue(true);
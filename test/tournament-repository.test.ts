@@ -19,6 +19,8 @@ const mockD1: D1Database = {
 	exec: () => Promise.resolve({ count: 0, duration: 0 }),
 } as any;
 
+const scope = { guildId: "guild1", channelId: "channel1" };
+
 describe("TournamentRepository", () => {
 	let db: ReturnType<typeof createDatabase>;
 	let tournamentRepo: TournamentRepository;
@@ -37,7 +39,7 @@ describe("TournamentRepository", () => {
 			db.insert = () => mockInsert as any;
 
 			await expect(
-				tournamentRepo.createTournament("2025-08-30-1"),
+				tournamentRepo.createTournament("2025-08-30-1", scope),
 			).resolves.not.toThrow();
 		});
 
@@ -48,7 +50,7 @@ describe("TournamentRepository", () => {
 			};
 
 			await expect(
-				tournamentRepo.createTournament("2025-08-30-1"),
+				tournamentRepo.createTournament("2025-08-30-1", scope),
 			).rejects.toThrow("Failed to create tournament");
 		});
 	});
@@ -71,7 +73,7 @@ describe("TournamentRepository", () => {
 			};
 			db.select = () => mockSelect as any;
 
-			const result = await tournamentRepo.getOpenTournament();
+			const result = await tournamentRepo.getOpenTournament(scope);
 			expect(result).toEqual(mockTournament);
 		});
 
@@ -86,7 +88,7 @@ describe("TournamentRepository", () => {
 			};
 			db.select = () => mockSelect as any;
 
-			const result = await tournamentRepo.getOpenTournament();
+			const result = await tournamentRepo.getOpenTournament(scope);
 			expect(result).toBeNull();
 		});
 
@@ -95,7 +97,7 @@ describe("TournamentRepository", () => {
 				throw new Error("Database error");
 			};
 
-			await expect(tournamentRepo.getOpenTournament()).rejects.toThrow(
+			await expect(tournamentRepo.getOpenTournament(scope)).rejects.toThrow(
 				"Failed to get open tournament",
 			);
 		});
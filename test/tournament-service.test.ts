@@ -22,6 +22,8 @@ const mockTournamentRepo = {
 	generateTournamentId: vi.fn(),
 	tournamentExists: vi.fn(),
 	getTournamentStatus: vi.fn(),
+	setTeamMode: vi.fn(),
+	setRegistrationLocked: vi.fn(),
 } as unknown as TournamentRepository;
 
 const mockPlayerRepo = {
@@ -33,6 +35,22 @@ const mockPlayerRepo = {
 	setPlayerAdrLock: vi.fn(),
 	isPlayerAdrLocked: vi.fn(),
 	getPlayersWithoutAdr: vi.fn(),
+	setBenchedPlayers: vi.fn(),
+	addSitOuts: vi.fn(),
+	setPlayerBenched: vi.fn(),
+	setPremadeGroup: vi.fn(),
+	setPinnedTeam: vi.fn(),
+	setPairConstraint: vi.fn(),
+	removePairConstraint: vi.fn(),
+	getPairConstraints: vi.fn(),
+	updateRoles: vi.fn(),
+	getRatings: vi.fn(),
+	updateRatings: vi.fn(),
+	resetRatings: vi.fn(),
+	getTopRatedPlayers: vi.fn(),
+	isPlayerInTournament: vi.fn(),
+	joinTournament: vi.fn(),
+	leaveTournament: vi.fn(),
 } as unknown as PlayerRepository;
 
 const mockTeamRepo = {
@@ -45,6 +63,21 @@ const mockTeamRepo = {
 	teamsExist: vi.fn(),
 	areTeamsLocked: vi.fn(),
 	validateTeamIds: vi.fn(),
+	getRecentTeammates: vi.fn(),
+	saveSplitOptions: vi.fn(),
+	getSplitOption: vi.fn(),
+	clearSplitOptions: vi.fn(),
+	saveTeamDiagnostics: vi.fn(),
+	getTeamDiagnostics: vi.fn(),
+	saveDraft: vi.fn(),
+	getDraft: vi.fn(),
+	addDraftPick: vi.fn(),
+	deleteDraft: vi.fn(),
+	getTeamCompositionsForMatch: vi.fn(),
+	exchangePlayers: vi.fn(),
+	getTeamLobbies: vi.fn(),
+	saveMixRound: vi.fn(),
+	getLatestMixRound: vi.fn(),
 } as unknown as TeamRepository;
 
 const mockMatchRepo = {
@@ -55,10 +88,18 @@ const mockMatchRepo = {
 	getTeamStats: vi.fn(),
 	validateTeamsExist: vi.fn(),
 	getTournamentSummary: vi.fn(),
+	getGamesPlayed: vi.fn(),
+	getAdrHistory: vi.fn(),
+	getTournamentsPlayed: vi.fn(),
+	captureMatchTeamComposition: vi.fn(),
+	getMatchTeamComposition: vi.fn(),
+	getMatchHistory: vi.fn(),
 } as unknown as MatchRepository;
 
 const mockTeamGenService = {
 	generateBalancedTeams: vi.fn(),
+	generateRandomTeams: vi.fn(),
+	generatePremadeTeams: vi.fn(),
 	getConfiguration: vi.fn(),
 } as unknown as TeamGenerationService;
 
@@ -69,6 +110,8 @@ const mockPermissionService = {
 	getAdminRoleIds: vi.fn(),
 } as unknown as PermissionService;
 
+const scope = { guildId: "guild1", channelId: "channel1" };
+
 describe("TournamentService - Foundation", () => {
 	let tournamentService: TournamentService;
 
@@ -82,6 +125,7 @@ describe("TournamentService - Foundation", () => {
 			mockTeamGenService,
 			mockPermissionService,
 			"UTC",
+			scope,
 		);
 	});
 
@@ -91,7 +135,20 @@ describe("TournamentService - Foundation", () => {
 			const expectedId = `${expectedDate}-1`;
 			const mockTournament: Tournament = {
 				id: expectedId,
+				guildId: "guild1",
+				channelId: "channel1",
 				status: "open",
+				teamSize: 5,
+				benchPriority: null,
+				objective: "total_diff",
+				roleCoverage: "off",
+				varietyLookback: 0,
+				varietyWeight: 10,
+				balanceMetric: "adr",
+				teamMode: "balanced",
+				adrSource: "raw",
+				adrDecay: 0.5,
+				format: "teams",
 				createdAt: `${expectedDate}T10:00:00Z`,
 			};
 
@@ -110,21 +167,77 @@ describe("TournamentService - Foundation", () => {
 
 			expect(result).toEqual(mockTournament);
 			expect(mockTournamentRepo.getOpenTournament).toHaveBeenCalledOnce();
+			expect(mockTournamentRepo.getOpenTournament).toHaveBeenCalledWith(scope);
 			expect(mockTournamentRepo.generateTournamentId).toHaveBeenCalledWith(
 				expectedDate,
 			);
 			expect(mockTournamentRepo.createTournament).toHaveBeenCalledWith(
 				expectedId,
+				scope,
+				{},
 			);
 			expect(mockTournamentRepo.getTournamentById).toHaveBeenCalledWith(
 				expectedId,
 			);
 		});
 
+		it("should create a tournament with a custom team size", async () => {
+			const expectedDate = new Date().toISOString().split("T")[0];
+			const expectedId = `${expectedDate}-1`;
+			const mockTournament: Tournament = {
+				id: expectedId,
+				guildId: "guild1",
+				channelId: "channel1",
+				status: "open",
+				teamSize: 2,
+				benchPriority: null,
+				objective: "total_diff",
+				roleCoverage: "off",
+				varietyLookback: 0,
+				varietyWeight: 10,
+				balanceMetric: "adr",
+				teamMode: "balanced",
+				adrSource: "raw",
+				adrDecay: 0.5,
+				format: "teams",
+				createdAt: `${expectedDate}T10:00:00Z`,
+			};
+
+			vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue(null);
+			vi.mocked(mockTournamentRepo.generateTournamentId).mockResolvedValue(
+				expectedId,
+			);
+			vi.mocked(mockTournamentRepo.getTournamentById).mockResolvedValue(
+				mockTournament,
+			);
+
+			const result = await tournamentService.openTournament({ teamSize: 2 });
+
+			expect(result.teamSize).toBe(2);
+			expect(mockTournamentRepo.createTournament).toHaveBeenCalledWith(
+				expectedId,
+				scope,
+				{ teamSize: 2 },
+			);
+		});
+
 		it("should throw error when tournament is already open", async () => {
 			const existingTournament: Tournament = {
 				id: "2025-08-31-1",
+				guildId: "guild1",
+				channelId: "channel1",
 				status: "open",
+				teamSize: 5,
+				benchPriority: null,
+				objective: "total_diff",
+				roleCoverage: "off",
+				varietyLookback: 0,
+				varietyWeight: 10,
+				balanceMetric: "adr",
+				teamMode: "balanced",
+				adrSource: "raw",
+				adrDecay: 0.5,
+				format: "teams",
 				createdAt: "2025-08-31T09:00:00Z",
 			};
 
@@ -165,7 +278,20 @@ describe("TournamentService - Foundation", () => {
 		it("should close an open tournament", async () => {
 			const openTournament: Tournament = {
 				id: "2025-08-31-1",
+				guildId: "guild1",
+				channelId: "channel1",
 				status: "open",
+				teamSize: 5,
+				benchPriority: null,
+				objective: "total_diff",
+				roleCoverage: "off",
+				varietyLookback: 0,
+				varietyWeight: 10,
+				balanceMetric: "adr",
+				teamMode: "balanced",
+				adrSource: "raw",
+				adrDecay: 0.5,
+				format: "teams",
 				createdAt: "2025-08-31T10:00:00Z",
 			};
 
@@ -222,7 +348,20 @@ describe("TournamentService - Foundation", () => {
 		it("should return tournament status with statistics", async () => {
 			const tournament: Tournament = {
 				id: "2025-08-31-1",
+				guildId: "guild1",
+				channelId: "channel1",
 				status: "open",
+				teamSize: 5,
+				benchPriority: null,
+				objective: "total_diff",
+				roleCoverage: "off",
+				varietyLookback: 0,
+				varietyWeight: 10,
+				balanceMetric: "adr",
+				teamMode: "balanced",
+				adrSource: "raw",
+				adrDecay: 0.5,
+				format: "teams",
 				createdAt: "2025-08-31T10:00:00Z",
 			};
 
@@ -259,6 +398,9 @@ describe("TournamentService - Foundation", () => {
 			expect(result).toEqual({
 				tournament_id: "2025-08-31-1",
 				status: "open",
+				team_size: 5,
+				bench_priority: null,
+				objective: "total_diff",
 				player_count: 3,
 				players_with_adr: 2,
 				teams_generated: true,
@@ -271,7 +413,20 @@ describe("TournamentService - Foundation", () => {
 		it("should return true when tournament is open", async () => {
 			const tournament: Tournament = {
 				id: "2025-08-31-1",
+				guildId: "guild1",
+				channelId: "channel1",
 				status: "open",
+				teamSize: 5,
+				benchPriority: null,
+				objective: "total_diff",
+				roleCoverage: "off",
+				varietyLookback: 0,
+				varietyWeight: 10,
+				balanceMetric: "adr",
+				teamMode: "balanced",
+				adrSource: "raw",
+				adrDecay: 0.5,
+				format: "teams",
 				createdAt: "2025-08-31T10:00:00Z",
 			};
 
@@ -297,7 +452,20 @@ describe("TournamentService - Foundation", () => {
 		it("should return tournament when one is open", async () => {
 			const tournament: Tournament = {
 				id: "2025-08-31-1",
+				guildId: "guild1",
+				channelId: "channel1",
 				status: "open",
+				teamSize: 5,
+				benchPriority: null,
+				objective: "total_diff",
+				roleCoverage: "off",
+				varietyLookback: 0,
+				varietyWeight: 10,
+				balanceMetric: "adr",
+				teamMode: "balanced",
+				adrSource: "raw",
+				adrDecay: 0.5,
+				format: "teams",
 				createdAt: "2025-08-31T10:00:00Z",
 			};
 
@@ -325,7 +493,20 @@ describe("TournamentService - Foundation", () => {
 	describe("ADR Management", () => {
 		const mockTournament: Tournament = {
 			id: "2025-08-31-1",
+			guildId: "guild1",
+			channelId: "channel1",
 			status: "open",
+			teamSize: 5,
+			benchPriority: null,
+			objective: "total_diff",
+			roleCoverage: "off",
+			varietyLookback: 0,
+			varietyWeight: 10,
+			balanceMetric: "adr",
+			teamMode: "balanced",
+			adrSource: "raw",
+			adrDecay: 0.5,
+			format: "teams",
 			createdAt: "2025-08-31T10:00:00Z",
 		};
 
@@ -549,6 +730,7 @@ describe("TournamentService - Foundation", () => {
 				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
 					mockTournamentPlayers,
 				);
+				vi.mocked(mockMatchRepo.getAdrHistory).mockResolvedValue(new Map());
 
 				const result = await tournamentService.getPlayerAdrs();
 
@@ -558,6 +740,7 @@ describe("TournamentService - Foundation", () => {
 						username: "user1",
 						display_name: "User One",
 						adr: 85.5,
+						effective_adr: 85.5,
 						adr_locked: false,
 						status: "submitted",
 					},
@@ -574,11 +757,37 @@ describe("TournamentService - Foundation", () => {
 						username: "user3",
 						display_name: "User Three",
 						adr: 92.1,
+						effective_adr: 92.1,
 						adr_locked: true,
 						status: "submitted",
 					},
 				]);
 			});
+
+			it("should blend submitted ADRs with match history from other tournaments", async () => {
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue([
+					{
+						tournamentId: "2025-08-31-1",
+						playerId: "player1",
+						adr: 100,
+						adrLocked: false,
+						player: { id: "player1", username: "user1", displayName: null },
+					},
+				]);
+				vi.mocked(mockMatchRepo.getAdrHistory).mockResolvedValue(
+					new Map([["player1", [70, 40]]]),
+				);
+
+				const [player] = await tournamentService.getPlayerAdrs();
+
+				expect(mockMatchRepo.getAdrHistory).toHaveBeenCalledWith(
+					"guild1",
+					["player1"],
+					"2025-08-31-1",
+				);
+				expect(player.adr).toBe(100);
+				expect(player.effective_adr).toBe(82.86);
+			});
 		});
 
 		describe("getPlayersWithoutAdr", () => {
@@ -641,12 +850,126 @@ describe("TournamentService - Foundation", () => {
 				expect(result).toBe(false);
 			});
 		});
+
+		describe("registration lock", () => {
+			const lockedTournament: Tournament = {
+				...mockTournament,
+				status: "locked",
+			};
+
+			it("should lock registration of the open tournament", async () => {
+				await tournamentService.lockRegistration();
+
+				expect(mockTournamentRepo.setRegistrationLocked).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					true,
+				);
+			});
+
+			it("should refuse to lock registration twice", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue(
+					lockedTournament,
+				);
+
+				await expect(tournamentService.lockRegistration()).rejects.toThrow(
+					"Registration is already locked.",
+				);
+				expect(mockTournamentRepo.setRegistrationLocked).not.toHaveBeenCalled();
+			});
+
+			it("should unlock a locked registration", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue(
+					lockedTournament,
+				);
+
+				await tournamentService.unlockRegistration();
+
+				expect(mockTournamentRepo.setRegistrationLocked).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					false,
+				);
+			});
+
+			it("should refuse to unlock a registration that isn't locked", async () => {
+				await expect(tournamentService.unlockRegistration()).rejects.toThrow(
+					"Registration is not locked.",
+				);
+			});
+
+			it("should stop players from joining, leaving or changing their ADR", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue(
+					lockedTournament,
+				);
+
+				await expect(
+					tournamentService.joinTournament("player1", "testuser", undefined),
+				).rejects.toMatchObject({ code: "REGISTRATION_LOCKED" });
+				await expect(
+					tournamentService.leaveTournament("player1"),
+				).rejects.toMatchObject({ code: "REGISTRATION_LOCKED" });
+				await expect(
+					tournamentService.submitPlayerAdr(
+						"player1",
+						"testuser",
+						"Test User",
+						85.5,
+					),
+				).rejects.toMatchObject({ code: "REGISTRATION_LOCKED" });
+
+				expect(mockPlayerRepo.joinTournament).not.toHaveBeenCalled();
+				expect(mockPlayerRepo.leaveTournament).not.toHaveBeenCalled();
+				expect(mockPlayerRepo.upsertTournamentPlayer).not.toHaveBeenCalled();
+			});
+
+			it("should still let admins manage players while locked", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue(
+					lockedTournament,
+				);
+				vi.mocked(mockPlayerRepo.isPlayerInTournament).mockResolvedValue(false);
+
+				await tournamentService.joinTournament(
+					"admin1",
+					"newplayer",
+					undefined,
+					true,
+					"player2",
+				);
+				await tournamentService.submitAdminAdr(
+					"admin1",
+					"player2",
+					"newplayer",
+					undefined,
+					90,
+				);
+
+				expect(mockPlayerRepo.joinTournament).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					"player2",
+					"newplayer",
+					undefined,
+				);
+				expect(mockPlayerRepo.upsertTournamentPlayer).toHaveBeenCalled();
+			});
+		});
 	});
 
 	describe("Team Generation Orchestration", () => {
 		const mockTournament: Tournament = {
 			id: "2025-08-31-1",
+			guildId: "guild1",
+			channelId: "channel1",
 			status: "open",
+			teamSize: 5,
+			benchPriority: null,
+			objective: "total_diff",
+			roleCoverage: "off",
+			varietyLookback: 0,
+			varietyWeight: 10,
+			balanceMetric: "adr",
+			teamMode: "balanced",
+			adrSource: "raw",
+			adrDecay: 0.5,
+			format: "teams",
 			createdAt: "2025-08-31T10:00:00Z",
 		};
 
@@ -654,6 +977,10 @@ describe("TournamentService - Foundation", () => {
 			vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue(
 				mockTournament,
 			);
+			vi.mocked(mockPlayerRepo.getPairConstraints).mockResolvedValue([]);
+			vi.mocked(mockMatchRepo.getTournamentsPlayed).mockResolvedValue(
+				new Map(),
+			);
 		});
 
 		describe("generateTeams", () => {
@@ -756,12 +1083,13 @@ describe("TournamentService - Foundation", () => {
 					teams: mockGeneratedTeams,
 					adr_difference: 0,
 					optimization_runs: 500,
+					alternatives: [],
 				});
 				vi.mocked(mockTeamRepo.createTeams).mockResolvedValue(undefined);
 
 				const result = await tournamentService.generateTeams();
 
-				expect(result).toEqual(mockGeneratedTeams);
+				expect(result.teams).toEqual(mockGeneratedTeams);
 				expect(mockTeamGenService.generateBalancedTeams).toHaveBeenCalledWith(
 					expect.arrayContaining([
 						expect.objectContaining({ id: "player1", adr: 85.5 }),
@@ -839,99 +1167,1233 @@ describe("TournamentService - Foundation", () => {
 
 				expect(mockTeamGenService.generateBalancedTeams).not.toHaveBeenCalled();
 			});
-		});
 
-		describe("lockTeams", () => {
-			it("should lock teams when they exist", async () => {
-				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(true);
-				vi.mocked(mockTeamRepo.lockTeams).mockResolvedValue(undefined);
+			it("should use the tournament team size for generation", async () => {
+				const wingmanPlayers = mockTournamentPlayers.slice(0, 4);
 
-				await tournamentService.lockTeams();
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+				});
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					wingmanPlayers,
+				);
+				vi.mocked(mockTeamGenService.generateBalancedTeams).mockResolvedValue({
+					teams: [
+						{
+							id: "TEAM1",
+							players: [
+								{ id: "", username: "User One", adr: 85.5 },
+								{ id: "", username: "User Four", adr: 82.1 },
+							],
+							average_adr: 83.8,
+							total_adr: 167.6,
+						},
+						{
+							id: "TEAM2",
+							players: [
+								{ id: "", username: "User Two", adr: 90.2 },
+								{ id: "", username: "User Three", adr: 78.8 },
+							],
+							average_adr: 84.5,
+							total_adr: 169,
+						},
+					],
+					adr_difference: 1.4,
+					optimization_runs: 200,
+					alternatives: [],
+					bench: [],
+				});
 
-				expect(mockTeamRepo.teamsExist).toHaveBeenCalledWith("2025-08-31-1");
-				expect(mockTeamRepo.lockTeams).toHaveBeenCalledWith("2025-08-31-1");
+				await tournamentService.generateTeams();
+
+				expect(mockTeamGenService.generateBalancedTeams).toHaveBeenCalledWith(
+					expect.any(Array),
+					undefined,
+					2,
+					{
+						benchPriority: undefined,
+						pairConstraints: [],
+						seed: undefined,
+						objective: "total_diff",
+						roleCoverage: "off",
+						recentTeammates: [],
+						varietyWeight: 10,
+						metric: "adr",
+					},
+				);
+				expect(mockTeamRepo.createTeams).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					[
+						{ id: "TEAM1", players: ["player1", "player4"] },
+						{ id: "TEAM2", players: ["player2", "player3"] },
+					],
+					undefined, // generation result carries no seed
+				);
 			});
 
-			it("should throw error when no teams exist", async () => {
+			it("should pass the seed through and save it with the teams", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+				});
 				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
-
-				await expect(tournamentService.lockTeams()).rejects.toThrow(
-					TournamentError,
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					mockTournamentPlayers.slice(0, 2),
 				);
-				await expect(tournamentService.lockTeams()).rejects.toThrow(
-					"No teams have been generated yet",
+				vi.mocked(mockTeamGenService.generateBalancedTeams).mockResolvedValue({
+					teams: [
+						{
+							id: "TEAM1",
+							players: [
+								{ id: "", username: "User One", adr: 85.5 },
+								{ id: "", username: "User Two", adr: 90.2 },
+							],
+							average_adr: 87.85,
+							total_adr: 175.7,
+						},
+					],
+					adr_difference: 0,
+					optimization_runs: 200,
+					alternatives: [],
+					bench: [],
+					solver: "exact",
+					proven_optimal: true,
+					seed: 1234,
+					objective: "total_diff",
+					role_gaps: [],
+					objective_scores: {
+						total_diff: 0,
+						spread_variance: 0,
+						star_distribution: 0,
+					},
+				});
+
+				const result = await tournamentService.generateTeams(
+					undefined,
+					undefined,
+					1234,
 				);
 
-				expect(mockTeamRepo.lockTeams).not.toHaveBeenCalled();
+				expect(mockTeamGenService.generateBalancedTeams).toHaveBeenCalledWith(
+					expect.any(Array),
+					undefined,
+					2,
+					expect.objectContaining({ seed: 1234 }),
+				);
+				expect(mockTeamRepo.createTeams).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					[{ id: "TEAM1", players: ["player1", "player2"] }],
+					1234,
+				);
+				expect(result.seed).toBe(1234);
 			});
-		});
 
-		describe("unlockTeams", () => {
-			it("should unlock teams when they exist", async () => {
-				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(true);
-				vi.mocked(mockTeamRepo.unlockTeams).mockResolvedValue(undefined);
+			it("should pass recent teammates to generation in variety mode", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+					varietyLookback: 3,
+					varietyWeight: 15,
+				});
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					mockTournamentPlayers.slice(0, 4),
+				);
+				vi.mocked(mockTeamRepo.getRecentTeammates).mockResolvedValue([
+					{ player1Id: "player1", player2Id: "player2", count: 2 },
+				]);
+				vi.mocked(mockTeamGenService.generateBalancedTeams).mockResolvedValue({
+					teams: [],
+					adr_difference: 0,
+					optimization_runs: 200,
+					alternatives: [],
+					bench: [],
+					solver: "heuristic",
+					proven_optimal: false,
+					seed: 1,
+					objective: "total_diff",
+					objective_scores: {
+						total_diff: 0,
+						spread_variance: 0,
+						star_distribution: 0,
+					},
+					role_gaps: [],
+					repeat_pairings: 1,
+				});
 
-				await tournamentService.unlockTeams();
+				const result = await tournamentService.generateTeams();
 
-				expect(mockTeamRepo.teamsExist).toHaveBeenCalledWith("2025-08-31-1");
-				expect(mockTeamRepo.unlockTeams).toHaveBeenCalledWith("2025-08-31-1");
+				expect(mockTeamRepo.getRecentTeammates).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					3,
+				);
+				expect(mockTeamGenService.generateBalancedTeams).toHaveBeenCalledWith(
+					expect.any(Array),
+					undefined,
+					2,
+					expect.objectContaining({
+						recentTeammates: [
+							{ player1_id: "player1", player2_id: "player2", count: 2 },
+						],
+						varietyWeight: 15,
+					}),
+				);
+				expect(result.repeat_pairings).toBe(1);
 			});
 
-			it("should throw error when no teams exist", async () => {
+			it("should generate from effective ADR when the tournament asks for it", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+					adrSource: "effective",
+					adrDecay: 1,
+				});
 				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					mockTournamentPlayers.slice(0, 4),
+				);
+				vi.mocked(mockMatchRepo.getAdrHistory).mockResolvedValue(
+					new Map([["player1", [64.5]]]),
+				);
+				vi.mocked(mockTeamGenService.generateBalancedTeams).mockResolvedValue({
+					teams: [],
+					adr_difference: 0,
+					optimization_runs: 200,
+					alternatives: [],
+					bench: [],
+				});
 
-				await expect(tournamentService.unlockTeams()).rejects.toThrow(
-					TournamentError,
+				await tournamentService.generateTeams();
+
+				expect(mockTeamGenService.generateBalancedTeams).toHaveBeenCalledWith(
+					expect.arrayContaining([
+						expect.objectContaining({ id: "player1", adr: 75 }),
+						expect.objectContaining({ id: "player2", adr: 90.2 }),
+					]),
+					undefined,
+					2,
+					expect.any(Object),
 				);
-				await expect(tournamentService.unlockTeams()).rejects.toThrow(
-					"No teams have been generated yet",
+			});
+
+			it("should balance for the tournament's objective and return the component scores", async () => {
+				const scores = {
+					total_diff: 4.6,
+					spread_variance: 0.25,
+					star_distribution: 0,
+				};
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+					objective: "star_distribution",
+				});
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					mockTournamentPlayers.slice(0, 4),
 				);
+				vi.mocked(mockTeamGenService.generateBalancedTeams).mockResolvedValue({
+					teams: [],
+					adr_difference: 4.6,
+					optimization_runs: 200,
+					alternatives: [],
+					bench: [],
+					solver: "heuristic",
+					proven_optimal: false,
+					seed: 1,
+					objective: "star_distribution",
+					objective_scores: scores,
+				});
 
-				expect(mockTeamRepo.unlockTeams).not.toHaveBeenCalled();
+				const result = await tournamentService.generateTeams();
+
+				expect(mockTeamGenService.generateBalancedTeams).toHaveBeenCalledWith(
+					expect.any(Array),
+					undefined,
+					2,
+					expect.objectContaining({ objective: "star_distribution" }),
+				);
+				expect(result.objective).toBe("star_distribution");
+				expect(result.objective_scores).toEqual(scores);
 			});
-		});
 
-		describe("getTeams", () => {
-			it("should return formatted team display data", async () => {
-				const mockTeams = [
-					{
-						tournamentId: "2025-08-31-1",
-						id: "TEAM1",
-						locked: false,
-						players: [
-							{
-								tournamentId: "2025-08-31-1",
-								playerId: "player1",
-								adr: 85.5,
-								adrLocked: false,
-								player: {
-									id: "player1",
-									username: "user1",
-									displayName: "User One",
-								},
-							},
-							{
-								tournamentId: "2025-08-31-1",
-								playerId: "player2",
-								adr: 90.2,
-								adrLocked: false,
-								player: {
-									id: "player2",
-									username: "user2",
-									displayName: "User Two",
-								},
-							},
-						],
-					},
-				];
+			it("should throw error when player count is not divisible by team size", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 3,
+				});
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					mockTournamentPlayers,
+				);
 
-				vi.mocked(mockTeamRepo.getTeams).mockResolvedValue(mockTeams);
+				await expect(tournamentService.generateTeams()).rejects.toThrow(
+					"Player count (5) must be divisible by 3",
+				);
+				expect(mockTeamGenService.generateBalancedTeams).not.toHaveBeenCalled();
+			});
 
-				const result = await tournamentService.getTeams();
+			it("should bench extra players when a bench priority is set", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+					benchPriority: "fewest_games",
+				});
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					mockTournamentPlayers,
+				);
+				vi.mocked(mockMatchRepo.getGamesPlayed).mockResolvedValue(
+					new Map([["player3", 4]]),
+				);
+				vi.mocked(mockTeamGenService.generateBalancedTeams).mockResolvedValue({
+					teams: [],
+					adr_difference: 0,
+					optimization_runs: 200,
+					alternatives: [],
+					bench: [{ id: "player5", username: "user5", adr: 88.9 }],
+				});
 
-				expect(result).toEqual([
-					{
-						team_id: "TEAM1",
+				await tournamentService.generateTeams();
+
+				expect(mockMatchRepo.getGamesPlayed).toHaveBeenCalledWith(
+					"guild1",
+					expect.arrayContaining(["player3"]),
+				);
+				expect(mockTeamGenService.generateBalancedTeams).toHaveBeenCalledWith(
+					expect.arrayContaining([
+						expect.objectContaining({ id: "player3", games_played: 4 }),
+						expect.objectContaining({ id: "player1", games_played: 0 }),
+					]),
+					undefined,
+					2,
+					{
+						benchPriority: "fewest_games",
+						pairConstraints: [],
+						seed: undefined,
+						objective: "total_diff",
+						roleCoverage: "off",
+						recentTeammates: [],
+						varietyWeight: 10,
+						metric: "adr",
+					},
+				);
+				expect(mockPlayerRepo.setBenchedPlayers).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					["player5"],
+				);
+				expect(mockPlayerRepo.addSitOuts).toHaveBeenCalledWith("2025-08-31-1", [
+					"player5",
+				]);
+			});
+
+			it("should let the bench priority override the tournament setting", async () => {
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					mockTournamentPlayers.slice(0, 3),
+				);
+				vi.mocked(mockTeamGenService.generateBalancedTeams).mockResolvedValue({
+					teams: [],
+					adr_difference: 0,
+					optimization_runs: 200,
+					alternatives: [],
+					bench: [],
+				});
+
+				await tournamentService.generateTeams(undefined, "random");
+
+				expect(mockMatchRepo.getGamesPlayed).not.toHaveBeenCalled();
+				expect(mockTeamGenService.generateBalancedTeams).toHaveBeenCalledWith(
+					expect.any(Array),
+					undefined,
+					5,
+					{
+						benchPriority: "random",
+						pairConstraints: [],
+						seed: undefined,
+						objective: "total_diff",
+						roleCoverage: "off",
+						recentTeammates: [],
+						varietyWeight: 10,
+						metric: "adr",
+					},
+				);
+			});
+
+			it("should pass pairing rules to team generation", async () => {
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					mockTournamentPlayers,
+				);
+				vi.mocked(mockPlayerRepo.getPairConstraints).mockResolvedValue([
+					{
+						guildId: "guild1",
+						player1Id: "player1",
+						player2Id: "player2",
+						type: "apart",
+						createdAt: "2025-08-31T10:00:00Z",
+					},
+				]);
+				vi.mocked(mockTeamGenService.generateBalancedTeams).mockResolvedValue({
+					teams: [],
+					adr_difference: 0,
+					optimization_runs: 200,
+					alternatives: [],
+					bench: [],
+				});
+
+				await tournamentService.generateTeams();
+
+				expect(mockPlayerRepo.getPairConstraints).toHaveBeenCalledWith(
+					"guild1",
+				);
+				expect(mockTeamGenService.generateBalancedTeams).toHaveBeenCalledWith(
+					expect.any(Array),
+					undefined,
+					5,
+					{
+						benchPriority: undefined,
+						pairConstraints: [
+							{ player1_id: "player1", player2_id: "player2", type: "apart" },
+						],
+						seed: undefined,
+						objective: "total_diff",
+						roleCoverage: "off",
+						recentTeammates: [],
+						varietyWeight: 10,
+						metric: "adr",
+					},
+				);
+			});
+			it("should save split options instead of teams when several splits are offered", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+				});
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					mockTournamentPlayers.slice(0, 4),
+				);
+				const team = (id: string, names: string[]) => ({
+					id,
+					players: names.map((name) => ({
+						id: "",
+						username: name,
+						display_name: name,
+						adr: 80,
+					})),
+					average_adr: 80,
+					total_adr: 160,
+				});
+				const first = [
+					team("TEAM1", ["User One", "User Four"]),
+					team("TEAM2", ["User Two", "User Three"]),
+				];
+				const second = [
+					team("TEAM1", ["User One", "User Three"]),
+					team("TEAM2", ["User Two", "User Four"]),
+				];
+				vi.mocked(mockTeamGenService.generateBalancedTeams).mockResolvedValue({
+					teams: first,
+					bench: [],
+					adr_difference: 1.8,
+					optimization_runs: 200,
+					solver: "heuristic",
+					proven_optimal: false,
+					seed: 42,
+					objective: "total_diff",
+					objective_scores: {
+						total_diff: 1.8,
+						spread_variance: 0,
+						star_distribution: 0,
+					},
+					role_gaps: [],
+					repeat_pairings: 0,
+					alternatives: [
+						{ teams: first, adr_difference: 1.8 },
+						{ teams: second, adr_difference: 9.4 },
+					],
+				});
+
+				const result = await tournamentService.generateTeams(
+					undefined,
+					undefined,
+					undefined,
+					2,
+				);
+
+				expect(mockTeamGenService.generateBalancedTeams).toHaveBeenCalledWith(
+					expect.any(Array),
+					undefined,
+					2,
+					expect.objectContaining({ alternatives: 2 }),
+				);
+				expect(mockTeamRepo.createTeams).not.toHaveBeenCalled();
+				expect(mockPlayerRepo.setBenchedPlayers).not.toHaveBeenCalled();
+				expect(mockTeamRepo.saveSplitOptions).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					[
+						{
+							option: 1,
+							seed: 42,
+							teams: [
+								{ id: "TEAM1", players: ["player1", "player4"] },
+								{ id: "TEAM2", players: ["player2", "player3"] },
+							],
+							bench: [],
+							adrDifference: 1.8,
+						},
+						{
+							option: 2,
+							seed: 42,
+							teams: [
+								{ id: "TEAM1", players: ["player1", "player3"] },
+								{ id: "TEAM2", players: ["player2", "player4"] },
+							],
+							bench: [],
+							adrDifference: 9.4,
+						},
+					],
+				);
+				expect(result.options.map((o) => o.option)).toEqual([1, 2]);
+				expect(result.options[1]?.teams[0]?.players[1]?.id).toBe("player3");
+			});
+		});
+
+		describe("team modes", () => {
+			// Wingman lobby of five: User One and User Two registered together, as did User Three and User Four
+			const modePlayers = [
+				["player1", "User One", 85.5, "player1"],
+				["player2", "User Two", 90.2, "player1"],
+				["player3", "User Three", 78.8, "player3"],
+				["player4", "User Four", 82.1, "player3"],
+				["player5", "User Five", 88.9, null],
+			].map(([playerId, displayName, adr, premadeGroup]) => ({
+				tournamentId: "2025-08-31-1",
+				playerId: playerId as string,
+				adr: adr as number,
+				adrLocked: false,
+				premadeGroup: premadeGroup as string | null,
+				player: {
+					id: playerId as string,
+					username: playerId as string,
+					displayName: displayName as string,
+				},
+			}));
+			const generated = {
+				teams: [
+					{
+						id: "TEAM1",
+						players: [
+							{ id: "", username: "User One", adr: 85.5 },
+							{ id: "", username: "User Two", adr: 90.2 },
+						],
+						average_adr: 87.85,
+						total_adr: 175.7,
+					},
+					{
+						id: "TEAM2",
+						players: [
+							{ id: "", username: "User Three", adr: 78.8 },
+							{ id: "", username: "User Four", adr: 82.1 },
+						],
+						average_adr: 80.45,
+						total_adr: 160.9,
+					},
+				],
+				bench: [{ id: "player5", username: "User Five", adr: 88.9 }],
+				adr_difference: 14.8,
+				seed: 77,
+				alternatives: [],
+			};
+
+			beforeEach(() => {
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for generation
+					modePlayers as any,
+				);
+			});
+
+			it("should use the registered pre-made teams and bench everyone else", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+					teamMode: "premade",
+				});
+				vi.mocked(mockTeamGenService.generatePremadeTeams).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: only the fields the service reads
+					generated as any,
+				);
+
+				const result = await tournamentService.generateTeams();
+
+				expect(result.mode).toBe("premade");
+				expect(mockTeamGenService.generatePremadeTeams).toHaveBeenCalledWith(
+					expect.any(Array),
+					[
+						["player1", "player2"],
+						["player3", "player4"],
+					],
+					2,
+					expect.anything(),
+				);
+				expect(mockTeamGenService.generateBalancedTeams).not.toHaveBeenCalled();
+				// Pre-made teams have no seed to reproduce them with
+				expect(mockTeamRepo.createTeams).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					[
+						{ id: "TEAM1", players: ["player1", "player2"] },
+						{ id: "TEAM2", players: ["player3", "player4"] },
+					],
+					undefined,
+				);
+				expect(mockPlayerRepo.setBenchedPlayers).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					["player5"],
+				);
+				expect(mockTournamentRepo.setTeamMode).not.toHaveBeenCalled();
+				// Measured on the players' ADRs, without a search to report on
+				expect(mockTeamRepo.saveTeamDiagnostics).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					expect.objectContaining({
+						adrDifference: 14.8,
+						teamRanges: [
+							{ id: "TEAM1", minAdr: 85.5, maxAdr: 90.2 },
+							{ id: "TEAM2", minAdr: 78.8, maxAdr: 82.1 },
+						],
+						runs: null,
+						elapsedMs: null,
+					}),
+				);
+				expect(result.diagnostics?.adr_difference).toBe(14.8);
+			});
+
+			it("should make random teams and keep the mode for later generations", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+					benchPriority: "random",
+				});
+				vi.mocked(mockTeamGenService.generateRandomTeams).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: only the fields the service reads
+					generated as any,
+				);
+
+				const result = await tournamentService.generateTeams(
+					undefined,
+					undefined,
+					77,
+					undefined,
+					undefined,
+					"random",
+				);
+
+				expect(result.mode).toBe("random");
+				expect(mockTeamGenService.generateRandomTeams).toHaveBeenCalledWith(
+					expect.any(Array),
+					2,
+					expect.objectContaining({ seed: 77, benchPriority: "random" }),
+				);
+				expect(mockTeamRepo.createTeams).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					expect.any(Array),
+					77,
+				);
+				expect(mockTournamentRepo.setTeamMode).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					"random",
+				);
+			});
+
+			it("should only offer alternative splits for balanced teams", async () => {
+				await expect(
+					tournamentService.generateTeams(
+						undefined,
+						undefined,
+						undefined,
+						3,
+						undefined,
+						"random",
+					),
+				).rejects.toThrow("only offered for balanced teams");
+				expect(mockTeamGenService.generateRandomTeams).not.toHaveBeenCalled();
+			});
+
+			describe("mix format", () => {
+				const mixRound = {
+					tournamentId: "2025-08-31-1",
+					round: 2,
+					teams: [],
+					bench: [],
+					createdAt: "2025-08-31T11:00:00Z",
+				};
+
+				beforeEach(() => {
+					vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+						...mockTournament,
+						teamSize: 2,
+						teamMode: "random",
+						benchPriority: "random",
+						format: "mix",
+					});
+					vi.mocked(mockTeamGenService.generateRandomTeams).mockResolvedValue(
+						// biome-ignore lint/suspicious/noExplicitAny: only the fields the service reads
+						generated as any,
+					);
+					vi.mocked(mockTeamRepo.getLatestMixRound).mockResolvedValue(mixRound);
+				});
+
+				it("should snapshot the teams as a new round once the last one was played", async () => {
+					vi.mocked(mockMatchRepo.getMatches).mockResolvedValue([
+						// biome-ignore lint/suspicious/noExplicitAny: only the round is read
+						{ id: 1, round: 2 } as any,
+					]);
+
+					const result = await tournamentService.generateTeams();
+
+					expect(result.round).toBe(3);
+					expect(mockTeamRepo.saveMixRound).toHaveBeenCalledWith(
+						"2025-08-31-1",
+						3,
+						[
+							{ id: "TEAM1", players: ["player1", "player2"] },
+							{ id: "TEAM2", players: ["player3", "player4"] },
+						],
+						["player5"],
+					);
+				});
+
+				it("should replace the latest round while none of its matches are recorded", async () => {
+					vi.mocked(mockMatchRepo.getMatches).mockResolvedValue([]);
+
+					const result = await tournamentService.generateTeams();
+
+					expect(result.round).toBe(2);
+					expect(mockTeamRepo.saveMixRound).toHaveBeenCalledWith(
+						"2025-08-31-1",
+						2,
+						expect.any(Array),
+						["player5"],
+					);
+				});
+			});
+		});
+
+		describe("registerPremadeTeam", () => {
+			const joined = (
+				playerId: string,
+				premadeGroup: string | null = null,
+			) => ({
+				tournamentId: "2025-08-31-1",
+				playerId,
+				adr: 80,
+				adrLocked: false,
+				premadeGroup,
+			});
+
+			beforeEach(() => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+				});
+			});
+
+			it("should register the player together with their teammates", async () => {
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for registration
+					[joined("player1"), joined("player2")] as any,
+				);
+
+				const team = await tournamentService.registerPremadeTeam("player1", [
+					"player2",
+				]);
+
+				expect(team).toEqual(["player1", "player2"]);
+				expect(mockPlayerRepo.setPremadeGroup).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					"player1",
+					["player1", "player2"],
+				);
+			});
+
+			it("should require exactly one full team", async () => {
+				await expect(
+					tournamentService.registerPremadeTeam("player1", [
+						"player2",
+						"player3",
+					]),
+				).rejects.toThrow("needs exactly 2 different players");
+				expect(mockPlayerRepo.setPremadeGroup).not.toHaveBeenCalled();
+			});
+
+			it("should refuse a player who is on someone else's team", async () => {
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for registration
+					[joined("player1"), joined("player2", "player9")] as any,
+				);
+
+				await expect(
+					tournamentService.registerPremadeTeam("player1", ["player2"]),
+				).rejects.toThrow("already on another pre-made team");
+				expect(mockPlayerRepo.setPremadeGroup).not.toHaveBeenCalled();
+			});
+		});
+
+		describe("pinPlayer", () => {
+			const joined = (playerId: string, pinnedTeam: string | null = null) => ({
+				tournamentId: "2025-08-31-1",
+				playerId,
+				adr: 80,
+				adrLocked: false,
+				pinnedTeam,
+			});
+
+			beforeEach(() => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+				});
+			});
+
+			it("should pin a player to a team number and unpin them", async () => {
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for pinning
+					[joined("player1")] as any,
+				);
+
+				expect(await tournamentService.pinPlayer("player1", 2)).toBe("TEAM2");
+				expect(mockPlayerRepo.setPinnedTeam).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					"player1",
+					"TEAM2",
+				);
+
+				expect(await tournamentService.pinPlayer("player1", null)).toBeNull();
+				expect(mockPlayerRepo.setPinnedTeam).toHaveBeenLastCalledWith(
+					"2025-08-31-1",
+					"player1",
+					null,
+				);
+			});
+
+			it("should refuse a team that is already full of pinned players", async () => {
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for pinning
+					[
+						joined("player1", "TEAM1"),
+						joined("player2", "TEAM1"),
+						joined("player3"),
+					] as any,
+				);
+
+				await expect(tournamentService.pinPlayer("player3", 1)).rejects.toThrow(
+					"TEAM1 already has 2 pinned players.",
+				);
+				expect(mockPlayerRepo.setPinnedTeam).not.toHaveBeenCalled();
+			});
+
+			it("should refuse a player who hasn't joined", async () => {
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue([]);
+
+				await expect(tournamentService.pinPlayer("player9", 1)).rejects.toThrow(
+					"has not joined the tournament",
+				);
+			});
+		});
+
+		describe("chooseSplit", () => {
+			const splitOption = {
+				tournamentId: "2025-08-31-1",
+				option: 2,
+				seed: 42,
+				teams: [
+					{ id: "TEAM1", players: ["player1", "player3"] },
+					{ id: "TEAM2", players: ["player2", "player4"] },
+				],
+				bench: ["player5"],
+				adrDifference: 9.4,
+			};
+
+			beforeEach(() => {
+				vi.mocked(mockTeamRepo.areTeamsLocked).mockResolvedValue(false);
+				vi.mocked(mockTeamRepo.getTeams).mockResolvedValue([]);
+			});
+
+			it("should save the picked split with its seed and bench", async () => {
+				vi.mocked(mockTeamRepo.getSplitOption).mockResolvedValue(splitOption);
+
+				await tournamentService.chooseSplit(42, 2);
+
+				expect(mockTeamRepo.getSplitOption).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					2,
+				);
+				expect(mockTeamRepo.createTeams).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					splitOption.teams,
+					42,
+				);
+				expect(mockPlayerRepo.setBenchedPlayers).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					["player5"],
+				);
+				expect(mockTeamRepo.clearSplitOptions).toHaveBeenCalledWith(
+					"2025-08-31-1",
+				);
+			});
+
+			it("should measure the picked split on the tournament's ADR source", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					adrSource: "effective",
+				});
+				vi.mocked(mockTeamRepo.getSplitOption).mockResolvedValue(splitOption);
+				const row = (playerId: string, adr: number) => ({
+					tournamentId: "2025-08-31-1",
+					playerId,
+					adr,
+					adrLocked: false,
+					player: { id: playerId, username: playerId, displayName: null },
+				});
+				const teams = [
+					{
+						id: "TEAM1",
+						locked: false,
+						seed: 42,
+						lobby: null,
+						players: [row("player1", 100)],
+					},
+					{
+						id: "TEAM2",
+						locked: false,
+						seed: 42,
+						lobby: null,
+						players: [row("player2", 90)],
+					},
+				];
+				vi.mocked(mockTeamRepo.getTeams).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for diagnostics
+					teams as any,
+				);
+				vi.mocked(mockMatchRepo.getAdrHistory).mockResolvedValue(
+					new Map([["player1", [70, 40]]]),
+				);
+
+				await tournamentService.chooseSplit(42, 2);
+
+				// player1 plays at 82.86 effective ADR, not the submitted 100
+				expect(mockTeamRepo.saveTeamDiagnostics).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					expect.objectContaining({ adrDifference: 7.14 }),
+				);
+			});
+
+			it("should reject a button from an older generation", async () => {
+				vi.mocked(mockTeamRepo.getSplitOption).mockResolvedValue(splitOption);
+
+				await expect(tournamentService.chooseSplit(7, 2)).rejects.toThrow(
+					"This split is no longer available",
+				);
+				expect(mockTeamRepo.createTeams).not.toHaveBeenCalled();
+			});
+
+			it("should refuse to replace locked teams", async () => {
+				vi.mocked(mockTeamRepo.areTeamsLocked).mockResolvedValue(true);
+
+				await expect(tournamentService.chooseSplit(42, 2)).rejects.toThrow(
+					"Teams are currently locked",
+				);
+				expect(mockTeamRepo.getSplitOption).not.toHaveBeenCalled();
+			});
+		});
+
+		describe("draft", () => {
+			// Wingman lobby with one player too many: two captains pick one player each
+			const draftPlayers = [
+				["player1", 80],
+				["player2", 120],
+				["player3", 95],
+				["player4", 60],
+				["player5", 101],
+			].map(([playerId, adr]) => ({
+				tournamentId: "2025-08-31-1",
+				playerId: playerId as string,
+				adr: adr as number,
+				adrLocked: false,
+				player: { id: playerId as string, username: playerId as string },
+			}));
+
+			beforeEach(() => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+				});
+				vi.mocked(mockTeamRepo.areTeamsLocked).mockResolvedValue(false);
+				vi.mocked(mockPlayerRepo.getTournamentPlayers).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for the draft
+					draftPlayers as any,
+				);
+				vi.mocked(mockTeamRepo.addDraftPick).mockResolvedValue(true);
+			});
+
+			const savedDraft = (picks: string[]) => ({
+				tournamentId: "2025-08-31-1",
+				pickOrder: "snake" as const,
+				captains: ["player4", "player2"],
+				picks,
+				createdAt: "2025-08-31T10:00:00Z",
+			});
+
+			it("should fill missing captains with the highest ADRs", async () => {
+				const board = await tournamentService.startDraft(["player4"]);
+
+				expect(mockTeamRepo.saveDraft).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					["player4", "player2"],
+					"snake",
+				);
+				expect(board.on_the_clock?.team_id).toBe("TEAM1");
+				expect(board.total_picks).toBe(2);
+				expect(board.available.map((p) => p.player_id)).toEqual([
+					"player5",
+					"player3",
+					"player1",
+				]);
+			});
+
+			it("should refuse a captain who has not joined", async () => {
+				await expect(tournamentService.startDraft(["player9"])).rejects.toThrow(
+					"has not joined the tournament",
+				);
+				expect(mockTeamRepo.saveDraft).not.toHaveBeenCalled();
+			});
+
+			it("should reject a pick from an outdated message", async () => {
+				vi.mocked(mockTeamRepo.getDraft).mockResolvedValue(
+					savedDraft(["player5"]),
+				);
+
+				await expect(
+					tournamentService.pickDraftPlayer(1, "player3"),
+				).rejects.toThrow("Pick 1 has already been made");
+				expect(mockTeamRepo.addDraftPick).not.toHaveBeenCalled();
+			});
+
+			it("should reject a player who was already picked", async () => {
+				vi.mocked(mockTeamRepo.getDraft).mockResolvedValue(
+					savedDraft(["player5"]),
+				);
+
+				await expect(
+					tournamentService.pickDraftPlayer(2, "player5"),
+				).rejects.toThrow("is not available to pick");
+			});
+
+			it("should save the rosters and bench the rest after the last pick", async () => {
+				vi.mocked(mockTeamRepo.getDraft).mockResolvedValue(
+					savedDraft(["player5"]),
+				);
+
+				const board = await tournamentService.pickDraftPlayer(2, "player3");
+
+				expect(board.complete).toBe(true);
+				expect(mockTeamRepo.addDraftPick).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					["player5", "player3"],
+					1,
+				);
+				expect(mockTeamRepo.createTeams).toHaveBeenCalledWith("2025-08-31-1", [
+					{ id: "TEAM1", players: ["player4", "player5"] },
+					{ id: "TEAM2", players: ["player2", "player3"] },
+				]);
+				expect(mockPlayerRepo.setBenchedPlayers).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					["player1"],
+				);
+				expect(mockTeamRepo.deleteDraft).toHaveBeenCalledWith("2025-08-31-1");
+			});
+
+			it("should count sit-outs and save the round when a mix draft completes", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					teamSize: 2,
+					format: "mix",
+				});
+				vi.mocked(mockTeamRepo.getDraft).mockResolvedValue(
+					savedDraft(["player5"]),
+				);
+				vi.mocked(mockTeamRepo.getLatestMixRound).mockResolvedValue(null);
+
+				await tournamentService.pickDraftPlayer(2, "player3");
+
+				expect(mockPlayerRepo.addSitOuts).toHaveBeenCalledWith("2025-08-31-1", [
+					"player1",
+				]);
+				expect(mockTeamRepo.saveMixRound).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					1,
+					[
+						{ id: "TEAM1", players: ["player4", "player5"] },
+						{ id: "TEAM2", players: ["player2", "player3"] },
+					],
+					["player1"],
+				);
+			});
+		});
+
+		describe("setPairConstraint", () => {
+			it("should save the rule after registering both players", async () => {
+				await tournamentService.setPairConstraint(
+					{ id: "player1", username: "user1" },
+					{ id: "player2", username: "user2" },
+					"together",
+				);
+
+				expect(mockPlayerRepo.upsertPlayer).toHaveBeenCalledTimes(2);
+				expect(mockPlayerRepo.setPairConstraint).toHaveBeenCalledWith(
+					"guild1",
+					"player1",
+					"player2",
+					"together",
+				);
+			});
+
+			it("should reject a rule between a player and themselves", async () => {
+				await expect(
+					tournamentService.setPairConstraint(
+						{ id: "player1", username: "user1" },
+						{ id: "player1", username: "user1" },
+						"apart",
+					),
+				).rejects.toThrow("A pairing rule needs two different players");
+
+				expect(mockPlayerRepo.setPairConstraint).not.toHaveBeenCalled();
+			});
+		});
+
+		describe("setPlayerRoles", () => {
+			it("should register the player and save their roles", async () => {
+				await tournamentService.setPlayerRoles(
+					{ id: "player1", username: "user1" },
+					["awp", "igl", "awp"],
+				);
+
+				expect(mockPlayerRepo.upsertPlayer).toHaveBeenCalledWith({
+					id: "player1",
+					username: "user1",
+				});
+				expect(mockPlayerRepo.updateRoles).toHaveBeenCalledWith("player1", [
+					"awp",
+					"igl",
+				]);
+			});
+
+			it("should clear roles when none are given", async () => {
+				await tournamentService.setPlayerRoles(
+					{ id: "player1", username: "user1" },
+					[],
+				);
+
+				expect(mockPlayerRepo.updateRoles).toHaveBeenCalledWith(
+					"player1",
+					null,
+				);
+			});
+		});
+
+		describe("lockTeams", () => {
+			it("should lock teams when they exist", async () => {
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(true);
+				vi.mocked(mockTeamRepo.lockTeams).mockResolvedValue(undefined);
+
+				await tournamentService.lockTeams();
+
+				expect(mockTeamRepo.teamsExist).toHaveBeenCalledWith("2025-08-31-1");
+				expect(mockTeamRepo.lockTeams).toHaveBeenCalledWith("2025-08-31-1");
+			});
+
+			it("should throw error when no teams exist", async () => {
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+
+				await expect(tournamentService.lockTeams()).rejects.toThrow(
+					TournamentError,
+				);
+				await expect(tournamentService.lockTeams()).rejects.toThrow(
+					"No teams have been generated yet",
+				);
+
+				expect(mockTeamRepo.lockTeams).not.toHaveBeenCalled();
+			});
+		});
+
+		describe("unlockTeams", () => {
+			it("should unlock teams when they exist", async () => {
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(true);
+				vi.mocked(mockTeamRepo.unlockTeams).mockResolvedValue(undefined);
+
+				await tournamentService.unlockTeams();
+
+				expect(mockTeamRepo.teamsExist).toHaveBeenCalledWith("2025-08-31-1");
+				expect(mockTeamRepo.unlockTeams).toHaveBeenCalledWith("2025-08-31-1");
+			});
+
+			it("should throw error when no teams exist", async () => {
+				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(false);
+
+				await expect(tournamentService.unlockTeams()).rejects.toThrow(
+					TournamentError,
+				);
+				await expect(tournamentService.unlockTeams()).rejects.toThrow(
+					"No teams have been generated yet",
+				);
+
+				expect(mockTeamRepo.unlockTeams).not.toHaveBeenCalled();
+			});
+		});
+
+		describe("getTeams", () => {
+			it("should return formatted team display data", async () => {
+				const mockTeams = [
+					{
+						tournamentId: "2025-08-31-1",
+						id: "TEAM1",
+						locked: false,
+						players: [
+							{
+								tournamentId: "2025-08-31-1",
+								playerId: "player1",
+								adr: 85.5,
+								adrLocked: false,
+								player: {
+									id: "player1",
+									username: "user1",
+									displayName: "User One",
+								},
+							},
+							{
+								tournamentId: "2025-08-31-1",
+								playerId: "player2",
+								adr: 90.2,
+								adrLocked: false,
+								player: {
+									id: "player2",
+									username: "user2",
+									displayName: "User Two",
+								},
+							},
+						],
+					},
+				];
+
+				vi.mocked(mockTeamRepo.getTeams).mockResolvedValue(mockTeams);
+
+				const result = await tournamentService.getTeams();
+
+				expect(result).toEqual([
+					{
+						team_id: "TEAM1",
 						players: [
 							{
 								player_id: "player1",
@@ -957,6 +2419,156 @@ describe("TournamentService - Foundation", () => {
 			});
 		});
 
+		describe("getTeamDiagnostics", () => {
+			it("should return the statistics saved with the teams", async () => {
+				vi.mocked(mockTeamRepo.getTeamDiagnostics).mockResolvedValue({
+					tournamentId: "2025-08-31-1",
+					adrDifference: 4.7,
+					adrStdDev: 2.35,
+					teamRanges: [{ id: "TEAM1", minAdr: 85.5, maxAdr: 90.2 }],
+					fairness: 86,
+					runs: 200,
+					elapsedMs: 40,
+					createdAt: "2025-08-31 20:00:00",
+				});
+
+				const result = await tournamentService.getTeamDiagnostics();
+
+				expect(result).toEqual({
+					adr_difference: 4.7,
+					adr_std_dev: 2.35,
+					teams: [{ team_id: "TEAM1", min_adr: 85.5, max_adr: 90.2 }],
+					fairness: 86,
+					runs: 200,
+					elapsed_ms: 40,
+				});
+			});
+
+			it("should return null once the teams were edited by hand", async () => {
+				vi.mocked(mockTeamRepo.getTeamDiagnostics).mockResolvedValue(null);
+
+				expect(await tournamentService.getTeamDiagnostics()).toBeNull();
+			});
+		});
+
+		describe("rebalance", () => {
+			const member = (playerId: string, adr: number, pinnedTeam?: string) => ({
+				tournamentId: "2025-08-31-1",
+				playerId,
+				adr,
+				adrLocked: false,
+				pinnedTeam: pinnedTeam ?? null,
+				player: { id: playerId, username: playerId },
+			});
+			// After an exchange, the two strongest players ended up together
+			const lineup = (locked = false) => [
+				{
+					tournamentId: "2025-08-31-1",
+					id: "TEAM1",
+					locked,
+					seed: null,
+					players: [member("player1", 100), member("player2", 90, "TEAM1")],
+				},
+				{
+					tournamentId: "2025-08-31-1",
+					id: "TEAM2",
+					locked,
+					seed: null,
+					players: [member("player3", 50), member("player4", 40)],
+				},
+			];
+
+			it("should suggest swaps without changing the teams", async () => {
+				vi.mocked(mockTeamRepo.getTeams).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for rebalancing
+					lineup() as any,
+				);
+
+				const plan = await tournamentService.suggestRebalance();
+
+				expect(plan.adr_difference_before).toBe(100);
+				expect(plan.adr_difference_after).toBe(0);
+				expect(
+					plan.swaps.map((s) => [s.player1.player_id, s.team1, s.team2]),
+				).toEqual([["player1", "TEAM1", "TEAM2"]]);
+				expect(plan.swaps[0]?.player2.player_id).toBe("player3");
+				expect(mockTeamRepo.exchangePlayers).not.toHaveBeenCalled();
+			});
+
+			it("should leave pinned players alone when asked", async () => {
+				vi.mocked(mockTeamRepo.getTeams).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for rebalancing
+					lineup() as any,
+				);
+
+				const plan = await tournamentService.suggestRebalance(false, true);
+
+				expect(
+					plan.swaps.flatMap((s) => [s.player1.player_id, s.player2.player_id]),
+				).not.toContain("player2");
+			});
+
+			it("should suggest nothing when every team is locked and kept", async () => {
+				vi.mocked(mockTeamRepo.getTeams).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for rebalancing
+					lineup(true) as any,
+				);
+
+				const plan = await tournamentService.suggestRebalance(true, false);
+
+				expect(plan.swaps).toEqual([]);
+				expect(plan.adr_difference_after).toBe(100);
+			});
+
+			it("should score swaps on rating when the tournament balances on it", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					balanceMetric: "rating",
+				});
+				vi.mocked(mockPlayerRepo.getRatings).mockResolvedValue(new Map());
+				vi.mocked(mockTeamRepo.getTeams).mockResolvedValue(
+					// Everyone is rated the same, so the ADR gap is no reason to swap
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for rebalancing
+					lineup() as any,
+				);
+
+				const plan = await tournamentService.suggestRebalance();
+
+				expect(plan.metric).toBe("rating");
+				expect(plan.adr_difference_before).toBe(0);
+				expect(plan.swaps).toEqual([]);
+			});
+
+			it("should make the confirmed swaps", async () => {
+				vi.mocked(mockTeamRepo.getTeams).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for rebalancing
+					lineup() as any,
+				);
+				const { fingerprint } = await tournamentService.suggestRebalance();
+
+				await tournamentService.applyRebalance(false, false, fingerprint);
+
+				expect(mockTeamRepo.exchangePlayers).toHaveBeenCalledWith(
+					"2025-08-31-1",
+					"player1",
+					"player3",
+				);
+				expect(mockTeamRepo.saveTeamDiagnostics).toHaveBeenCalled();
+			});
+
+			it("should refuse a confirmation for teams that changed since", async () => {
+				vi.mocked(mockTeamRepo.getTeams).mockResolvedValue(
+					// biome-ignore lint/suspicious/noExplicitAny: partial rows are enough for rebalancing
+					lineup() as any,
+				);
+
+				await expect(
+					tournamentService.applyRebalance(false, false, "stale"),
+				).rejects.toThrow("Teams changed since this rebalance was suggested");
+				expect(mockTeamRepo.exchangePlayers).not.toHaveBeenCalled();
+			});
+		});
+
 		describe("teamsExist", () => {
 			it("should return true when teams exist", async () => {
 				vi.mocked(mockTeamRepo.teamsExist).mockResolvedValue(true);
@@ -1009,7 +2621,20 @@ describe("TournamentService - Foundation", () => {
 	describe("Match Management", () => {
 		const mockTournament: Tournament = {
 			id: "2025-08-31-1",
+			guildId: "guild1",
+			channelId: "channel1",
 			status: "open",
+			teamSize: 5,
+			benchPriority: null,
+			objective: "total_diff",
+			roleCoverage: "off",
+			varietyLookback: 0,
+			varietyWeight: 10,
+			balanceMetric: "adr",
+			teamMode: "balanced",
+			adrSource: "raw",
+			adrDecay: 0.5,
+			format: "teams",
 			createdAt: "2025-08-31T10:00:00Z",
 		};
 
@@ -1017,6 +2642,7 @@ describe("TournamentService - Foundation", () => {
 			vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue(
 				mockTournament,
 			);
+			vi.mocked(mockTeamRepo.getTeamLobbies).mockResolvedValue(new Map());
 		});
 
 		describe("recordMatch", () => {
@@ -1119,6 +2745,300 @@ describe("TournamentService - Foundation", () => {
 
 				expect(mockMatchRepo.createMatch).not.toHaveBeenCalled();
 			});
+
+			it("should refuse a match between teams in different lobbies", async () => {
+				vi.mocked(mockMatchRepo.validateTeamsExist).mockResolvedValue([]);
+				vi.mocked(mockTeamRepo.getTeamLobbies).mockResolvedValue(
+					new Map([
+						["TEAM1", 1],
+						["TEAM2", 1],
+						["TEAM3", 2],
+					]),
+				);
+
+				await expect(
+					tournamentService.recordMatch("TEAM1-16-14-TEAM3"),
+				).rejects.toThrow(
+					"TEAM1 (lobby 1) and TEAM3 (lobby 2) are in different lobbies",
+				);
+				expect(mockMatchRepo.createMatch).not.toHaveBeenCalled();
+			});
+
+			it("should report the lobby of a match between lobby teams", async () => {
+				vi.mocked(mockMatchRepo.validateTeamsExist).mockResolvedValue([]);
+				vi.mocked(mockTeamRepo.getTeamLobbies).mockResolvedValue(
+					new Map([
+						["TEAM3", 2],
+						["TEAM4", 2],
+					]),
+				);
+				vi.mocked(mockMatchRepo.createMatch).mockResolvedValue(1);
+				vi.mocked(mockMatchRepo.getMatch).mockResolvedValue({
+					id: 1,
+					tournamentId: "2025-08-31-1",
+					team1Id: "TEAM3",
+					team2Id: "TEAM4",
+					score1: 13,
+					score2: 16,
+					createdAt: "2025-08-31T12:00:00Z",
+				});
+
+				const result = await tournamentService.recordMatch("TEAM3-13-16-TEAM4");
+
+				expect(result.lobby).toBe(2);
+			});
+
+			it("should update the ratings of the lineups that played", async () => {
+				vi.mocked(mockMatchRepo.validateTeamsExist).mockResolvedValue([]);
+				vi.mocked(mockMatchRepo.createMatch).mockResolvedValue(1);
+				vi.mocked(mockMatchRepo.getMatch).mockResolvedValue({
+					id: 1,
+					tournamentId: "2025-08-31-1",
+					team1Id: "TEAM1",
+					team2Id: "TEAM2",
+					score1: 16,
+					score2: 14,
+					createdAt: "2025-08-31T12:00:00Z",
+				});
+				vi.mocked(mockTeamRepo.getTeamCompositionsForMatch).mockResolvedValue({
+					team1Players: [{ playerId: "player1", adr: 90 }],
+					team2Players: [{ playerId: "player2", adr: 80 }],
+				});
+				vi.mocked(mockPlayerRepo.getRatings).mockResolvedValue(
+					new Map([["player1", { rating: 1500, ratedMatches: 3 }]]),
+				);
+
+				await tournamentService.recordMatch("TEAM1-16-14-TEAM2");
+
+				expect(mockPlayerRepo.getRatings).toHaveBeenCalledWith("guild1", [
+					"player1",
+					"player2",
+				]);
+				// Equal ratings, so the winner gains and the loser drops half of the provisional K-factor
+				expect(mockPlayerRepo.updateRatings).toHaveBeenCalledWith("guild1", [
+					{ id: "player1", rating: 1520, ratedMatches: 4, change: 20 },
+					{ id: "player2", rating: 1480, ratedMatches: 1, change: -20 },
+				]);
+			});
+
+			it("should still record the match when updating ratings fails", async () => {
+				vi.mocked(mockMatchRepo.validateTeamsExist).mockResolvedValue([]);
+				vi.mocked(mockMatchRepo.createMatch).mockResolvedValue(1);
+				vi.mocked(mockMatchRepo.getMatch).mockResolvedValue({
+					id: 1,
+					tournamentId: "2025-08-31-1",
+					team1Id: "TEAM1",
+					team2Id: "TEAM2",
+					score1: 16,
+					score2: 14,
+					createdAt: "2025-08-31T12:00:00Z",
+				});
+				vi.mocked(mockTeamRepo.getTeamCompositionsForMatch).mockResolvedValue({
+					team1Players: [{ playerId: "player1", adr: 90 }],
+					team2Players: [{ playerId: "player2", adr: 80 }],
+				});
+				vi.mocked(mockPlayerRepo.getRatings).mockRejectedValue(
+					new Error("Database error"),
+				);
+
+				const result = await tournamentService.recordMatch("TEAM1-16-14-TEAM2");
+
+				expect(result.match_id).toBe(1);
+				expect(mockPlayerRepo.updateRatings).not.toHaveBeenCalled();
+			});
+
+			it("should record a mix match in the latest round", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					format: "mix",
+				});
+				vi.mocked(mockTeamRepo.getLatestMixRound).mockResolvedValue({
+					tournamentId: "2025-08-31-1",
+					round: 3,
+					teams: [],
+					bench: [],
+					createdAt: "2025-08-31T11:00:00Z",
+				});
+				vi.mocked(mockMatchRepo.validateTeamsExist).mockResolvedValue([]);
+				vi.mocked(mockMatchRepo.createMatch).mockResolvedValue(1);
+				vi.mocked(mockMatchRepo.getMatch).mockResolvedValue({
+					id: 1,
+					tournamentId: "2025-08-31-1",
+					team1Id: "TEAM1",
+					team2Id: "TEAM2",
+					score1: 13,
+					score2: 7,
+					round: 3,
+					createdAt: "2025-08-31T12:00:00Z",
+				});
+
+				const result = await tournamentService.recordMatch("TEAM1-13-7-TEAM2");
+
+				expect(mockMatchRepo.createMatch).toHaveBeenCalledWith(
+					expect.objectContaining({ round: 3 }),
+				);
+				expect(result.round).toBe(3);
+			});
+
+			it("should refuse a mix match before any round is generated", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					format: "mix",
+				});
+				vi.mocked(mockTeamRepo.getLatestMixRound).mockResolvedValue(null);
+				vi.mocked(mockMatchRepo.validateTeamsExist).mockResolvedValue([]);
+
+				await expect(
+					tournamentService.recordMatch("TEAM1-13-7-TEAM2"),
+				).rejects.toThrow("No mix round has been generated yet");
+				expect(mockMatchRepo.createMatch).not.toHaveBeenCalled();
+			});
+		});
+
+		describe("getIndividualStandings", () => {
+			it("should score every player on the lineups of each match", async () => {
+				vi.mocked(mockTournamentRepo.getOpenTournament).mockResolvedValue({
+					...mockTournament,
+					format: "mix",
+				});
+				vi.mocked(mockMatchRepo.getMatches).mockResolvedValue([
+					// biome-ignore lint/suspicious/noExplicitAny: only the fields the service reads
+					{
+						id: 1,
+						team1Id: "TEAM1",
+						team2Id: "TEAM2",
+						score1: 13,
+						score2: 7,
+					} as any,
+					// biome-ignore lint/suspicious/noExplicitAny: only the fields the service reads
+					{
+						id: 2,
+						team1Id: "TEAM1",
+						team2Id: "TEAM2",
+						score1: 11,
+						score2: 13,
+					} as any,
+				]);
+				const player = (playerId: string) => ({
+					playerId,
+					username: playerId,
+					displayName: `User ${playerId}`,
+					adrAtTime: null,
+				});
+				// Teams were reshuffled between the two rounds
+				vi.mocked(mockMatchRepo.getMatchTeamComposition).mockImplementation(
+					async (matchId) =>
+						matchId === 1
+							? {
+									TEAM1: [player("a"), player("b")],
+									TEAM2: [player("c"), player("d")],
+								}
+							: {
+									TEAM1: [player("a"), player("c")],
+									TEAM2: [player("b"), player("d")],
+								},
+				);
+
+				const standings = await tournamentService.getIndividualStandings();
+
+				expect(
+					standings.map((standing) => [standing.player_id, standing.points]),
+				).toEqual([
+					["b", 46],
+					["a", 34],
+					["d", 30],
+					["c", 18],
+				]);
+				expect(standings[0]).toMatchObject({
+					display_name: "User b",
+					maps_played: 2,
+					maps_won: 2,
+					rounds_won: 26,
+				});
+			});
+
+			it("should refuse a tournament that scores teams", async () => {
+				await expect(
+					tournamentService.getIndividualStandings(),
+				).rejects.toThrow("only kept for mix tournaments");
+			});
+		});
+
+		describe("ratings", () => {
+			it("should replay match history from the default rating", async () => {
+				vi.mocked(mockMatchRepo.getMatchHistory).mockResolvedValue([
+					{ score1: 16, score2: 10, team1Players: ["a"], team2Players: ["b"] },
+					{ score1: 16, score2: 10, team1Players: ["a"], team2Players: ["c"] },
+					{ score1: 16, score2: 12, team1Players: [], team2Players: ["b"] },
+				]);
+
+				const result = await tournamentService.recalculateRatings();
+
+				expect(result).toEqual({ matches: 2, players: 3 });
+				expect(mockMatchRepo.getMatchHistory).toHaveBeenCalledWith("guild1");
+				expect(mockPlayerRepo.resetRatings).toHaveBeenCalledWith("guild1");
+				const [guildId, updates] = vi.mocked(mockPlayerRepo.updateRatings).mock
+					.calls[0]!;
+				expect(guildId).toBe("guild1");
+				const a = updates.find((u) => u.id === "a")!;
+				expect(a.ratedMatches).toBe(2);
+				expect(a.rating).toBeGreaterThan(1520);
+				expect(updates.find((u) => u.id === "b")).toEqual({
+					id: "b",
+					rating: 1480,
+					ratedMatches: 1,
+				});
+			});
+
+			it("should read a player's rating in this server", async () => {
+				vi.mocked(mockPlayerRepo.getPlayer).mockResolvedValue({
+					id: "player1",
+					username: "user1",
+					displayName: null,
+					defaultAdr: null,
+					roles: null,
+				});
+				vi.mocked(mockPlayerRepo.getRatings).mockResolvedValue(new Map());
+
+				const rating = await tournamentService.getPlayerRating("player1");
+
+				expect(mockPlayerRepo.getRatings).toHaveBeenCalledWith("guild1", [
+					"player1",
+				]);
+				expect(rating).toMatchObject({ rating: 1500, rated_matches: 0 });
+			});
+
+			it("should mark players with few matches as provisional", async () => {
+				vi.mocked(mockPlayerRepo.getTopRatedPlayers).mockResolvedValue([
+					{
+						id: "player1",
+						username: "user1",
+						displayName: null,
+						defaultAdr: null,
+						roles: null,
+						rating: 1612.4,
+						ratedMatches: 12,
+					},
+					{
+						id: "player2",
+						username: "user2",
+						displayName: "User Two",
+						defaultAdr: null,
+						roles: null,
+						rating: 1540,
+						ratedMatches: 2,
+					},
+				]);
+
+				const result = await tournamentService.getRatingLeaderboard();
+
+				expect(mockPlayerRepo.getTopRatedPlayers).toHaveBeenCalledWith(
+					"guild1",
+					10,
+				);
+				expect(result.map((p) => p.provisional)).toEqual([false, true]);
+				expect(result[1]?.display_name).toBe("User Two");
+			});
 		});
 
 		describe("getMatches", () => {
@@ -1315,6 +3235,7 @@ describe("TournamentService - Foundation", () => {
 					mockTeamGenService,
 					mockPermissionService,
 					"Invalid/Timezone",
+					scope,
 				);
 			}).toThrow(TournamentError);
 		});
@@ -1329,6 +3250,7 @@ describe("TournamentService - Foundation", () => {
 					mockTeamGenService,
 					mockPermissionService,
 					"America/New_York",
+					scope,
 				);
 			}).not.toThrow();
 		});
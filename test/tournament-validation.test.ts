@@ -134,6 +134,27 @@ describe("Tournament Validation Schemas", () => {
 				"Optimization runs must be an integer",
 			);
 		});
+
+		it("should validate a time limit in seconds", () => {
+			const result = GenerateTeamsSchema.parse({ time: 2 });
+			expect(result.time).toBe(2);
+		});
+
+		it("should reject time limits outside 0.5 to 20 seconds", () => {
+			expect(() => GenerateTeamsSchema.parse({ time: 0.1 })).toThrow(
+				"Time limit must be at least 0.5 seconds",
+			);
+			expect(() => GenerateTeamsSchema.parse({ time: 25 })).toThrow(
+				"Time limit cannot exceed 20 seconds",
+			);
+		});
+
+		it("should validate a team mode", () => {
+			expect(GenerateTeamsSchema.parse({ mode: "premade" }).mode).toBe(
+				"premade",
+			);
+			expect(() => GenerateTeamsSchema.parse({ mode: "captains" })).toThrow();
+		});
 	});
 
 	describe("ResultMatchSchema", () => {
@@ -4,7 +4,7 @@
 declare namespace Cloudflare {
 	interface Env {
 		DISCORD_PUBLIC_KEY: "e1cc1a6ad7d4fc8da0ebbe885d4ae01233d07ccac0184d2d573e43087e0ec1ba";
-		ALLOWED_GUILD_ID: "666909502951522304";
+		ALLOWED_GUILD_IDS: "666909502951522304";
 		TOURNAMENT_TIMEZONE: "Europe/Tallinn";
 		API_KEY: string;
 		ENVIRONMENT: string;